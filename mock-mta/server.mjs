@@ -0,0 +1,480 @@
+/**
+ * Mock MTA Bus Time server for offline development and tests.
+ *
+ * Serves the OneBusAway endpoints the app uses from recorded fixtures, and
+ * SIRI stop-monitoring from a small simulation (or a recorded payload) so
+ * arrivals keep moving, most buses with passenger counts and the next bus in
+ * each direction on layover at its first stop. SIRI vehicle-monitoring only
+ * carries the service alerts in fixtures/situations.json, filtered by
+ * LineRef. Point the app at it with MTA_API_BASE_URL=http://localhost:4010
+ * and any MTA_API_KEY.
+ *
+ *   node mock-mta/server.mjs [--port 4010] [--scenario advancing] [--delay 5000] [--speed 1]
+ *
+ * Scenarios (switch at runtime with POST /__scenario?name=<scenario>):
+ *   advancing  buses move along each route in real time (default)
+ *   recorded   replays fixtures/stop-monitoring.json, shifted to the current time
+ *   empty      stop-monitoring returns no visits, vehicle-monitoring no situations
+ *   error      every endpoint responds 500
+ *   malformed  every endpoint responds 200 with truncated JSON
+ *   slow       like advancing, but each response waits --delay ms first
+ */
+
+import http from 'node:http';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export const SCENARIOS = ['advancing', 'recorded', 'empty', 'error', 'malformed', 'slow'];
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+/** Simulated minutes between consecutive stops */
+const MINUTES_PER_STOP = 2;
+
+/** Simulated minutes between buses in the same direction */
+const HEADWAY_MINUTES = 6;
+
+/** Fraction of a stop within which a bus counts as "at stop" */
+const AT_STOP_THRESHOLD = 0.1;
+
+/** Seated plus standing capacity MTA reports for a standard bus */
+const BUS_CAPACITY = 65;
+
+function loadFixtures(dir) {
+  const read = (name) => JSON.parse(readFileSync(path.join(dir, name), 'utf8'));
+  return {
+    routesForAgency: read('routes-for-agency.json'),
+    route: read('route.json'),
+    stopsForRoute: read('stops-for-route.json'),
+    stopsForLocation: read('stops-for-location.json'),
+    stop: read('stop.json'),
+    stopMonitoring: read('stop-monitoring.json'),
+    situations: read('situations.json'),
+  };
+}
+
+/**
+ * Flatten stops-for-route fixtures into ordered stop lists per line direction.
+ */
+function buildDirections(stopsForRoute) {
+  const directions = [];
+  for (const [lineRef, response] of Object.entries(stopsForRoute)) {
+    const stops = new Map(response.data.references.stops.map((stop) => [stop.id, stop]));
+    const route = response.data.references.routes?.[0];
+    for (const grouping of response.data.entry.stopGroupings) {
+      for (const group of grouping.stopGroups) {
+        directions.push({
+          lineRef,
+          directionRef: String(group.id),
+          publishedLineName: route?.shortName ?? lineRef.replace(/^MTA NYCT_/, ''),
+          destinationName: group.name.name,
+          stops: group.stopIds.map((id) => stops.get(id)),
+          vehicleBase: 4000 + directions.length * 200,
+        });
+      }
+    }
+  }
+  return directions;
+}
+
+/**
+ * Deterministic per-trip pace so predictions drift from what actually happens,
+ * like real traffic. Ranges from 10% fast to 10% slow.
+ */
+function tripPace(trip) {
+  return 1 + ((((trip * 37) % 11) + 11) % 11 - 5) / 50;
+}
+
+/**
+ * Deterministic per-trip passenger count, so some buses are crowded and the
+ * one behind is often emptier. Every fifth trip has no counter.
+ */
+function tripPassengers(trip) {
+  const slot = ((trip % 5) + 5) % 5;
+  return slot === 4 ? null : [12, 58, 30, 45][slot];
+}
+
+function mtaOccupancy(passengers) {
+  if (passengers / BUS_CAPACITY < 0.6) return 'seatsAvailable';
+  return passengers / BUS_CAPACITY < 0.9 ? 'standingAvailable' : 'full';
+}
+
+/** MTA reports bearing in degrees counter-clockwise from east */
+function mtaBearing(from, to) {
+  const dy = to.lat - from.lat;
+  const dx = (to.lon - from.lon) * Math.cos((from.lat * Math.PI) / 180);
+  const degrees = (Math.atan2(dy, dx) * 180) / Math.PI;
+  return Math.round((((degrees % 360) + 360) % 360) * 10) / 10;
+}
+
+function presentableDistance(stopsAway, fraction) {
+  if (stopsAway === 0) return fraction < AT_STOP_THRESHOLD ? 'at stop' : 'approaching';
+  return stopsAway === 1 ? '1 stop away' : `${stopsAway} stops away`;
+}
+
+function siriEnvelope(visits, now) {
+  const timestamp = new Date(now).toISOString();
+  return {
+    Siri: {
+      ServiceDelivery: {
+        ResponseTimestamp: timestamp,
+        StopMonitoringDelivery: [{
+          MonitoredStopVisit: visits,
+          ResponseTimestamp: timestamp,
+          ValidUntil: new Date(now + 60000).toISOString(),
+        }],
+        SituationExchangeDelivery: [],
+      },
+    },
+  };
+}
+
+/**
+ * Build the visits for one stop from the simulation. Trip k leaves the first
+ * stop at k * HEADWAY_MINUTES simulated minutes past the epoch and runs at its
+ * own pace; predictions assume the nominal pace, schedules assume no delay.
+ * Until then it waits at the first stop on layover.
+ */
+function simulateVisits(directions, monitoringRef, lineRef, realNow, simNowMinutes, speed) {
+  const visits = [];
+  const toRealIso = (simMinutes) => new Date(realNow + ((simMinutes - simNowMinutes) * 60000) / speed).toISOString();
+
+  for (const direction of directions) {
+    if (lineRef && direction.lineRef !== lineRef) continue;
+    const target = direction.stops.findIndex((stop) => stop.id === monitoringRef);
+    if (target === -1) continue;
+
+    const lastStop = direction.stops.length - 1;
+    const runMinutes = lastStop * MINUTES_PER_STOP * 1.1;
+    const firstTrip = Math.floor((simNowMinutes - runMinutes) / HEADWAY_MINUTES);
+    const layoverTrip = Math.floor(simNowMinutes / HEADWAY_MINUTES) + 1;
+
+    for (let trip = layoverTrip; trip >= firstTrip; trip--) {
+      const departedAt = trip * HEADWAY_MINUTES;
+      const layover = departedAt > simNowMinutes;
+      const position = Math.max(0, (simNowMinutes - departedAt) / (MINUTES_PER_STOP * tripPace(trip)));
+      if (position > target) continue;
+      const startsAt = Math.max(simNowMinutes, departedAt);
+
+      const index = Math.min(Math.floor(position), lastStop - 1);
+      const fraction = position - index;
+      const from = direction.stops[index];
+      const to = direction.stops[index + 1];
+      const nextStop = fraction < AT_STOP_THRESHOLD ? index : index + 1;
+
+      const call = (stopIndex) => {
+        const remaining = Math.max(0, stopIndex - position);
+        const stopsFromCall = Math.max(0, stopIndex - nextStop);
+        return {
+          StopPointRef: direction.stops[stopIndex].id,
+          StopPointName: [direction.stops[stopIndex].name],
+          ExpectedArrivalTime: toRealIso(startsAt + remaining * MINUTES_PER_STOP),
+          AimedArrivalTime: toRealIso(departedAt + stopIndex * MINUTES_PER_STOP),
+          Extensions: {
+            Distances: {
+              PresentableDistance: presentableDistance(stopsFromCall, remaining),
+              DistanceFromCall: Math.round(remaining * 500),
+              StopsFromCall: stopsFromCall,
+              CallDistanceAlongRoute: stopIndex * 500,
+            },
+          },
+        };
+      };
+
+      const monitoredCall = call(target);
+      const stopsAway = monitoredCall.Extensions.Distances.StopsFromCall;
+      const passengers = tripPassengers(trip);
+      if (passengers !== null) {
+        monitoredCall.Extensions.Capacities = {
+          EstimatedPassengerCount: passengers,
+          EstimatedPassengerCapacity: BUS_CAPACITY,
+        };
+      }
+      const onwardCalls = [];
+      for (let stopIndex = nextStop; stopIndex <= lastStop; stopIndex++) onwardCalls.push(call(stopIndex));
+
+      visits.push({
+        RecordedAtTime: new Date(realNow - 15000).toISOString(),
+        MonitoringRef: monitoringRef,
+        MonitoredVehicleJourney: {
+          LineRef: direction.lineRef,
+          DirectionRef: direction.directionRef,
+          PublishedLineName: [direction.publishedLineName],
+          OperatorRef: 'MTA NYCT',
+          OriginRef: direction.stops[0].id,
+          DestinationRef: direction.stops[lastStop].id,
+          DestinationName: [direction.destinationName],
+          Monitored: true,
+          VehicleLocation: {
+            Latitude: Number((from.lat + (to.lat - from.lat) * fraction).toFixed(6)),
+            Longitude: Number((from.lon + (to.lon - from.lon) * fraction).toFixed(6)),
+          },
+          Bearing: mtaBearing(from, to),
+          ...(passengers !== null && { Occupancy: mtaOccupancy(passengers) }),
+          ProgressRate: layover ? 'noProgress' : 'normalProgress',
+          ...(layover && {
+            ProgressStatus: ['layover'],
+            OriginAimedDepartureTime: toRealIso(departedAt),
+          }),
+          VehicleRef: `MTA NYCT_${direction.vehicleBase + (((trip % 200) + 200) % 200)}`,
+          MonitoredCall: {
+            ...monitoredCall,
+            VisitNumber: 1,
+            NumberOfStopsAway: stopsAway,
+            ArrivalProximityText: monitoredCall.Extensions.Distances.PresentableDistance,
+          },
+          OnwardCalls: { OnwardCall: onwardCalls },
+        },
+      });
+    }
+  }
+
+  return visits.sort((a, b) =>
+    a.MonitoredVehicleJourney.MonitoredCall.ExpectedArrivalTime.localeCompare(
+      b.MonitoredVehicleJourney.MonitoredCall.ExpectedArrivalTime
+    )
+  );
+}
+
+/**
+ * Replay the recorded payload as if it had just been captured.
+ */
+function replayRecording(recording, lineRef, realNow) {
+  const recordedAt = new Date(recording.Siri.ServiceDelivery.ResponseTimestamp).getTime();
+  const offset = realNow - recordedAt;
+  const shifted = JSON.parse(JSON.stringify(recording), (key, value) =>
+    typeof value === 'string' && /(Time|Timestamp|ValidUntil)$/.test(key)
+      ? new Date(new Date(value).getTime() + offset).toISOString()
+      : value
+  );
+  const delivery = shifted.Siri.ServiceDelivery.StopMonitoringDelivery[0];
+  if (lineRef) {
+    delivery.MonitoredStopVisit = delivery.MonitoredStopVisit.filter(
+      (visit) => visit.MonitoredVehicleJourney.LineRef === lineRef
+    );
+  }
+  return shifted;
+}
+
+function notFound(text = 'resource not found') {
+  return { status: 404, body: { code: 404, currentTime: Date.now(), text, version: 2 } };
+}
+
+function jsonResponse(status, body, malformed = false) {
+  const json = JSON.stringify(body);
+  return {
+    status,
+    contentType: 'application/json',
+    body: malformed ? json.slice(0, Math.floor(json.length / 2)) : json,
+  };
+}
+
+/**
+ * @typedef {object} MockMtaOptions
+ * @property {string} [scenario] One of SCENARIOS; defaults to 'advancing'
+ * @property {string} [fixturesDir]
+ * @property {number} [delayMs] Response delay for the slow scenario
+ * @property {number} [speed] Simulation clock multiplier
+ * @property {() => number} [now] Clock, in epoch milliseconds
+ */
+
+/**
+ * Create the mock's request handler without binding a port, so tests can
+ * route a stubbed fetch straight into it.
+ * @param {MockMtaOptions} [options]
+ */
+export function createMockMta(options = {}) {
+  const fixtures = loadFixtures(options.fixturesDir ?? FIXTURES_DIR);
+  const directions = buildDirections(fixtures.stopsForRoute);
+  const initialScenario = options.scenario ?? 'advancing';
+  const delayMs = options.delayMs ?? 5000;
+  const speed = options.speed ?? 1;
+  const now = options.now ?? (() => Date.now());
+
+  if (!SCENARIOS.includes(initialScenario)) {
+    throw new Error(`Unknown scenario "${initialScenario}". Expected one of: ${SCENARIOS.join(', ')}`);
+  }
+
+  let scenario = initialScenario;
+  let startedAt = now();
+
+  function stopMonitoring(params) {
+    const monitoringRef = params.get('MonitoringRef');
+    const lineRef = params.get('LineRef');
+    const realNow = now();
+
+    if (scenario === 'recorded') return replayRecording(fixtures.stopMonitoring, lineRef, realNow);
+    if (scenario === 'empty') return siriEnvelope([], realNow);
+
+    // Simulated time runs `speed` times faster than the wall clock since start
+    const simNowMinutes = (startedAt + (realNow - startedAt) * speed) / 60000;
+    return siriEnvelope(simulateVisits(directions, monitoringRef, lineRef, realNow, simNowMinutes, speed), realNow);
+  }
+
+  function vehicleMonitoring(params) {
+    const lineRef = params.get('LineRef');
+    const timestamp = new Date(now()).toISOString();
+    const situations = fixtures.situations.filter((situation) => {
+      const journeys = situation.Affects?.VehicleJourneys?.AffectedVehicleJourney ?? [];
+      return !lineRef || journeys.some((journey) => journey.LineRef === lineRef);
+    });
+
+    return {
+      Siri: {
+        ServiceDelivery: {
+          ResponseTimestamp: timestamp,
+          VehicleMonitoringDelivery: [{ VehicleActivity: [], ResponseTimestamp: timestamp }],
+          SituationExchangeDelivery: scenario === 'empty' || situations.length === 0
+            ? []
+            : [{ Situations: { PtSituationElement: situations } }],
+        },
+      },
+    };
+  }
+
+  function route(pathname, params) {
+    let match;
+
+    if (pathname === '/api/siri/vehicle-monitoring.json') {
+      return { status: 200, body: vehicleMonitoring(params) };
+    }
+
+    if (pathname === '/api/siri/stop-monitoring.json') {
+      if (!params.get('MonitoringRef')) return { status: 400, body: { error: 'MonitoringRef is required' } };
+      return { status: 200, body: stopMonitoring(params) };
+    }
+
+    if ((match = pathname.match(/^\/api\/where\/routes-for-agency\/([^/]+)\.json$/))) {
+      return match[1] === 'MTA NYCT'
+        ? { status: 200, body: fixtures.routesForAgency }
+        : notFound();
+    }
+
+    if ((match = pathname.match(/^\/api\/where\/route\/([^/]+)\.json$/))) {
+      const body = fixtures.route[match[1]];
+      return body ? { status: 200, body } : notFound();
+    }
+
+    if ((match = pathname.match(/^\/api\/where\/stops-for-route\/([^/]+)\.json$/))) {
+      const body = fixtures.stopsForRoute[match[1]];
+      return body ? { status: 200, body } : notFound();
+    }
+
+    if (pathname === '/api/where/stops-for-location.json') {
+      return { status: 200, body: fixtures.stopsForLocation };
+    }
+
+    if ((match = pathname.match(/^\/api\/where\/stop\/([^/]+)\.json$/))) {
+      const body = fixtures.stop[match[1]];
+      if (!body) return notFound();
+      if (params.get('version') === '2') return { status: 200, body };
+      // Version 1 puts the stop directly under `data`, with its routes inline
+      return {
+        status: 200,
+        body: {
+          code: 200,
+          currentTime: body.currentTime,
+          text: 'OK',
+          version: 1,
+          data: { ...body.data.entry, routes: body.data.references.routes },
+        },
+      };
+    }
+
+    return notFound(`no mock for ${pathname}`);
+  }
+
+  return {
+    get scenario() {
+      return scenario;
+    },
+
+    /** @param {string} name */
+    setScenario(name) {
+      if (!SCENARIOS.includes(name)) {
+        throw new Error(`Unknown scenario "${name}". Expected one of: ${SCENARIOS.join(', ')}`);
+      }
+      scenario = name;
+    },
+
+    reset() {
+      scenario = initialScenario;
+      startedAt = now();
+    },
+
+    /**
+     * Answer one request. Resolves to `{ status, contentType, body }` with the
+     * body as text, since the malformed scenario can't be represented as JSON.
+     * @param {string} method
+     * @param {string} requestUrl
+     * @returns {Promise<{ status: number, contentType: string, body: string }>}
+     */
+    async handle(method, requestUrl) {
+      const url = new URL(requestUrl, 'http://localhost');
+      const pathname = decodeURIComponent(url.pathname);
+
+      if (pathname === '/__scenario') {
+        if (method === 'POST') {
+          const name = url.searchParams.get('name');
+          if (!SCENARIOS.includes(name)) {
+            return jsonResponse(400, { error: `Unknown scenario. Expected one of: ${SCENARIOS.join(', ')}` });
+          }
+          scenario = name;
+        }
+        return jsonResponse(200, { scenario });
+      }
+
+      if (pathname === '/__reset') {
+        this.reset();
+        return jsonResponse(200, { scenario });
+      }
+
+      if (scenario === 'error') {
+        return { status: 500, contentType: 'text/plain', body: 'Internal Server Error' };
+      }
+
+      const { status, body } = route(pathname, url.searchParams);
+      if (scenario === 'slow') {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+      return jsonResponse(status, body, scenario === 'malformed');
+    },
+  };
+}
+
+/**
+ * Create (but don't start) a mock server. Call `.listen(port)` on the result.
+ * @param {MockMtaOptions} [options]
+ */
+export function createMockMtaServer(options = {}) {
+  const mock = createMockMta(options);
+  return http.createServer(async (req, res) => {
+    const { status, contentType, body } = await mock.handle(req.method ?? 'GET', req.url ?? '/');
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(body);
+  });
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--([a-z-]+)(?:=(.*))?$/);
+    if (!match) continue;
+    args[match[1]] = match[2] ?? argv[++i];
+  }
+  return args;
+}
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const args = parseArgs(process.argv.slice(2));
+  const port = Number(args.port ?? process.env.MOCK_MTA_PORT ?? 4010);
+  const server = createMockMtaServer({
+    scenario: args.scenario ?? process.env.MOCK_MTA_SCENARIO,
+    delayMs: Number(args.delay ?? process.env.MOCK_MTA_DELAY_MS ?? 5000),
+    speed: Number(args.speed ?? process.env.MOCK_MTA_SPEED ?? 1),
+  });
+  server.listen(port, () => {
+    console.info(`Mock MTA Bus Time listening on http://localhost:${port}`);
+  });
+}
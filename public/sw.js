@@ -0,0 +1,167 @@
+// Service worker: offline app shell, last-known API responses, and leave
+// alerts pushed by the server-side watcher.
+
+const SHELL_CACHE = 'bus-tracker-shell-v1';
+const API_CACHE = 'bus-tracker-api-v1';
+const STATIC_URLS = ['/manifest.webmanifest', '/icon-192.png', '/icon-512.png'];
+const SHELL_URLS = ['/', ...STATIC_URLS];
+
+// Responses worth keeping for offline use. Stop lists and line info change
+// rarely; bus times are served back marked stale.
+const CACHED_API_PATHS = ['/api/bus-stops', '/api/bus-lines/info'];
+const ARRIVALS_API_PATHS = ['/api/bus-times', '/api/bus-times/transfer'];
+
+const FETCHED_AT_HEADER = 'x-sw-fetched-at';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key !== SHELL_CACHE && key !== API_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function putWithTimestamp(cacheName, request, response) {
+  const headers = new Headers(response.headers);
+  headers.set(FETCHED_AT_HEADER, new Date().toISOString());
+  const body = await response.blob();
+  const cache = await caches.open(cacheName);
+  await cache.put(request, new Response(body, { status: response.status, statusText: response.statusText, headers }));
+}
+
+// Network first, keeping the latest successful response for offline use
+async function networkFirst(request, cacheName) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await putWithTimestamp(cacheName, request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request, { cacheName });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Arrivals: on network failure (or a server error), hand back the last good
+// payload with `stale` and `fetchedAt` added so the UI can say so. Client
+// errors such as 400 and 429 pass through; the cache can't fix those
+async function arrivalsWithStaleFallback(request) {
+  let response;
+  try {
+    response = await fetch(request);
+    if (response.ok) {
+      await putWithTimestamp(API_CACHE, request, response.clone());
+      return response;
+    }
+    if (response.status < 500) return response;
+  } catch {
+    response = null;
+  }
+
+  const cached = await caches.match(request, { cacheName: API_CACHE });
+  if (!cached) {
+    return response || Response.json({ success: false, error: 'Offline' }, { status: 503 });
+  }
+
+  const payload = await cached.json();
+  const fetchedAt = cached.headers.get(FETCHED_AT_HEADER);
+  if (payload && payload.success && payload.data) {
+    payload.data.stale = true;
+    payload.data.fetchedAt = fetchedAt;
+  }
+  return Response.json(payload);
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Pages: network first, falling back to the cached shell. Route state lives
+// in the query string, so any cached "/" can stand in for it.
+async function navigate(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok && new URL(request.url).pathname === '/') {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/', { cacheName: SHELL_CACHE });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(navigate(request));
+  } else if (ARRIVALS_API_PATHS.includes(url.pathname)) {
+    event.respondWith(arrivalsWithStaleFallback(request));
+  } else if (CACHED_API_PATHS.includes(url.pathname)) {
+    event.respondWith(networkFirst(request, API_CACHE));
+  } else if (url.pathname.startsWith('/_next/static/') || STATIC_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { title: 'Bus Time', body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'Bus Time', {
+      body: message.body,
+      tag: message.tag,
+      data: { url: message.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      for (const client of clients) {
+        if ('focus' in client) {
+          client.navigate(url);
+          return client.focus();
+        }
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
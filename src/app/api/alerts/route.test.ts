@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+import { apiRequest, stubMtaFetch } from '@/test/mockMta';
+import { ServiceAlert } from '@/types';
+
+const PATH = '/api/alerts?busLine=MTA%20NYCT_B44&originId=MTA_303244&destinationId=MTA_303247';
+
+describe('GET /api/alerts', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-10-18T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns current alerts for the line, stop closures first', async () => {
+    const { fetch } = stubMtaFetch();
+
+    const response = await GET(apiRequest(PATH));
+    const alerts: ServiceAlert[] = (await response.json()).data.alerts;
+
+    expect(response.status).toBe(200);
+    expect(alerts.map(alert => [alert.id, alert.severity, alert.affectsSelectedStops])).toEqual([
+      ['MTA NYCT_lmm:alert:40115', 'severe', true],
+      ['MTA NYCT_lmm:planned_work:18702', 'warning', false],
+    ]);
+    expect(alerts[1].activePeriods).toEqual([{ start: '2025-10-14T09:00:00.000Z', end: '2025-11-21T22:00:00.000Z' }]);
+    expect(String(fetch.mock.calls[0][0])).toContain('/api/siri/vehicle-monitoring.json');
+  });
+
+  it('returns no alerts when there are none', async () => {
+    stubMtaFetch({ scenario: 'empty' });
+
+    const body = await (await GET(apiRequest(PATH))).json();
+
+    expect(body).toEqual({ success: true, data: { alerts: [] } });
+  });
+
+  it('returns 500 when the MTA fails', async () => {
+    stubMtaFetch({ scenario: 'error' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest(PATH));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ success: false, error: 'Failed to fetch service alerts' });
+  });
+
+  it('rejects a missing destination', async () => {
+    const { fetch } = stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/alerts?busLine=MTA%20NYCT_B44&originId=MTA_303244'));
+
+    expect(response.status).toBe(400);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('returns 503 without an API key', async () => {
+    stubMtaFetch();
+    vi.stubEnv('MTA_API_KEY', '');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest(PATH));
+
+    expect(response.status).toBe(503);
+  });
+});
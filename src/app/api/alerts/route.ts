@@ -0,0 +1,69 @@
+// src/app/api/alerts/route.ts
+import { NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { validateBusLineId, validateStopId, ValidationError, isRateLimited, getClientId } from '@/lib/validation';
+import { getTransitProvider, transitProviderUnavailable } from '@/lib/transit-provider';
+import { selectAlerts } from '@/lib/service-alerts';
+import { AlertsData, ApiResponse } from '@/types';
+
+// Rate limiting storage
+const requestMap = new Map<string, number[]>();
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * Current service alerts (detours, stop closures, reroutes) for a line,
+ * with those naming the origin or destination flagged and listed first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const clientId = getClientId(request);
+    if (isRateLimited(requestMap, clientId, 60)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    let busLine: string, originId: string, destinationId: string;
+    try {
+      busLine = validateBusLineId(searchParams.get("busLine"));
+      originId = validateStopId(searchParams.get("originId"));
+      destinationId = validateStopId(searchParams.get("destinationId"));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const provider = getTransitProvider();
+    if (!provider) return transitProviderUnavailable();
+
+    const stopIds = [originId, destinationId];
+    const alerts = provider.getAlerts ? await provider.getAlerts(busLine, stopIds) : [];
+
+    const apiResponse: ApiResponse<AlertsData> = {
+      success: true,
+      data: { alerts: selectAlerts(alerts, busLine, stopIds) },
+    };
+
+    return NextResponse.json(apiResponse);
+  } catch (error) {
+    console.error("Error fetching service alerts:", {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      url: request.url,
+      timestamp: new Date().toISOString()
+    });
+
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch service alerts" },
+      { status: 500 }
+    );
+  }
+}
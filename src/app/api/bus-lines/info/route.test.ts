@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+import { apiRequest, stubMtaFetch } from '@/test/mockMta';
+
+describe('GET /api/bus-lines/info', () => {
+  it('returns the line', async () => {
+    stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/bus-lines/info?busLineId=MTA%20NYCT_B44'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      data: {
+        busLine: {
+          id: 'MTA NYCT_B44',
+          shortName: 'B44',
+          longName: 'Sheepshead Bay - Williamsburg',
+          description: 'via Nostrand Av / Rogers Av',
+          agencyId: 'MTA NYCT',
+        },
+      },
+    });
+  });
+
+  it('accepts lineId as an alias', async () => {
+    stubMtaFetch();
+
+    const body = await (await GET(apiRequest('/api/bus-lines/info?lineId=MTA%20NYCT_B49'))).json();
+
+    expect(body.data.busLine.shortName).toBe('B49');
+  });
+
+  it('returns 404 for an unknown line', async () => {
+    stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/bus-lines/info?busLineId=MTA%20NYCT_X99'));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ success: false, error: 'Bus line not found' });
+  });
+
+  it('rejects a missing line ID', async () => {
+    stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/bus-lines/info'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 500 when the MTA fails', async () => {
+    stubMtaFetch({ scenario: 'error' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest('/api/bus-lines/info?busLineId=MTA%20NYCT_B44'));
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { NextRequest } from "next/server";
 import { validateBusLineId, ValidationError, isRateLimited, getClientId } from '@/lib/validation';
-import { BusLine, ApiRoute, ApiResponse } from '@/types';
+import { BusLine, ApiResponse } from '@/types';
+import { getTransitProvider, transitProviderUnavailable } from '@/lib/transit-provider';
 
 // Route Segment Config for Next.js caching
 export const revalidate = 1800; // 30 minutes in seconds
@@ -37,39 +38,10 @@ export async function GET(request: NextRequest) {
       throw error;
     }
 
-    // Validate API key exists
-    const apiKey = process.env.MTA_API_KEY;
-    if (!apiKey) {
-      console.error('MTA_API_KEY environment variable is not set');
-      return NextResponse.json(
-        { success: false, error: 'Service temporarily unavailable' },
-        { status: 503 }
-      );
-    }
-
-    // Use the OneBusAway API to get a single route by ID
-    const url = `https://bustime.mta.info/api/where/route/${encodeURIComponent(lineId)}.json?key=${apiKey}`;
-
-    const response = await fetch(url, {
-      cache: "no-store", // Ensures the fetch is fresh when revalidation occurs
-    });
-
-    if (response.status === 404) {
-      const errorResponse: ApiResponse<never> = {
-        success: false,
-        error: "Bus line not found"
-      };
-      return NextResponse.json(errorResponse, { status: 404 });
-    }
+    const provider = getTransitProvider();
+    if (!provider) return transitProviderUnavailable();
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch bus line: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // Extract the route from the response
-    const busLine: ApiRoute | undefined = data.data?.entry;
+    const busLine = await provider.getLine(lineId);
 
     if (!busLine) {
       const errorResponse: ApiResponse<never> = {
@@ -79,18 +51,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(errorResponse, { status: 404 });
     }
 
-    // Return the bus line details
-    const busLineData: BusLine = {
-      id: busLine.id,
-      shortName: busLine.shortName,
-      longName: busLine.longName,
-      description: busLine.description,
-      agencyId: busLine.agencyId,
-    };
-    
     const apiResponse: ApiResponse<{ busLine: BusLine }> = {
       success: true,
-      data: { busLine: busLineData }
+      data: { busLine }
     };
     
     return NextResponse.json(apiResponse);
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+import { apiRequest, stubMtaFetch } from '@/test/mockMta';
+
+describe('GET /api/bus-lines/nearby', () => {
+  it('returns lines serving nearby stops, closest first', async () => {
+    stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/bus-lines/nearby?lat=40.6508&lon=-73.9496'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    const lines = body.data.busLines as Array<{ id: string; distance: number; closestStop: { name: string } }>;
+    expect(lines.map(line => line.id)).toEqual(['MTA NYCT_B44', 'MTA NYCT_B44+', 'MTA NYCT_B49']);
+    expect(lines[0].closestStop.name).toBe('NOSTRAND AV/CHURCH AV');
+    expect(lines.map(line => line.distance)).toEqual([...lines.map(line => line.distance)].sort((a, b) => a - b));
+  });
+
+  it('rejects invalid coordinates', async () => {
+    const { fetch } = stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/bus-lines/nearby?lat=140&lon=-73.9496'));
+
+    expect(response.status).toBe(400);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when the MTA fails', async () => {
+    stubMtaFetch({ scenario: 'error' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest('/api/bus-lines/nearby?lat=40.6508&lon=-73.9496'));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ success: false, error: 'Failed to fetch nearby bus lines' });
+  });
+});
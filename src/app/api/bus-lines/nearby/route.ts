@@ -1,8 +1,8 @@
 import { NextResponse } from "next/server";
 import { NextRequest } from "next/server";
 import { validateCoordinates, ValidationError, isRateLimited, getClientId } from '@/lib/validation';
-import { calculateDistance } from '@/lib/geo';
-import { BusLine, NearbyBusLine, ApiResponse } from '@/types';
+import { NearbyBusLine, ApiResponse } from '@/types';
+import { getTransitProvider, transitProviderUnavailable } from '@/lib/transit-provider';
 
 // Rate limiting storage
 const requestMap = new Map<string, number[]>();
@@ -38,94 +38,11 @@ export async function GET(request: NextRequest) {
 
     const { lat, lon } = coordinates;
 
-    // Validate API key exists
-    const apiKey = process.env.MTA_API_KEY;
-    if (!apiKey) {
-      console.error('MTA_API_KEY environment variable is not set');
-      return NextResponse.json(
-        { success: false, error: 'Service temporarily unavailable' },
-        { status: 503 }
-      );
-    }
-
-    // First, get all bus stops within 500 meters of the location
-    const stopsResponse = await fetch(
-      `https://bustime.mta.info/api/where/stops-for-location.json?lat=${lat}&lon=${lon}&radius=500&key=${apiKey}`,
-      {
-        headers: {
-          "Cache-Control": "no-cache",
-        },
-      }
-    );
-
-    if (!stopsResponse.ok) {
-      throw new Error("Failed to fetch nearby stops");
-    }
-
-    const stopsData = await stopsResponse.json();
-
-    // Get unique routes and their details from the stops data
-    const routeMap = new Map<string, BusLine>();
-    const stopsByRoute = new Map<
-      string,
-      Array<{ name: string; distance: number }>
-    >();
-
-    // Process stops and collect route information
-    const stops = stopsData?.data?.stops || [];
-    for (const stop of stops) {
-      const distance = calculateDistance(lat, lon, stop.lat, stop.lon);
-
-      if (stop.routes) {
-        for (const route of stop.routes) {
-          // Store route details
-          if (!routeMap.has(route.id)) {
-            routeMap.set(route.id, {
-              id: route.id,
-              shortName: route.shortName,
-              longName: route.longName,
-              description: route.description,
-              agencyId: route.agency?.id || "",
-            });
-          }
-
-          // Store stop information for this route
-          if (!stopsByRoute.has(route.id)) {
-            stopsByRoute.set(route.id, []);
-          }
-          stopsByRoute.get(route.id)?.push({
-            name: stop.name,
-            distance: distance,
-          });
-        }
-      }
-    }
-
-    // Convert routes to array with distance information
-    const routes: NearbyBusLine[] = [];
-    for (const [routeId, route] of routeMap) {
-      const stops = stopsByRoute.get(routeId) || [];
-      if (stops.length > 0) {
-        // Find the closest stop for this route
-        const closestStop = stops.reduce((min, curr) =>
-          curr.distance < min.distance ? curr : min
-        );
-
-        routes.push({
-          ...route,
-          distance: closestStop.distance,
-          closestStop: {
-            name: closestStop.name,
-            distance: closestStop.distance,
-          },
-        });
-      }
-    }
+    const provider = getTransitProvider();
+    if (!provider) return transitProviderUnavailable();
 
-    // Sort by distance and return the 5 closest
-    const nearbyRoutes = routes
-      .sort((a, b) => a.distance - b.distance)
-      .slice(0, 5);
+    // Lines serving stops within 500 meters, the 5 closest first
+    const nearbyRoutes = await provider.getNearby(lat, lon, { radiusMeters: 500, limit: 5 });
 
     const apiResponse: ApiResponse<{ busLines: NearbyBusLine[] }> = {
       success: true,
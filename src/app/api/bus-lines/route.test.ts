@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+import { apiRequest, stubMtaFetch } from '@/test/mockMta';
+
+describe('GET /api/bus-lines', () => {
+  it('lists lines sorted by short name', async () => {
+    stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/bus-lines'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.busLines.map((line: { shortName: string }) => line.shortName))
+      .toEqual(['B41', 'B44', 'B44-SBS', 'B49', 'B6', 'M15', 'M15-SBS', 'Q58']);
+  });
+
+  it('filters by name or description', async () => {
+    stubMtaFetch();
+
+    const byName = await (await GET(apiRequest('/api/bus-lines?q=b44'))).json();
+    const byDescription = await (await GET(apiRequest('/api/bus-lines?q=ocean'))).json();
+
+    expect(byName.data.busLines.map((line: { id: string }) => line.id)).toEqual(['MTA NYCT_B44', 'MTA NYCT_B44+']);
+    expect(byDescription.data.busLines).toEqual([{
+      id: 'MTA NYCT_B49',
+      shortName: 'B49',
+      longName: 'Manhattan Beach - Fulton St',
+      description: 'via Ocean Av / Bedford Av',
+      agencyId: 'MTA NYCT',
+    }]);
+  });
+
+  it('rejects an invalid query', async () => {
+    const { fetch } = stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/bus-lines?q=%3Cscript%3E'));
+
+    expect(response.status).toBe(400);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('returns 503 without an API key', async () => {
+    stubMtaFetch();
+    vi.stubEnv('MTA_API_KEY', '');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest('/api/bus-lines'));
+
+    expect(response.status).toBe(503);
+  });
+
+  it.each(['error', 'malformed'])('returns 500 when the MTA responds with %s', async (scenario) => {
+    stubMtaFetch({ scenario });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest('/api/bus-lines'));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ success: false, error: 'Failed to fetch bus lines' });
+  });
+});
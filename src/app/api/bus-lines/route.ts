@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { NextRequest } from "next/server";
 import { validateSearchQuery, sanitizeSearchQuery, ValidationError, isRateLimited, getClientId } from '@/lib/validation';
-import { BusLine, ApiRoute, ApiResponse } from '@/types';
+import { BusLine, ApiResponse } from '@/types';
+import { getTransitProvider, transitProviderUnavailable } from '@/lib/transit-provider';
 
 // Route Segment Config for Next.js caching
 export const revalidate = 1800; // 30 minutes in seconds
@@ -41,50 +42,10 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Validate API key exists
-    const apiKey = process.env.MTA_API_KEY;
-    if (!apiKey) {
-      console.error('MTA_API_KEY environment variable is not set');
-      return NextResponse.json(
-        { success: false, error: 'Service temporarily unavailable' },
-        { status: 503 }
-      );
-    }
-
-    // Use the OneBusAway API to get all bus routes
-    const url = `https://bustime.mta.info/api/where/routes-for-agency/MTA%20NYCT.json?key=${apiKey}`;
-
-    const response = await fetch(url, {
-      cache: "no-store", // Ensures the fetch is fresh when revalidation occurs
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch bus lines: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // Extract routes from the response
-    const routes = data.data?.list || [];
+    const provider = getTransitProvider();
+    if (!provider) return transitProviderUnavailable();
 
-    // Map to a simpler format and filter by query if provided
-    const busLines: BusLine[] = routes
-      .map((route: ApiRoute) => ({
-        id: route.id,
-        shortName: route.shortName,
-        longName: route.longName,
-        description: route.description,
-        agencyId: route.agencyId,
-      }))
-      .filter((line: BusLine) => {
-        if (!query) return true;
-        return (
-          line.shortName.toLowerCase().includes(query) ||
-          line.longName.toLowerCase().includes(query) ||
-          line.description.toLowerCase().includes(query)
-        );
-      })
-      .sort((a: BusLine, b: BusLine) => a.shortName.localeCompare(b.shortName));
+    const busLines = await provider.searchLines(query);
 
     const apiResponse: ApiResponse<{ busLines: BusLine[] }> = {
       success: true,
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+import { apiRequest, stubMtaFetch } from '@/test/mockMta';
+
+describe('GET /api/bus-stops/info', () => {
+  it('returns the stop', async () => {
+    stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/bus-stops/info?stopId=MTA_303244'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toMatchObject({
+      id: 'MTA_303244',
+      name: 'NOSTRAND AV/CHURCH AV',
+      lat: 40.65081,
+      lon: -73.94961,
+      direction: 'N',
+    });
+  });
+
+  it('passes through the MTA status for an unknown stop', async () => {
+    stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/bus-stops/info?stopId=MTA_999999'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('rejects an invalid stop ID', async () => {
+    stubMtaFetch();
+
+    expect((await GET(apiRequest('/api/bus-stops/info?stopId=MTA_1%3B'))).status).toBe(400);
+  });
+
+  it('returns 500 for a malformed MTA response', async () => {
+    stubMtaFetch({ scenario: 'malformed' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest('/api/bus-stops/info?stopId=MTA_303244'));
+
+    expect(response.status).toBe(500);
+  });
+});
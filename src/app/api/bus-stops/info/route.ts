@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { NextRequest } from "next/server";
 import { validateStopId, ValidationError, isRateLimited, getClientId } from '@/lib/validation';
 import { StopInfo, ApiResponse } from '@/types';
+import { getTransitProvider, transitProviderUnavailable } from '@/lib/transit-provider';
 
 // Route Segment Config for Next.js caching
 export const revalidate = 1800; // 30 minutes in seconds
@@ -37,55 +38,22 @@ export async function GET(request: NextRequest) {
       throw error;
     }
 
-    // Validate API key exists
-    const apiKey = process.env.MTA_API_KEY;
-    if (!apiKey) {
-      console.error('MTA_API_KEY environment variable is not set');
-      return NextResponse.json(
-        { success: false, error: 'Service temporarily unavailable' },
-        { status: 503 }
-      );
-    }
-
-    // Use the OneBusAway API to get stop information
-    const url = `https://bustime.mta.info/api/where/stop/${encodeURIComponent(
-      stopId
-    )}.json?key=${apiKey}`;
+    const provider = getTransitProvider();
+    if (!provider) return transitProviderUnavailable();
 
-    const response = await fetch(url, {
-      cache: "no-store", // Ensures the fetch is fresh when revalidation occurs
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: `Failed to fetch stop: ${response.status}` },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-
-    // Check for error in the API response
-    if (data.code && data.code !== 200) {
-      const errorResponse: ApiResponse<never> = {
-        success: false,
-        error: `API Error: ${data.text || "Unknown API error"}`
-      };
-      return NextResponse.json(errorResponse, { status: 500 });
-    }
+    const stop = await provider.getStop(stopId);
 
-    // Extract stop data
-    if (!data.data) {
+    if (!stop) {
       const errorResponse: ApiResponse<never> = {
         success: false,
-        error: "Missing data in API response"
+        error: "Stop not found"
       };
-      return NextResponse.json(errorResponse, { status: 500 });
+      return NextResponse.json(errorResponse, { status: 404 });
     }
 
     const apiResponse: ApiResponse<StopInfo> = {
       success: true,
-      data: data.data
+      data: stop
     };
     
     return NextResponse.json(apiResponse);
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+import { apiRequest, stubMtaFetch } from '@/test/mockMta';
+
+describe('GET /api/bus-stops', () => {
+  it('returns directions and ordered stops', async () => {
+    stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/bus-stops?lineId=MTA%20NYCT_B44'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.routeId).toBe('MTA NYCT_B44');
+    expect(body.data.directions).toEqual([
+      { id: '0', name: 'WILLIAMSBURG BRIDGE PLAZA via NOSTRAND AV' },
+      { id: '1', name: 'SHEEPSHEAD BAY EMMONS AV via ROGERS AV' },
+    ]);
+    expect(body.data.stops).toHaveLength(22);
+    expect(body.data.stops[0]).toEqual({
+      id: 'MTA_303240',
+      code: '303240',
+      name: 'NOSTRAND AV/AV Z',
+      direction: 'WILLIAMSBURG BRIDGE PLAZA via NOSTRAND AV',
+      sequence: 1,
+      lat: 40.58802,
+      lon: -73.94301,
+    });
+    expect(body.data.shapes).toBeUndefined();
+  });
+
+  it('includes route shapes on request', async () => {
+    stubMtaFetch();
+
+    const body = await (await GET(apiRequest('/api/bus-stops?lineId=MTA%20NYCT_B44&shapes=true'))).json();
+
+    expect(body.data.shapes.map((shape: { directionId: string }) => shape.directionId)).toEqual(['0', '1']);
+    expect(body.data.shapes[0].paths[0][0]).toEqual([40.58802, -73.94301]);
+    expect(body.data.shapes[0].lengthMiles).toBeGreaterThan(8);
+  });
+
+  it('passes through the MTA status for an unknown line', async () => {
+    stubMtaFetch();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest('/api/bus-stops?lineId=MTA%20NYCT_X99'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('rejects a missing line ID', async () => {
+    stubMtaFetch();
+
+    expect((await GET(apiRequest('/api/bus-stops'))).status).toBe(400);
+  });
+
+  it('returns 500 for a malformed MTA response', async () => {
+    stubMtaFetch({ scenario: 'malformed' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest('/api/bus-stops?lineId=MTA%20NYCT_B44'));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ success: false, error: 'Failed to fetch bus stops' });
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from './route';
+import { apiRequest, stubMtaFetch } from '@/test/mockMta';
+import { setTransitProvider, type TransitProvider } from '@/lib/transit-provider';
+import { BusData } from '@/types';
+
+const NOW = new Date('2025-10-18T12:00:00Z');
+const TRIPS = [
+  { busLine: 'MTA NYCT_B44', originId: 'MTA_303247', destinationId: 'MTA_303250' },
+  { busLine: 'MTA NYCT_B44', originId: 'MTA_303247', destinationId: 'MTA_303249' },
+  { busLine: 'MTA NYCT_B44', originId: 'MTA_303244', destinationId: 'MTA_303247' },
+];
+
+function batchRequest(trips: unknown, clientId?: string) {
+  return apiRequest('/api/bus-times/batch', { body: { trips }, clientId });
+}
+
+describe('POST /api/bus-times/batch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setTransitProvider(null);
+  });
+
+  it('returns BusData keyed by trip, one stop-monitoring call per origin', async () => {
+    const { fetch } = stubMtaFetch();
+
+    const response = await POST(batchRequest([...TRIPS, TRIPS[0]]));
+    const data: Record<string, BusData> = (await response.json()).data;
+
+    expect(response.status).toBe(200);
+    expect(Object.keys(data)).toEqual([
+      'MTA NYCT_B44|MTA_303247|MTA_303250',
+      'MTA NYCT_B44|MTA_303247|MTA_303249',
+      'MTA NYCT_B44|MTA_303244|MTA_303247',
+    ]);
+    expect(data['MTA NYCT_B44|MTA_303247|MTA_303250'].originName).toBe('NOSTRAND AV/FULTON ST');
+    expect(data['MTA NYCT_B44|MTA_303247|MTA_303250'].destinationName).toBe('LEE AV/TAYLOR ST');
+    for (const busData of Object.values(data)) {
+      expect(busData.hasError).toBe(false);
+      expect(busData.buses.length).toBeGreaterThan(0);
+      expect(busData.buses.every(bus => bus.destinationArrival && !bus.isEstimated)).toBe(true);
+    }
+
+    const stopMonitoring = fetch.mock.calls
+      .map(([url]) => new URL(String(url)))
+      .filter(url => url.pathname === '/api/siri/stop-monitoring.json');
+    expect(stopMonitoring.map(url => url.searchParams.get('MonitoringRef')).sort()).toEqual(['MTA_303244', 'MTA_303247']);
+  });
+
+  it('pairs the legs of transfer trips like /api/bus-times/transfer', async () => {
+    stubMtaFetch();
+    const transferTrip = {
+      busLine: 'MTA NYCT_B44', originId: 'MTA_303244', destinationId: 'MTA_303246',
+      transfer: { busLine: 'MTA NYCT_B49', originId: 'MTA_304416', destinationId: 'MTA_304417' },
+    };
+
+    const response = await POST(batchRequest([TRIPS[0], transferTrip]));
+    const data: Record<string, BusData> = (await response.json()).data;
+    const transfer = data['MTA NYCT_B44|MTA_303244|MTA_303246>MTA NYCT_B49|MTA_304416|MTA_304417'];
+
+    expect(response.status).toBe(200);
+    expect(data['MTA NYCT_B44|MTA_303247|MTA_303250'].transferName).toBeUndefined();
+    expect(transfer).toMatchObject({
+      originName: 'NOSTRAND AV/CHURCH AV',
+      transferName: 'NOSTRAND AV/EASTERN PKWY',
+      destinationName: 'BEDFORD AV/FULTON ST',
+      hasError: false,
+    });
+    expect(transfer.buses.length).toBeGreaterThan(0);
+    for (const bus of transfer.buses) {
+      expect(bus.transfer?.busLine).toBe('MTA NYCT_B49');
+      const arrival = new Date(bus.transfer!.transferArrival).getTime();
+      expect(new Date(bus.transfer!.departure).getTime() - arrival).toBeGreaterThanOrEqual(2 * 60000);
+    }
+  });
+
+  it('marks only the failed trips', async () => {
+    const provider: TransitProvider = {
+      id: 'fake',
+      searchLines: async () => [],
+      getLine: async () => null,
+      getStopsForLine: async () => null,
+      getStop: async () => null,
+      getNearby: async () => [],
+      getArrivals: async (_busLine, originId) => {
+        if (originId === 'MTA_303244') throw new Error('upstream down');
+        return [];
+      },
+    };
+    setTransitProvider(provider);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const data: Record<string, BusData> = (await (await POST(batchRequest(TRIPS))).json()).data;
+
+    expect(Object.values(data).map(busData => busData.hasError)).toEqual([false, false, true]);
+    expect(data['MTA NYCT_B44|MTA_303244|MTA_303247'].errorMessage).toBeTruthy();
+
+    const transferTrip = { ...TRIPS[0], transfer: TRIPS[2] };
+    const transferData: Record<string, BusData> = (await (await POST(batchRequest([transferTrip]))).json()).data;
+
+    expect(Object.values(transferData).map(busData => busData.hasError)).toEqual([true]);
+  });
+
+  it('rejects an empty or oversized batch', async () => {
+    stubMtaFetch();
+
+    expect((await POST(batchRequest([]))).status).toBe(400);
+    expect((await POST(batchRequest(Array(21).fill(TRIPS[0])))).status).toBe(400);
+    expect((await POST(batchRequest([{ busLine: 'MTA NYCT_B44', originId: 'MTA_303247' }]))).status).toBe(400);
+  });
+
+  it('rejects trips with fields of the wrong type', async () => {
+    stubMtaFetch();
+
+    const response = await POST(batchRequest([{ busLine: 5, originId: 'MTA_303247', destinationId: 'MTA_303250' }]));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('busLine must be a string');
+    expect((await POST(batchRequest([{ ...TRIPS[0], transfer: 'MTA NYCT_B49' }]))).status).toBe(400);
+    expect((await POST(batchRequest([{ ...TRIPS[0], transfer: { busLine: 'MTA NYCT_B49' } }]))).status).toBe(400);
+  });
+
+  it('rejects a body that is not JSON', async () => {
+    stubMtaFetch();
+
+    const response = await POST(apiRequest('/api/bus-times/batch', { method: 'POST', headers: { 'Content-Type': 'application/json' } }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('counts a batch as one request for rate limiting', async () => {
+    stubMtaFetch({ scenario: 'empty' });
+
+    const statuses: number[] = [];
+    for (let i = 0; i < 121; i++) {
+      statuses.push((await POST(batchRequest(TRIPS, '192.0.2.2'))).status);
+    }
+
+    expect(statuses.slice(0, 120).every(status => status === 200)).toBe(true);
+    expect(statuses[120]).toBe(429);
+  });
+});
@@ -0,0 +1,175 @@
+// src/app/api/bus-times/batch/route.ts
+import { NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { validateBusLineId, validateStopId, ValidationError, isRateLimited, getClientId } from '@/lib/validation';
+import { ArrivalsQuery, getArrivalsBatch, getTransitProvider, transitProviderUnavailable } from '@/lib/transit-provider';
+import { resolveArrivals } from '@/lib/arrivals';
+import { trackPredictions } from '@/lib/prediction-tracker';
+import { matchTransferConnections } from '@/lib/transfers';
+import { BusData, ApiResponse } from '@/types';
+
+// Rate limiting storage
+const requestMap = new Map<string, number[]>();
+
+// Real-time data, never cached
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const MAX_TRIPS = 20;
+
+/** A trip, optionally with a second leg boarded at its destinationId */
+interface BatchTrip extends ArrivalsQuery {
+  transfer?: ArrivalsQuery;
+}
+
+function validateTrips(raw: unknown): BatchTrip[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ValidationError('trips must be a non-empty list', 'trips');
+  }
+  if (raw.length > MAX_TRIPS) {
+    throw new ValidationError(`At most ${MAX_TRIPS} trips per request`, 'trips');
+  }
+  return raw.map(item => {
+    const trip = (item ?? {}) as Record<string, unknown>;
+    const leg = validateLeg(trip);
+    if (trip.transfer === undefined || trip.transfer === null) return leg;
+    if (typeof trip.transfer !== 'object') throw new ValidationError('transfer must be an object', 'transfer');
+    return { ...leg, transfer: validateLeg(trip.transfer as Record<string, unknown>) };
+  });
+}
+
+function validateLeg(trip: Record<string, unknown>): ArrivalsQuery {
+  return {
+    busLine: validateBusLineId(tripField(trip, 'busLine')),
+    originId: validateStopId(tripField(trip, 'originId')),
+    destinationId: validateStopId(tripField(trip, 'destinationId')),
+  };
+}
+
+// JSON bodies can hold any type; the validators expect strings
+function tripField(trip: Record<string, unknown>, field: keyof ArrivalsQuery): string | null {
+  const value = trip[field];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') throw new ValidationError(`${field} must be a string`, field);
+  return value;
+}
+
+/**
+ * Arrivals for several stop pairs in one request, e.g. every saved commute.
+ * POST `{ trips: [{ busLine, originId, destinationId }] }`; the response maps
+ * `${busLine}|${originId}|${destinationId}` to the BusData /api/bus-times
+ * would return. Trips from the same origin share one upstream request, and
+ * a failed trip only sets hasError on its own entry.
+ *
+ * A trip with `transfer: { busLine, originId, destinationId }` is a two-leg
+ * trip changing buses at its destinationId. Its key appends `>` and the
+ * second leg's key, and its BusData is what /api/bus-times/transfer returns.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting: the whole batch counts as one request
+    const clientId = getClientId(request);
+    if (isRateLimited(requestMap, clientId, 120)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Request body must be JSON' },
+        { status: 400 }
+      );
+    }
+
+    let trips: BatchTrip[];
+    try {
+      trips = validateTrips(body?.trips);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const provider = getTransitProvider();
+    if (!provider) return transitProviderUnavailable();
+
+    const legKey = (leg: ArrivalsQuery) => `${leg.busLine}|${leg.originId}|${leg.destinationId}`;
+    const keyOf = (trip: BatchTrip) => trip.transfer ? `${legKey(trip)}>${legKey(trip.transfer)}` : legKey(trip);
+    const uniqueTrips = Array.from(new Map(trips.map(trip => [keyOf(trip), trip])).values());
+    // Transfer legs are fetched alongside the other trips so they share upstream requests too
+    const legs = Array.from(new Map(
+      uniqueTrips.flatMap(trip => trip.transfer ? [trip, trip.transfer] : [trip]).map(leg => [legKey(leg), leg])
+    ).values());
+    const stopIds = Array.from(new Set(legs.flatMap(leg => [leg.originId, leg.destinationId])));
+
+    // Stop names are cached by the provider; a failed lookup only costs the name
+    const [stopInfos, results] = await Promise.all([
+      Promise.all(stopIds.map(stopId => provider.getStop(stopId).catch(() => null))),
+      getArrivalsBatch(provider, legs),
+    ]);
+    const stopNames = new Map(stopIds.map((stopId, index) => [stopId, stopInfos[index]?.name]));
+    const legResults = new Map(legs.map((leg, index) => [legKey(leg), results[index]]));
+
+    const entries = await Promise.all(uniqueTrips.map(async (trip): Promise<[string, BusData]> => {
+      const { originId, destinationId, transfer } = trip;
+      const busData: BusData = {
+        originName: stopNames.get(originId) || "Unknown Origin",
+        destinationName: stopNames.get((transfer ?? trip).destinationId) || "Unknown Destination",
+        ...(transfer && { transferName: stopNames.get(destinationId) || "Unknown Transfer" }),
+        buses: [],
+        hasError: false,
+      };
+
+      const settled = (transfer ? [trip, transfer] : [trip]).map(leg => legResults.get(legKey(leg))!);
+      const failure = settled.find(result => result.status === 'rejected');
+      if (failure) {
+        console.error(`Failed to fetch arrivals for ${keyOf(trip)}:`, failure.reason);
+        return [keyOf(trip), {
+          ...busData,
+          hasError: true,
+          errorMessage: 'Unable to get real-time bus arrival data for these stops',
+        }];
+      }
+
+      const [liveBuses, secondLeg] = settled.map(result => result.status === 'fulfilled' ? result.value : []);
+      if (transfer) {
+        const firstLeg = trackPredictions(trip.busLine, originId, liveBuses);
+        return [keyOf(trip), {
+          ...busData,
+          buses: matchTransferConnections(firstLeg, secondLeg, transfer.busLine),
+        }];
+      }
+
+      return [keyOf(trip), { ...busData, ...await resolveArrivals(provider, trip, liveBuses) }];
+    }));
+
+    const apiResponse: ApiResponse<Record<string, BusData>> = {
+      success: true,
+      data: Object.fromEntries(entries),
+    };
+
+    return NextResponse.json(apiResponse);
+  } catch (error) {
+    console.error("Error fetching batch bus times:", {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      url: request.url,
+      timestamp: new Date().toISOString()
+    });
+
+    const errorResponse: ApiResponse<Record<string, BusData>> = {
+      success: false,
+      error: "Failed to fetch bus times"
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+import { apiRequest, stubMtaFetch } from '@/test/mockMta';
+import { buildGtfsZip } from '@/test/gtfsFeed';
+import { parseGtfsZip } from '@/lib/gtfs-import';
+import { MemoryGtfsStore, setGtfsStore } from '@/lib/gtfs-store';
+import { BusResponse } from '@/types';
+
+const NOW = new Date('2025-10-18T12:00:00Z');
+const PATH = '/api/bus-times?busLine=MTA%20NYCT_B44&originId=MTA_303247&destinationId=MTA_303250';
+
+describe('GET /api/bus-times', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns arrivals for the origin with destination times', async () => {
+    stubMtaFetch();
+
+    const response = await GET(apiRequest(PATH));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.originName).toBe('NOSTRAND AV/FULTON ST');
+    expect(body.data.destinationName).toBe('LEE AV/TAYLOR ST');
+    expect(body.data.hasError).toBe(false);
+
+    const buses: BusResponse[] = body.data.buses;
+    expect(buses.length).toBeGreaterThan(0);
+    for (const bus of buses) {
+      expect(new Date(bus.originArrival!).getTime()).toBeGreaterThanOrEqual(NOW.getTime());
+      expect(new Date(bus.destinationArrival!).getTime()).toBeGreaterThan(new Date(bus.originArrival!).getTime());
+      expect(bus.isEstimated).toBe(false);
+      expect(bus.destination).toBe('WILLIAMSBURG BRIDGE PLAZA via NOSTRAND AV');
+    }
+    expect(body.data.stopWarnings).toEqual([]);
+  });
+
+  it('warns when buses do not list the destination', async () => {
+    stubMtaFetch();
+
+    // A B49 stop: no B44 lists it, so times fall back to each bus's last onward call
+    const response = await GET(apiRequest(
+      '/api/bus-times?busLine=MTA%20NYCT_B44&originId=MTA_303247&destinationId=MTA_304417'
+    ));
+    const body = await response.json();
+
+    expect(body.data.buses.length).toBeGreaterThan(0);
+    expect(body.data.stopWarnings).toEqual([
+      { stopId: 'MTA_304417', role: 'destination', reason: 'estimated' },
+    ]);
+  });
+
+  it('shares cached stop-monitoring between requests for the same stop', async () => {
+    const { fetch } = stubMtaFetch();
+    const stopMonitoringCalls = () => fetch.mock.calls
+      .filter(([url]) => String(url).includes('/api/siri/stop-monitoring.json')).length;
+
+    await Promise.all([GET(apiRequest(PATH)), GET(apiRequest(PATH))]);
+    await GET(apiRequest(PATH));
+    expect(stopMonitoringCalls()).toBe(1);
+
+    vi.setSystemTime(NOW.getTime() + 15000);
+    await GET(apiRequest(PATH));
+    expect(stopMonitoringCalls()).toBe(2);
+  });
+
+  it('shows buses advancing between polls', async () => {
+    stubMtaFetch();
+
+    const first: BusResponse[] = (await (await GET(apiRequest(PATH))).json()).data.buses;
+    vi.setSystemTime(NOW.getTime() + 2 * 60000);
+    const second: BusResponse[] = (await (await GET(apiRequest(PATH))).json()).data.buses;
+
+    const before = first.filter(bus => !bus.isLayover).pop()!;
+    const after = second.find(bus => bus.vehicleRef === before.vehicleRef);
+    expect(after).toBeDefined();
+    expect(after!.originStopsAway).toBeLessThan(before.originStopsAway);
+  });
+
+  it('lists the next bus on layover at the terminal', async () => {
+    stubMtaFetch();
+
+    const buses: BusResponse[] = (await (await GET(apiRequest(PATH))).json()).data.buses;
+    const layover = buses.filter(bus => bus.isLayover);
+
+    expect(layover).toHaveLength(1);
+    expect(layover[0]).toBe(buses[buses.length - 1]);
+    expect(new Date(layover[0].layoverDeparture!).getTime()).toBeGreaterThan(NOW.getTime());
+    expect(layover[0].progressRate).toBe('none');
+    expect(buses.every(bus => bus.distanceMiles !== null && bus.presentableDistance)).toBe(true);
+  });
+
+  it('replays the recorded feed', async () => {
+    stubMtaFetch({ scenario: 'recorded' });
+
+    const response = await GET(apiRequest(
+      '/api/bus-times?busLine=MTA%20NYCT_B44&originId=MTA_303244&destinationId=MTA_303247'
+    ));
+    const buses: BusResponse[] = (await response.json()).data.buses;
+
+    expect(buses.map(bus => [bus.vehicleRef, bus.originStopsAway])).toEqual([
+      ['MTA NYCT_7521', 1],
+      ['MTA NYCT_7488', 3],
+      ['MTA NYCT_6210', 4],
+    ]);
+    expect(buses[0].aimedArrival).not.toBeNull();
+  });
+
+  it('returns no buses for an empty delivery', async () => {
+    stubMtaFetch({ scenario: 'empty' });
+
+    const body = await (await GET(apiRequest(PATH))).json();
+
+    expect(body.success).toBe(true);
+    expect(body.data.buses).toEqual([]);
+  });
+
+  it('falls back to the timetable when no buses are live', async () => {
+    stubMtaFetch({ scenario: 'empty' });
+    vi.stubEnv('GTFS_STATIC_URL', 'https://gtfs.example/feed.zip');
+    const store = new MemoryGtfsStore();
+    await store.save(parseGtfsZip(buildGtfsZip(), 'test.zip', { stopAgencyId: 'MTA' }));
+    setGtfsStore(store);
+    // Friday, 07:50 in New York; the test feed only runs on weekdays
+    vi.setSystemTime(new Date('2025-10-17T11:50:00Z'));
+
+    try {
+      const response = await GET(apiRequest(
+        '/api/bus-times?busLine=MTA%20NYCT_B44&originId=MTA_303244&destinationId=MTA_303247'
+      ));
+      const buses: BusResponse[] = (await response.json()).data.buses;
+
+      expect(buses.map(bus => [bus.vehicleRef, bus.originArrival, bus.isScheduled])).toEqual([
+        ['MTA NYCT_N1', '2025-10-17T12:00:00.000Z', true],
+        ['MTA NYCT_N2', '2025-10-17T12:15:00.000Z', true],
+      ]);
+    } finally {
+      setGtfsStore(null);
+    }
+  });
+
+  it('returns 500 when the MTA fails', async () => {
+    stubMtaFetch({ scenario: 'error' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest(PATH));
+
+    expect(response.status).toBe(500);
+  });
+
+  it('returns 500 for malformed JSON', async () => {
+    stubMtaFetch({ scenario: 'malformed' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest(PATH));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ success: false, error: 'Failed to fetch bus times' });
+  });
+
+  it('rejects missing stops', async () => {
+    const { fetch } = stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/bus-times?busLine=MTA%20NYCT_B44&originId=MTA_303247'));
+
+    expect(response.status).toBe(400);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('returns 503 without an API key', async () => {
+    stubMtaFetch();
+    vi.stubEnv('MTA_API_KEY', '');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest(PATH));
+
+    expect(response.status).toBe(503);
+  });
+
+  it('rate limits each client', async () => {
+    stubMtaFetch({ scenario: 'empty' });
+
+    const statuses: number[] = [];
+    for (let i = 0; i < 121; i++) {
+      statuses.push((await GET(apiRequest(PATH, { clientId: '192.0.2.1' }))).status);
+    }
+
+    expect(statuses.slice(0, 120).every(status => status === 200)).toBe(true);
+    expect(statuses[120]).toBe(429);
+  });
+});
@@ -2,8 +2,8 @@
 import { NextResponse } from "next/server";
 import { NextRequest } from "next/server";
 import { validateBusLineId, validateStopId, ValidationError, isRateLimited, getClientId } from '@/lib/validation';
-import { fetchStopInfo } from '@/lib/mta-api';
-import { parseSiriResponse, SiriResponse } from '@/lib/siri-parser';
+import { getTransitProvider, transitProviderUnavailable } from '@/lib/transit-provider';
+import { resolveArrivals } from '@/lib/arrivals';
 import { BusData, ApiResponse } from '@/types';
 
 // Rate limiting storage
@@ -46,58 +46,26 @@ export async function GET(request: NextRequest) {
       throw error;
     }
 
-    // Fetch stop info (cached in mta-api.ts for 30 min)
-    const [originStopInfo, destinationStopInfo] = await Promise.all([
-      fetchStopInfo(originId),
-      fetchStopInfo(destinationId)
+    const provider = getTransitProvider();
+    if (!provider) return transitProviderUnavailable();
+
+    // Stop names are cached by the provider; a failed lookup only costs the name
+    const [originStopInfo, destinationStopInfo, parsedBuses] = await Promise.all([
+      provider.getStop(originId).catch(() => null),
+      provider.getStop(destinationId).catch(() => null),
+      provider.getArrivals(busLine, originId, destinationId),
     ]);
 
     const originName = originStopInfo?.name || "Unknown Origin";
     const destinationName = destinationStopInfo?.name || "Unknown Destination";
 
-    // Validate API key exists
-    const apiKey = process.env.MTA_API_KEY;
-    if (!apiKey) {
-      console.error('MTA_API_KEY environment variable is not set');
-      return NextResponse.json(
-        { success: false, error: 'Service temporarily unavailable' },
-        { status: 503 }
-      );
-    }
-
-    // Use the MTA Bus Time API to get real-time arrivals
-    const url = `https://bustime.mta.info/api/siri/stop-monitoring.json?key=${apiKey}&version=2&OperatorRef=MTA&MonitoringRef=${encodeURIComponent(
-      originId
-    )}&LineRef=${encodeURIComponent(
-      busLine
-    )}&StopMonitoringDetailLevel=calls`;
-
-    const response = await fetch(url, {
-      headers: {
-        "Cache-Control": "no-cache, no-store, must-revalidate",
-        Pragma: "no-cache",
-        Expires: "0",
-      },
-      cache: "no-store",
-    });
-
-    if (!response.ok) {
-      console.error(
-        `API response error: ${response.status} ${response.statusText}`
-      );
-      return NextResponse.json(
-        { error: "Failed to fetch bus times" },
-        { status: 500 }
-      );
-    }
-
-    const data = (await response.json()) as SiriResponse;
-    const { buses } = parseSiriResponse(data, busLine, destinationId);
+    const { buses, stopWarnings } = await resolveArrivals(provider, { busLine, originId, destinationId }, parsedBuses);
 
     const busData: BusData = {
       originName,
       destinationName,
       buses,
+      stopWarnings,
       hasError: false,
     };
 
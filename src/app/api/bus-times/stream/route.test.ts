@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { apiRequest, stubMtaFetch } from '@/test/mockMta';
+import { setArrivalsHub } from '@/lib/arrivals-stream';
+import { BusData } from '@/types';
+
+const NOW = new Date('2025-10-18T12:00:00Z');
+const PATH = '/api/bus-times/stream?busLine=MTA%20NYCT_B44&originId=MTA_303247&destinationId=MTA_303250';
+
+describe('GET /api/bus-times/stream', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    setArrivalsHub(null);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setArrivalsHub(null);
+  });
+
+  it('streams a snapshot of the arrivals as server-sent events', async () => {
+    stubMtaFetch();
+    const controller = new AbortController();
+    const request = new NextRequest(apiRequest(PATH), { signal: controller.signal });
+
+    const response = await GET(request);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const reader = response.body!.getReader();
+    const { value } = await reader.read();
+    controller.abort();
+
+    const message = new TextDecoder().decode(value);
+    expect(message).toMatch(/^event: snapshot\ndata: /);
+    const data: BusData = JSON.parse(message.split('\ndata: ')[1]);
+    expect(data.originName).toBe('NOSTRAND AV/FULTON ST');
+    expect(data.buses.length).toBeGreaterThan(0);
+  });
+
+  it('rejects a missing destination', async () => {
+    stubMtaFetch();
+
+    const response = await GET(apiRequest('/api/bus-times/stream?busLine=MTA%20NYCT_B44&originId=MTA_303247'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 503 without an API key', async () => {
+    stubMtaFetch();
+    vi.stubEnv('MTA_API_KEY', '');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await GET(apiRequest(PATH))).status).toBe(503);
+  });
+});
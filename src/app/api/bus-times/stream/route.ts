@@ -0,0 +1,88 @@
+// src/app/api/bus-times/stream/route.ts
+import { NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { validateBusLineId, validateStopId, ValidationError, isRateLimited, getClientId } from '@/lib/validation';
+import { getTransitProvider, transitProviderUnavailable } from '@/lib/transit-provider';
+import { getArrivalsHub } from '@/lib/arrivals-stream';
+
+// Rate limiting storage
+const requestMap = new Map<string, number[]>();
+
+// Real-time data, never cached
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * Live arrivals as Server-Sent Events, from a poller shared by every
+ * subscriber to the same line and origin (see arrivals-stream).
+ * Events: `snapshot` (the BusData /api/bus-times would return), then `diff`
+ * (ArrivalsDiff) after each upstream poll, and `arrivals-error` when a poll
+ * fails. Clients that can't keep the connection open poll /api/bus-times.
+ */
+export async function GET(request: NextRequest) {
+  // Rate limiting: counts connections, not the events sent on them
+  const clientId = getClientId(request);
+  if (isRateLimited(requestMap, clientId, 120)) {
+    return NextResponse.json(
+      { success: false, error: 'Rate limit exceeded. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // Input validation
+  const searchParams = request.nextUrl.searchParams;
+  let busLine: string, originId: string, destinationId: string;
+  try {
+    busLine = validateBusLineId(searchParams.get("busLine"));
+    originId = validateStopId(searchParams.get("originId"));
+    destinationId = validateStopId(searchParams.get("destinationId"));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  if (!getTransitProvider()) return transitProviderUnavailable();
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+  const stop = () => {
+    unsubscribe?.();
+    unsubscribe = null;
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      unsubscribe = getArrivalsHub().subscribe({ busLine, originId, destinationId }, event => {
+        try {
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`));
+        } catch {
+          // The client went away between polls
+          stop();
+        }
+      });
+
+      request.signal.addEventListener('abort', () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel: stop,
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
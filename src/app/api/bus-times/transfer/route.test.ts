@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+import { apiRequest, stubMtaFetch } from '@/test/mockMta';
+import { BusResponse } from '@/types';
+
+const PATH = '/api/bus-times/transfer?busLine=MTA%20NYCT_B44&originId=MTA_303244&transferId=MTA_303246'
+  + '&transferBusLine=MTA%20NYCT_B49&transferOriginId=MTA_304416&destinationId=MTA_304417';
+
+describe('GET /api/bus-times/transfer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-10-18T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('pairs first-leg buses with catchable second-leg departures', async () => {
+    stubMtaFetch();
+
+    const response = await GET(apiRequest(PATH));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.originName).toBe('NOSTRAND AV/CHURCH AV');
+    expect(body.data.transferName).toBe('NOSTRAND AV/EASTERN PKWY');
+    expect(body.data.destinationName).toBe('BEDFORD AV/FULTON ST');
+
+    const buses: BusResponse[] = body.data.buses;
+    expect(buses.length).toBeGreaterThan(0);
+    for (const bus of buses) {
+      expect(bus.transfer?.busLine).toBe('MTA NYCT_B49');
+      const arrival = new Date(bus.transfer!.transferArrival).getTime();
+      expect(new Date(bus.transfer!.departure).getTime() - arrival).toBeGreaterThanOrEqual(2 * 60000);
+    }
+  });
+
+  it('honors a longer minimum transfer time', async () => {
+    stubMtaFetch();
+
+    const body = await (await GET(apiRequest(`${PATH}&minTransfer=30`))).json();
+
+    expect(body.data.buses).toEqual([]);
+  });
+
+  it('rejects a missing transfer line', async () => {
+    stubMtaFetch();
+
+    const response = await GET(apiRequest(
+      '/api/bus-times/transfer?busLine=MTA%20NYCT_B44&originId=MTA_303244&transferId=MTA_303246&destinationId=MTA_304417'
+    ));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 500 when either leg fails', async () => {
+    stubMtaFetch({ scenario: 'error' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest(PATH));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ success: false, error: 'Failed to fetch bus times' });
+  });
+});
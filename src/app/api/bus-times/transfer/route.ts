@@ -0,0 +1,103 @@
+// src/app/api/bus-times/transfer/route.ts
+import { NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { validateBusLineId, validateStopId, validateNumber, ValidationError, isRateLimited, getClientId } from '@/lib/validation';
+import { getTransitProvider, transitProviderUnavailable } from '@/lib/transit-provider';
+import { trackPredictions } from '@/lib/prediction-tracker';
+import { matchTransferConnections, DEFAULT_MIN_TRANSFER_MINUTES } from '@/lib/transfers';
+import { BusData, ApiResponse } from '@/types';
+
+// Rate limiting storage
+const requestMap = new Map<string, number[]>();
+
+// Real-time data, never cached
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * Two-leg trip arrivals.
+ * Leg 1 rides `busLine` from `originId` to `transferId`; leg 2 rides
+ * `transferBusLine` from `transferOriginId` (defaults to `transferId`)
+ * to `destinationId`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientId = getClientId(request);
+    if (isRateLimited(requestMap, clientId, 120)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    // Input validation
+    const searchParams = request.nextUrl.searchParams;
+
+    let busLine: string, originId: string, transferId: string;
+    let transferBusLine: string, transferOriginId: string, destinationId: string;
+    let minTransferMinutes: number;
+    try {
+      busLine = validateBusLineId(searchParams.get("busLine"));
+      originId = validateStopId(searchParams.get("originId"));
+      transferId = validateStopId(searchParams.get("transferId"));
+      transferBusLine = validateBusLineId(searchParams.get("transferBusLine"));
+      transferOriginId = searchParams.get("transferOriginId")
+        ? validateStopId(searchParams.get("transferOriginId"))
+        : transferId;
+      destinationId = validateStopId(searchParams.get("destinationId"));
+      minTransferMinutes = searchParams.get("minTransfer")
+        ? validateNumber(searchParams.get("minTransfer"), 'minTransfer', { min: 0, max: 30 })
+        : DEFAULT_MIN_TRANSFER_MINUTES;
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const provider = getTransitProvider();
+    if (!provider) return transitProviderUnavailable();
+
+    const [originStopInfo, transferStopInfo, destinationStopInfo, firstLegBuses, secondLeg] = await Promise.all([
+      provider.getStop(originId).catch(() => null),
+      provider.getStop(transferId).catch(() => null),
+      provider.getStop(destinationId).catch(() => null),
+      provider.getArrivals(busLine, originId, transferId),
+      provider.getArrivals(transferBusLine, transferOriginId, destinationId),
+    ]);
+
+    const firstLeg = trackPredictions(busLine, originId, firstLegBuses);
+
+    const busData: BusData = {
+      originName: originStopInfo?.name || "Unknown Origin",
+      destinationName: destinationStopInfo?.name || "Unknown Destination",
+      transferName: transferStopInfo?.name || "Unknown Transfer",
+      buses: matchTransferConnections(firstLeg, secondLeg, transferBusLine, { minTransferMinutes }),
+      hasError: false,
+    };
+
+    const apiResponse: ApiResponse<BusData> = {
+      success: true,
+      data: busData
+    };
+
+    return NextResponse.json(apiResponse);
+  } catch (error) {
+    console.error("Error fetching transfer bus times:", {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      url: request.url,
+      timestamp: new Date().toISOString()
+    });
+
+    const errorResponse: ApiResponse<BusData> = {
+      success: false,
+      error: "Failed to fetch bus times"
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
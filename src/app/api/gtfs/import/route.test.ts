@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+import { apiRequest } from '@/test/mockMta';
+import { buildGtfsZip } from '@/test/gtfsFeed';
+import { MemoryGtfsStore, setGtfsStore } from '@/lib/gtfs-store';
+
+const authorized = { headers: { authorization: 'Bearer cron-secret' } };
+
+describe('GET /api/gtfs/import', () => {
+  let store: MemoryGtfsStore;
+
+  beforeEach(() => {
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    vi.stubEnv('GTFS_STATIC_URL', 'https://gtfs.example/feed.zip');
+    store = new MemoryGtfsStore();
+    setGtfsStore(store);
+  });
+
+  afterEach(() => {
+    setGtfsStore(null);
+  });
+
+  it('requires the cron secret', async () => {
+    const response = await GET(apiRequest('/api/gtfs/import'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 503 when no feed is configured', async () => {
+    vi.stubEnv('GTFS_STATIC_URL', '');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest('/api/gtfs/import', authorized));
+
+    expect(response.status).toBe(503);
+  });
+
+  it('imports and stores the feed', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(buildGtfsZip())));
+
+    const response = await GET(apiRequest('/api/gtfs/import', authorized));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toMatchObject({ source: 'https://gtfs.example/feed.zip', routes: 2, stops: 4, trips: 6 });
+    expect((await store.load())?.trips).toHaveLength(6);
+  });
+
+  it('returns 500 when the import fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(buildGtfsZip({ 'stops.txt': null }))));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await GET(apiRequest('/api/gtfs/import', authorized));
+
+    expect(response.status).toBe(500);
+    expect(await store.load()).toBeNull();
+  });
+});
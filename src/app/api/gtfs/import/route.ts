@@ -0,0 +1,66 @@
+// src/app/api/gtfs/import/route.ts
+import { NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { getGtfsStaticConfig, reimportGtfs } from '@/lib/gtfs-store';
+import { ApiResponse } from '@/types';
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export interface GtfsImportResult {
+  importedAt: string;
+  source: string;
+  routes: number;
+  stops: number;
+  trips: number;
+}
+
+/**
+ * Re-import the static GTFS feed at GTFS_STATIC_URL, e.g. from a nightly
+ * cron when the agency publishes a new schedule. Requires
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const config = getGtfsStaticConfig();
+  if (!config) {
+    console.error('GTFS_STATIC_URL is not set');
+    return NextResponse.json(
+      { success: false, error: 'Service temporarily unavailable' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const { dataset } = await reimportGtfs(config);
+    const apiResponse: ApiResponse<GtfsImportResult> = {
+      success: true,
+      data: {
+        importedAt: dataset.importedAt,
+        source: dataset.source,
+        routes: dataset.routes.length,
+        stops: dataset.stops.length,
+        trips: dataset.trips.length,
+      },
+    };
+    return NextResponse.json(apiResponse);
+  } catch (error) {
+    console.error("Error importing GTFS feed:", {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      url: request.url,
+      timestamp: new Date().toISOString()
+    });
+
+    return NextResponse.json(
+      { success: false, error: "Failed to import GTFS feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+
+describe('GET /api/push/subscriptions', () => {
+  it('returns the VAPID public key', async () => {
+    vi.stubEnv('NEXT_PUBLIC_VAPID_PUBLIC_KEY', 'public-key');
+    vi.stubEnv('VAPID_PRIVATE_KEY', 'private-key');
+
+    const response = await GET();
+
+    expect(await response.json()).toEqual({ success: true, data: { publicKey: 'public-key' } });
+  });
+
+  it('returns 503 when push is not configured', async () => {
+    vi.stubEnv('NEXT_PUBLIC_VAPID_PUBLIC_KEY', 'public-key');
+    vi.stubEnv('VAPID_PRIVATE_KEY', '');
+
+    const response = await GET();
+
+    expect(response.status).toBe(503);
+  });
+});
@@ -0,0 +1,194 @@
+// src/app/api/push/subscriptions/route.ts
+import { NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { randomUUID } from "crypto";
+import {
+  validateBusLineId, validateStopId, validateNumber, validateString,
+  ValidationError, isRateLimited, getClientId,
+} from '@/lib/validation';
+import { getPushStore, PushWatch } from '@/lib/push-store';
+import { getVapidPublicKey, isPushConfigured } from '@/lib/push-watcher';
+import { parseTimeOfDay } from '@/lib/commuteSchedule';
+import { ApiResponse, PushSubscriptionPayload, PushWatchRule } from '@/types';
+
+// Rate limiting storage
+const requestMap = new Map<string, number[]>();
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function validateSubscription(raw: unknown): PushSubscriptionPayload {
+  const sub = (raw ?? {}) as Record<string, unknown>;
+  const endpoint = validateString(sub.endpoint as string, 'subscription.endpoint', {
+    required: true,
+    maxLength: 2000,
+    pattern: /^https:\/\//,
+  });
+  const keys = (sub.keys ?? {}) as Record<string, unknown>;
+  const p256dh = validateString(keys.p256dh as string, 'subscription.keys.p256dh', { required: true, maxLength: 200 });
+  const auth = validateString(keys.auth as string, 'subscription.keys.auth', { required: true, maxLength: 100 });
+  const expirationTime = typeof sub.expirationTime === 'number' ? sub.expirationTime : null;
+  return { endpoint, expirationTime, keys: { p256dh, auth } };
+}
+
+function validateWindow(raw: unknown): PushWatchRule['window'] {
+  if (raw === undefined || raw === null) return undefined;
+  const window = raw as Record<string, unknown>;
+  if (!Array.isArray(window.days) || !window.days.every(d => Number.isInteger(d) && d >= 0 && d <= 6)) {
+    throw new ValidationError('window.days must be a list of weekdays (0-6)', 'window.days');
+  }
+  if (typeof window.start !== 'string' || parseTimeOfDay(window.start) === null) {
+    throw new ValidationError('window.start must be HH:MM', 'window.start');
+  }
+  if (typeof window.end !== 'string' || parseTimeOfDay(window.end) === null) {
+    throw new ValidationError('window.end must be HH:MM', 'window.end');
+  }
+  return { days: window.days as number[], start: window.start, end: window.end };
+}
+
+function validateTimeZone(raw: unknown): string {
+  const timeZone = validateString(raw as string, 'timeZone', { maxLength: 64 }) || 'America/New_York';
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new ValidationError('timeZone is not a valid IANA time zone', 'timeZone');
+  }
+  return timeZone;
+}
+
+function serviceUnavailable() {
+  return NextResponse.json(
+    { success: false, error: 'Push notifications are not configured' },
+    { status: 503 }
+  );
+}
+
+export async function GET() {
+  const publicKey = getVapidPublicKey();
+  if (!isPushConfigured() || !publicKey) {
+    return serviceUnavailable();
+  }
+  const apiResponse: ApiResponse<{ publicKey: string }> = { success: true, data: { publicKey } };
+  return NextResponse.json(apiResponse);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientId = getClientId(request);
+    if (isRateLimited(requestMap, clientId, 20)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    if (!isPushConfigured()) {
+      return serviceUnavailable();
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Request body must be JSON' },
+        { status: 400 }
+      );
+    }
+
+    let watch: PushWatch;
+    try {
+      const rule = (body.rule ?? {}) as Record<string, unknown>;
+      watch = {
+        id: randomUUID(),
+        subscription: validateSubscription(body.subscription),
+        busLine: validateBusLineId(rule.busLine as string),
+        originId: validateStopId(rule.originId as string),
+        destinationId: validateStopId(rule.destinationId as string),
+        leadMinutes: validateNumber(rule.leadMinutes as number, 'leadMinutes', {
+          required: true, min: 1, max: 120, integer: true,
+        }),
+        window: validateWindow(rule.window),
+        timeZone: validateTimeZone(rule.timeZone),
+        createdAt: Date.now(),
+        notified: {},
+      };
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    await getPushStore().save(watch);
+
+    const apiResponse: ApiResponse<{ id: string }> = { success: true, data: { id: watch.id } };
+    return NextResponse.json(apiResponse, { status: 201 });
+  } catch (error) {
+    console.error("Error saving push subscription:", {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      url: request.url,
+      timestamp: new Date().toISOString()
+    });
+
+    return NextResponse.json(
+      { success: false, error: "Failed to save push subscription" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const clientId = getClientId(request);
+    if (isRateLimited(requestMap, clientId, 20)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    let id: string;
+    try {
+      id = validateString(request.nextUrl.searchParams.get("id"), 'id', {
+        required: true,
+        maxLength: 64,
+        pattern: /^[a-f0-9-]+$/i,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const removed = await getPushStore().delete(id);
+    if (!removed) {
+      return NextResponse.json(
+        { success: false, error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    const apiResponse: ApiResponse<{ id: string }> = { success: true, data: { id } };
+    return NextResponse.json(apiResponse);
+  } catch (error) {
+    console.error("Error removing push subscription:", {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      url: request.url,
+      timestamp: new Date().toISOString()
+    });
+
+    return NextResponse.json(
+      { success: false, error: "Failed to remove push subscription" },
+      { status: 500 }
+    );
+  }
+}
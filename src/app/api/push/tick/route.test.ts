@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+import { apiRequest, stubMtaFetch } from '@/test/mockMta';
+import { MemoryPushStore, setPushStore } from '@/lib/push-store';
+
+const sendNotification = vi.hoisted(() => vi.fn());
+
+vi.mock('web-push', () => ({
+  default: {
+    setVapidDetails: vi.fn(),
+    sendNotification,
+    WebPushError: class WebPushError extends Error {
+      constructor(message: string, public statusCode: number) {
+        super(message);
+      }
+    },
+  },
+}));
+
+const authorized = { headers: { authorization: 'Bearer cron-secret' } };
+
+describe('GET /api/push/tick', () => {
+  beforeEach(() => {
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    vi.stubEnv('NEXT_PUBLIC_VAPID_PUBLIC_KEY', 'public-key');
+    vi.stubEnv('VAPID_PRIVATE_KEY', 'private-key');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-10-18T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('requires the cron secret', async () => {
+    const response = await GET(apiRequest('/api/push/tick', { headers: { authorization: 'Bearer wrong' } }));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 503 without VAPID keys', async () => {
+    vi.stubEnv('VAPID_PRIVATE_KEY', '');
+
+    const response = await GET(apiRequest('/api/push/tick', authorized));
+
+    expect(response.status).toBe(503);
+  });
+
+  it('pushes each bus due within a watch lead time once', async () => {
+    stubMtaFetch();
+    sendNotification.mockResolvedValue({ statusCode: 201 });
+    const store = new MemoryPushStore();
+    await store.save({
+      id: 'watch-1',
+      subscription: { endpoint: 'https://push.example/1', expirationTime: null, keys: { p256dh: 'p', auth: 'a' } },
+      busLine: 'MTA NYCT_B44',
+      originId: 'MTA_303247',
+      destinationId: 'MTA_303250',
+      leadMinutes: 30,
+      timeZone: 'America/New_York',
+      createdAt: Date.now(),
+      notified: {},
+    });
+    setPushStore(store);
+
+    const first = await (await GET(apiRequest('/api/push/tick', authorized))).json();
+    const second = await (await GET(apiRequest('/api/push/tick', authorized))).json();
+
+    expect(first.data.checked).toBe(1);
+    expect(first.data.sent).toBeGreaterThan(0);
+    expect(sendNotification).toHaveBeenCalledTimes(first.data.sent);
+    expect(second.data).toEqual({ checked: 1, sent: 0, removed: 0 });
+  });
+});
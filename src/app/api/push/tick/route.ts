@@ -0,0 +1,47 @@
+// src/app/api/push/tick/route.ts
+import { NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { isPushConfigured, runPushWatcherTick, PushWatcherTickResult } from '@/lib/push-watcher';
+import { getTransitProvider } from '@/lib/transit-provider';
+import { ApiResponse } from '@/types';
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * Run one push watcher pass. Meant for an external cron on hosts where a
+ * long-lived interval isn't available; requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  if (!isPushConfigured() || !getTransitProvider()) {
+    return NextResponse.json(
+      { success: false, error: 'Service temporarily unavailable' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const result = await runPushWatcherTick();
+    const apiResponse: ApiResponse<PushWatcherTickResult> = { success: true, data: result };
+    return NextResponse.json(apiResponse);
+  } catch (error) {
+    console.error("Error running push watcher:", {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      url: request.url,
+      timestamp: new Date().toISOString()
+    });
+
+    return NextResponse.json(
+      { success: false, error: "Failed to run push watcher" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { GET } from './route';
+import { GET as getBusTimes } from '../../bus-times/route';
+import { apiRequest, stubMtaFetch } from '@/test/mockMta';
+import { setTransitProvider } from '@/lib/transit-provider';
+import { setSiriCache } from '@/lib/siri-cache';
+
+function busTimesRequest(originId: string) {
+  return apiRequest(`/api/bus-times?busLine=MTA%20NYCT_B44&originId=${originId}&destinationId=MTA_303250`);
+}
+
+async function cacheStats() {
+  const response = await GET(apiRequest('/api/stats/cache'));
+  expect(response.status).toBe(200);
+  return (await response.json()).data.siri;
+}
+
+describe('GET /api/stats/cache', () => {
+  afterEach(() => {
+    setTransitProvider(null);
+    setSiriCache(null);
+  });
+
+  it('reports no hit rate before any arrivals are fetched', async () => {
+    stubMtaFetch();
+
+    expect(await cacheStats()).toEqual({ hits: 0, misses: 0, coalesced: 0, hitRate: null });
+  });
+
+  it('counts a miss for the first fetch of a stop and hits for repeats', async () => {
+    stubMtaFetch();
+
+    expect((await getBusTimes(busTimesRequest('MTA_303247'))).status).toBe(200);
+    expect(await cacheStats()).toEqual({ hits: 0, misses: 1, coalesced: 0, hitRate: 0 });
+
+    expect((await getBusTimes(busTimesRequest('MTA_303247'))).status).toBe(200);
+    expect((await getBusTimes(busTimesRequest('MTA_303247'))).status).toBe(200);
+    expect(await cacheStats()).toEqual({ hits: 2, misses: 1, coalesced: 0, hitRate: 0.667 });
+
+    expect((await getBusTimes(busTimesRequest('MTA_303244'))).status).toBe(200);
+    expect(await cacheStats()).toEqual({ hits: 2, misses: 2, coalesced: 0, hitRate: 0.5 });
+  });
+
+  it('rate limits a client after 30 requests a minute', async () => {
+    stubMtaFetch();
+
+    for (let i = 0; i < 30; i++) {
+      expect((await GET(apiRequest('/api/stats/cache', { clientId: '10.9.9.9' }))).status).toBe(200);
+    }
+    const response = await GET(apiRequest('/api/stats/cache', { clientId: '10.9.9.9' }));
+
+    expect(response.status).toBe(429);
+  });
+});
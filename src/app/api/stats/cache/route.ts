@@ -0,0 +1,51 @@
+// src/app/api/stats/cache/route.ts
+import { NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { isRateLimited, getClientId } from '@/lib/validation';
+import { getSiriCache, SiriCacheStats } from '@/lib/siri-cache';
+import { ApiResponse } from '@/types';
+
+// Rate limiting storage
+const requestMap = new Map<string, number[]>();
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type CacheStats = SiriCacheStats & { hitRate: number | null };
+
+/**
+ * Hit and miss counters for the SIRI stop-monitoring cache since this
+ * server instance started.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientId = getClientId(request);
+    if (isRateLimited(requestMap, clientId, 30)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const apiResponse: ApiResponse<{ siri: CacheStats }> = {
+      success: true,
+      data: { siri: getSiriCache().getStats() }
+    };
+
+    return NextResponse.json(apiResponse);
+  } catch (error) {
+    console.error("Error reading cache stats:", {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      url: request.url,
+      timestamp: new Date().toISOString()
+    });
+
+    const errorResponse: ApiResponse<{ siri: CacheStats }> = {
+      success: false,
+      error: "Failed to read cache stats"
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { GET } from './route';
+import { apiRequest } from '@/test/mockMta';
+import { getPredictionTracker } from '@/lib/prediction-tracker';
+import { BusResponse } from '@/types';
+
+function bus(vehicleRef: string, originArrival: Date, originStopsAway: number): BusResponse {
+  return {
+    vehicleRef,
+    originArrival: originArrival.toISOString(),
+    originStopsAway,
+    destinationArrival: null,
+    proximity: '',
+    destination: 'WILLIAMSBURG BRIDGE PLAZA',
+    isEstimated: false,
+  };
+}
+
+describe('GET /api/stats/predictions', () => {
+  it('reports observed errors by lead time', async () => {
+    // A bus predicted 8 minutes out that actually arrives 2 minutes late
+    const start = new Date('2025-10-18T12:00:00Z').getTime();
+    const tracker = getPredictionTracker();
+    tracker.observe('MTA NYCT_B44', 'MTA_303247', [bus('MTA NYCT_1', new Date(start + 8 * 60000), 4)], new Date(start));
+    tracker.observe('MTA NYCT_B44', 'MTA_303247', [bus('MTA NYCT_1', new Date(start + 10 * 60000), 0)], new Date(start + 10 * 60000));
+
+    const response = await GET(apiRequest('/api/stats/predictions?busLine=MTA%20NYCT_B44'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.busLine).toBe('MTA NYCT_B44');
+    expect(body.data.samples).toBe(1);
+    expect(body.data.byLeadTime[2]).toEqual({
+      leadMinutes: '10-20',
+      samples: 1,
+      medianAbsErrorMinutes: 2,
+      p80AbsErrorMinutes: 2,
+      medianBiasMinutes: 2,
+    });
+  });
+
+  it('rejects a missing line', async () => {
+    expect((await GET(apiRequest('/api/stats/predictions'))).status).toBe(400);
+  });
+
+  it('rate limits each client', async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 31; i++) {
+      statuses.push((await GET(apiRequest('/api/stats/predictions?busLine=MTA%20NYCT_B44', { clientId: '192.0.2.2' }))).status);
+    }
+
+    expect(statuses.filter(status => status === 429)).toHaveLength(1);
+    expect(statuses[30]).toBe(429);
+  });
+});
@@ -0,0 +1,62 @@
+// src/app/api/stats/predictions/route.ts
+import { NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { validateBusLineId, ValidationError, isRateLimited, getClientId } from '@/lib/validation';
+import { getPredictionTracker } from '@/lib/prediction-tracker';
+import { ApiResponse, PredictionAccuracy } from '@/types';
+
+// Rate limiting storage
+const requestMap = new Map<string, number[]>();
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * Live prediction error distributions for a line, by lead time. Built from
+ * arrivals observed since the server started.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientId = getClientId(request);
+    if (isRateLimited(requestMap, clientId, 30)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    let busLine: string;
+    try {
+      busLine = validateBusLineId(request.nextUrl.searchParams.get("busLine"));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const apiResponse: ApiResponse<PredictionAccuracy> = {
+      success: true,
+      data: getPredictionTracker().getAccuracy(busLine)
+    };
+
+    return NextResponse.json(apiResponse);
+  } catch (error) {
+    console.error("Error reading prediction accuracy:", {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      url: request.url,
+      timestamp: new Date().toISOString()
+    });
+
+    const errorResponse: ApiResponse<PredictionAccuracy> = {
+      success: false,
+      error: "Failed to read prediction accuracy"
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+import { apiRequest } from '@/test/mockMta';
+import { ArrivalLogRecord, MemoryArrivalLogStore, setArrivalLogStore } from '@/lib/arrival-log';
+
+const ROUTE = { busLine: 'MTA NYCT_B44', originId: 'MTA_303247', destinationId: 'MTA_303250' };
+const PATH = '/api/stats?busLine=MTA%20NYCT_B44&originId=MTA_303247&destinationId=MTA_303250';
+
+function departure(at: string, vehicleRef: string, rideMinutes: number): ArrivalLogRecord {
+  return {
+    type: 'departed',
+    ...ROUTE,
+    vehicleRef,
+    at,
+    lastSeenAt: at,
+    predictedOrigin: at,
+    predictedDestination: new Date(new Date(at).getTime() + rideMinutes * 60000).toISOString(),
+  };
+}
+
+describe('GET /api/stats', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Runs first: once a store is installed it stays for the rest of the file
+  it('returns 503 while arrival logging is disabled', async () => {
+    vi.stubEnv('ARRIVAL_LOG', '');
+
+    const response = await GET(apiRequest(PATH));
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ success: false, error: 'Arrival logging is not enabled' });
+  });
+
+  it('summarizes logged departures', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-10-18T14:00:00Z'));
+    const store = new MemoryArrivalLogStore();
+    await store.append([
+      departure('2025-10-18T12:00:00Z', 'MTA NYCT_1', 10),
+      departure('2025-10-18T12:08:00Z', 'MTA NYCT_2', 12),
+      departure('2025-10-18T12:16:00Z', 'MTA NYCT_3', 16),
+      // Other stop pairs are ignored
+      { ...departure('2025-10-18T12:20:00Z', 'MTA NYCT_4', 10), destinationId: 'MTA_303249' },
+    ]);
+    setArrivalLogStore(store);
+
+    const response = await GET(apiRequest(`${PATH}&cutoff=08:30&cutoffWindow=60&timeZone=America/New_York`));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toMatchObject({
+      ...ROUTE,
+      trips: 3,
+      medianHeadwayMinutes: 8,
+      rideDurationByHour: [{ hour: 8, trips: 3, medianMinutes: 12 }],
+      cutoff: { time: '08:30', windowMinutes: 60, trips: 3, onTimeShare: 0.67 },
+    });
+  });
+
+  it('rejects invalid parameters', async () => {
+    setArrivalLogStore(new MemoryArrivalLogStore());
+
+    const statuses = await Promise.all([
+      `${PATH}&days=0`,
+      `${PATH}&cutoff=8am`,
+      `${PATH}&timeZone=Mars/Olympus`,
+      '/api/stats?busLine=MTA%20NYCT_B44&originId=MTA_303247',
+    ].map(async path => (await GET(apiRequest(path))).status));
+
+    expect(statuses).toEqual([400, 400, 400, 400]);
+  });
+});
@@ -0,0 +1,98 @@
+// src/app/api/stats/route.ts
+import { NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import {
+  validateBusLineId, validateStopId, validateNumber, validateString,
+  ValidationError, isRateLimited, getClientId,
+} from '@/lib/validation';
+import { getArrivalLogStore } from '@/lib/arrival-log';
+import { computeArrivalStats } from '@/lib/arrival-stats';
+import { ApiResponse, ArrivalStats } from '@/types';
+
+// Rate limiting storage
+const requestMap = new Map<string, number[]>();
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientId = getClientId(request);
+    if (isRateLimited(requestMap, clientId, 30)) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const store = getArrivalLogStore();
+    if (!store) {
+      return NextResponse.json(
+        { success: false, error: 'Arrival logging is not enabled' },
+        { status: 503 }
+      );
+    }
+
+    // Input validation
+    const searchParams = request.nextUrl.searchParams;
+
+    let busLine: string, originId: string, destinationId: string;
+    let days: number, cutoff: string, cutoffWindow: number, timeZone: string;
+    try {
+      busLine = validateBusLineId(searchParams.get("busLine"));
+      originId = validateStopId(searchParams.get("originId"));
+      destinationId = validateStopId(searchParams.get("destinationId"));
+      days = searchParams.get("days")
+        ? validateNumber(searchParams.get("days"), 'days', { min: 1, max: 365, integer: true })
+        : 30;
+      cutoff = validateString(searchParams.get("cutoff"), 'cutoff', { pattern: /^\d{2}:\d{2}$/ });
+      cutoffWindow = searchParams.get("cutoffWindow")
+        ? validateNumber(searchParams.get("cutoffWindow"), 'cutoffWindow', { min: 5, max: 240, integer: true })
+        : 60;
+      timeZone = validateString(searchParams.get("timeZone"), 'timeZone', { maxLength: 64 }) || 'America/New_York';
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+      } catch {
+        throw new ValidationError('timeZone is not a valid IANA time zone', 'timeZone');
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60000);
+    const records = await store.read({ busLine, originId, destinationId, since });
+    const stats = computeArrivalStats(records, { busLine, originId, destinationId }, {
+      since,
+      timeZone,
+      cutoff: cutoff || undefined,
+      cutoffWindowMinutes: cutoffWindow,
+    });
+
+    const apiResponse: ApiResponse<ArrivalStats> = {
+      success: true,
+      data: stats
+    };
+
+    return NextResponse.json(apiResponse);
+  } catch (error) {
+    console.error("Error computing arrival stats:", {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      url: request.url,
+      timestamp: new Date().toISOString()
+    });
+
+    const errorResponse: ApiResponse<ArrivalStats> = {
+      success: false,
+      error: "Failed to compute arrival stats"
+    };
+
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
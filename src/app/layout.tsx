@@ -1,6 +1,7 @@
 // src/app/layout.tsx
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import localFont from "next/font/local";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
 import "./globals.css";
 
 const geistSans = localFont({
@@ -19,6 +20,18 @@ const geistMono = localFont({
 export const metadata: Metadata = {
   title: "Bus Tracker",
   description: "Bus commute origin arrival times with destination arrival times",
+  appleWebApp: {
+    capable: true,
+    title: "Bus Tracker",
+    statusBarStyle: "default",
+  },
+  icons: {
+    apple: "/apple-touch-icon.png",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#3B82F6",
 };
 
 export default function RootLayout({
@@ -32,6 +45,7 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         {children}
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
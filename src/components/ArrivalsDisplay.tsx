@@ -1,5 +1,7 @@
-import React from 'react';
-import { BusArrival } from '@/types';
+import React, { useState } from 'react';
+import { BusArrival, BusStatus, CrowdingLevel, ProgressRate, StopServiceWarning } from '@/types';
+import { CROWDING_LEVELS, crowdingLabels, findEmptierBuses } from '@/lib/crowding';
+import { WalkMinutes, getTripTimes } from '@/lib/tripTimes';
 
 interface ArrivalsDisplayProps {
   loading: boolean;
@@ -7,17 +9,61 @@ interface ArrivalsDisplayProps {
   arrivals: BusArrival[];
   lastRefresh: Date | null;
   nextRefreshIn: number;
-  getBusStatus: (arrivalTime: Date | null) => string;
+  getBusStatus: (arrivalTime: Date | null) => BusStatus;
   formatTime: (date: Date | null) => string;
   getMinutesUntil: (date: Date | null) => number | string;
+  /** When set, arrivals are the last known payload fetched at this time */
+  staleSince: Date | null;
+  getMinutesSince: (date: Date | null) => number;
+  /** Selected stops that buses may be skipping */
+  stopWarnings: StopServiceWarning[];
+  /** Walks at either end, for leave-by and door arrival times */
+  walk: WalkMinutes;
 }
 
-const statusConfig = {
+const stopWarningText: Record<StopServiceWarning['reason'], string> = {
+  estimated: 'Destination stop may be skipped · buses aren\'t listing it, times are estimated',
+  missing: 'Destination stop may be skipped · buses haven\'t listed it recently',
+  vanishing: 'Your stop may be skipped · buses are dropping off before they arrive',
+};
+
+const statusConfig: Record<BusStatus, { label: string; color: string; border: string }> = {
+  early: { label: 'TOO EARLY', color: 'text-[var(--text-muted)]', border: 'status-bar--scheduled' },
   late: { label: 'LATE', color: 'text-[var(--status-danger)]', border: 'status-bar--danger' },
   warning: { label: 'CUTTING IT CLOSE', color: 'text-[var(--status-warning)]', border: 'status-bar--warning' },
   normal: { label: '', color: 'text-[var(--status-good)]', border: 'status-bar--good' },
 };
 
+const crowdingColor: Record<CrowdingLevel, string> = {
+  low: 'text-[var(--status-good)]',
+  medium: 'text-[var(--status-good)]',
+  high: 'text-[var(--status-warning)]',
+  full: 'text-[var(--status-danger)]',
+};
+
+const progressText: Record<ProgressRate, string> = {
+  none: 'Not moving',
+  slow: 'Moving slowly',
+  normal: 'Moving normally',
+  fast: 'Moving faster than usual',
+};
+
+/** Bus number, distance and progress, for the expanded card */
+function vehicleDetails(bus: BusArrival): string[] {
+  const details = [`Bus ${bus.vehicleId.split('_').pop()}`];
+  if (bus.distanceMiles != null) {
+    details.push(`${bus.distanceMiles.toFixed(1)} mi away`);
+  } else if (bus.presentableDistance) {
+    details.push(bus.presentableDistance);
+  }
+  if (bus.isLayover) {
+    details.push('On layover');
+  } else if (bus.progressRate) {
+    details.push(progressText[bus.progressRate]);
+  }
+  return details;
+}
+
 const ArrivalsDisplay = ({
   loading,
   error,
@@ -27,13 +73,26 @@ const ArrivalsDisplay = ({
   getBusStatus,
   formatTime,
   getMinutesUntil,
+  staleSince,
+  getMinutesSince,
+  stopWarnings,
+  walk,
 }: ArrivalsDisplayProps) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const staleMinutes = staleSince ? getMinutesSince(staleSince) : null;
+  const updatedAt = staleSince ?? lastRefresh;
+  const onlyScheduled = arrivals.length > 0 && arrivals.every(bus => bus.isScheduled);
+  const showDoorTimes = walk.toStop > 0 || walk.fromStop > 0;
+  const emptierBuses = findEmptierBuses(arrivals, {
+    canTake: bus => ['normal', 'warning'].includes(getBusStatus(bus.destinationArrival)),
+  });
+
   return (
     <section className="flex-1 px-1">
       <div className="flex justify-between items-center px-3 py-2 text-xs text-[var(--text-muted)]">
         <span>
-          {lastRefresh
-            ? `Updated ${lastRefresh.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
+          {updatedAt
+            ? `Updated ${updatedAt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
             : '...'}
         </span>
         <span className={nextRefreshIn <= 5 ? 'animate-pulse-slow' : ''}>
@@ -48,6 +107,28 @@ const ArrivalsDisplay = ({
         </div>
       )}
 
+      {staleMinutes !== null && !error && (
+        <div className="mx-2 mb-2 px-3 py-2 bg-amber-50 text-[var(--status-warning)] rounded-xl text-xs font-medium">
+          Offline · last known, {staleMinutes} min old
+        </div>
+      )}
+
+      {!error && stopWarnings.map(warning => (
+        <div
+          key={`${warning.role}-${warning.reason}`}
+          className="mx-2 mb-2 px-3 py-2 bg-amber-50 text-[var(--status-warning)] rounded-xl text-xs font-medium"
+          role="status"
+        >
+          {stopWarningText[warning.reason]}
+        </div>
+      ))}
+
+      {onlyScheduled && !loading && !error && (
+        <div className="mx-2 mb-2 px-3 py-2 bg-[var(--bg-card)] text-[var(--text-secondary)] rounded-xl text-xs font-medium">
+          No live buses reported · showing the timetable
+        </div>
+      )}
+
       {error && (
         <div className="mx-2 p-4 bg-red-50 text-[var(--status-danger)] rounded-xl">
           <p className="font-medium text-sm">{error}</p>
@@ -67,37 +148,105 @@ const ArrivalsDisplay = ({
         <div className="space-y-3 stagger-children px-1">
           {arrivals.map((bus) => {
             const destinationStatus = bus.destinationArrival ? getBusStatus(bus.destinationArrival) : 'normal';
-            const config = statusConfig[destinationStatus as keyof typeof statusConfig] || statusConfig.normal;
+            const config = statusConfig[destinationStatus];
+            const emptier = emptierBuses.get(bus.vehicleId);
+            const expanded = expandedId === bus.vehicleId && !bus.isScheduled;
+            const trip = getTripTimes(bus, walk);
 
             return (
               <div
                 key={bus.vehicleId}
-                className="card flex overflow-hidden"
+                className={`card flex overflow-hidden ${bus.isScheduled ? 'card--scheduled' : ''} ${destinationStatus === 'early' ? 'opacity-60' : ''}`}
               >
-                <div className={`status-bar ${config.border}`}></div>
+                <div className={`status-bar ${bus.isScheduled ? 'status-bar--scheduled' : config.border}`}></div>
 
-                <div className="flex-1 p-4 flex items-center justify-between">
-                  <div>
-                    <div className="flex items-baseline gap-1.5">
-                      <span className="text-4xl font-bold leading-none tracking-tight">{getMinutesUntil(bus.originArrival)}</span>
-                      <span className="text-base font-medium text-[var(--text-muted)]">min</span>
+                <div className="flex-1">
+                  <button
+                    type="button"
+                    className="w-full p-4 flex items-center justify-between text-left"
+                    onClick={() => setExpandedId(expanded ? null : bus.vehicleId)}
+                    disabled={bus.isScheduled}
+                    aria-expanded={bus.isScheduled ? undefined : expanded}
+                  >
+                    <div>
+                      <div className="flex items-baseline gap-1.5">
+                        <span className="text-4xl font-bold leading-none tracking-tight">{getMinutesUntil(bus.originArrival)}</span>
+                        <span className="text-base font-medium text-[var(--text-muted)]">min</span>
+                        {!!bus.uncertaintyMinutes && (
+                          <span
+                            className="text-sm font-medium text-[var(--text-muted)]"
+                            title="Typical prediction error for buses this far out"
+                          >
+                            (±{bus.uncertaintyMinutes})
+                          </span>
+                        )}
+                      </div>
+                      <div className="mt-1 flex items-center gap-2">
+                        <span className={`text-xs font-semibold ${config.color}`}>
+                          {config.label}
+                        </span>
+                        {bus.occupancy && (
+                          <span
+                            className={`inline-flex items-center gap-1 text-xs ${crowdingColor[bus.occupancy.level]}`}
+                            title={bus.occupancy.passengerCount !== null
+                              ? `About ${bus.occupancy.passengerCount} riders on board`
+                              : undefined}
+                          >
+                            <span className="inline-flex items-end gap-px" aria-hidden="true">
+                              {CROWDING_LEVELS.slice(1).map((level, index) => (
+                                <span
+                                  key={level}
+                                  className={`w-1 rounded-sm ${index < CROWDING_LEVELS.indexOf(bus.occupancy!.level) ? 'bg-current' : 'bg-[var(--border-light)]'}`}
+                                  style={{ height: `${6 + index * 3}px` }}
+                                />
+                              ))}
+                            </span>
+                            {crowdingLabels[bus.occupancy.level]}
+                          </span>
+                        )}
+                      </div>
+                      {emptier && (
+                        <div className="text-xs text-[var(--text-muted)] mt-0.5">
+                          Skip it? The bus {emptier.waitMinutes} min behind is emptier
+                        </div>
+                      )}
                     </div>
-                    <div className="mt-1">
-                      <span className={`text-xs font-semibold ${config.color}`}>
-                        {config.label}
-                      </span>
-                    </div>
-                  </div>
 
-                  <div className="text-right">
-                    <div className="text-xs text-[var(--text-muted)]">
-                      {bus.stopsAway} {bus.stopsAway === 1 ? 'stop' : 'stops'} away
+                    <div className="text-right">
+                      <div className="text-xs text-[var(--text-muted)]">
+                        {bus.isScheduled
+                          ? 'Scheduled'
+                          : bus.isLayover
+                            ? `At terminal${bus.layoverDeparture ? `, departs ~${formatTime(bus.layoverDeparture)}` : ''}`
+                            : `${bus.stopsAway} ${bus.stopsAway === 1 ? 'stop' : 'stops'} away`}
+                      </div>
+                      <div className="text-base font-semibold mt-0.5">
+                        {bus.isEstimated && <span className="text-[var(--text-muted)]">~</span>}
+                        {formatTime(bus.destinationArrival)}
+                      </div>
+                      {trip.rideMinutes !== null && (
+                        <div className="text-xs text-[var(--text-muted)]">{trip.rideMinutes} min ride</div>
+                      )}
+                      {bus.transfer && (
+                        <div className="text-xs text-[var(--text-muted)] mt-0.5">
+                          {bus.transfer.busLine.split('_').pop()} at {formatTime(bus.transfer.departure)} · {bus.transfer.waitMinutes} min wait
+                        </div>
+                      )}
+                    </div>
+                  </button>
+                  {showDoorTimes && (
+                    <div className="px-4 pb-3 -mt-2 text-xs text-[var(--text-secondary)]">
+                      Leave by {formatTime(trip.leaveBy)}
+                      {trip.doorArrival && (
+                        <> · arrive at door <span className={`font-semibold ${config.color}`}>{formatTime(trip.doorArrival)}</span></>
+                      )}
                     </div>
-                    <div className="text-base font-semibold mt-0.5">
-                      {bus.isEstimated && <span className="text-[var(--text-muted)]">~</span>}
-                      {formatTime(bus.destinationArrival)}
+                  )}
+                  {expanded && (
+                    <div className="px-4 pb-3 -mt-1 text-xs text-[var(--text-muted)]">
+                      {vehicleDetails(bus).join(' · ')}
                     </div>
-                  </div>
+                  )}
                 </div>
               </div>
             );
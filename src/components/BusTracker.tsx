@@ -12,12 +12,22 @@ import { useUrlSync } from '@/hooks/useUrlSync';
 import { useBusLineSearch } from '@/hooks/useBusLineSearch';
 import { useStopManagement } from '@/hooks/useStopManagement';
 import { useArrivalsPolling } from '@/hooks/useArrivalsPolling';
+import { useCommuteArrivals } from '@/hooks/useCommuteArrivals';
 import { useBootstrap } from '@/hooks/useBootstrap';
+import { useCommuteSchedule } from '@/hooks/useCommuteSchedule';
+import { useLeaveAlerts } from '@/hooks/useLeaveAlerts';
+import { useServiceAlerts } from '@/hooks/useServiceAlerts';
 import safeLocalStorage from '@/lib/safeLocalStorage';
+import { canAddCommute, createCommuteId, isSameRoute } from '@/lib/commutes';
+import { CUTOFF_RULES_STORAGE_KEY, isDefaultCutoffRules } from '@/lib/cutoffRules';
+import { CutoffRules, SavedCommute } from '@/types';
 import { SettingsProvider, SettingsContextValue } from '@/contexts/SettingsContext';
 import RouteHeader from './RouteHeader';
+import ServiceAlerts from './ServiceAlerts';
 import SettingsPanel from './SettingsPanel';
 import ArrivalsDisplay from './ArrivalsDisplay';
+import CommuteCard from './CommuteCard';
+import RouteMap from './RouteMap';
 import Footer from './Footer';
 
 const BusTrackerContent = () => {
@@ -25,32 +35,32 @@ const BusTrackerContent = () => {
   const { state, actions } = useBusTracker();
 
   const {
-    arrivals, error, busStopError, loading, data, cutoffTime, enableCutoff,
+    arrivals, error, busStopError, loading, data, cutoffTime, enableCutoff, cutoffRules,
     lastRefresh, nextRefreshIn, busLineSearch, busLineResults,
     showBusLineResults, stops, directions, selectedDirection, stopsLoading,
     busLineId, originId, destinationId, isConfigOpen, forceUpdate,
-    geoLoading, geoError
+    geoLoading, geoError, commutes
   } = state;
 
   const {
     setArrivals, setError, setBusStopError, setLoading, setData, setCutoffTime,
-    setEnableCutoff, setLastRefresh, setNextRefreshIn, setBusLineSearch,
+    setEnableCutoff, setCutoffRules, setLastRefresh, setNextRefreshIn, setBusLineSearch,
     setBusLineResults, setBusLineLoading, setShowBusLineResults, setStops,
     setDirections, setSelectedDirection, setStopsLoading, setBusLineId,
     setOriginId, setDestinationId, setIsConfigOpen, forceUpdate: triggerForceUpdate,
-    setGeoLoading, setGeoError, batchUpdate, resetAll
+    setGeoLoading, setGeoError, batchUpdate, resetAll,
+    setCommutes, addCommute, updateCommute, removeCommute, moveCommute
   } = actions;
 
   const currentStops = useDirectionStops(stops, directions, selectedDirection);
-  const getBusStatus = useBusStatus(enableCutoff, cutoffTime);
-  const { formatTime, getMinutesUntil } = useTimeFormatting();
+  const { formatTime, getMinutesUntil, getMinutesSince } = useTimeFormatting();
 
   const getStopName = (stopId: string) => {
     const stop = stops.find(s => s.id === stopId);
     return stop ? stop.name : null;
   };
 
-  const syncUrl = useUrlSync({ busLineId, originId, destinationId, enableCutoff, cutoffTime });
+  const syncUrl = useUrlSync({ busLineId, originId, destinationId, enableCutoff, cutoffTime, cutoffRules, commutes });
 
   const {
     fetchStopsForLine,
@@ -86,14 +96,16 @@ const BusTrackerContent = () => {
     setArrivals, setData, setError, setLoading, setLastRefresh, setNextRefreshIn,
   });
 
-  useBootstrap({
-    busLineId, busLineSearch, originId, destinationId, enableCutoff, cutoffTime, stops,
+  const { loadCommute } = useBootstrap({
+    busLineId, busLineSearch, originId, destinationId, enableCutoff, cutoffTime, cutoffRules, stops, commutes,
     setBusLineId, setBusLineSearch, setOriginId, setDestinationId,
-    setStops, setIsConfigOpen, setLastRefresh, setEnableCutoff, setCutoffTime,
+    setStops, setIsConfigOpen, setLastRefresh, setEnableCutoff, setCutoffTime, setCutoffRules, setCommutes,
     syncUrl, fetchBusLineDetails, fetchStopsForLine,
     busLineSearchCleanup, stopManagementCleanup,
   });
 
+  useCommuteSchedule({ commutes, busLineId, originId, destinationId, loadCommute });
+
   const handleReset = () => {
     safeLocalStorage.removeItem('busLine');
     safeLocalStorage.removeItem('busLineSearch');
@@ -101,6 +113,7 @@ const BusTrackerContent = () => {
     safeLocalStorage.removeItem('destinationId');
     safeLocalStorage.removeItem('enableCutoff');
     safeLocalStorage.removeItem('cutoffTime');
+    safeLocalStorage.removeItem(CUTOFF_RULES_STORAGE_KEY);
 
     syncUrl({
       busLineId: null,
@@ -108,6 +121,7 @@ const BusTrackerContent = () => {
       destinationId: null,
       enableCutoff: false,
       cutoffTime: null,
+      cutoffRules: null,
     });
 
     resetAll();
@@ -129,6 +143,36 @@ const BusTrackerContent = () => {
     }
   };
 
+  const handleCutoffRulesChange = (rules: CutoffRules) => {
+    setCutoffRules(rules);
+    if (enableCutoff) {
+      syncUrl({ cutoffRules: rules });
+    }
+  };
+
+  const canSaveCommute = Boolean(busLineId && originId && destinationId) && canAddCommute(commutes);
+
+  const handleSaveCommute = (name: string) => {
+    if (!canSaveCommute) return;
+    const lineName = busLineSearch.split(' - ')[0];
+    addCommute({
+      id: createCommuteId(),
+      name: name || `${lineName} to ${getStopName(destinationId) ?? 'destination'}`,
+      busLineId,
+      lineName: busLineSearch,
+      originId,
+      destinationId,
+      enableCutoff,
+      cutoffTime,
+      cutoffRules: isDefaultCutoffRules(cutoffRules) ? undefined : cutoffRules,
+    });
+  };
+
+  const handleSelectCommute = async (commute: SavedCommute) => {
+    await loadCommute(commute);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const handleInputFocus = () => {
     if (busLineSearch && !busLineId) {
       setBusLineSearch('');
@@ -146,6 +190,32 @@ const BusTrackerContent = () => {
   const originName = data?.originName || getStopName(originId);
   const destinationName = data?.destinationName || getStopName(destinationId);
 
+  const activeCommute = commutes.find(c => isSameRoute(c, busLineId, originId, destinationId));
+
+  const leaveAlerts = useLeaveAlerts({
+    arrivals,
+    busLineId,
+    originId,
+    destinationId,
+    schedule: activeCommute?.schedule,
+    originName,
+    lineName: busLineId ? busLineSearch.split(' - ')[0] : null,
+    formatTime,
+  });
+
+  // A saved commute's walks win; otherwise the walk set for leave alerts
+  const walk = {
+    toStop: activeCommute?.walkToStopMinutes ?? leaveAlerts.settings.walkMinutes[originId] ?? 0,
+    fromStop: activeCommute?.walkFromStopMinutes ?? 0,
+  };
+  const getBusStatus = useBusStatus(enableCutoff, cutoffTime, cutoffRules, walk.fromStop);
+
+  const serviceAlerts = useServiceAlerts(busLineId, originId, destinationId);
+
+  // The active route is already shown above, so don't poll it twice
+  const otherCommutes = commutes.filter(c => !isSameRoute(c, busLineId, originId, destinationId));
+  const commuteArrivals = useCommuteArrivals(otherCommutes);
+
   const settingsValue: SettingsContextValue = {
     busLineSearch, busLineId, geoLoading, geoError,
     showBusLineResults, busLineResults,
@@ -160,9 +230,25 @@ const BusTrackerContent = () => {
     onOriginChange: handleOriginChange,
     onDestinationChange: handleDestinationChange,
     onSwapDirections: handleSwapDirections,
-    enableCutoff, cutoffTime,
+    enableCutoff, cutoffTime, cutoffRules,
     onCutoffChange: handleCutoffChange,
     onCutoffTimeChange: handleCutoffTimeChange,
+    onCutoffRulesChange: handleCutoffRulesChange,
+    commutes, canSaveCommute,
+    onSaveCommute: handleSaveCommute,
+    onRemoveCommute: removeCommute,
+    onMoveCommute: moveCommute,
+    onUpdateCommute: updateCommute,
+    leaveAlerts: leaveAlerts.settings,
+    notificationPermission: leaveAlerts.permission,
+    onLeaveAlertsChange: leaveAlerts.setEnabled,
+    pushSupported: leaveAlerts.pushSupported,
+    pushError: leaveAlerts.pushError,
+    onBackgroundPushChange: leaveAlerts.setBackgroundPush,
+    onLeadMinutesChange: leaveAlerts.setLeadMinutes,
+    onWalkMinutesChange: leaveAlerts.setWalkMinutes,
+    onSnoozeAlerts: leaveAlerts.snooze,
+    onResumeAlerts: leaveAlerts.resume,
     isOpen: isConfigOpen,
     onClose: () => setIsConfigOpen(false),
     onToggleSettings: () => setIsConfigOpen(!isConfigOpen),
@@ -173,6 +259,7 @@ const BusTrackerContent = () => {
     <SettingsProvider value={settingsValue}>
       <div className="max-w-xl mx-auto flex flex-col min-h-[calc(100vh-2rem)]">
         <RouteHeader />
+        <ServiceAlerts alerts={serviceAlerts} />
 
         <ArrivalsDisplay
           loading={loading}
@@ -183,8 +270,38 @@ const BusTrackerContent = () => {
           getBusStatus={getBusStatus}
           formatTime={formatTime}
           getMinutesUntil={getMinutesUntil}
+          staleSince={data?.stale && data.fetchedAt ? new Date(data.fetchedAt) : null}
+          stopWarnings={data?.stopWarnings ?? []}
+          getMinutesSince={getMinutesSince}
+          walk={walk}
         />
 
+        {originId && destinationId && (
+          <RouteMap
+            busLineId={busLineId}
+            stops={currentStops}
+            arrivals={arrivals}
+            originId={originId}
+            destinationId={destinationId}
+            getMinutesUntil={getMinutesUntil}
+          />
+        )}
+
+        {otherCommutes.length > 0 && (
+          <div className="space-y-3 mt-3">
+            {otherCommutes.map(commute => (
+              <CommuteCard
+                key={commute.id}
+                commute={commute}
+                commuteArrivals={commuteArrivals.byId[commute.id]}
+                lastRefresh={commuteArrivals.lastRefresh}
+                nextRefreshIn={commuteArrivals.nextRefreshIn}
+                onSelect={handleSelectCommute}
+              />
+            ))}
+          </div>
+        )}
+
         <Footer />
 
         <SettingsPanel />
@@ -0,0 +1,72 @@
+import React from 'react';
+import { SavedCommute } from '@/types';
+import { CommuteArrivals } from '@/hooks/useCommuteArrivals';
+import { useBusStatus, useTimeFormatting } from '@/hooks/useMemoizedComputations';
+import ArrivalsDisplay from './ArrivalsDisplay';
+
+interface CommuteCardProps {
+  commute: SavedCommute;
+  /** From the parent's useCommuteArrivals, which polls every card at once */
+  commuteArrivals: CommuteArrivals;
+  lastRefresh: Date | null;
+  nextRefreshIn: number;
+  onSelect: (commute: SavedCommute) => void;
+}
+
+const CommuteCard = ({ commute, commuteArrivals, lastRefresh, nextRefreshIn, onSelect }: CommuteCardProps) => {
+  const { data, arrivals, error, loading } = commuteArrivals;
+
+  const getBusStatus = useBusStatus(
+    commute.enableCutoff,
+    commute.cutoffTime,
+    commute.cutoffRules,
+    commute.walkFromStopMinutes
+  );
+  const { formatTime, getMinutesUntil, getMinutesSince } = useTimeFormatting();
+
+  const shortName = (lineName: string, busLineId: string) =>
+    lineName ? lineName.split(' - ')[0] : busLineId.split('_').pop();
+
+  const lineName = commute.transfer
+    ? `${shortName(commute.lineName, commute.busLineId)} → ${shortName(commute.transfer.lineName, commute.transfer.busLineId)}`
+    : shortName(commute.lineName, commute.busLineId);
+
+  return (
+    <div className="card py-2">
+      <button
+        onClick={() => onSelect(commute)}
+        className="w-full px-4 py-1 flex items-center gap-3 text-left"
+        title="Edit this commute"
+      >
+        <span className="shrink-0 px-2.5 py-0.5 bg-accent text-white text-xs font-bold rounded-full">
+          {lineName}
+        </span>
+        <div className="min-w-0">
+          <div className="text-sm font-semibold text-[var(--text-primary)] truncate">{commute.name}</div>
+          {data && (
+            <div className="text-xs text-[var(--text-muted)] truncate">
+              {data.originName} → {data.transferName ? `${data.transferName} → ` : ''}{data.destinationName}
+            </div>
+          )}
+        </div>
+      </button>
+
+      <ArrivalsDisplay
+        loading={loading}
+        error={error}
+        arrivals={arrivals}
+        lastRefresh={lastRefresh}
+        nextRefreshIn={nextRefreshIn}
+        getBusStatus={getBusStatus}
+        formatTime={formatTime}
+        getMinutesUntil={getMinutesUntil}
+        staleSince={data?.stale && data.fetchedAt ? new Date(data.fetchedAt) : null}
+        getMinutesSince={getMinutesSince}
+        stopWarnings={data?.stopWarnings ?? []}
+        walk={{ toStop: commute.walkToStopMinutes ?? 0, fromStop: commute.walkFromStopMinutes ?? 0 }}
+      />
+    </div>
+  );
+};
+
+export default CommuteCard;
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BusArrival, BusStop, RouteShape } from '@/types';
+import { createProjection } from '@/lib/mapProjection';
+import { distanceAlongRoute } from '@/lib/polyline';
+import safeLocalStorage from '@/lib/safeLocalStorage';
+
+const SHOW_MAP_STORAGE_KEY = 'showMap';
+const WIDTH = 400;
+const HEIGHT = 280;
+const PADDING = 24;
+
+interface RouteMapProps {
+  busLineId: string;
+  /** Stops in the selected direction, in sequence order */
+  stops: BusStop[];
+  arrivals: BusArrival[];
+  originId: string;
+  destinationId: string;
+  getMinutesUntil: (date: Date | null) => number | string;
+}
+
+const RouteMap = ({ busLineId, stops, arrivals, originId, destinationId, getMinutesUntil }: RouteMapProps) => {
+  const [showMap, setShowMap] = useState(() => safeLocalStorage.getItem(SHOW_MAP_STORAGE_KEY) === 'true');
+  const [shapes, setShapes] = useState<{ lineId: string; shapes: RouteShape[] } | null>(null);
+
+  // Route geometry is fetched only once the map is opened, once per line
+  const loadedLineId = shapes?.lineId;
+  useEffect(() => {
+    if (!showMap || !busLineId || loadedLineId === busLineId) return;
+
+    const controller = new AbortController();
+    fetch(`/api/bus-stops?lineId=${encodeURIComponent(busLineId)}&shapes=true`, { signal: controller.signal })
+      .then(response => (response.ok ? response.json() : null))
+      .then(responseData => {
+        const data = responseData?.success ? responseData.data : null;
+        setShapes({ lineId: busLineId, shapes: data?.shapes ?? [] });
+      })
+      .catch(err => {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        console.error('Error fetching route shapes:', err);
+      });
+
+    return () => controller.abort();
+  }, [showMap, busLineId, loadedLineId]);
+
+  const directionName = stops[0]?.direction;
+  const paths = useMemo(
+    () => shapes?.lineId === busLineId
+      ? shapes.shapes.filter(shape => shape.directionName === directionName).flatMap(shape => shape.paths)
+      : [],
+    [shapes, busLineId, directionName]
+  );
+
+  const toggleMap = () => {
+    safeLocalStorage.setItem(SHOW_MAP_STORAGE_KEY, String(!showMap));
+    setShowMap(!showMap);
+  };
+
+  const buses = useMemo(
+    () => arrivals.filter((bus): bus is BusArrival & { location: { lat: number; lon: number } } => Boolean(bus.location)),
+    [arrivals]
+  );
+
+  // Fit the view to the route only, so it doesn't jump around on each poll;
+  // buses outside the route's extent are clamped to the edge
+  const project = useMemo(() => createProjection(
+    [...stops, ...paths.flat().map(([lat, lon]) => ({ lat, lon }))],
+    WIDTH, HEIGHT, PADDING
+  ), [stops, paths]);
+
+  const origin = stops.find(s => s.id === originId);
+  const destination = stops.find(s => s.id === destinationId);
+
+  const tripMiles = useMemo(
+    () => (origin && destination && paths.length > 0 ? distanceAlongRoute(paths, origin, destination) : null),
+    [origin, destination, paths]
+  );
+
+  if (stops.length === 0) return null;
+
+  const toPath = (points: Array<{ lat: number; lon: number }>) => points
+    .map((point, i) => {
+      const [x, y] = project(point);
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  // Fall back to joining the stops when the line has no shape data
+  const routePaths = paths.length > 0
+    ? paths.map(path => toPath(path.map(([lat, lon]) => ({ lat, lon }))))
+    : [toPath(stops)];
+
+  const clamp = (value: number, max: number) => Math.min(max - 4, Math.max(4, value));
+
+  return (
+    <section className="px-1 mt-3">
+      <button onClick={toggleMap} className="btn-ghost px-3 py-1 text-xs">
+        {showMap ? 'Hide map' : 'Show map'}
+      </button>
+
+      {showMap && (
+        <div className="card mt-2 overflow-hidden">
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto bg-[var(--bg-card)]"
+            role="img"
+            aria-label="Map of the route with live bus positions"
+          >
+            {routePaths.map((d, i) => (
+              <path key={i} d={d} fill="none" stroke="var(--border-light)" strokeWidth={4} strokeLinejoin="round" strokeLinecap="round" />
+            ))}
+
+            {stops.map(stop => {
+              if (stop.id === originId || stop.id === destinationId) return null;
+              const [x, y] = project(stop);
+              return (
+                <circle key={stop.id} cx={x} cy={y} r={2.5} fill="var(--bg)" stroke="var(--text-muted)" strokeWidth={1}>
+                  <title>{stop.name}</title>
+                </circle>
+              );
+            })}
+
+            {[origin, destination].map((stop, i) => {
+              if (!stop) return null;
+              const [x, y] = project(stop);
+              const color = i === 0 ? 'var(--accent)' : 'var(--status-good)';
+              return (
+                <g key={stop.id}>
+                  <circle cx={x} cy={y} r={6} fill={color} stroke="var(--bg)" strokeWidth={2}>
+                    <title>{stop.name}</title>
+                  </circle>
+                  <text
+                    x={x}
+                    y={y - 10}
+                    textAnchor="middle"
+                    className="text-[10px] font-semibold"
+                    fill="var(--text-primary)"
+                  >
+                    {i === 0 ? 'From' : 'To'}
+                  </text>
+                </g>
+              );
+            })}
+
+            {buses.map(bus => {
+              const [rawX, rawY] = project(bus.location);
+              const x = clamp(rawX, WIDTH);
+              const y = clamp(rawY, HEIGHT);
+              const minutes = getMinutesUntil(bus.originArrival);
+              return (
+                <g key={bus.vehicleId} transform={`translate(${x.toFixed(1)},${y.toFixed(1)})`}>
+                  <g transform={`rotate(${bus.bearing ?? 0})`}>
+                    {bus.bearing !== null && bus.bearing !== undefined
+                      ? <path d="M0,-9 L6,6 L0,3 L-6,6 Z" fill="var(--text-primary)" stroke="var(--bg)" strokeWidth={1.5} />
+                      : <circle r={5} fill="var(--text-primary)" stroke="var(--bg)" strokeWidth={1.5} />}
+                  </g>
+                  <text x={10} y={4} className="text-[10px] font-bold" fill="var(--text-primary)">
+                    {minutes === 'NOW' ? 'now' : `${minutes}m`}
+                  </text>
+                  <title>{`Bus ${bus.vehicleId.split('_').pop()} · ${bus.stopsAway} ${bus.stopsAway === 1 ? 'stop' : 'stops'} away`}</title>
+                </g>
+              );
+            })}
+          </svg>
+          {tripMiles !== null && (
+            <div className="px-3 py-2 text-xs text-[var(--text-secondary)]">
+              {tripMiles.toFixed(1)} mi along the route
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RouteMap;
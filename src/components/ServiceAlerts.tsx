@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { AlertSeverity, ServiceAlert } from '@/types';
+import { describeAlertPeriod } from '@/lib/service-alerts';
+
+interface ServiceAlertsProps {
+  alerts: ServiceAlert[];
+}
+
+const severityConfig: Record<AlertSeverity, { label: string; color: string; background: string }> = {
+  severe: { label: 'Severe', color: 'text-[var(--status-danger)]', background: 'bg-red-50' },
+  warning: { label: 'Alert', color: 'text-[var(--status-warning)]', background: 'bg-amber-50' },
+  info: { label: 'Info', color: 'text-[var(--accent)]', background: 'bg-blue-50' },
+};
+
+const ServiceAlerts = ({ alerts }: ServiceAlertsProps) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <section className="mt-2 space-y-2" aria-label="Service alerts">
+      {alerts.map(alert => {
+        const config = severityConfig[alert.severity];
+        const period = describeAlertPeriod(alert);
+        const expanded = expandedId === alert.id;
+
+        return (
+          <div
+            key={alert.id}
+            className={`rounded-xl px-3 py-2 ${config.background} ${alert.affectsSelectedStops ? 'ring-2 ring-[var(--status-danger)]' : ''}`}
+          >
+            <button
+              onClick={() => setExpandedId(expanded ? null : alert.id)}
+              className="w-full text-left"
+              aria-expanded={expanded}
+            >
+              <div className="flex items-center gap-2 text-xs font-semibold">
+                <span className={`uppercase ${config.color}`}>{config.label}</span>
+                {alert.affectsSelectedStops && (
+                  <span className="px-1.5 py-0.5 rounded bg-[var(--status-danger)] text-white">Your stop</span>
+                )}
+                {period && <span className="ml-auto font-medium text-[var(--text-muted)]">{period}</span>}
+              </div>
+              <p className="mt-0.5 text-sm font-medium text-[var(--text-primary)]">
+                {alert.summary || alert.description}
+              </p>
+            </button>
+
+            {expanded && alert.summary && alert.description && (
+              <p className="mt-1 text-xs text-[var(--text-secondary)] whitespace-pre-line">{alert.description}</p>
+            )}
+          </div>
+        );
+      })}
+    </section>
+  );
+};
+
+export default ServiceAlerts;
@@ -0,0 +1,22 @@
+"use client";
+
+import { useEffect } from 'react';
+
+/**
+ * Registers /sw.js so the app shell and last-known arrivals are available
+ * offline. Skipped in development, where a cached shell gets in the way of
+ * hot reloading.
+ */
+const ServiceWorkerRegistration = () => {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js').catch(err => {
+      console.error('Service worker registration failed:', err);
+    });
+  }, []);
+
+  return null;
+};
+
+export default ServiceWorkerRegistration;
@@ -4,6 +4,8 @@ import { useSettings } from '@/contexts/SettingsContext';
 import SearchSection from './settings/SearchSection';
 import RouteSection from './settings/RouteSection';
 import CutoffSection from './settings/CutoffSection';
+import CommutesSection from './settings/CommutesSection';
+import AlertsSection from './settings/AlertsSection';
 import ResetButton from './settings/ResetButton';
 
 const SettingsPanel = () => {
@@ -30,6 +32,8 @@ const SettingsPanel = () => {
             <SearchSection />
             <RouteSection />
             <CutoffSection />
+            <AlertsSection />
+            <CommutesSection />
             <ResetButton />
           </div>
         </DialogPanel>
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Switch } from '@headlessui/react';
+import { useSettings } from '@/contexts/SettingsContext';
+
+const SNOOZE_OPTIONS = [15, 30, 60];
+
+const AlertsSection = () => {
+  const {
+    originId, leaveAlerts, notificationPermission,
+    onLeaveAlertsChange, onLeadMinutesChange, onWalkMinutesChange,
+    onSnoozeAlerts, onResumeAlerts,
+    pushSupported, pushError, onBackgroundPushChange,
+  } = useSettings();
+
+  const { enabled, leadMinutes, walkMinutes, snoozedUntil, pushWatchId } = leaveAlerts;
+
+  if (notificationPermission === 'unsupported') {
+    return null;
+  }
+
+  return (
+    <div className="pt-4 border-t border-[var(--border-light)] space-y-3">
+      <div className="flex items-center gap-3">
+        <Switch
+          checked={enabled}
+          onChange={onLeaveAlertsChange}
+          disabled={notificationPermission === 'denied'}
+          className={`${enabled ? 'bg-[var(--accent)]' : 'bg-gray-200'} relative inline-flex h-6 w-11 items-center rounded-full transition-colors`}
+        >
+          <span className={`${enabled ? 'translate-x-5' : 'translate-x-1'} inline-block h-4 w-4 transform rounded-full bg-white transition-transform shadow-sm`} />
+        </Switch>
+        <span className="text-sm font-medium text-[var(--text-primary)]">Notify me when it's time to leave</span>
+      </div>
+
+      {notificationPermission === 'denied' && (
+        <p className="text-xs text-[var(--status-danger)]">
+          Notifications are blocked for this site. Allow them in your browser settings to use alerts.
+        </p>
+      )}
+
+      {enabled && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-[var(--text-secondary)]">Warn me</span>
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={leadMinutes}
+              onChange={(e) => onLeadMinutesChange(Math.min(60, Math.max(1, Number(e.target.value) || 1)))}
+              className="input text-sm w-20"
+            />
+            <span className="text-[var(--text-secondary)]">min before I need to leave</span>
+          </div>
+
+          {originId && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-[var(--text-secondary)]">Walk to this stop</span>
+              <input
+                type="number"
+                min={0}
+                max={60}
+                value={walkMinutes[originId] ?? 0}
+                onChange={(e) => onWalkMinutesChange(originId, Math.min(60, Math.max(0, Number(e.target.value) || 0)))}
+                className="input text-sm w-20"
+              />
+              <span className="text-[var(--text-secondary)]">min</span>
+            </div>
+          )}
+
+          {pushSupported && (
+            <label className="flex items-center gap-2 text-sm text-[var(--text-secondary)]">
+              <input
+                type="checkbox"
+                checked={pushWatchId !== null}
+                onChange={(e) => onBackgroundPushChange(e.target.checked)}
+                disabled={!originId}
+              />
+              Also alert me for this route when the app is closed
+            </label>
+          )}
+          {pushError && (
+            <p className="text-xs text-[var(--status-danger)]">{pushError}</p>
+          )}
+
+          <div className="flex items-center gap-2 text-xs">
+            {snoozedUntil ? (
+              <>
+                <span className="text-[var(--text-secondary)]">
+                  Snoozed until {new Date(snoozedUntil).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                </span>
+                <button onClick={onResumeAlerts} className="btn-ghost px-2 py-1 text-xs">Resume</button>
+              </>
+            ) : (
+              <>
+                <span className="text-[var(--text-secondary)]">Snooze</span>
+                {SNOOZE_OPTIONS.map(minutes => (
+                  <button key={minutes} onClick={() => onSnoozeAlerts(minutes)} className="btn-ghost px-2 py-1 text-xs">
+                    {minutes < 60 ? `${minutes}m` : `${minutes / 60}h`}
+                  </button>
+                ))}
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AlertsSection;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { CommuteSchedule } from '@/types';
+import { DAY_LABELS, DEFAULT_SCHEDULE_RADIUS_MILES, WEEKDAYS } from '@/lib/commuteSchedule';
+
+interface CommuteScheduleEditorProps {
+  schedule: CommuteSchedule | undefined;
+  onChange: (schedule: CommuteSchedule | undefined) => void;
+}
+
+const DEFAULT_SCHEDULE: CommuteSchedule = { days: WEEKDAYS, start: '07:00', end: '10:00' };
+
+const CommuteScheduleEditor = ({ schedule, onChange }: CommuteScheduleEditorProps) => {
+  const [locating, setLocating] = useState(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
+
+  if (!schedule) {
+    return (
+      <button onClick={() => onChange(DEFAULT_SCHEDULE)} className="btn-ghost text-xs px-2 py-1">
+        + Show automatically on a schedule
+      </button>
+    );
+  }
+
+  const toggleDay = (day: number) => {
+    const days = schedule.days.includes(day)
+      ? schedule.days.filter(d => d !== day)
+      : [...schedule.days, day].sort((a, b) => a - b);
+    if (days.length > 0) onChange({ ...schedule, days });
+  };
+
+  const useCurrentLocation = async () => {
+    setLocating(true);
+    setLocationError(null);
+    try {
+      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+        navigator.geolocation.getCurrentPosition(resolve, reject, {
+          enableHighAccuracy: true,
+          timeout: 10000,
+          maximumAge: 0,
+        });
+      });
+      onChange({
+        ...schedule,
+        location: {
+          lat: position.coords.latitude,
+          lon: position.coords.longitude,
+          radiusMiles: schedule.location?.radiusMiles ?? DEFAULT_SCHEDULE_RADIUS_MILES,
+        },
+      });
+    } catch (err) {
+      console.error('Geolocation error:', err);
+      setLocationError('Unable to determine your location');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 p-3 bg-[var(--bg-card)] rounded-lg space-y-2">
+      <div className="flex gap-1">
+        {DAY_LABELS.map((label, day) => (
+          <button
+            key={label}
+            onClick={() => toggleDay(day)}
+            className={`flex-1 py-1 text-xs font-medium rounded ${schedule.days.includes(day) ? 'bg-[var(--accent)] text-white' : 'bg-[var(--bg)] text-[var(--text-secondary)]'}`}
+            aria-pressed={schedule.days.includes(day)}
+          >
+            {label[0]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        <input
+          type="time"
+          value={schedule.start}
+          onChange={(e) => e.target.value && onChange({ ...schedule, start: e.target.value })}
+          className="input text-sm flex-1"
+          aria-label="Schedule start"
+        />
+        <span className="text-[var(--text-muted)]">to</span>
+        <input
+          type="time"
+          value={schedule.end}
+          onChange={(e) => e.target.value && onChange({ ...schedule, end: e.target.value })}
+          className="input text-sm flex-1"
+          aria-label="Schedule end"
+        />
+      </div>
+
+      <div className="flex items-center gap-2 text-xs">
+        {schedule.location ? (
+          <>
+            <span className="text-[var(--text-secondary)]">Only within</span>
+            <select
+              value={schedule.location.radiusMiles}
+              onChange={(e) => onChange({
+                ...schedule,
+                location: { ...schedule.location!, radiusMiles: Number(e.target.value) },
+              })}
+              className="select text-xs py-1"
+            >
+              {[0.25, 0.5, 1, 2, 5].map(r => (
+                <option key={r} value={r}>{r} mi</option>
+              ))}
+            </select>
+            <span className="text-[var(--text-secondary)]">of saved spot</span>
+            <button onClick={() => onChange({ ...schedule, location: undefined })} className="btn-ghost px-2 py-1 text-xs">
+              Any location
+            </button>
+          </>
+        ) : (
+          <button onClick={useCurrentLocation} disabled={locating} className="btn-ghost px-2 py-1 text-xs">
+            {locating ? 'Locating...' : 'Only near my current location'}
+          </button>
+        )}
+      </div>
+
+      {locationError && (
+        <p className="text-xs text-[var(--status-danger)]">{locationError}</p>
+      )}
+
+      <button onClick={() => onChange(undefined)} className="btn-ghost px-2 py-1 text-xs text-[var(--status-danger)]">
+        Remove schedule
+      </button>
+    </div>
+  );
+};
+
+export default CommuteScheduleEditor;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { useSettings } from '@/contexts/SettingsContext';
+import { describeSchedule } from '@/lib/commuteSchedule';
+import { commuteToLeg, findLegCommute } from '@/lib/commutes';
+import CommuteScheduleEditor from './CommuteScheduleEditor';
+
+// Select value for a transfer whose source commute was since removed
+const KEEP_TRANSFER = '__keep';
+
+const walkInput = (value: string) => Math.min(60, Math.max(0, Number(value) || 0)) || undefined;
+
+const CommutesSection = () => {
+  const {
+    commutes, canSaveCommute,
+    onSaveCommute, onRemoveCommute, onMoveCommute, onUpdateCommute,
+  } = useSettings();
+  const [name, setName] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const handleSave = () => {
+    onSaveCommute(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="pt-4 border-t border-[var(--border-light)]">
+      <label className="text-sm font-semibold text-[var(--text-primary)] block mb-2">Saved Commutes</label>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (e.g. Work AM)"
+          maxLength={40}
+          className="input flex-1 text-sm"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!canSaveCommute}
+          className="btn px-3 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+
+      {commutes.length > 0 && (
+        <ul className="mt-3 divide-y divide-[var(--border-light)]">
+          {commutes.map((commute, index) => (
+            <li key={commute.id} className="py-2">
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setExpandedId(expandedId === commute.id ? null : commute.id)}
+                  className="flex-1 min-w-0 text-left"
+                  aria-expanded={expandedId === commute.id}
+                >
+                  <div className="text-sm font-medium text-[var(--text-primary)] truncate">{commute.name}</div>
+                  <div className="text-xs text-[var(--text-muted)] truncate">
+                    {commute.lineName || commute.busLineId}
+                    {commute.schedule && ` · ${describeSchedule(commute.schedule)}`}
+                  </div>
+                </button>
+                <button
+                  onClick={() => onMoveCommute(commute.id, -1)}
+                  disabled={index === 0}
+                  className="btn-ghost px-2 py-1 disabled:opacity-30"
+                  aria-label={`Move ${commute.name} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => onMoveCommute(commute.id, 1)}
+                  disabled={index === commutes.length - 1}
+                  className="btn-ghost px-2 py-1 disabled:opacity-30"
+                  aria-label={`Move ${commute.name} down`}
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => onRemoveCommute(commute.id)}
+                  className="btn-ghost px-2 py-1 text-[var(--status-danger)]"
+                  aria-label={`Remove ${commute.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+
+              {expandedId === commute.id && (
+                <>
+                  <CommuteScheduleEditor
+                    schedule={commute.schedule}
+                    onChange={(schedule) => onUpdateCommute(commute.id, { schedule })}
+                  />
+                  <div className="mt-2 flex items-center gap-2 text-xs">
+                    <span className="text-[var(--text-secondary)] shrink-0">Walk</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={60}
+                      value={commute.walkToStopMinutes ?? 0}
+                      onChange={(e) => onUpdateCommute(commute.id, { walkToStopMinutes: walkInput(e.target.value) })}
+                      className="input text-xs py-1 w-16"
+                      aria-label="Minutes walking to the first stop"
+                    />
+                    <span className="text-[var(--text-secondary)] shrink-0">min to the stop,</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={60}
+                      value={commute.walkFromStopMinutes ?? 0}
+                      onChange={(e) => onUpdateCommute(commute.id, { walkFromStopMinutes: walkInput(e.target.value) })}
+                      className="input text-xs py-1 w-16"
+                      aria-label="Minutes walking from the last stop"
+                    />
+                    <span className="text-[var(--text-secondary)] shrink-0">min from it</span>
+                  </div>
+                  {commutes.length > 1 && (
+                    <div className="mt-2 flex items-center gap-2 text-xs">
+                      <span className="text-[var(--text-secondary)] shrink-0">Then transfer to</span>
+                      <select
+                        value={commute.transfer ? findLegCommute(commutes, commute.transfer)?.id ?? KEEP_TRANSFER : ''}
+                        onChange={(e) => {
+                          if (e.target.value === KEEP_TRANSFER) return;
+                          const next = commutes.find(c => c.id === e.target.value);
+                          onUpdateCommute(commute.id, { transfer: next ? commuteToLeg(next) : undefined });
+                        }}
+                        className="select text-xs py-1 flex-1 min-w-0"
+                      >
+                        <option value="">No transfer</option>
+                        {commute.transfer && !findLegCommute(commutes, commute.transfer) && (
+                          <option value={KEEP_TRANSFER}>{commute.transfer.lineName || commute.transfer.busLineId}</option>
+                        )}
+                        {commutes
+                          .filter(c => c.id !== commute.id && !c.transfer)
+                          .map(c => (
+                            <option key={c.id} value={c.id}>{c.name}</option>
+                          ))}
+                      </select>
+                    </div>
+                  )}
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CommutesSection;
@@ -1,9 +1,39 @@
 import React from 'react';
 import { Switch } from '@headlessui/react';
 import { useSettings } from '@/contexts/SettingsContext';
+import { DAY_LABELS } from '@/lib/commuteSchedule';
+import { DayCutoff } from '@/types';
 
 const CutoffSection = () => {
-  const { enableCutoff, cutoffTime, onCutoffChange, onCutoffTimeChange } = useSettings();
+  const {
+    enableCutoff, cutoffTime, cutoffRules,
+    onCutoffChange, onCutoffTimeChange, onCutoffRulesChange,
+  } = useSettings();
+  const { dayCutoffs, warningMinutes, earliest } = cutoffRules;
+
+  const setDayCutoffs = (next: DayCutoff[]) => onCutoffRulesChange({ ...cutoffRules, dayCutoffs: next });
+
+  // A day belongs to one rule at most, so picking it here takes it from any other
+  const toggleDay = (index: number, day: number) => {
+    const rule = dayCutoffs[index];
+    if (rule.days.includes(day)) {
+      if (rule.days.length > 1) {
+        setDayCutoffs(dayCutoffs.map((r, i) => (i === index ? { ...r, days: r.days.filter(d => d !== day) } : r)));
+      }
+      return;
+    }
+    setDayCutoffs(dayCutoffs
+      .map((r, i) => (i === index
+        ? { ...r, days: [...r.days, day].sort((a, b) => a - b) }
+        : { ...r, days: r.days.filter(d => d !== day) }))
+      .filter(r => r.days.length > 0));
+  };
+
+  const addDayCutoff = () => {
+    const claimed = new Set(dayCutoffs.flatMap(rule => rule.days));
+    const day = [5, 6, 0, 1, 2, 3, 4].find(d => !claimed.has(d));
+    if (day !== undefined) setDayCutoffs([...dayCutoffs, { days: [day], time: cutoffTime }]);
+  };
 
   return (
     <div className="pt-4 border-t border-[var(--border-light)]">
@@ -26,6 +56,75 @@ const CutoffSection = () => {
           disabled={!enableCutoff}
         />
       </div>
+
+      {enableCutoff && (
+        <div className="mt-3 space-y-2 text-xs">
+          {dayCutoffs.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <div className="flex gap-1 flex-1">
+                {DAY_LABELS.map((label, day) => (
+                  <button
+                    key={label}
+                    onClick={() => toggleDay(index, day)}
+                    className={`flex-1 py-1 font-medium rounded ${rule.days.includes(day) ? 'bg-[var(--accent)] text-white' : 'bg-[var(--bg-card)] text-[var(--text-secondary)]'}`}
+                    aria-pressed={rule.days.includes(day)}
+                    aria-label={label}
+                  >
+                    {label[0]}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="time"
+                value={rule.time}
+                onChange={(e) => e.target.value &&
+                  setDayCutoffs(dayCutoffs.map((r, i) => (i === index ? { ...r, time: e.target.value } : r)))}
+                className="input text-xs py-1"
+                aria-label="Arrive by on these days"
+              />
+              <button
+                onClick={() => setDayCutoffs(dayCutoffs.filter((_, i) => i !== index))}
+                className="btn-ghost px-2 py-1 text-[var(--status-danger)]"
+                aria-label="Remove this day's cutoff"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          {dayCutoffs.flatMap(rule => rule.days).length < 7 && (
+            <button onClick={addDayCutoff} className="btn-ghost text-xs px-2 py-1">
+              + Different time on some days
+            </button>
+          )}
+
+          <div className="flex items-center gap-2">
+            <span className="text-[var(--text-secondary)]">Cutting it close within</span>
+            <input
+              type="number"
+              min={0}
+              max={120}
+              value={warningMinutes}
+              onChange={(e) => onCutoffRulesChange({
+                ...cutoffRules,
+                warningMinutes: Math.min(120, Math.max(0, Number(e.target.value) || 0)),
+              })}
+              className="input text-xs py-1 w-16"
+            />
+            <span className="text-[var(--text-secondary)]">min</span>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="text-[var(--text-secondary)]">Too early before</span>
+            <input
+              type="time"
+              value={earliest}
+              onChange={(e) => onCutoffRulesChange({ ...cutoffRules, earliest: e.target.value })}
+              className="input text-xs py-1"
+              aria-label="Earliest useful arrival"
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,7 +1,9 @@
 'use client';
 
 import React, { createContext, useContext } from 'react';
-import { BusLine, BusStop, Direction, NearbyBusLine } from '@/types';
+import { BusLine, BusStop, CutoffRules, Direction, NearbyBusLine, SavedCommute } from '@/types';
+import { LeaveAlertSettings } from '@/lib/leaveAlerts';
+import { NotificationPermissionState } from '@/hooks/useLeaveAlerts';
 
 export interface SettingsContextValue {
   // Bus line search
@@ -33,8 +35,30 @@ export interface SettingsContextValue {
   // Cutoff
   enableCutoff: boolean;
   cutoffTime: string;
+  cutoffRules: CutoffRules;
   onCutoffChange: (value: boolean) => void;
   onCutoffTimeChange: (time: string) => void;
+  onCutoffRulesChange: (rules: CutoffRules) => void;
+
+  // Saved commutes
+  commutes: SavedCommute[];
+  canSaveCommute: boolean;
+  onSaveCommute: (name: string) => void;
+  onRemoveCommute: (id: string) => void;
+  onMoveCommute: (id: string, offset: number) => void;
+  onUpdateCommute: (id: string, changes: Partial<Omit<SavedCommute, 'id'>>) => void;
+
+  // Leave alerts
+  leaveAlerts: LeaveAlertSettings;
+  notificationPermission: NotificationPermissionState;
+  onLeaveAlertsChange: (enabled: boolean) => void;
+  pushSupported: boolean;
+  pushError: string | null;
+  onBackgroundPushChange: (enabled: boolean) => void;
+  onLeadMinutesChange: (minutes: number) => void;
+  onWalkMinutesChange: (stopId: string, minutes: number) => void;
+  onSnoozeAlerts: (minutes: number) => void;
+  onResumeAlerts: () => void;
 
   // Panel control
   isOpen: boolean;
@@ -0,0 +1,123 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook } from '@testing-library/react';
+import { useArrivalsPolling } from '@/hooks/useArrivalsPolling';
+import { BusData } from '@/types';
+
+const DATA: BusData = { originName: 'ORIGIN', destinationName: 'DESTINATION', buses: [], hasError: false };
+
+// Records every stream the hook opens so tests can drive its events
+class FakeEventSource {
+  static opened: FakeEventSource[] = [];
+  listeners = new Map<string, (event: MessageEvent<string>) => void>();
+  onerror: (() => void) | null = null;
+  closed = false;
+
+  constructor(readonly url: string) {
+    FakeEventSource.opened.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent<string>) => void) {
+    this.listeners.set(type, listener);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  emit(type: string, data: unknown) {
+    this.listeners.get(type)?.(new MessageEvent(type, { data: JSON.stringify(data) }));
+  }
+}
+
+function setup() {
+  const params = {
+    busLineId: 'MTA NYCT_B44',
+    originId: 'MTA_303247',
+    destinationId: 'MTA_303250',
+    lastRefresh: null,
+    setArrivals: vi.fn(),
+    setData: vi.fn(),
+    setError: vi.fn(),
+    setLoading: vi.fn(),
+    setLastRefresh: vi.fn(),
+    setNextRefreshIn: vi.fn(),
+  };
+  renderHook(() => useArrivalsPolling(params));
+  return params;
+}
+
+describe('useArrivalsPolling streaming', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeEventSource.opened = [];
+    vi.stubGlobal('EventSource', FakeEventSource);
+    fetchMock = vi.fn(async () => Response.json({ success: true, data: DATA }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('streams the trip without polling', async () => {
+    const params = setup();
+
+    act(() => FakeEventSource.opened[0].emit('snapshot', DATA));
+    await act(() => vi.advanceTimersByTimeAsync(60000));
+
+    expect(FakeEventSource.opened).toHaveLength(1);
+    expect(FakeEventSource.opened[0].url).toContain('/api/bus-times/stream?busLine=MTA%20NYCT_B44');
+    expect(params.setData).toHaveBeenCalledWith(DATA);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('polls while a dropped stream reconnects with a growing delay', async () => {
+    setup();
+
+    act(() => FakeEventSource.opened[0].onerror?.());
+    await act(() => vi.advanceTimersByTimeAsync(0));
+
+    expect(FakeEventSource.opened[0].closed).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await act(() => vi.advanceTimersByTimeAsync(2000));
+    expect(FakeEventSource.opened).toHaveLength(2);
+
+    act(() => FakeEventSource.opened[1].onerror?.());
+    await act(() => vi.advanceTimersByTimeAsync(3999));
+    expect(FakeEventSource.opened).toHaveLength(2);
+    await act(() => vi.advanceTimersByTimeAsync(1));
+    expect(FakeEventSource.opened).toHaveLength(3);
+  });
+
+  it('stops polling and resets the delay once the stream is back', async () => {
+    setup();
+
+    act(() => FakeEventSource.opened[0].onerror?.());
+    await act(() => vi.advanceTimersByTimeAsync(2000));
+    act(() => FakeEventSource.opened[1].emit('snapshot', DATA));
+    const polls = fetchMock.mock.calls.length;
+    await act(() => vi.advanceTimersByTimeAsync(90000));
+
+    expect(fetchMock).toHaveBeenCalledTimes(polls);
+
+    act(() => FakeEventSource.opened[1].onerror?.());
+    await act(() => vi.advanceTimersByTimeAsync(2000));
+    expect(FakeEventSource.opened).toHaveLength(3);
+  });
+
+  it('closes the stream and stops retrying on unmount', async () => {
+    setup();
+
+    act(() => FakeEventSource.opened[0].onerror?.());
+    cleanup();
+    await act(() => vi.advanceTimersByTimeAsync(60000));
+
+    expect(FakeEventSource.opened).toHaveLength(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,7 +1,65 @@
 import { useEffect, useRef } from 'react';
-import { BusArrival, BusData, BusResponse } from '@/types';
+import { ArrivalsDiff, BusArrival, BusData, BusResponse } from '@/types';
+import { applyArrivalsDiff } from '@/lib/arrivalsDiff';
+
+export const POLLING_INTERVAL = 30000;
+const STREAM_RETRY_MIN_MS = 2000;
+const STREAM_RETRY_MAX_MS = 60000;
+
+export function toBusArrival(bus: BusResponse): BusArrival {
+  let originArrival: Date | null = null;
+  let destinationArrival: Date | null = null;
+
+  try {
+    if (bus.originArrival) {
+      originArrival = new Date(bus.originArrival);
+      if (isNaN(originArrival.getTime())) {
+        console.warn(`Invalid origin arrival time format: ${bus.originArrival}`);
+        originArrival = null;
+      }
+    }
 
-const POLLING_INTERVAL = 30000;
+    if (bus.destinationArrival) {
+      destinationArrival = new Date(bus.destinationArrival);
+      if (isNaN(destinationArrival.getTime())) {
+        console.warn(`Invalid destination arrival time format: ${bus.destinationArrival}`);
+        destinationArrival = null;
+      }
+    }
+  } catch (e) {
+    console.error('Error parsing bus arrival times:', e);
+  }
+
+  const result: BusArrival = {
+    vehicleId: bus.vehicleRef,
+    originArrival: originArrival || new Date(),
+    stopsAway: bus.originStopsAway,
+    destinationArrival: destinationArrival,
+    destination: bus.destination,
+    isEstimated: bus.isEstimated || false,
+    isScheduled: bus.isScheduled || false,
+    uncertaintyMinutes: bus.uncertaintyMinutes ?? null,
+    location: bus.vehicleLocation ?? null,
+    bearing: bus.bearing ?? null,
+    occupancy: bus.occupancy ?? null,
+    distanceMiles: bus.distanceMiles ?? null,
+    presentableDistance: bus.presentableDistance ?? null,
+    progressRate: bus.progressRate ?? null,
+    isLayover: bus.isLayover || false,
+    layoverDeparture: bus.layoverDeparture ? new Date(bus.layoverDeparture) : null,
+  };
+
+  if (bus.transfer) {
+    result.transfer = {
+      busLine: bus.transfer.busLine,
+      vehicleId: bus.transfer.vehicleRef,
+      departure: new Date(bus.transfer.departure),
+      waitMinutes: bus.transfer.waitMinutes,
+    };
+  }
+
+  return result;
+}
 
 interface UseArrivalsPollingParams {
   busLineId: string;
@@ -27,6 +85,26 @@ export function useArrivalsPolling(params: UseArrivalsPollingParams) {
   const arrivalsAbortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
+    const showData = (data: BusData) => {
+      setData(data);
+
+      if (data.hasError) {
+        setError(data.errorMessage || 'Unable to get real-time bus arrival data for these stops');
+        setArrivals([]);
+      } else {
+        const processedArrivals = data.buses.map(toBusArrival);
+
+        // A stale payload still lists buses that have since come and gone
+        const now = Date.now();
+        setArrivals(data.stale
+          ? processedArrivals.filter((bus: BusArrival) => bus.originArrival.getTime() >= now)
+          : processedArrivals);
+        setError(null);
+      }
+
+      setLastRefresh(new Date());
+    };
+
     const fetchData = async () => {
       if (!busLineId || !originId || !destinationId) {
         setArrivals([]);
@@ -52,54 +130,7 @@ export function useArrivalsPolling(params: UseArrivalsPollingParams) {
         if (!response.ok) throw new Error('Failed to fetch bus data');
 
         const responseData = await response.json();
-        const data = responseData.success ? responseData.data : responseData;
-        setData(data);
-
-        if (data.hasError) {
-          setError(data.errorMessage || 'Unable to get real-time bus arrival data for these stops');
-          setArrivals([]);
-        } else {
-          const processedArrivals = data.buses.map((bus: BusResponse) => {
-            let originArrival: Date | null = null;
-            let destinationArrival: Date | null = null;
-
-            try {
-              if (bus.originArrival) {
-                originArrival = new Date(bus.originArrival);
-                if (isNaN(originArrival.getTime())) {
-                  console.warn(`Invalid origin arrival time format: ${bus.originArrival}`);
-                  originArrival = null;
-                }
-              }
-
-              if (bus.destinationArrival) {
-                destinationArrival = new Date(bus.destinationArrival);
-                if (isNaN(destinationArrival.getTime())) {
-                  console.warn(`Invalid destination arrival time format: ${bus.destinationArrival}`);
-                  destinationArrival = null;
-                }
-              }
-            } catch (e) {
-              console.error('Error parsing bus arrival times:', e);
-            }
-
-            const result = {
-              vehicleId: bus.vehicleRef,
-              originArrival: originArrival || new Date(),
-              stopsAway: bus.originStopsAway,
-              destinationArrival: destinationArrival,
-              destination: bus.destination,
-              isEstimated: bus.isEstimated || false,
-            };
-
-            return result;
-          });
-
-          setArrivals(processedArrivals);
-          setError(null);
-        }
-
-        setLastRefresh(new Date());
+        showData(responseData.success ? responseData.data : responseData);
         arrivalsAbortControllerRef.current = null;
       } catch (err) {
         if (err instanceof Error && err.name === 'AbortError') {
@@ -115,14 +146,79 @@ export function useArrivalsPolling(params: UseArrivalsPollingParams) {
       }
     };
 
-    fetchData();
-    intervalRef.current = setInterval(fetchData, POLLING_INTERVAL);
+    const startPolling = () => {
+      if (intervalRef.current) return;
+      fetchData();
+      intervalRef.current = setInterval(fetchData, POLLING_INTERVAL);
+    };
 
-    return () => {
+    const stopPolling = () => {
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
         intervalRef.current = null;
       }
+    };
+
+    // Trips stream from a poller the server shares between tabs. While a
+    // dropped stream waits to reconnect (backing off up to a minute), the
+    // trip polls: polling goes through the service worker, which can serve
+    // the last payload offline
+    let eventSource: EventSource | null = null;
+    let retryTimer: NodeJS.Timeout | null = null;
+    let retryDelay = STREAM_RETRY_MIN_MS;
+
+    const openStream = () => {
+      retryTimer = null;
+      let current: BusData | null = null;
+      eventSource = new EventSource(
+        `/api/bus-times/stream?busLine=${encodeURIComponent(busLineId)}&originId=${encodeURIComponent(originId)}&destinationId=${encodeURIComponent(destinationId)}`
+      );
+
+      eventSource.addEventListener('snapshot', (event: MessageEvent<string>) => {
+        stopPolling();
+        retryDelay = STREAM_RETRY_MIN_MS;
+        current = JSON.parse(event.data) as BusData;
+        showData(current);
+        setLoading(false);
+      });
+      eventSource.addEventListener('diff', (event: MessageEvent<string>) => {
+        if (!current) return;
+        current = applyArrivalsDiff(current, JSON.parse(event.data) as ArrivalsDiff);
+        showData(current);
+      });
+      eventSource.addEventListener('arrivals-error', (event: MessageEvent<string>) => {
+        const { message } = JSON.parse(event.data) as { message: string };
+        setError(message);
+        setArrivals([]);
+        setLoading(false);
+        setLastRefresh(new Date());
+      });
+      eventSource.onerror = () => {
+        eventSource?.close();
+        eventSource = null;
+        startPolling();
+        retryTimer = setTimeout(openStream, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, STREAM_RETRY_MAX_MS);
+      };
+    };
+
+    if (busLineId && originId && destinationId && typeof EventSource !== 'undefined') {
+      setLoading(true);
+      openStream();
+    } else {
+      startPolling();
+    }
+
+    return () => {
+      if (eventSource) {
+        eventSource.close();
+        eventSource = null;
+      }
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+      stopPolling();
       if (arrivalsAbortControllerRef.current) {
         arrivalsAbortControllerRef.current.abort();
         arrivalsAbortControllerRef.current = null;
@@ -1,7 +1,13 @@
 import { useEffect, useRef } from 'react';
 import { useSearchParams } from 'next/navigation';
-import { BusStop } from '@/types';
+import { BusStop, CutoffRules, SavedCommute } from '@/types';
 import safeLocalStorage from '@/lib/safeLocalStorage';
+import { COMMUTES_URL_PARAM, loadStoredCommutes, parseCommutes, storeCommutes } from '@/lib/commutes';
+import { getSchedulePosition, pickScheduledCommute } from '@/lib/commuteSchedule';
+import {
+  CUTOFF_RULES_STORAGE_KEY, CUTOFF_RULES_URL_PARAM, DEFAULT_CUTOFF_RULES,
+  parseCutoffRulesJson, serializeCutoffRules,
+} from '@/lib/cutoffRules';
 
 interface UseBootstrapParams {
   busLineId: string;
@@ -10,7 +16,9 @@ interface UseBootstrapParams {
   destinationId: string;
   enableCutoff: boolean;
   cutoffTime: string;
+  cutoffRules: CutoffRules;
   stops: BusStop[];
+  commutes: SavedCommute[];
   setBusLineId: (v: string) => void;
   setBusLineSearch: (v: string) => void;
   setOriginId: (v: string) => void;
@@ -20,6 +28,8 @@ interface UseBootstrapParams {
   setLastRefresh: (v: Date) => void;
   setEnableCutoff: (v: boolean) => void;
   setCutoffTime: (v: string) => void;
+  setCutoffRules: (v: CutoffRules) => void;
+  setCommutes: (v: SavedCommute[]) => void;
   syncUrl: (overrides?: Record<string, unknown>) => void;
   fetchBusLineDetails: (lineId: string) => Promise<void>;
   fetchStopsForLine: (lineId: string, preserveOriginId?: string, preserveDestinationId?: string) => Promise<void>;
@@ -29,9 +39,9 @@ interface UseBootstrapParams {
 
 export function useBootstrap(params: UseBootstrapParams) {
   const {
-    busLineId, busLineSearch, originId, destinationId, enableCutoff, cutoffTime, stops,
+    busLineId, busLineSearch, originId, destinationId, enableCutoff, cutoffTime, cutoffRules, stops, commutes,
     setBusLineId, setBusLineSearch, setOriginId, setDestinationId,
-    setStops, setIsConfigOpen, setLastRefresh, setEnableCutoff, setCutoffTime,
+    setStops, setIsConfigOpen, setLastRefresh, setEnableCutoff, setCutoffTime, setCutoffRules, setCommutes,
     syncUrl, fetchBusLineDetails, fetchStopsForLine,
     busLineSearchCleanup, stopManagementCleanup,
   } = params;
@@ -39,6 +49,8 @@ export function useBootstrap(params: UseBootstrapParams) {
   const query = useSearchParams();
   const currentBusLineRef = useRef({ id: '', search: '' });
   const cutoffHydrated = useRef(false);
+  const commutesHydrated = useRef(false);
+  const hydratedCommutesRef = useRef<SavedCommute[] | null>(null);
 
   useEffect(() => {
     return () => {
@@ -48,9 +60,36 @@ export function useBootstrap(params: UseBootstrapParams) {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const loadCommute = async (commute: SavedCommute): Promise<void> => {
+    setBusLineId(commute.busLineId);
+    setEnableCutoff(commute.enableCutoff);
+    setCutoffTime(commute.cutoffTime);
+    setCutoffRules(commute.cutoffRules ?? DEFAULT_CUTOFF_RULES);
+    if (commute.lineName) {
+      setBusLineSearch(commute.lineName);
+    } else {
+      await fetchBusLineDetails(commute.busLineId);
+    }
+    await fetchStopsForLine(commute.busLineId, commute.originId, commute.destinationId);
+    syncUrl({
+      busLineId: commute.busLineId,
+      originId: commute.originId,
+      destinationId: commute.destinationId,
+      enableCutoff: commute.enableCutoff,
+      cutoffTime: commute.enableCutoff ? commute.cutoffTime : null,
+      cutoffRules: commute.cutoffRules ?? DEFAULT_CUTOFF_RULES,
+    });
+  };
+
   useEffect(() => {
     setLastRefresh(new Date());
 
+    // A shared link's commutes take precedence over the locally saved list
+    const urlCommutes = query.get(COMMUTES_URL_PARAM);
+    const initialCommutes = urlCommutes ? parseCommutes(urlCommutes) : loadStoredCommutes();
+    hydratedCommutesRef.current = initialCommutes;
+    setCommutes(initialCommutes);
+
     const bootstrap = async () => {
       try {
         const urlBusLine = query.get('busLine');
@@ -65,6 +104,15 @@ export function useBootstrap(params: UseBootstrapParams) {
           return;
         }
 
+        // A commute scheduled for right now beats whatever route was used last
+        const position = await getSchedulePosition(initialCommutes);
+        const scheduled = pickScheduledCommute(initialCommutes, new Date(), position);
+        if (scheduled) {
+          await loadCommute(scheduled);
+          setIsConfigOpen(false);
+          return;
+        }
+
         const storedBusLine = safeLocalStorage.getItem('busLine');
         const storedOriginId = safeLocalStorage.getItem('originId');
         const storedDestinationId = safeLocalStorage.getItem('destinationId');
@@ -79,6 +127,7 @@ export function useBootstrap(params: UseBootstrapParams) {
             busLineId: storedBusLine,
             originId: storedOriginId,
             destinationId: storedDestinationId,
+            commutes: initialCommutes,
           });
           return;
         }
@@ -126,15 +175,17 @@ export function useBootstrap(params: UseBootstrapParams) {
     if (urlCutoff === 'true') {
       setEnableCutoff(true);
       if (urlTime) setCutoffTime(urlTime);
+      setCutoffRules(parseCutoffRulesJson(query.get(CUTOFF_RULES_URL_PARAM)));
     } else if (!urlCutoff) {
       const storedEnableCutoff = safeLocalStorage.getItem('enableCutoff');
       if (storedEnableCutoff === 'true') {
         setEnableCutoff(true);
         const storedCutoffTime = safeLocalStorage.getItem('cutoffTime');
         if (storedCutoffTime) setCutoffTime(storedCutoffTime);
+        setCutoffRules(parseCutoffRulesJson(safeLocalStorage.getItem(CUTOFF_RULES_STORAGE_KEY)));
       }
     }
-  }, [query, setEnableCutoff, setCutoffTime]);
+  }, [query, setEnableCutoff, setCutoffTime, setCutoffRules]);
 
   useEffect(() => {
     if (!cutoffHydrated.current) {
@@ -142,12 +193,29 @@ export function useBootstrap(params: UseBootstrapParams) {
       return;
     }
     safeLocalStorage.setItem('enableCutoff', String(enableCutoff));
+    const rules = enableCutoff ? serializeCutoffRules(cutoffRules) : undefined;
     if (enableCutoff) {
       safeLocalStorage.setItem('cutoffTime', cutoffTime);
     } else {
       safeLocalStorage.removeItem('cutoffTime');
     }
-  }, [enableCutoff, cutoffTime]);
+    if (rules) {
+      safeLocalStorage.setItem(CUTOFF_RULES_STORAGE_KEY, JSON.stringify(rules));
+    } else {
+      safeLocalStorage.removeItem(CUTOFF_RULES_STORAGE_KEY);
+    }
+  }, [enableCutoff, cutoffTime, cutoffRules]);
+
+  useEffect(() => {
+    // Skip persisting until the reducer holds the hydrated list
+    if (!commutesHydrated.current) {
+      commutesHydrated.current = commutes === hydratedCommutesRef.current;
+      return;
+    }
+    storeCommutes(commutes);
+    syncUrl({ commutes });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [commutes]);
 
   useEffect(() => {
     if (busLineId && busLineSearch) {
@@ -165,5 +233,5 @@ export function useBootstrap(params: UseBootstrapParams) {
     }
   }, [busLineId, busLineSearch]);
 
-  return { currentBusLineRef };
+  return { currentBusLineRef, loadCommute };
 }
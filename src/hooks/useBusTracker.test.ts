@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { BusTrackerState, busTrackerReducer, initialState, useBusTracker } from '@/hooks/useBusTracker';
+import { SavedCommute } from '@/types';
+
+function commute(id: string, name = id): SavedCommute {
+  return {
+    id,
+    name,
+    busLineId: 'MTA NYCT_B44',
+    lineName: 'B44',
+    originId: 'MTA_303244',
+    destinationId: 'MTA_303247',
+    enableCutoff: false,
+    cutoffTime: '08:00',
+  };
+}
+
+describe('busTrackerReducer', () => {
+  it('sets single fields without touching the rest', () => {
+    const state = busTrackerReducer(initialState, { type: 'SET_ORIGIN_ID', payload: 'MTA_303244' });
+
+    expect(state).toEqual({ ...initialState, originId: 'MTA_303244' });
+    expect(initialState.originId).toBe('');
+  });
+
+  it('merges batch updates', () => {
+    const state = busTrackerReducer(initialState, {
+      type: 'BATCH_UPDATE',
+      payload: { originId: 'MTA_303244', destinationId: 'MTA_303247', forceUpdate: 5 },
+    });
+
+    expect(state).toMatchObject({ originId: 'MTA_303244', destinationId: 'MTA_303247', forceUpdate: 5 });
+  });
+
+  it('increments forceUpdate', () => {
+    const state = busTrackerReducer(
+      busTrackerReducer(initialState, { type: 'FORCE_UPDATE' }),
+      { type: 'FORCE_UPDATE' }
+    );
+
+    expect(state.forceUpdate).toBe(2);
+  });
+
+  it('adds, updates, moves and removes commutes', () => {
+    let state: BusTrackerState = busTrackerReducer(initialState, { type: 'SET_COMMUTES', payload: [commute('a')] });
+    state = busTrackerReducer(state, { type: 'ADD_COMMUTE', payload: commute('b') });
+    state = busTrackerReducer(state, { type: 'UPDATE_COMMUTE', payload: { id: 'a', changes: { name: 'Work' } } });
+    state = busTrackerReducer(state, { type: 'MOVE_COMMUTE', payload: { id: 'b', offset: -1 } });
+
+    expect(state.commutes.map(c => [c.id, c.name])).toEqual([['b', 'b'], ['a', 'Work']]);
+
+    state = busTrackerReducer(state, { type: 'REMOVE_COMMUTE', payload: 'b' });
+
+    expect(state.commutes.map(c => c.id)).toEqual(['a']);
+  });
+
+  it('resets everything except saved commutes and opens settings', () => {
+    const dirty: BusTrackerState = {
+      ...initialState,
+      busLineId: 'MTA NYCT_B44',
+      originId: 'MTA_303244',
+      error: 'boom',
+      loading: false,
+      commutes: [commute('a')],
+    };
+
+    const state = busTrackerReducer(dirty, { type: 'RESET_ALL' });
+
+    expect(state).toEqual({ ...initialState, commutes: dirty.commutes, isConfigOpen: true });
+  });
+
+  it('ignores unknown actions', () => {
+    const action = { type: 'NOPE' } as unknown as Parameters<typeof busTrackerReducer>[1];
+
+    expect(busTrackerReducer(initialState, action)).toBe(initialState);
+  });
+});
+
+describe('useBusTracker', () => {
+  it('keeps action creators stable across renders', () => {
+    const { result } = renderHook(() => useBusTracker());
+    const { setOriginId, batchUpdate } = result.current.actions;
+
+    act(() => {
+      setOriginId('MTA_303244');
+    });
+
+    expect(result.current.state.originId).toBe('MTA_303244');
+    expect(result.current.actions.setOriginId).toBe(setOriginId);
+    expect(result.current.actions.batchUpdate).toBe(batchUpdate);
+  });
+});
@@ -1,5 +1,7 @@
 import { useReducer, useCallback } from 'react';
-import { BusLine, BusStop, Direction, BusArrival, BusData, NearbyBusLine } from '@/types';
+import { BusLine, BusStop, Direction, BusArrival, BusData, CutoffRules, NearbyBusLine, SavedCommute } from '@/types';
+import { moveCommute, updateCommute } from '@/lib/commutes';
+import { DEFAULT_CUTOFF_RULES } from '@/lib/cutoffRules';
 
 // State interface
 export interface BusTrackerState {
@@ -18,6 +20,10 @@ export interface BusTrackerState {
   selectedDirection: string;
   cutoffTime: string;
   enableCutoff: boolean;
+  cutoffRules: CutoffRules;
+  
+  // Saved commutes
+  commutes: SavedCommute[];
   
   // UI state
   loading: boolean;
@@ -54,6 +60,12 @@ export type BusTrackerAction =
   | { type: 'SET_SELECTED_DIRECTION'; payload: string }
   | { type: 'SET_CUTOFF_TIME'; payload: string }
   | { type: 'SET_ENABLE_CUTOFF'; payload: boolean }
+  | { type: 'SET_CUTOFF_RULES'; payload: CutoffRules }
+  | { type: 'SET_COMMUTES'; payload: SavedCommute[] }
+  | { type: 'ADD_COMMUTE'; payload: SavedCommute }
+  | { type: 'UPDATE_COMMUTE'; payload: { id: string; changes: Partial<Omit<SavedCommute, 'id'>> } }
+  | { type: 'REMOVE_COMMUTE'; payload: string }
+  | { type: 'MOVE_COMMUTE'; payload: { id: string; offset: number } }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_BUS_LINE_LOADING'; payload: boolean }
   | { type: 'SET_STOPS_LOADING'; payload: boolean }
@@ -83,6 +95,8 @@ export const initialState: BusTrackerState = {
   selectedDirection: '',
   cutoffTime: '08:00',
   enableCutoff: false,
+  cutoffRules: DEFAULT_CUTOFF_RULES,
+  commutes: [],
   loading: true,
   busLineLoading: false,
   stopsLoading: false,
@@ -136,6 +150,24 @@ export function busTrackerReducer(state: BusTrackerState, action: BusTrackerActi
     case 'SET_ENABLE_CUTOFF':
       return { ...state, enableCutoff: action.payload };
     
+    case 'SET_CUTOFF_RULES':
+      return { ...state, cutoffRules: action.payload };
+    
+    case 'SET_COMMUTES':
+      return { ...state, commutes: action.payload };
+    
+    case 'ADD_COMMUTE':
+      return { ...state, commutes: [...state.commutes, action.payload] };
+    
+    case 'UPDATE_COMMUTE':
+      return { ...state, commutes: updateCommute(state.commutes, action.payload.id, action.payload.changes) };
+    
+    case 'REMOVE_COMMUTE':
+      return { ...state, commutes: state.commutes.filter(c => c.id !== action.payload) };
+    
+    case 'MOVE_COMMUTE':
+      return { ...state, commutes: moveCommute(state.commutes, action.payload.id, action.payload.offset) };
+    
     case 'SET_LOADING':
       return { ...state, loading: action.payload };
     
@@ -178,6 +210,7 @@ export function busTrackerReducer(state: BusTrackerState, action: BusTrackerActi
     case 'RESET_ALL':
       return {
         ...initialState,
+        commutes: state.commutes, // Saved commutes survive a route reset
         isConfigOpen: true, // Show settings panel after reset
       };
     
@@ -228,6 +261,24 @@ export function useBusTracker() {
     setEnableCutoff: useCallback((enable: boolean) => 
       dispatch({ type: 'SET_ENABLE_CUTOFF', payload: enable }), []),
     
+    setCutoffRules: useCallback((rules: CutoffRules) => 
+      dispatch({ type: 'SET_CUTOFF_RULES', payload: rules }), []),
+    
+    setCommutes: useCallback((commutes: SavedCommute[]) => 
+      dispatch({ type: 'SET_COMMUTES', payload: commutes }), []),
+    
+    addCommute: useCallback((commute: SavedCommute) => 
+      dispatch({ type: 'ADD_COMMUTE', payload: commute }), []),
+    
+    updateCommute: useCallback((id: string, changes: Partial<Omit<SavedCommute, 'id'>>) => 
+      dispatch({ type: 'UPDATE_COMMUTE', payload: { id, changes } }), []),
+    
+    removeCommute: useCallback((id: string) => 
+      dispatch({ type: 'REMOVE_COMMUTE', payload: id }), []),
+    
+    moveCommute: useCallback((id: string, offset: number) => 
+      dispatch({ type: 'MOVE_COMMUTE', payload: { id, offset } }), []),
+    
     setLoading: useCallback((loading: boolean) => 
       dispatch({ type: 'SET_LOADING', payload: loading }), []),
     
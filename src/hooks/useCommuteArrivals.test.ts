@@ -0,0 +1,184 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { useCommuteArrivals } from '@/hooks/useCommuteArrivals';
+import { BusData, SavedCommute } from '@/types';
+
+function commute(id: string, originId: string, transfer?: SavedCommute['transfer']): SavedCommute {
+  return {
+    id,
+    name: id,
+    busLineId: 'MTA NYCT_B44',
+    lineName: 'B44',
+    originId,
+    destinationId: 'MTA_303250',
+    enableCutoff: false,
+    cutoffTime: '08:00',
+    transfer,
+  };
+}
+
+const transferLeg = { busLineId: 'MTA NYCT_B49', lineName: 'B49', originId: 'MTA_304416', destinationId: 'MTA_304417' };
+
+function busData(vehicleRef: string, overrides: Partial<BusData> = {}): BusData {
+  return {
+    originName: 'ORIGIN',
+    destinationName: 'DESTINATION',
+    buses: [{
+      vehicleRef,
+      originArrival: '2025-10-18T12:05:00Z',
+      originStopsAway: 2,
+      destinationArrival: '2025-10-18T12:15:00Z',
+      proximity: '2 stops away',
+      destination: 'WILLIAMSBURG BRIDGE PLAZA',
+      isEstimated: false,
+    }],
+    hasError: false,
+    ...overrides,
+  };
+}
+
+function stubBatch(respond: () => Response) {
+  const fetchMock = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => respond());
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('useCommuteArrivals', () => {
+  // Unmounting stops the polling intervals
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('fetches every commute in one batch request, transfers included', async () => {
+    const fetchMock = stubBatch(() => Response.json({
+      success: true,
+      data: {
+        'MTA NYCT_B44|MTA_303247|MTA_303250': busData('MTA NYCT_1001'),
+        'MTA NYCT_B44|MTA_303244|MTA_303250>MTA NYCT_B49|MTA_304416|MTA_304417': busData('MTA NYCT_2002'),
+      },
+    }));
+    const commutes = [
+      commute('work', 'MTA_303247'),
+      commute('gym', 'MTA_303244', transferLeg),
+      commute('work-again', 'MTA_303247'),
+    ];
+
+    const { result } = renderHook(() => useCommuteArrivals(commutes));
+    await waitFor(() => expect(result.current.lastRefresh).not.toBeNull());
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/bus-times/batch');
+    expect(JSON.parse(String(init?.body)).trips).toEqual([
+      { busLine: 'MTA NYCT_B44', originId: 'MTA_303247', destinationId: 'MTA_303250' },
+      {
+        busLine: 'MTA NYCT_B44', originId: 'MTA_303244', destinationId: 'MTA_303250',
+        transfer: { busLine: 'MTA NYCT_B49', originId: 'MTA_304416', destinationId: 'MTA_304417' },
+      },
+    ]);
+
+    const { byId } = result.current;
+    expect(byId.work).toMatchObject({ loading: false, error: null });
+    expect(byId.work.arrivals.map(bus => bus.vehicleId)).toEqual(['MTA NYCT_1001']);
+    expect(byId.gym.arrivals.map(bus => bus.vehicleId)).toEqual(['MTA NYCT_2002']);
+    expect(byId['work-again'].arrivals).toBe(byId.work.arrivals);
+  });
+
+  it('shows a failed trip as an error on its own card', async () => {
+    stubBatch(() => Response.json({
+      success: true,
+      data: {
+        'MTA NYCT_B44|MTA_303247|MTA_303250': busData('MTA NYCT_1001'),
+        'MTA NYCT_B44|MTA_303244|MTA_303250': busData('MTA NYCT_2002', { hasError: true, errorMessage: 'No data' }),
+      },
+    }));
+    const commutes = [commute('work', 'MTA_303247'), commute('gym', 'MTA_303244')];
+
+    const { result } = renderHook(() => useCommuteArrivals(commutes));
+    await waitFor(() => expect(result.current.lastRefresh).not.toBeNull());
+
+    expect(result.current.byId.work.error).toBeNull();
+    expect(result.current.byId.gym).toMatchObject({ arrivals: [], error: 'No data', loading: false });
+  });
+
+  it('shows the last arrivals as stale when a poll fails', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+    vi.setSystemTime(new Date('2025-10-18T12:00:00Z'));
+    let fail = false;
+    stubBatch(() => fail
+      ? new Response('busy', { status: 503 })
+      : Response.json({ success: true, data: { 'MTA NYCT_B44|MTA_303247|MTA_303250': busData('MTA NYCT_1001') } }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const commutes = [commute('work', 'MTA_303247')];
+
+    const { result } = renderHook(() => useCommuteArrivals(commutes));
+    await act(() => vi.advanceTimersByTimeAsync(0));
+
+    expect(result.current.byId.work.arrivals).toHaveLength(1);
+
+    fail = true;
+    await act(() => vi.advanceTimersByTimeAsync(30000));
+
+    expect(result.current.byId.work).toMatchObject({
+      data: { stale: true, fetchedAt: '2025-10-18T12:00:00.000Z' },
+      error: null,
+      loading: false,
+    });
+    expect(result.current.byId.work.arrivals).toHaveLength(1);
+
+    // The bus due at 12:05 has come and gone by a later failed poll
+    await act(() => vi.advanceTimersByTimeAsync(10 * 30000));
+
+    expect(result.current.byId.work.arrivals).toEqual([]);
+  });
+
+  it('flags every card when the first poll fails', async () => {
+    stubBatch(() => new Response('busy', { status: 503 }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { result } = renderHook(() => useCommuteArrivals([commute('work', 'MTA_303247')]));
+    await waitFor(() => expect(result.current.lastRefresh).not.toBeNull());
+
+    expect(result.current.byId.work).toMatchObject({
+      data: null,
+      error: 'Unable to load bus arrival times. Please try again later.',
+      loading: false,
+    });
+  });
+
+  it('drops the arrivals of commutes that are no longer saved', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    stubBatch(() => Response.json({
+      success: true,
+      data: { 'MTA NYCT_B44|MTA_303247|MTA_303250': busData('MTA NYCT_1001') },
+    }));
+    const work = commute('work', 'MTA_303247');
+
+    const { result, rerender } = renderHook(({ commutes }) => useCommuteArrivals(commutes), {
+      initialProps: { commutes: [work] },
+    });
+    await act(() => vi.advanceTimersByTimeAsync(0));
+    stubBatch(() => Response.json({
+      success: true,
+      data: { 'MTA NYCT_B44|MTA_303244|MTA_303250': busData('MTA NYCT_2002') },
+    }));
+    rerender({ commutes: [commute('gym', 'MTA_303244')] });
+    await act(() => vi.advanceTimersByTimeAsync(0));
+
+    // Restoring the deleted commute shows it loading, not its old arrivals
+    rerender({ commutes: [commute('gym', 'MTA_303244'), work] });
+
+    expect(result.current.byId.gym.arrivals.map(bus => bus.vehicleId)).toEqual(['MTA NYCT_2002']);
+    expect(result.current.byId.work).toMatchObject({ data: null, arrivals: [], loading: true });
+  });
+
+  it('does not fetch without commutes', () => {
+    const fetchMock = stubBatch(() => Response.json({ success: true, data: {} }));
+
+    renderHook(() => useCommuteArrivals([]));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ApiResponse, BusArrival, BusData, SavedCommute } from '@/types';
+import { POLLING_INTERVAL, toBusArrival } from '@/hooks/useArrivalsPolling';
+
+export interface CommuteArrivals {
+  data: BusData | null;
+  arrivals: BusArrival[];
+  error: string | null;
+  loading: boolean;
+}
+
+interface BatchTrip {
+  busLine: string;
+  originId: string;
+  destinationId: string;
+  transfer?: { busLine: string; originId: string; destinationId: string };
+}
+
+// The key /api/bus-times/batch returns each trip's BusData under
+function tripKey({ busLine, originId, destinationId, transfer }: BatchTrip): string {
+  const key = `${busLine}|${originId}|${destinationId}`;
+  return transfer ? `${key}>${transfer.busLine}|${transfer.originId}|${transfer.destinationId}` : key;
+}
+
+function commuteTrip(commute: SavedCommute): BatchTrip {
+  const { transfer } = commute;
+  return {
+    busLine: commute.busLineId,
+    originId: commute.originId,
+    destinationId: commute.destinationId,
+    ...(transfer && {
+      transfer: { busLine: transfer.busLineId, originId: transfer.originId, destinationId: transfer.destinationId },
+    }),
+  };
+}
+
+/**
+ * Poll arrivals for every saved commute card with one /api/bus-times/batch
+ * request, however many cards there are. Returns each commute's arrivals by
+ * id, plus the refresh times shared by all of them. Batch requests are
+ * POSTs, which the service worker can't cache, so a failed poll keeps the
+ * last arrivals and marks them stale the way its offline fallback does.
+ */
+export function useCommuteArrivals(commutes: SavedCommute[]) {
+  const [results, setResults] = useState<Record<string, BusData>>({});
+  // ISO time of the last successful poll, and whether polls have failed since
+  const [fetchedAt, setFetchedAt] = useState<string | null>(null);
+  const [fetchFailed, setFetchFailed] = useState(false);
+  const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
+  const [nextRefreshIn, setNextRefreshIn] = useState(POLLING_INTERVAL / 1000);
+
+  // Commute objects change identity on every render; the trips only change on edits
+  const tripsJson = JSON.stringify(
+    Array.from(new Map(commutes.map(commuteTrip).map(trip => [tripKey(trip), trip])).values())
+  );
+
+  useEffect(() => {
+    const trips: BatchTrip[] = JSON.parse(tripsJson);
+    if (trips.length === 0) return;
+
+    let controller: AbortController | null = null;
+
+    const fetchArrivals = async () => {
+      controller?.abort();
+      controller = new AbortController();
+      try {
+        const response = await fetch('/api/bus-times/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ trips }),
+          signal: controller.signal,
+        });
+        if (!response.ok) throw new Error(`Batch request failed: ${response.status}`);
+
+        const body: ApiResponse<Record<string, BusData>> = await response.json();
+        if (!body.success) throw new Error(body.error);
+        // Replaced rather than merged, so deleted or edited commutes drop out
+        setResults(body.data);
+        setFetchedAt(new Date().toISOString());
+        setFetchFailed(false);
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        setFetchFailed(true);
+        console.error('Error fetching commute arrivals:', err);
+      }
+      setLastRefresh(new Date());
+    };
+
+    void fetchArrivals();
+    const interval = setInterval(fetchArrivals, POLLING_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      controller?.abort();
+    };
+  }, [tripsJson]);
+
+  useEffect(() => {
+    const countdown = setInterval(() => {
+      if (!lastRefresh) return;
+      const timeSinceLastRefresh = Date.now() - lastRefresh.getTime();
+      setNextRefreshIn(Math.max(0, Math.ceil((POLLING_INTERVAL - timeSinceLastRefresh) / 1000)));
+    }, 1000);
+
+    return () => clearInterval(countdown);
+  }, [lastRefresh]);
+
+  // Converted once per poll rather than on every render
+  const arrivalsByKey = useMemo(() => new Map(Object.entries(results).map(([key, data]) => (
+    [key, data.hasError ? [] : data.buses.map(toBusArrival)]
+  ))), [results]);
+
+  const now = Date.now();
+  const byId: Record<string, CommuteArrivals> = {};
+  for (const commute of commutes) {
+    const key = tripKey(commuteTrip(commute));
+    const latest = results[key] ?? null;
+    const arrivals = arrivalsByKey.get(key) ?? [];
+    const dataError = latest?.hasError
+      ? latest.errorMessage || 'Unable to get real-time bus arrival data for these stops'
+      : null;
+
+    if (!fetchFailed || !latest) {
+      byId[commute.id] = {
+        data: latest,
+        arrivals,
+        error: fetchFailed ? 'Unable to load bus arrival times. Please try again later.' : dataError,
+        loading: !latest && !fetchFailed,
+      };
+      continue;
+    }
+
+    // A stale payload still lists buses that have since come and gone
+    byId[commute.id] = {
+      data: { ...latest, stale: true, fetchedAt },
+      arrivals: arrivals.filter(bus => bus.originArrival.getTime() >= now),
+      error: dataError,
+      loading: false,
+    };
+  }
+
+  return { byId, lastRefresh, nextRefreshIn };
+}
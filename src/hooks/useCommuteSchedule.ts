@@ -0,0 +1,54 @@
+import { useEffect, useRef } from 'react';
+import { SavedCommute } from '@/types';
+import { isSameRoute } from '@/lib/commutes';
+import { getSchedulePosition, pickScheduledCommute } from '@/lib/commuteSchedule';
+
+const SCHEDULE_CHECK_INTERVAL = 60000;
+
+interface UseCommuteScheduleParams {
+  commutes: SavedCommute[];
+  busLineId: string;
+  originId: string;
+  destinationId: string;
+  loadCommute: (commute: SavedCommute) => Promise<void>;
+}
+
+/**
+ * Switch the active route when a different commute's schedule window begins
+ * while the page stays open. Only transitions trigger a switch, so a route the
+ * rider picked by hand is kept until the next scheduled commute starts.
+ * The opening route is chosen by useBootstrap.
+ */
+export function useCommuteSchedule(params: UseCommuteScheduleParams) {
+  const latestRef = useRef(params);
+  const lastScheduledIdRef = useRef<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    latestRef.current = params;
+  });
+
+  useEffect(() => {
+    const checkSchedule = async () => {
+      const { commutes, busLineId, originId, destinationId, loadCommute } = latestRef.current;
+      const position = await getSchedulePosition(commutes);
+      const scheduled = pickScheduledCommute(commutes, new Date(), position);
+      const scheduledId = scheduled?.id ?? null;
+
+      const previousId = lastScheduledIdRef.current;
+      lastScheduledIdRef.current = scheduledId;
+
+      // The first check only records a baseline
+      if (previousId === undefined || previousId === scheduledId || !scheduled) return;
+      if (isSameRoute(scheduled, busLineId, originId, destinationId)) return;
+
+      try {
+        await loadCommute(scheduled);
+      } catch (err) {
+        console.error('Failed to switch to scheduled commute:', err);
+      }
+    };
+
+    const intervalId = setInterval(checkSchedule, SCHEDULE_CHECK_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, []);
+}
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BusArrival, CommuteSchedule } from '@/types';
+import {
+  LeaveAlertSettings,
+  findArrivalsToAlert,
+  getLeaveTime,
+  loadLeaveAlertSettings,
+  storeLeaveAlertSettings,
+} from '@/lib/leaveAlerts';
+import { isPushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/pushSubscription';
+
+interface UseLeaveAlertsParams {
+  arrivals: BusArrival[];
+  busLineId: string;
+  originId: string;
+  destinationId: string;
+  /** Schedule of the saved commute matching the active route, if any */
+  schedule?: CommuteSchedule;
+  originName: string | null;
+  lineName: string | null;
+  formatTime: (date: Date | null) => string;
+}
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+function getPermission(): NotificationPermissionState {
+  if (typeof window === 'undefined' || !('Notification' in window)) return 'unsupported';
+  return Notification.permission;
+}
+
+async function showNotification(title: string, options: NotificationOptions): Promise<void> {
+  // Prefer the service worker so the alert still shows from a background tab
+  if ('serviceWorker' in navigator) {
+    const registration = await navigator.serviceWorker.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, options);
+      return;
+    }
+  }
+  new Notification(title, options);
+}
+
+export function useLeaveAlerts(params: UseLeaveAlertsParams) {
+  const { arrivals, busLineId, originId, destinationId, schedule, originName, lineName, formatTime } = params;
+
+  // The tracker renders client-side only (it sits behind useSearchParams),
+  // so storage and the Notification API can be read during initialization
+  const [settings, setSettings] = useState<LeaveAlertSettings>(loadLeaveAlertSettings);
+  const [permission, setPermission] = useState<NotificationPermissionState>(getPermission);
+  const [pushError, setPushError] = useState<string | null>(null);
+  const hydrated = useRef(false);
+  const notifiedRef = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    if (!hydrated.current) {
+      hydrated.current = true;
+      return;
+    }
+    storeLeaveAlertSettings(settings);
+  }, [settings]);
+
+  // Clear the snooze once it expires so the UI reflects it
+  useEffect(() => {
+    if (settings.snoozedUntil === null) return;
+    const timeoutId = setTimeout(() => {
+      setSettings(s => ({ ...s, snoozedUntil: null }));
+    }, Math.max(0, settings.snoozedUntil - Date.now()));
+    return () => clearTimeout(timeoutId);
+  }, [settings.snoozedUntil]);
+
+  useEffect(() => {
+    if (permission !== 'granted' || !originId) return;
+
+    const due = findArrivalsToAlert(arrivals, settings, originId, notifiedRef.current, Date.now());
+    for (const bus of due) {
+      notifiedRef.current.set(bus.vehicleId, Date.now());
+      const leaveAt = getLeaveTime(bus, settings, originId);
+      const title = `Leave by ${formatTime(leaveAt)}`;
+      const body = `${lineName ?? 'Bus'} reaches ${originName ?? 'your stop'} at ${formatTime(bus.originArrival)} (${bus.stopsAway} ${bus.stopsAway === 1 ? 'stop' : 'stops'} away)`;
+      showNotification(title, { body, tag: `leave-${bus.vehicleId}` }).catch(err => {
+        console.error('Failed to show leave alert:', err);
+      });
+    }
+  }, [arrivals, settings, originId, originName, lineName, permission, formatTime]);
+
+  const removePushWatch = useCallback(async (watchId: string | null) => {
+    if (!watchId) return;
+    setSettings(s => ({ ...s, pushWatchId: null }));
+    try {
+      await unsubscribeFromPush(watchId);
+    } catch (err) {
+      console.error('Failed to remove push alerts:', err);
+    }
+  }, []);
+
+  const setEnabled = useCallback(async (enabled: boolean) => {
+    if (enabled && getPermission() === 'default') {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') return;
+    }
+    setSettings(s => ({ ...s, enabled }));
+    if (!enabled) await removePushWatch(settings.pushWatchId);
+  }, [removePushWatch, settings.pushWatchId]);
+
+  // Register the active route with the server watcher, so alerts still
+  // arrive while the app is closed
+  const setBackgroundPush = useCallback(async (enabled: boolean) => {
+    setPushError(null);
+    await removePushWatch(settings.pushWatchId);
+    if (!enabled || !busLineId || !originId || !destinationId) return;
+
+    try {
+      const pushWatchId = await subscribeToPush({
+        busLine: busLineId,
+        originId,
+        destinationId,
+        leadMinutes: settings.leadMinutes + (settings.walkMinutes[originId] ?? 0),
+        window: schedule ? { days: schedule.days, start: schedule.start, end: schedule.end } : undefined,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      setSettings(s => ({ ...s, pushWatchId }));
+    } catch (err) {
+      console.error('Failed to register push alerts:', err);
+      setPushError(err instanceof Error ? err.message : 'Failed to register push alerts');
+    }
+  }, [removePushWatch, settings, busLineId, originId, destinationId, schedule]);
+
+  const setLeadMinutes = useCallback((leadMinutes: number) => {
+    setSettings(s => ({ ...s, leadMinutes }));
+  }, []);
+
+  const setWalkMinutes = useCallback((stopId: string, minutes: number) => {
+    setSettings(s => ({ ...s, walkMinutes: { ...s.walkMinutes, [stopId]: minutes } }));
+  }, []);
+
+  const snooze = useCallback((minutes: number) => {
+    setSettings(s => ({ ...s, snoozedUntil: Date.now() + minutes * 60000 }));
+  }, []);
+
+  const resume = useCallback(() => {
+    setSettings(s => ({ ...s, snoozedUntil: null }));
+  }, []);
+
+  return {
+    settings,
+    permission,
+    pushSupported: isPushSupported(),
+    pushError,
+    setEnabled,
+    setBackgroundPush,
+    setLeadMinutes,
+    setWalkMinutes,
+    snooze,
+    resume,
+  };
+}
@@ -1,7 +1,9 @@
 import { useMemo, useCallback } from 'react';
-import { BusStop, Direction } from '@/types';
+import { BusStatus, BusStop, CutoffRules, Direction } from '@/types';
 import { calculateDistance } from '@/lib/geo';
 import { getStopFilterForRoute } from '@/lib/routeConfig';
+import { DEFAULT_CUTOFF_RULES, getCutoffStatus } from '@/lib/cutoffRules';
+import { addMinutes } from '@/lib/tripTimes';
 
 // Memoized stop normalization for matching
 export const useStopNormalization = () => {
@@ -90,21 +92,18 @@ export const useDirectionStops = (
   }, [stops, directions, selectedDirection]);
 };
 
-// Memoized bus status calculation
-export const useBusStatus = (enableCutoff: boolean, cutoffTime: string) => {
-  return useCallback((arrivalTime: Date | null) => {
-    if (!enableCutoff || !arrivalTime) return 'normal';
-
-    const [hours, minutes] = cutoffTime.split(':').map(Number);
-    const cutoff = new Date(arrivalTime);
-    cutoff.setHours(hours, minutes, 0, 0);
-
-    const warningThreshold = new Date(cutoff.getTime() - 20 * 60000); // 20 minutes before
-
-    if (arrivalTime > cutoff) return 'late';
-    if (arrivalTime >= warningThreshold) return 'warning';
-    return 'normal';
-  }, [enableCutoff, cutoffTime]);
+// Memoized bus status calculation. The cutoff applies to reaching the door,
+// so arrivals at the last stop are shifted by the walk from it.
+export const useBusStatus = (
+  enableCutoff: boolean,
+  cutoffTime: string,
+  cutoffRules: CutoffRules = DEFAULT_CUTOFF_RULES,
+  walkFromStopMinutes = 0
+) => {
+  return useCallback((busArrival: Date | null): BusStatus => {
+    if (!enableCutoff || !busArrival) return 'normal';
+    return getCutoffStatus(addMinutes(busArrival, walkFromStopMinutes), cutoffTime, cutoffRules);
+  }, [enableCutoff, cutoffTime, cutoffRules, walkFromStopMinutes]);
 };
 
 // Memoized time formatting
@@ -125,7 +124,12 @@ export const useTimeFormatting = () => {
     return minutes < 1 ? 'NOW' : minutes;
   }, []);
 
-  return { formatTime, getMinutesUntil };
+  const getMinutesSince = useCallback((date: Date | null) => {
+    if (!date || isNaN(date.getTime())) return 0;
+    return Math.max(0, Math.floor((new Date().getTime() - date.getTime()) / 60000));
+  }, []);
+
+  return { formatTime, getMinutesUntil, getMinutesSince };
 };
 
 // Memoized stop matching for nearby bus lines
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { AlertsData, ApiResponse, ServiceAlert } from '@/types';
+
+const ALERTS_POLLING_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Poll /api/alerts for the selected line and stops. A failed poll keeps the
+ * last alerts rather than flashing the banner away.
+ */
+export function useServiceAlerts(busLineId: string, originId: string, destinationId: string): ServiceAlert[] {
+  const key = busLineId && originId && destinationId ? `${busLineId}|${originId}|${destinationId}` : '';
+  const [loaded, setLoaded] = useState<{ key: string; alerts: ServiceAlert[] }>({ key: '', alerts: [] });
+
+  useEffect(() => {
+    if (!key) return;
+
+    const controller = new AbortController();
+    const url = `/api/alerts?busLine=${encodeURIComponent(busLineId)}&originId=${encodeURIComponent(originId)}&destinationId=${encodeURIComponent(destinationId)}`;
+
+    const fetchAlerts = async () => {
+      try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (!response.ok) throw new Error(`Alerts request failed: ${response.status}`);
+
+        const body: ApiResponse<AlertsData> = await response.json();
+        if (body.success) setLoaded({ key, alerts: body.data.alerts });
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        console.warn('Error fetching service alerts:', err);
+      }
+    };
+
+    void fetchAlerts();
+    const interval = setInterval(fetchAlerts, ALERTS_POLLING_INTERVAL);
+
+    return () => {
+      controller.abort();
+      clearInterval(interval);
+    };
+  }, [key, busLineId, originId, destinationId]);
+
+  // Alerts for a previous route never show against the new one
+  return loaded.key === key ? loaded.alerts : [];
+}
@@ -0,0 +1,114 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useStopManagement } from '@/hooks/useStopManagement';
+import { BusStop, Direction } from '@/types';
+
+const NORTH = 'WILLIAMSBURG via NOSTRAND AV';
+const SOUTH = 'SHEEPSHEAD BAY via ROGERS AV';
+
+const directions: Direction[] = [
+  { id: '0', name: NORTH },
+  { id: '1', name: SOUTH },
+];
+
+// Three corners served in both directions, listed in travel order
+const stops: BusStop[] = [
+  { id: 'N1', code: '', name: 'AV J', direction: NORTH, sequence: 1, lat: 40.6247, lon: -73.9477 },
+  { id: 'N2', code: '', name: 'CHURCH AV', direction: NORTH, sequence: 2, lat: 40.6508, lon: -73.9496 },
+  { id: 'N3', code: '', name: 'FULTON ST', direction: NORTH, sequence: 3, lat: 40.6803, lon: -73.9503 },
+  { id: 'S3', code: '', name: 'FULTON ST', direction: SOUTH, sequence: 4, lat: 40.6805, lon: -73.9506 },
+  { id: 'S2', code: '', name: 'CHURCH AV', direction: SOUTH, sequence: 5, lat: 40.6510, lon: -73.9499 },
+  { id: 'S1', code: '', name: 'AV J', direction: SOUTH, sequence: 6, lat: 40.6249, lon: -73.9480 },
+];
+
+function setup(overrides: { originId?: string; destinationId?: string; directions?: Direction[] } = {}) {
+  const params = {
+    stops,
+    directions: overrides.directions ?? directions,
+    selectedDirection: '0',
+    originId: overrides.originId ?? '',
+    destinationId: overrides.destinationId ?? '',
+    busLineSearch: '',
+    forceUpdate: 0,
+    setStops: vi.fn(),
+    setDirections: vi.fn(),
+    setSelectedDirection: vi.fn(),
+    setStopsLoading: vi.fn(),
+    setOriginId: vi.fn(),
+    setDestinationId: vi.fn(),
+    setBusStopError: vi.fn(),
+    setBusLineSearch: vi.fn(),
+    triggerForceUpdate: vi.fn(),
+    batchUpdate: vi.fn(),
+    syncUrl: vi.fn(),
+  };
+  const { result } = renderHook(() => useStopManagement(params));
+  return { ...params, ...result.current };
+}
+
+describe('useStopManagement stop changes', () => {
+  it('sets the stop directly when the other end is empty', () => {
+    const hook = setup();
+
+    hook.handleOriginChange('N2');
+
+    expect(hook.setOriginId).toHaveBeenCalledWith('N2');
+    expect(hook.syncUrl).toHaveBeenCalledWith({ originId: 'N2', destinationId: '' });
+    expect(hook.setSelectedDirection).not.toHaveBeenCalled();
+  });
+
+  it('keeps the direction when the new origin is still before the destination', () => {
+    const hook = setup({ originId: 'N2', destinationId: 'N3' });
+
+    hook.handleOriginChange('N1');
+
+    expect(hook.setOriginId).toHaveBeenCalledWith('N1');
+    expect(hook.setDestinationId).not.toHaveBeenCalled();
+    expect(hook.setSelectedDirection).not.toHaveBeenCalled();
+    expect(hook.syncUrl).toHaveBeenCalledWith({ originId: 'N1', destinationId: 'N3' });
+  });
+
+  it('flips direction when the new origin is past the destination', () => {
+    const hook = setup({ originId: 'N1', destinationId: 'N2' });
+
+    hook.handleOriginChange('N3');
+
+    // Fulton St -> Church Av only works southbound
+    expect(hook.setSelectedDirection).toHaveBeenCalledWith('1');
+    expect(hook.setOriginId).toHaveBeenCalledWith('S3');
+    expect(hook.setDestinationId).toHaveBeenCalledWith('S2');
+    expect(hook.triggerForceUpdate).toHaveBeenCalled();
+    expect(hook.syncUrl).toHaveBeenCalledWith({ originId: 'S3', destinationId: 'S2' });
+  });
+
+  it('flips direction when the new destination is before the origin', () => {
+    const hook = setup({ originId: 'N2', destinationId: 'N3' });
+
+    hook.handleDestinationChange('N1');
+
+    expect(hook.setSelectedDirection).toHaveBeenCalledWith('1');
+    expect(hook.setOriginId).toHaveBeenCalledWith('S2');
+    expect(hook.setDestinationId).toHaveBeenCalledWith('S1');
+    expect(hook.syncUrl).toHaveBeenCalledWith({ originId: 'S2', destinationId: 'S1' });
+  });
+
+  it('sets the stop as picked when the other direction has no matching stops', () => {
+    const hook = setup({ originId: 'N1', destinationId: 'N2', directions: [directions[0]] });
+
+    hook.handleOriginChange('N3');
+
+    expect(hook.setSelectedDirection).not.toHaveBeenCalled();
+    expect(hook.setOriginId).toHaveBeenCalledWith('N3');
+    expect(hook.syncUrl).toHaveBeenCalledWith({ originId: 'N3', destinationId: 'N2' });
+  });
+
+  it('ignores stops from another direction', () => {
+    const hook = setup({ originId: 'N1', destinationId: 'N2' });
+
+    hook.handleOriginChange('S3');
+
+    expect(hook.setOriginId).not.toHaveBeenCalled();
+    expect(hook.syncUrl).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,8 @@
-import { useCallback } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
+import { CutoffRules, SavedCommute } from '@/types';
+import { COMMUTES_URL_PARAM, serializeCommutes } from '@/lib/commutes';
+import { CUTOFF_RULES_URL_PARAM, serializeCutoffRules } from '@/lib/cutoffRules';
 
 interface UrlSyncParams {
   busLineId: string;
@@ -7,10 +10,20 @@ interface UrlSyncParams {
   destinationId: string;
   enableCutoff: boolean;
   cutoffTime: string;
+  cutoffRules: CutoffRules;
+  commutes: SavedCommute[];
 }
 
-export function useUrlSync({ busLineId, originId, destinationId, enableCutoff, cutoffTime }: UrlSyncParams) {
+export function useUrlSync({
+  busLineId, originId, destinationId, enableCutoff, cutoffTime, cutoffRules, commutes,
+}: UrlSyncParams) {
   const router = useRouter();
+  // Commutes are read through a ref so that syncUrl callbacks captured before
+  // the saved list hydrated (e.g. inside bootstrap) don't drop it from the URL.
+  const commutesRef = useRef(commutes);
+  useEffect(() => {
+    commutesRef.current = commutes;
+  }, [commutes]);
 
   const syncUrl = useCallback((overrides: Partial<{
     busLineId: string | null;
@@ -18,12 +31,16 @@ export function useUrlSync({ busLineId, originId, destinationId, enableCutoff, c
     destinationId: string | null;
     enableCutoff: boolean;
     cutoffTime: string | null;
+    cutoffRules: CutoffRules | null;
+    commutes: SavedCommute[];
   }> = {}) => {
     const effectiveBusLineId = overrides.busLineId !== undefined ? overrides.busLineId : busLineId;
     const effectiveOriginId = overrides.originId !== undefined ? overrides.originId : originId;
     const effectiveDestinationId = overrides.destinationId !== undefined ? overrides.destinationId : destinationId;
     const effectiveEnableCutoff = overrides.enableCutoff !== undefined ? overrides.enableCutoff : enableCutoff;
     const effectiveCutoffTime = overrides.cutoffTime !== undefined ? overrides.cutoffTime : cutoffTime;
+    const effectiveCutoffRules = overrides.cutoffRules !== undefined ? overrides.cutoffRules : cutoffRules;
+    const effectiveCommutes = overrides.commutes !== undefined ? overrides.commutes : commutesRef.current;
 
     const params = new URLSearchParams();
 
@@ -36,6 +53,14 @@ export function useUrlSync({ busLineId, originId, destinationId, enableCutoff, c
       if (effectiveCutoffTime) {
         params.set('time', effectiveCutoffTime);
       }
+      const rules = effectiveCutoffRules && serializeCutoffRules(effectiveCutoffRules);
+      if (rules) {
+        params.set(CUTOFF_RULES_URL_PARAM, JSON.stringify(rules));
+      }
+    }
+
+    if (effectiveCommutes.length > 0) {
+      params.set(COMMUTES_URL_PARAM, serializeCommutes(effectiveCommutes));
     }
 
     const newParamsString = params.toString();
@@ -46,7 +71,7 @@ export function useUrlSync({ busLineId, originId, destinationId, enableCutoff, c
     if (destination !== currentFullPath) {
       router.replace(destination);
     }
-  }, [busLineId, originId, destinationId, enableCutoff, cutoffTime, router]);
+  }, [busLineId, originId, destinationId, enableCutoff, cutoffTime, cutoffRules, router]);
 
   return syncUrl;
 }
@@ -0,0 +1,18 @@
+/**
+ * Next.js server startup hook. Starts the Web Push watcher when
+ * PUSH_WATCHER_INTERVAL_MS is set (self-hosted deployments); serverless
+ * hosts should call /api/push/tick from a cron instead.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const intervalMs = Number(process.env.PUSH_WATCHER_INTERVAL_MS);
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) return;
+
+  const { startPushWatcher, isPushConfigured } = await import('@/lib/push-watcher');
+  if (!isPushConfigured()) {
+    console.warn('PUSH_WATCHER_INTERVAL_MS is set but VAPID keys are missing; push watcher not started');
+    return;
+  }
+  startPushWatcher(Math.max(15000, intervalMs));
+}
@@ -0,0 +1,246 @@
+/**
+ * Optional historical log of /api/bus-times results.
+ * Each accepted poll appends one `poll` record per vehicle; when a vehicle
+ * that was about to reach the origin drops out of the feed, a `departed`
+ * record marks when it actually left. Records are stored as JSON lines.
+ *
+ * Enabled with ARRIVAL_LOG=true (path via ARRIVAL_LOG_PATH).
+ */
+
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { BusResponse } from '@/types';
+
+/** Minimum spacing between logged polls of the same route, across all clients */
+const MIN_POLL_SPACING_MS = 20000;
+
+/** A vanished bus only counts as departed if it was due within this window */
+const DEPARTURE_WINDOW_MS = 3 * 60000;
+
+/** Polls further apart than this can't pin down when a bus left */
+const MAX_POLL_GAP_MS = 5 * 60000;
+
+interface ArrivalLogRecordBase {
+  busLine: string;
+  originId: string;
+  destinationId: string;
+  vehicleRef: string;
+  /** Predicted origin arrival (ISO) */
+  predictedOrigin: string | null;
+  /** Predicted destination arrival (ISO) */
+  predictedDestination: string | null;
+}
+
+export interface PollRecord extends ArrivalLogRecordBase {
+  type: 'poll';
+  /** When the poll happened (ISO) */
+  at: string;
+  stopsAway: number;
+}
+
+export interface DepartedRecord extends ArrivalLogRecordBase {
+  type: 'departed';
+  /** Best estimate of when the bus left the origin (ISO) */
+  at: string;
+  /** Last poll that still listed the bus (ISO) */
+  lastSeenAt: string;
+}
+
+export type ArrivalLogRecord = PollRecord | DepartedRecord;
+
+export interface ArrivalLogQuery {
+  busLine: string;
+  originId: string;
+  destinationId: string;
+  /** Only records at or after this time */
+  since: Date;
+}
+
+export interface ArrivalLogStore {
+  append(records: ArrivalLogRecord[]): Promise<void>;
+  read(query: ArrivalLogQuery): Promise<ArrivalLogRecord[]>;
+}
+
+function matchesQuery(record: ArrivalLogRecord, query: ArrivalLogQuery, sinceMs: number): boolean {
+  return record.busLine === query.busLine
+    && record.originId === query.originId
+    && record.destinationId === query.destinationId
+    && new Date(record.at).getTime() >= sinceMs;
+}
+
+/**
+ * Append-only JSON lines file. Reads stream the file so stats over a long
+ * history don't need to hold every line in memory at once.
+ */
+export class JsonlArrivalLogStore implements ArrivalLogStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  append(records: ArrivalLogRecord[]): Promise<void> {
+    if (records.length === 0) return Promise.resolve();
+    const lines = records.map(record => JSON.stringify(record)).join('\n') + '\n';
+    const next = this.queue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, lines, 'utf8');
+    });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async read(query: ArrivalLogQuery): Promise<ArrivalLogRecord[]> {
+    await this.queue;
+    const sinceMs = query.since.getTime();
+    const records: ArrivalLogRecord[] = [];
+
+    let stream;
+    try {
+      await fs.access(this.filePath);
+      stream = createReadStream(this.filePath, 'utf8');
+    } catch {
+      return records;
+    }
+
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line) continue;
+      try {
+        const record = JSON.parse(line) as ArrivalLogRecord;
+        if (matchesQuery(record, query, sinceMs)) records.push(record);
+      } catch {
+        // Skip a torn line from an interrupted write
+      }
+    }
+    return records;
+  }
+}
+
+/**
+ * In-memory store for local testing.
+ */
+export class MemoryArrivalLogStore implements ArrivalLogStore {
+  private records: ArrivalLogRecord[] = [];
+
+  async append(records: ArrivalLogRecord[]): Promise<void> {
+    this.records.push(...records);
+  }
+
+  async read(query: ArrivalLogQuery): Promise<ArrivalLogRecord[]> {
+    const sinceMs = query.since.getTime();
+    return this.records.filter(record => matchesQuery(record, query, sinceMs));
+  }
+}
+
+interface TrackedRoute {
+  at: number;
+  buses: Map<string, BusResponse>;
+}
+
+/**
+ * Turns successive polls of a route into log records, detecting departures
+ * by comparing each poll's vehicles with the previous one.
+ */
+export class ArrivalRecorder {
+  private routes = new Map<string, TrackedRoute>();
+
+  constructor(private readonly store: ArrivalLogStore) {}
+
+  async record(
+    busLine: string,
+    originId: string,
+    destinationId: string,
+    buses: BusResponse[],
+    now: Date = new Date()
+  ): Promise<void> {
+    const key = `${busLine}|${originId}|${destinationId}`;
+    const nowMs = now.getTime();
+    const previous = this.routes.get(key);
+
+    if (previous && nowMs - previous.at < MIN_POLL_SPACING_MS) return;
+
+    const base = { busLine, originId, destinationId };
+    const records: ArrivalLogRecord[] = buses.map(bus => ({
+      type: 'poll',
+      ...base,
+      at: now.toISOString(),
+      vehicleRef: bus.vehicleRef,
+      predictedOrigin: bus.originArrival,
+      predictedDestination: bus.destinationArrival,
+      stopsAway: bus.originStopsAway,
+    }));
+
+    if (previous && nowMs - previous.at <= MAX_POLL_GAP_MS) {
+      const current = new Set(buses.map(bus => bus.vehicleRef));
+      for (const [vehicleRef, bus] of previous.buses) {
+        if (current.has(vehicleRef) || !bus.originArrival) continue;
+        const predictedMs = new Date(bus.originArrival).getTime();
+        if (predictedMs - previous.at > DEPARTURE_WINDOW_MS) continue;
+
+        // The bus left somewhere between the two polls
+        records.push({
+          type: 'departed',
+          ...base,
+          at: new Date((previous.at + nowMs) / 2).toISOString(),
+          lastSeenAt: new Date(previous.at).toISOString(),
+          vehicleRef,
+          predictedOrigin: bus.originArrival,
+          predictedDestination: bus.destinationArrival,
+        });
+      }
+    }
+
+    this.routes.set(key, { at: nowMs, buses: new Map(buses.map(bus => [bus.vehicleRef, bus])) });
+
+    // Forget routes nobody has polled in a while
+    for (const [routeKey, route] of this.routes) {
+      if (nowMs - route.at > MAX_POLL_GAP_MS) this.routes.delete(routeKey);
+    }
+
+    await this.store.append(records);
+  }
+}
+
+let arrivalLogStore: ArrivalLogStore | null = null;
+let arrivalRecorder: ArrivalRecorder | null = null;
+
+/**
+ * Get the arrival log store, or null when logging is disabled.
+ */
+export function getArrivalLogStore(): ArrivalLogStore | null {
+  if (arrivalLogStore) return arrivalLogStore;
+  if (process.env.ARRIVAL_LOG !== 'true') return null;
+
+  const filePath = process.env.ARRIVAL_LOG_PATH || path.join(process.cwd(), '.data', 'arrival-log.jsonl');
+  arrivalLogStore = new JsonlArrivalLogStore(filePath);
+  return arrivalLogStore;
+}
+
+/**
+ * Replace the arrival log store, e.g. with a database-backed implementation.
+ */
+export function setArrivalLogStore(store: ArrivalLogStore): void {
+  arrivalLogStore = store;
+  arrivalRecorder = null;
+}
+
+/**
+ * Record one poll result if logging is enabled. Never throws; logging must
+ * not break the request it observes.
+ */
+export async function recordArrivals(
+  busLine: string,
+  originId: string,
+  destinationId: string,
+  buses: BusResponse[]
+): Promise<void> {
+  const store = getArrivalLogStore();
+  if (!store) return;
+  arrivalRecorder ??= new ArrivalRecorder(store);
+
+  try {
+    await arrivalRecorder.record(busLine, originId, destinationId, buses);
+  } catch (error) {
+    console.error('Failed to write arrival log:', error);
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Reliability statistics computed from the arrival log.
+ */
+
+import { ArrivalStats, PredictionErrorBucket } from '@/types';
+import { ArrivalLogRecord, DepartedRecord, PollRecord } from '@/lib/arrival-log';
+import { getWallClockTime, parseTimeOfDay } from '@/lib/commuteSchedule';
+
+/** Gaps longer than this are treated as missing data, not headways */
+const MAX_HEADWAY_MS = 90 * 60000;
+
+/** Predictions made further ahead than this aren't matched to a departure */
+const MAX_PREDICTION_LEAD_MS = 60 * 60000;
+
+/** Repeat departures of one vehicle within this window are feed flicker */
+const DUPLICATE_DEPARTURE_MS = 10 * 60000;
+
+/** Lead-time ranges (minutes) that prediction errors are grouped by */
+export const LEAD_TIME_BUCKETS: Array<[number, number]> = [[0, 5], [5, 10], [10, 20], [20, 60]];
+
+export interface ArrivalStatsOptions {
+  since: Date;
+  /** IANA zone used for hour-of-day and cutoff comparisons */
+  timeZone: string;
+  /** Optional "HH:MM" cutoff to score trips against */
+  cutoff?: string;
+  cutoffWindowMinutes?: number;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function roundMinutes(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10) / 10;
+}
+
+function minutesOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+function dedupeDepartures(departures: DepartedRecord[]): DepartedRecord[] {
+  const lastByVehicle = new Map<string, number>();
+  return departures.filter(departure => {
+    const at = new Date(departure.at).getTime();
+    const last = lastByVehicle.get(departure.vehicleRef);
+    lastByVehicle.set(departure.vehicleRef, at);
+    return last === undefined || at - last > DUPLICATE_DEPARTURE_MS;
+  });
+}
+
+function computeHeadways(departures: DepartedRecord[]): number[] {
+  const headways: number[] = [];
+  for (let i = 1; i < departures.length; i++) {
+    const gap = new Date(departures[i].at).getTime() - new Date(departures[i - 1].at).getTime();
+    if (gap > 0 && gap <= MAX_HEADWAY_MS) headways.push(gap / 60000);
+  }
+  return headways;
+}
+
+/**
+ * Compare each poll's origin prediction with when that vehicle actually left.
+ * Error is actual minus predicted, so positive means the bus was late.
+ */
+function computePredictionErrors(
+  departures: DepartedRecord[],
+  polls: PollRecord[]
+): Array<{ leadMinutes: number; errorMinutes: number }> {
+  const pollsByVehicle = new Map<string, PollRecord[]>();
+  for (const poll of polls) {
+    if (!poll.predictedOrigin) continue;
+    const list = pollsByVehicle.get(poll.vehicleRef) ?? [];
+    list.push(poll);
+    pollsByVehicle.set(poll.vehicleRef, list);
+  }
+
+  const samples: Array<{ leadMinutes: number; errorMinutes: number }> = [];
+  for (const departure of departures) {
+    const actual = new Date(departure.at).getTime();
+    const lastSeen = new Date(departure.lastSeenAt).getTime();
+
+    for (const poll of pollsByVehicle.get(departure.vehicleRef) ?? []) {
+      const polledAt = new Date(poll.at).getTime();
+      if (polledAt > lastSeen || actual - polledAt > MAX_PREDICTION_LEAD_MS) continue;
+      samples.push({
+        leadMinutes: (actual - polledAt) / 60000,
+        errorMinutes: (actual - new Date(poll.predictedOrigin!).getTime()) / 60000,
+      });
+    }
+  }
+  return samples;
+}
+
+/**
+ * Summarize logged records for one line and stop pair.
+ */
+export function computeArrivalStats(
+  records: ArrivalLogRecord[],
+  route: { busLine: string; originId: string; destinationId: string },
+  options: ArrivalStatsOptions
+): ArrivalStats {
+  const polls = records.filter((record): record is PollRecord => record.type === 'poll');
+  const departures = dedupeDepartures(
+    records
+      .filter((record): record is DepartedRecord => record.type === 'departed')
+      .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+  );
+
+  const errors = computePredictionErrors(departures, polls);
+  const byLeadTime: PredictionErrorBucket[] = LEAD_TIME_BUCKETS.map(([min, max]) => {
+    const bucket = errors.filter(e => e.leadMinutes >= min && e.leadMinutes < max);
+    return {
+      leadMinutes: `${min}-${max}`,
+      samples: bucket.length,
+      medianAbsErrorMinutes: roundMinutes(median(bucket.map(e => Math.abs(e.errorMinutes)))),
+    };
+  });
+
+  // Ride duration uses the destination prediction as the bus left the origin
+  const rides = departures.flatMap(departure => {
+    if (!departure.predictedDestination) return [];
+    const leftAt = new Date(departure.at);
+    const minutes = (new Date(departure.predictedDestination).getTime() - leftAt.getTime()) / 60000;
+    if (minutes <= 0) return [];
+    return [{ local: getWallClockTime(leftAt, options.timeZone), minutes }];
+  });
+
+  const ridesByHour = new Map<number, number[]>();
+  for (const ride of rides) {
+    const hour = ride.local.getHours();
+    ridesByHour.set(hour, [...(ridesByHour.get(hour) ?? []), ride.minutes]);
+  }
+
+  const stats: ArrivalStats = {
+    ...route,
+    since: options.since.toISOString(),
+    trips: departures.length,
+    medianHeadwayMinutes: roundMinutes(median(computeHeadways(departures))),
+    predictionError: {
+      samples: errors.length,
+      medianAbsErrorMinutes: roundMinutes(median(errors.map(e => Math.abs(e.errorMinutes)))),
+      medianBiasMinutes: roundMinutes(median(errors.map(e => e.errorMinutes))),
+      byLeadTime,
+    },
+    rideDurationByHour: Array.from(ridesByHour.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([hour, minutes]) => ({ hour, trips: minutes.length, medianMinutes: roundMinutes(median(minutes))! })),
+  };
+
+  const cutoffMinutes = options.cutoff ? parseTimeOfDay(options.cutoff) : null;
+  if (options.cutoff && cutoffMinutes !== null) {
+    const windowMinutes = options.cutoffWindowMinutes ?? 60;
+    const candidates = rides.filter(ride => {
+      const leftAt = minutesOfDay(ride.local);
+      return leftAt < cutoffMinutes && leftAt >= cutoffMinutes - windowMinutes;
+    });
+    const onTime = candidates.filter(ride => minutesOfDay(ride.local) + ride.minutes <= cutoffMinutes);
+    stats.cutoff = {
+      time: options.cutoff,
+      windowMinutes,
+      trips: candidates.length,
+      onTimeShare: candidates.length > 0 ? Math.round((onTime.length / candidates.length) * 100) / 100 : null,
+    };
+  }
+
+  return stats;
+}
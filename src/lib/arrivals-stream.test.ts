@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ArrivalsHub, type ArrivalsStreamEvent } from '@/lib/arrivals-stream';
+import type { TransitProvider } from '@/lib/transit-provider';
+import { BusResponse } from '@/types';
+
+const NOW = new Date('2025-10-18T12:00:00Z');
+const INTERVAL = 30000;
+
+function bus(vehicleRef: string, minutesAway: number): BusResponse {
+  return {
+    vehicleRef,
+    originArrival: new Date(Date.now() + minutesAway * 60000).toISOString(),
+    originStopsAway: minutesAway,
+    destinationArrival: new Date(Date.now() + (minutesAway + 10) * 60000).toISOString(),
+    proximity: '',
+    destination: 'WILLIAMSBURG BRIDGE PLAZA',
+    isEstimated: false,
+  };
+}
+
+function fakeProvider(getArrivals: TransitProvider['getArrivals']): TransitProvider {
+  return {
+    id: 'fake',
+    searchLines: async () => [],
+    getLine: async () => null,
+    getStopsForLine: async () => null,
+    getStop: async stopId => ({ id: stopId, name: `Stop ${stopId}`, lat: 0, lon: 0, direction: '' }),
+    getNearby: async () => [],
+    getArrivals: vi.fn(getArrivals),
+  };
+}
+
+function collect() {
+  const events: ArrivalsStreamEvent[] = [];
+  return { events, listener: (event: ArrivalsStreamEvent) => events.push(event) };
+}
+
+describe('ArrivalsHub', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends a snapshot, then diffs after each poll', async () => {
+    let minutes = 8;
+    const provider = fakeProvider(async () => [bus('7488', minutes)]);
+    const hub = new ArrivalsHub(() => provider, INTERVAL);
+    const { events, listener } = collect();
+
+    const unsubscribe = hub.subscribe({ busLine: 'L', originId: 'O', destinationId: 'D' }, listener);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(events).toHaveLength(1);
+    expect(events[0].type).toBe('snapshot');
+    expect(events[0].data).toMatchObject({ originName: 'Stop O', destinationName: 'Stop D' });
+
+    minutes = 6;
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+
+    expect(events[1].type).toBe('diff');
+    expect(events[1].data).toMatchObject({ added: [], departed: [], updated: [{ vehicleRef: '7488', originStopsAway: 6 }] });
+
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(INTERVAL * 3);
+    expect(provider.getArrivals).toHaveBeenCalledTimes(2);
+    expect(hub.activePollers).toBe(0);
+  });
+
+  it('shares one poller between subscribers to the same line and origin', async () => {
+    const provider = fakeProvider(async () => [bus('7488', 8)]);
+    const hub = new ArrivalsHub(() => provider, INTERVAL);
+    const first = collect();
+    const second = collect();
+    const third = collect();
+
+    hub.subscribe({ busLine: 'L', originId: 'O', destinationId: 'D1' }, first.listener);
+    await vi.advanceTimersByTimeAsync(0);
+    hub.subscribe({ busLine: 'L', originId: 'O', destinationId: 'D1' }, second.listener);
+    hub.subscribe({ busLine: 'L', originId: 'O', destinationId: 'D2' }, third.listener);
+    await vi.advanceTimersByTimeAsync(0);
+
+    // A late joiner gets the latest snapshot straight away
+    expect(second.events[0].type).toBe('snapshot');
+    expect(third.events[0].type).toBe('snapshot');
+    expect(hub.activePollers).toBe(1);
+
+    const calls = vi.mocked(provider.getArrivals).mock.calls.length;
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+    expect(vi.mocked(provider.getArrivals).mock.calls.length - calls).toBe(2);
+    expect([first, second, third].map(({ events }) => events.at(-1)?.type)).toEqual(['diff', 'diff', 'diff']);
+  });
+
+  it('reports a failed poll and keeps polling', async () => {
+    let fail = true;
+    const provider = fakeProvider(async () => {
+      if (fail) throw new Error('upstream down');
+      return [bus('7488', 8)];
+    });
+    const hub = new ArrivalsHub(() => provider, INTERVAL);
+    const { events, listener } = collect();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    hub.subscribe({ busLine: 'L', originId: 'O', destinationId: 'D' }, listener);
+    await vi.advanceTimersByTimeAsync(0);
+    fail = false;
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+
+    expect(events.map(event => event.type)).toEqual(['arrivals-error', 'snapshot']);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Shared upstream polling behind /api/bus-times/stream.
+ * One poller per (line, origin) fetches arrivals for every destination its
+ * subscribers asked for in a single batch, so any number of open tabs cost
+ * the same upstream requests as one. A subscriber gets a snapshot when it
+ * joins (once one exists) and a diff after every poll.
+ *
+ * State is in memory: each server instance polls for its own subscribers.
+ */
+
+import { ArrivalsDiff, BusData } from '@/types';
+import { ArrivalsQuery, TransitProvider, getArrivalsBatch, getTransitProvider } from '@/lib/transit-provider';
+import { resolveArrivals } from '@/lib/arrivals';
+import { diffArrivals } from '@/lib/arrivalsDiff';
+
+/** Matches the client's polling interval */
+export const STREAM_POLL_INTERVAL_MS = 30000;
+
+export type ArrivalsStreamEvent =
+  | { type: 'snapshot'; data: BusData }
+  | { type: 'diff'; data: ArrivalsDiff }
+  | { type: 'arrivals-error'; data: { message: string } };
+
+type Listener = (event: ArrivalsStreamEvent) => void;
+
+interface DestinationGroup {
+  listeners: Set<Listener>;
+  latest: BusData | null;
+}
+
+interface Poller {
+  busLine: string;
+  originId: string;
+  destinations: Map<string, DestinationGroup>;
+  timer: ReturnType<typeof setTimeout> | null;
+  polling: boolean;
+  /** A destination joined mid-poll and needs a poll of its own */
+  repoll: boolean;
+}
+
+const UPSTREAM_ERROR_MESSAGE = 'Unable to get real-time bus arrival data for these stops';
+
+export class ArrivalsHub {
+  private pollers = new Map<string, Poller>();
+
+  constructor(
+    private getProvider: () => TransitProvider | null = getTransitProvider,
+    private intervalMs: number = STREAM_POLL_INTERVAL_MS
+  ) {}
+
+  /**
+   * Start receiving events for a trip. Returns the unsubscribe function; the
+   * poller stops once its last subscriber leaves.
+   */
+  subscribe({ busLine, originId, destinationId }: ArrivalsQuery, listener: Listener): () => void {
+    const key = `${busLine}|${originId}`;
+    let poller = this.pollers.get(key);
+    if (!poller) {
+      poller = { busLine, originId, destinations: new Map(), timer: null, polling: false, repoll: false };
+      this.pollers.set(key, poller);
+    }
+
+    let group = poller.destinations.get(destinationId);
+    const isNewDestination = !group;
+    if (!group) {
+      group = { listeners: new Set(), latest: null };
+      poller.destinations.set(destinationId, group);
+    }
+    group.listeners.add(listener);
+
+    if (group.latest) listener({ type: 'snapshot', data: group.latest });
+    if (isNewDestination) void this.poll(poller);
+
+    const subscribedPoller = poller;
+    const subscribedGroup = group;
+    return () => {
+      subscribedGroup.listeners.delete(listener);
+      if (subscribedGroup.listeners.size > 0) return;
+      subscribedPoller.destinations.delete(destinationId);
+      if (subscribedPoller.destinations.size > 0) return;
+      if (subscribedPoller.timer) clearTimeout(subscribedPoller.timer);
+      subscribedPoller.timer = null;
+      if (this.pollers.get(key) === subscribedPoller) this.pollers.delete(key);
+    };
+  }
+
+  /** Number of (line, origin) pairs currently polled upstream */
+  get activePollers(): number {
+    return this.pollers.size;
+  }
+
+  private async poll(poller: Poller): Promise<void> {
+    if (poller.polling) {
+      poller.repoll = true;
+      return;
+    }
+    if (poller.timer) clearTimeout(poller.timer);
+    poller.timer = null;
+    poller.polling = true;
+    poller.repoll = false;
+
+    try {
+      await this.refresh(poller);
+    } catch (error) {
+      console.error('Error polling arrivals for stream:', error);
+      this.broadcast(poller, Array.from(poller.destinations.keys()), {
+        type: 'arrivals-error',
+        data: { message: UPSTREAM_ERROR_MESSAGE },
+      });
+    } finally {
+      poller.polling = false;
+      // Nothing to schedule if everyone left while the poll was in flight
+      if (poller.destinations.size > 0) {
+        if (poller.repoll) {
+          void this.poll(poller);
+        } else {
+          poller.timer = setTimeout(() => void this.poll(poller), this.intervalMs);
+        }
+      }
+    }
+  }
+
+  private async refresh(poller: Poller): Promise<void> {
+    const provider = this.getProvider();
+    if (!provider) throw new Error('Transit provider is not configured');
+
+    const { busLine, originId } = poller;
+    const destinationIds = Array.from(poller.destinations.keys());
+    const queries = destinationIds.map(destinationId => ({ busLine, originId, destinationId }));
+    const stopIds = [originId, ...destinationIds];
+
+    // Stop names are cached by the provider; a failed lookup only costs the name
+    const [stopInfos, results] = await Promise.all([
+      Promise.all(stopIds.map(stopId => provider.getStop(stopId).catch(() => null))),
+      getArrivalsBatch(provider, queries),
+    ]);
+
+    await Promise.all(queries.map(async (query, index) => {
+      const result = results[index];
+      if (result.status === 'rejected') {
+        console.error(`Failed to fetch arrivals for ${busLine}|${originId}|${query.destinationId}:`, result.reason);
+        this.broadcast(poller, [query.destinationId], {
+          type: 'arrivals-error',
+          data: { message: UPSTREAM_ERROR_MESSAGE },
+        });
+        return;
+      }
+
+      const next: BusData = {
+        originName: stopInfos[0]?.name || "Unknown Origin",
+        destinationName: stopInfos[index + 1]?.name || "Unknown Destination",
+        ...await resolveArrivals(provider, query, result.value),
+        hasError: false,
+      };
+
+      const group = poller.destinations.get(query.destinationId);
+      if (!group) return;
+      const previous = group.latest;
+      group.latest = next;
+      this.broadcast(poller, [query.destinationId], previous
+        ? { type: 'diff', data: diffArrivals(previous, next) }
+        : { type: 'snapshot', data: next });
+    }));
+  }
+
+  private broadcast(poller: Poller, destinationIds: string[], event: ArrivalsStreamEvent): void {
+    for (const destinationId of destinationIds) {
+      for (const listener of poller.destinations.get(destinationId)?.listeners ?? []) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.warn('Arrivals stream listener failed:', error);
+        }
+      }
+    }
+  }
+}
+
+let arrivalsHub: ArrivalsHub | null = null;
+
+export function getArrivalsHub(): ArrivalsHub {
+  arrivalsHub ??= new ArrivalsHub();
+  return arrivalsHub;
+}
+
+/** Replace the shared hub (e.g. in tests); null goes back to the default */
+export function setArrivalsHub(hub: ArrivalsHub | null): void {
+  arrivalsHub = hub;
+}
@@ -0,0 +1,34 @@
+/**
+ * What every arrivals endpoint does with a provider's live buses before
+ * returning them: prediction tracking, the arrival log, skipped-stop checks,
+ * and the timetable when nothing is live.
+ */
+
+import { BusResponse, StopServiceWarning } from '@/types';
+import type { ArrivalsQuery, TransitProvider } from '@/lib/transit-provider';
+import { recordArrivals } from '@/lib/arrival-log';
+import { trackPredictions } from '@/lib/prediction-tracker';
+import { checkStopService } from '@/lib/stop-service';
+
+export async function resolveArrivals(
+  provider: TransitProvider,
+  { busLine, originId, destinationId }: ArrivalsQuery,
+  liveBuses: BusResponse[]
+): Promise<{ buses: BusResponse[]; stopWarnings: StopServiceWarning[] }> {
+  let buses = trackPredictions(busLine, originId, liveBuses);
+
+  // No-op unless ARRIVAL_LOG is enabled; never delays the response
+  void recordArrivals(busLine, originId, destinationId, buses);
+
+  const stopWarnings = checkStopService(busLine, originId, destinationId, buses);
+
+  // Nothing live (late nights, weekends, feed gaps): show the timetable instead
+  if (buses.length === 0 && provider.getScheduledArrivals) {
+    buses = await provider.getScheduledArrivals(busLine, originId, destinationId).catch(error => {
+      console.warn('Failed to load scheduled arrivals:', error);
+      return [];
+    });
+  }
+
+  return { buses, stopWarnings };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { applyArrivalsDiff, diffArrivals } from '@/lib/arrivalsDiff';
+import { BusData, BusResponse } from '@/types';
+
+function bus(vehicleRef: string, originArrival: string, originStopsAway = 3): BusResponse {
+  return {
+    vehicleRef,
+    originArrival,
+    originStopsAway,
+    destinationArrival: null,
+    proximity: '',
+    destination: 'WILLIAMSBURG BRIDGE PLAZA',
+    isEstimated: false,
+  };
+}
+
+function busData(buses: BusResponse[], overrides: Partial<BusData> = {}): BusData {
+  return { originName: 'A', destinationName: 'B', buses, hasError: false, stopWarnings: [], ...overrides };
+}
+
+describe('diffArrivals', () => {
+  const previous = busData([
+    bus('7521', '2025-10-18T12:03:00Z', 1),
+    bus('7488', '2025-10-18T12:09:00Z'),
+    bus('6210', '2025-10-18T12:15:00Z', 5),
+  ]);
+  const next = busData([
+    bus('7488', '2025-10-18T12:08:00Z', 2),
+    bus('6210', '2025-10-18T12:15:00Z', 5),
+    bus('6333', '2025-10-18T12:21:00Z', 8),
+  ]);
+
+  it('lists new, changed and departed vehicles', () => {
+    const diff = diffArrivals(previous, next);
+
+    expect(diff.added.map(b => b.vehicleRef)).toEqual(['6333']);
+    expect(diff.updated.map(b => b.vehicleRef)).toEqual(['7488']);
+    expect(diff.departed).toEqual(['7521']);
+    expect(diff).not.toHaveProperty('stopWarnings');
+  });
+
+  it('is empty when nothing changed', () => {
+    expect(diffArrivals(next, busData([...next.buses]))).toEqual({ added: [], updated: [], departed: [] });
+  });
+
+  it('carries stop warnings only when they change', () => {
+    const warned = busData(next.buses, {
+      stopWarnings: [{ stopId: 'MTA_303250', role: 'destination', reason: 'estimated' }],
+    });
+
+    expect(diffArrivals(next, warned).stopWarnings).toEqual(warned.stopWarnings);
+    expect(diffArrivals(warned, next).stopWarnings).toEqual([]);
+  });
+
+  it('rebuilds the next payload when applied', () => {
+    const applied = applyArrivalsDiff(previous, diffArrivals(previous, next));
+
+    expect(applied).toEqual(next);
+  });
+});
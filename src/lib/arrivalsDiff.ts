@@ -0,0 +1,45 @@
+import { ArrivalsDiff, BusData, BusResponse } from '@/types';
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function byOriginArrival(a: BusResponse, b: BusResponse): number {
+  if (!a.originArrival || !b.originArrival) return a.originArrival ? -1 : b.originArrival ? 1 : 0;
+  return a.originArrival.localeCompare(b.originArrival);
+}
+
+/**
+ * Changes from one arrivals payload to the next, matched by vehicleRef.
+ * An empty diff still tells a subscriber the data is current.
+ */
+export function diffArrivals(previous: BusData, next: BusData): ArrivalsDiff {
+  const before = new Map(previous.buses.map(bus => [bus.vehicleRef, bus]));
+  const after = new Set(next.buses.map(bus => bus.vehicleRef));
+
+  const diff: ArrivalsDiff = {
+    added: next.buses.filter(bus => !before.has(bus.vehicleRef)),
+    updated: next.buses.filter(bus => before.has(bus.vehicleRef) && !sameJson(before.get(bus.vehicleRef), bus)),
+    departed: previous.buses.map(bus => bus.vehicleRef).filter(vehicleRef => !after.has(vehicleRef)),
+  };
+  if (!sameJson(previous.stopWarnings ?? [], next.stopWarnings ?? [])) {
+    diff.stopWarnings = next.stopWarnings ?? [];
+  }
+  return diff;
+}
+
+/** Apply a diff from diffArrivals, keeping buses in arrival order */
+export function applyArrivalsDiff(data: BusData, diff: ArrivalsDiff): BusData {
+  const departed = new Set(diff.departed);
+  const updated = new Map(diff.updated.map(bus => [bus.vehicleRef, bus]));
+
+  const buses = data.buses
+    .filter(bus => !departed.has(bus.vehicleRef))
+    .map(bus => updated.get(bus.vehicleRef) ?? bus)
+    .concat(diff.added)
+    .sort(byOriginArrival);
+
+  return {
+    ...data,
+    buses,
+    ...(diff.stopWarnings && { stopWarnings: diff.stopWarnings }),
+  };
+}
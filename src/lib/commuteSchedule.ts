@@ -0,0 +1,172 @@
+/**
+ * Time-of-day scheduling for saved commutes.
+ * Decides which commute should be shown first based on the current time,
+ * day of week and (optionally) the rider's location.
+ */
+
+import { CommuteSchedule, SavedCommute } from '@/types';
+import { calculateDistance } from '@/lib/geo';
+
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+export const DEFAULT_SCHEDULE_RADIUS_MILES = 0.5;
+
+/**
+ * Convert an "HH:MM" string into minutes since midnight.
+ * Returns null for malformed input.
+ */
+export function parseTimeOfDay(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check whether a schedule's window covers `now`. Windows whose end is
+ * earlier than their start wrap past midnight (e.g. 22:00-02:00), in which
+ * case the early-morning part counts toward the previous day.
+ */
+export function isWithinScheduleWindow(schedule: CommuteSchedule, now: Date): boolean {
+  const start = parseTimeOfDay(schedule.start);
+  const end = parseTimeOfDay(schedule.end);
+  if (start === null || end === null) return false;
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const today = now.getDay();
+
+  if (start <= end) {
+    return schedule.days.includes(today) && minutes >= start && minutes < end;
+  }
+
+  const yesterday = (today + 6) % 7;
+  return (
+    (schedule.days.includes(today) && minutes >= start) ||
+    (schedule.days.includes(yesterday) && minutes < end)
+  );
+}
+
+/**
+ * Build a Date whose local fields match the wall-clock time in `timeZone`,
+ * so schedule windows saved in the rider's zone can be checked on a server
+ * running in another one.
+ */
+export function getWallClockTime(now: Date, timeZone: string): Date {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find(part => part.type === type)?.value ?? 0);
+    return new Date(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  } catch {
+    return now;
+  }
+}
+
+/**
+ * Check whether a schedule's optional location constraint is satisfied.
+ * When the position is unknown the constraint is treated as met, so
+ * denying location access falls back to time-only matching.
+ */
+export function isWithinScheduleRadius(
+  schedule: CommuteSchedule,
+  position: { lat: number; lon: number } | null
+): boolean {
+  if (!schedule.location || !position) return true;
+  const distance = calculateDistance(
+    position.lat,
+    position.lon,
+    schedule.location.lat,
+    schedule.location.lon
+  );
+  return distance <= schedule.location.radiusMiles;
+}
+
+/**
+ * Pick the commute whose schedule is active right now. Commutes that
+ * matched a known location win over time-only matches; ties go to the
+ * commute listed first.
+ */
+export function pickScheduledCommute(
+  commutes: SavedCommute[],
+  now: Date,
+  position: { lat: number; lon: number } | null = null
+): SavedCommute | null {
+  const active = commutes.filter(c =>
+    c.schedule &&
+    isWithinScheduleWindow(c.schedule, now) &&
+    isWithinScheduleRadius(c.schedule, position)
+  );
+
+  if (position) {
+    const located = active.find(c => c.schedule?.location);
+    if (located) return located;
+  }
+
+  return active[0] ?? null;
+}
+
+/**
+ * Resolve the rider's position for schedule matching, but only when some
+ * schedule actually uses a location and permission was already granted.
+ * Never prompts; returns null otherwise.
+ */
+export async function getSchedulePosition(
+  commutes: SavedCommute[]
+): Promise<{ lat: number; lon: number } | null> {
+  if (!commutes.some(c => c.schedule?.location)) return null;
+  if (typeof navigator === 'undefined' || !navigator.geolocation || !navigator.permissions) return null;
+
+  try {
+    const status = await navigator.permissions.query({ name: 'geolocation' });
+    if (status.state !== 'granted') return null;
+
+    const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+      navigator.geolocation.getCurrentPosition(resolve, reject, {
+        enableHighAccuracy: false,
+        timeout: 5000,
+        maximumAge: 5 * 60 * 1000,
+      });
+    });
+    return { lat: position.coords.latitude, lon: position.coords.longitude };
+  } catch {
+    return null;
+  }
+}
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function formatClock(time: string): string {
+  const minutes = parseTimeOfDay(time);
+  if (minutes === null) return time;
+  const hours = Math.floor(minutes / 60);
+  const period = hours >= 12 ? 'pm' : 'am';
+  const displayHours = hours % 12 || 12;
+  const mins = minutes % 60;
+  return mins === 0 ? `${displayHours}${period}` : `${displayHours}:${String(mins).padStart(2, '0')}${period}`;
+}
+
+/**
+ * Short human-readable summary, e.g. "Weekdays 7am–10am (near saved spot)".
+ */
+export function describeSchedule(schedule: CommuteSchedule): string {
+  const days = [...schedule.days].sort((a, b) => a - b);
+  let dayText: string;
+  if (days.length === 7) {
+    dayText = 'Daily';
+  } else if (days.join() === WEEKDAYS.join()) {
+    dayText = 'Weekdays';
+  } else if (days.join() === '0,6') {
+    dayText = 'Weekends';
+  } else {
+    dayText = days.map(d => DAY_LABELS[d]).join(', ');
+  }
+
+  const timeRange = `${formatClock(schedule.start)}–${formatClock(schedule.end)}`;
+  return schedule.location ? `${dayText} ${timeRange} (near saved spot)` : `${dayText} ${timeRange}`;
+}
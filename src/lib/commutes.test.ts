@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { SavedCommute } from '@/types';
+import { parseCommutes, serializeCommutes } from '@/lib/commutes';
+
+const commute: SavedCommute = {
+  id: 'work',
+  name: 'Work',
+  busLineId: 'MTA NYCT_B44',
+  lineName: 'B44',
+  originId: 'MTA_303247',
+  destinationId: 'MTA_303250',
+  enableCutoff: true,
+  cutoffTime: '09:00',
+  cutoffRules: {
+    dayCutoffs: [{ days: [0, 6], time: '10:30' }],
+    warningMinutes: 10,
+    earliest: '08:15',
+  },
+  walkToStopMinutes: 4,
+  walkFromStopMinutes: 7,
+};
+
+// A serialized commute with the given fields replaced
+function serializedWith(fields: Record<string, unknown>): string {
+  const [entry] = JSON.parse(serializeCommutes([commute]));
+  return JSON.stringify([{ ...entry, ...fields }]);
+}
+
+describe('commute serialization', () => {
+  it('round-trips cutoff rules and walk minutes', () => {
+    const serialized = serializeCommutes([commute]);
+
+    expect(JSON.parse(serialized)[0]).toMatchObject({
+      r: { d: [[[0, 6], '10:30']], w: 10, e: '08:15' },
+      m: [4, 7],
+    });
+    expect(parseCommutes(serialized)).toEqual([commute]);
+  });
+
+  it('leaves out default rules, rules without a cutoff and zero walks', () => {
+    const plain: SavedCommute = {
+      ...commute,
+      cutoffRules: { dayCutoffs: [], warningMinutes: 20, earliest: '' },
+      walkToStopMinutes: 0,
+      walkFromStopMinutes: undefined,
+    };
+    const [entry, withoutCutoff] = JSON.parse(serializeCommutes([plain, { ...commute, enableCutoff: false }]));
+    const [parsed] = parseCommutes(serializeCommutes([plain]));
+
+    expect(entry).not.toHaveProperty('r');
+    expect(entry).not.toHaveProperty('m');
+    expect(withoutCutoff).not.toHaveProperty('r');
+    expect(parsed.cutoffRules).toBeUndefined();
+    expect(parsed.walkToStopMinutes).toBeUndefined();
+    expect(parsed.walkFromStopMinutes).toBeUndefined();
+  });
+
+  it('keeps one walk when only the other is set', () => {
+    const [parsed] = parseCommutes(serializeCommutes([{ ...commute, walkToStopMinutes: undefined }]));
+
+    expect(parsed.walkToStopMinutes).toBeUndefined();
+    expect(parsed.walkFromStopMinutes).toBe(7);
+  });
+
+  it('clamps walk minutes and the warning margin', () => {
+    const [parsed] = parseCommutes(serializedWith({ m: [90, 2.6], r: { w: 500 } }));
+
+    expect(parsed.walkToStopMinutes).toBe(60);
+    expect(parsed.walkFromStopMinutes).toBe(3);
+    expect(parsed.cutoffRules).toEqual({ dayCutoffs: [], warningMinutes: 120, earliest: '' });
+  });
+
+  it('drops bad walk minutes and cutoff rules without dropping the commute', () => {
+    const [parsed] = parseCommutes(serializedWith({
+      m: [-5, 'far'],
+      r: { d: [[[7, 'mon'], '10:30'], [[1, 1, 2], '25:00'], 'sat'], w: 'soon', e: '8am' },
+    }));
+
+    expect(parsed).toMatchObject({ id: 'work', busLineId: 'MTA NYCT_B44', cutoffTime: '09:00' });
+    expect(parsed.walkToStopMinutes).toBeUndefined();
+    expect(parsed.walkFromStopMinutes).toBeUndefined();
+    expect(parsed.cutoffRules).toBeUndefined();
+  });
+
+  it('ignores non-array walks and non-object rules', () => {
+    const [parsed] = parseCommutes(serializedWith({ m: 5, r: 'weekends' }));
+
+    expect(parsed.walkToStopMinutes).toBeUndefined();
+    expect(parsed.cutoffRules).toBeUndefined();
+  });
+});
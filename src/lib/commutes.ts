@@ -0,0 +1,267 @@
+/**
+ * Saved commute helpers: serialization for localStorage and URL sharing,
+ * plus list manipulation used by the tracker reducer.
+ */
+
+import { CommuteSchedule, SavedCommute, TripLeg } from '@/types';
+import { validateBusLineId, validateCoordinates, validateNumber, validateStopId, validateString } from '@/lib/validation';
+import safeLocalStorage from '@/lib/safeLocalStorage';
+import {
+  SerializedCutoffRules, isDefaultCutoffRules, parseCutoffRules, serializeCutoffRules,
+} from '@/lib/cutoffRules';
+
+export const COMMUTES_STORAGE_KEY = 'commutes';
+export const COMMUTES_URL_PARAM = 'commutes';
+
+const MAX_COMMUTES = 10;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_WALK_MINUTES = 60;
+
+// Compact shape used in URLs and storage to keep shared links short
+interface SerializedCommute {
+  i?: string;
+  n: string;
+  l: string;
+  s?: string;
+  o: string;
+  d: string;
+  c?: string;
+  r?: SerializedCutoffRules;
+  w?: SerializedSchedule;
+  t?: SerializedLeg;
+  /** Walk minutes: [to the origin stop, from the last stop] */
+  m?: [number, number];
+}
+
+interface SerializedLeg {
+  l: string;
+  s?: string;
+  o: string;
+  d: string;
+}
+
+interface SerializedSchedule {
+  d: number[];
+  s: string;
+  e: string;
+  g?: [number, number, number];
+}
+
+export function createCommuteId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function serializeCommutes(commutes: SavedCommute[]): string {
+  const compact: SerializedCommute[] = commutes.map(c => ({
+    i: c.id,
+    n: c.name,
+    l: c.busLineId,
+    s: c.lineName || undefined,
+    o: c.originId,
+    d: c.destinationId,
+    c: c.enableCutoff ? c.cutoffTime : undefined,
+    r: c.enableCutoff && c.cutoffRules ? serializeCutoffRules(c.cutoffRules) : undefined,
+    w: c.schedule ? serializeSchedule(c.schedule) : undefined,
+    t: c.transfer
+      ? { l: c.transfer.busLineId, s: c.transfer.lineName || undefined, o: c.transfer.originId, d: c.transfer.destinationId }
+      : undefined,
+    m: c.walkToStopMinutes || c.walkFromStopMinutes
+      ? [c.walkToStopMinutes ?? 0, c.walkFromStopMinutes ?? 0]
+      : undefined,
+  }));
+  return JSON.stringify(compact);
+}
+
+function serializeSchedule(schedule: CommuteSchedule): SerializedSchedule {
+  const { location } = schedule;
+  return {
+    d: schedule.days,
+    s: schedule.start,
+    e: schedule.end,
+    g: location
+      ? [round(location.lat, 5), round(location.lon, 5), round(location.radiusMiles, 2)]
+      : undefined,
+  };
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function parseSchedule(raw: unknown): CommuteSchedule | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const entry = raw as Partial<SerializedSchedule>;
+
+  if (typeof entry.s !== 'string' || !TIME_PATTERN.test(entry.s)) return undefined;
+  if (typeof entry.e !== 'string' || !TIME_PATTERN.test(entry.e)) return undefined;
+
+  const days = Array.isArray(entry.d)
+    ? [...new Set(entry.d.filter(day => Number.isInteger(day) && day >= 0 && day <= 6))].sort((a, b) => a - b)
+    : [];
+  if (days.length === 0) return undefined;
+
+  const schedule: CommuteSchedule = { days, start: entry.s, end: entry.e };
+
+  if (Array.isArray(entry.g) && entry.g.length === 3) {
+    try {
+      const { lat, lon } = validateCoordinates(entry.g[0], entry.g[1]);
+      const radiusMiles = validateNumber(entry.g[2], 'radius', { required: true, min: 0.05, max: 25 });
+      schedule.location = { lat, lon, radiusMiles };
+    } catch {
+      // Keep the time window even if the location part is unusable
+    }
+  }
+
+  return schedule;
+}
+
+function parseWalkMinutes(raw: unknown): number | undefined {
+  if (typeof raw !== 'number' || !Number.isFinite(raw)) return undefined;
+  const minutes = Math.min(MAX_WALK_MINUTES, Math.max(0, Math.round(raw)));
+  return minutes || undefined;
+}
+
+function parseLeg(raw: unknown): TripLeg | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const entry = raw as Partial<SerializedLeg>;
+  try {
+    return {
+      busLineId: validateBusLineId(entry.l),
+      lineName: typeof entry.s === 'string' ? entry.s : '',
+      originId: validateStopId(entry.o),
+      destinationId: validateStopId(entry.d),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+function parseCommute(raw: unknown): SavedCommute | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const entry = raw as Partial<SerializedCommute>;
+
+  try {
+    const busLineId = validateBusLineId(entry.l);
+    const originId = validateStopId(entry.o);
+    const destinationId = validateStopId(entry.d);
+    const name = validateString(entry.n, 'commute name', { maxLength: 40 }) || busLineId;
+    const cutoffTime = typeof entry.c === 'string' && TIME_PATTERN.test(entry.c) ? entry.c : '';
+    const walk = Array.isArray(entry.m) ? entry.m : [];
+    const cutoffRules = parseCutoffRules(entry.r);
+
+    return {
+      id: typeof entry.i === 'string' && entry.i ? entry.i : createCommuteId(),
+      name,
+      busLineId,
+      lineName: typeof entry.s === 'string' ? entry.s : '',
+      originId,
+      destinationId,
+      enableCutoff: cutoffTime !== '',
+      cutoffTime: cutoffTime || '08:00',
+      cutoffRules: isDefaultCutoffRules(cutoffRules) ? undefined : cutoffRules,
+      schedule: parseSchedule(entry.w),
+      transfer: parseLeg(entry.t),
+      walkToStopMinutes: parseWalkMinutes(walk[0]),
+      walkFromStopMinutes: parseWalkMinutes(walk[1]),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a serialized commute list. Invalid entries are dropped rather than
+ * failing the whole list, since links may be hand-edited or truncated.
+ */
+export function parseCommutes(raw: string | null): SavedCommute[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+
+    const seen = new Set<string>();
+    const commutes: SavedCommute[] = [];
+    for (const item of parsed.slice(0, MAX_COMMUTES)) {
+      const commute = parseCommute(item);
+      if (!commute || seen.has(commute.id)) continue;
+      seen.add(commute.id);
+      commutes.push(commute);
+    }
+    return commutes;
+  } catch {
+    return [];
+  }
+}
+
+export function loadStoredCommutes(): SavedCommute[] {
+  return parseCommutes(safeLocalStorage.getItem(COMMUTES_STORAGE_KEY));
+}
+
+export function storeCommutes(commutes: SavedCommute[]): void {
+  if (commutes.length === 0) {
+    safeLocalStorage.removeItem(COMMUTES_STORAGE_KEY);
+    return;
+  }
+  safeLocalStorage.setItem(COMMUTES_STORAGE_KEY, serializeCommutes(commutes));
+}
+
+/**
+ * Return a new list with the commute moved by `offset` positions.
+ * Out-of-range moves return the original list unchanged.
+ */
+export function moveCommute(commutes: SavedCommute[], id: string, offset: number): SavedCommute[] {
+  const from = commutes.findIndex(c => c.id === id);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= commutes.length) return commutes;
+
+  const next = [...commutes];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+export function updateCommute(
+  commutes: SavedCommute[],
+  id: string,
+  changes: Partial<Omit<SavedCommute, 'id'>>
+): SavedCommute[] {
+  return commutes.map(c => (c.id === id ? { ...c, ...changes } : c));
+}
+
+/**
+ * Use another saved commute as the second leg of a transfer trip.
+ */
+export function commuteToLeg(commute: SavedCommute): TripLeg {
+  return {
+    busLineId: commute.busLineId,
+    lineName: commute.lineName,
+    originId: commute.originId,
+    destinationId: commute.destinationId,
+  };
+}
+
+/**
+ * Find the saved single-line commute a transfer leg was copied from, if any.
+ */
+export function findLegCommute(commutes: SavedCommute[], leg: TripLeg): SavedCommute | undefined {
+  return commutes.find(c => isSameRoute(c, leg.busLineId, leg.originId, leg.destinationId));
+}
+
+export function canAddCommute(commutes: SavedCommute[]): boolean {
+  return commutes.length < MAX_COMMUTES;
+}
+
+export function isSameRoute(
+  commute: SavedCommute,
+  busLineId: string,
+  originId: string,
+  destinationId: string
+): boolean {
+  return (
+    !commute.transfer &&
+    commute.busLineId === busLineId &&
+    commute.originId === originId &&
+    commute.destinationId === destinationId
+  );
+}
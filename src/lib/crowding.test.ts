@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { BusArrival, CrowdingLevel } from '@/types';
+import { crowdingFromLoad, findEmptierBuses } from '@/lib/crowding';
+
+const NOW = new Date('2025-10-18T12:00:00Z').getTime();
+
+function bus(vehicleId: string, minutes: number, level: CrowdingLevel | null): BusArrival {
+  return {
+    vehicleId,
+    originArrival: new Date(NOW + minutes * 60000),
+    stopsAway: 2,
+    destinationArrival: new Date(NOW + (minutes + 10) * 60000),
+    destination: 'WILLIAMSBURG BRIDGE PLAZA',
+    isEstimated: false,
+    occupancy: level && { level, passengerCount: null, passengerCapacity: null },
+  };
+}
+
+describe('crowdingFromLoad', () => {
+  it('buckets the share of capacity in use', () => {
+    expect([0, 30, 45, 60, 70].map(count => crowdingFromLoad(count, 65)))
+      .toEqual(['low', 'medium', 'high', 'full', 'full']);
+  });
+
+  it('ignores missing or impossible counts', () => {
+    expect(crowdingFromLoad(NaN, 65)).toBeNull();
+    expect(crowdingFromLoad(20, 0)).toBeNull();
+    expect(crowdingFromLoad(-1, 65)).toBeNull();
+  });
+});
+
+describe('findEmptierBuses', () => {
+  it('suggests the first less crowded bus within the wait limit', () => {
+    const emptier = findEmptierBuses([
+      bus('full', 2, 'full'),
+      bus('standing', 4, 'high'),
+      bus('seats', 6, 'low'),
+      bus('later', 20, 'low'),
+    ]);
+
+    expect(emptier.get('full')).toEqual({ vehicleId: 'standing', waitMinutes: 2 });
+    expect(emptier.get('standing')).toEqual({ vehicleId: 'seats', waitMinutes: 2 });
+    expect(emptier.has('seats')).toBe(false);
+  });
+
+  it('skips buses without occupancy or that canTake rejects', () => {
+    const emptier = findEmptierBuses(
+      [bus('full', 2, 'full'), bus('unknown', 3, null), bus('late', 4, 'low'), bus('ok', 6, 'medium')],
+      { canTake: candidate => candidate.vehicleId !== 'late' }
+    );
+
+    expect(emptier.get('full')).toEqual({ vehicleId: 'ok', waitMinutes: 4 });
+  });
+
+  it('suggests nothing beyond maxWaitMinutes', () => {
+    expect(findEmptierBuses([bus('full', 2, 'full'), bus('seats', 10, 'low')]).size).toBe(0);
+  });
+});
@@ -0,0 +1,60 @@
+import { BusArrival, CrowdingLevel } from '@/types';
+
+export const CROWDING_LEVELS: CrowdingLevel[] = ['low', 'medium', 'high', 'full'];
+
+export const crowdingLabels: Record<CrowdingLevel, string> = {
+  low: 'Seats available',
+  medium: 'Few seats',
+  high: 'Standing room',
+  full: 'Full',
+};
+
+/**
+ * Crowding from a passenger count and the bus's total (seated plus
+ * standing) capacity.
+ */
+export function crowdingFromLoad(passengers: number, capacity: number): CrowdingLevel | null {
+  if (!Number.isFinite(passengers) || !Number.isFinite(capacity) || capacity <= 0 || passengers < 0) return null;
+  const load = passengers / capacity;
+  if (load < 0.4) return 'low';
+  if (load < 0.6) return 'medium';
+  if (load < 0.9) return 'high';
+  return 'full';
+}
+
+/** Only this crowded or worse is worth letting a bus go by */
+const SKIPPABLE_FROM = CROWDING_LEVELS.indexOf('high');
+
+/**
+ * For each crowded bus, the first later bus within `maxWaitMinutes` that is
+ * less crowded and that `canTake` accepts (e.g. still beats the cutoff).
+ * Keyed by the crowded bus's vehicleId.
+ */
+export function findEmptierBuses(
+  arrivals: BusArrival[],
+  { maxWaitMinutes = 5, canTake = () => true }: { maxWaitMinutes?: number; canTake?: (bus: BusArrival) => boolean } = {}
+): Map<string, { vehicleId: string; waitMinutes: number }> {
+  const emptier = new Map<string, { vehicleId: string; waitMinutes: number }>();
+
+  for (const bus of arrivals) {
+    const level = bus.occupancy ? CROWDING_LEVELS.indexOf(bus.occupancy.level) : -1;
+    if (level < SKIPPABLE_FROM) continue;
+
+    const next = arrivals.find(other => {
+      if (other === bus || !other.occupancy) return false;
+      const waitMinutes = (other.originArrival.getTime() - bus.originArrival.getTime()) / 60000;
+      return waitMinutes > 0 &&
+        waitMinutes <= maxWaitMinutes &&
+        CROWDING_LEVELS.indexOf(other.occupancy.level) < level &&
+        canTake(other);
+    });
+    if (next) {
+      emptier.set(bus.vehicleId, {
+        vehicleId: next.vehicleId,
+        waitMinutes: Math.round((next.originArrival.getTime() - bus.originArrival.getTime()) / 60000),
+      });
+    }
+  }
+
+  return emptier;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { CsvRowStream, csvRecordStream, parseCsv, parseCsvRows } from '@/lib/csv';
+
+describe('parseCsvRows', () => {
+  it('handles quoted fields with commas, quotes and newlines', () => {
+    expect(parseCsvRows('a,"b, c","say ""hi""","two\nlines"\n')).toEqual([
+      ['a', 'b, c', 'say "hi"', 'two\nlines'],
+    ]);
+  });
+
+  it('handles CRLF line endings, a byte order mark and blank lines', () => {
+    expect(parseCsvRows('\uFEFFid,name\r\n1,one\r\n\r\n2,two')).toEqual([
+      ['id', 'name'],
+      ['1', 'one'],
+      ['2', 'two'],
+    ]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsvRows('a,,c\n,,\n')).toEqual([['a', '', 'c'], ['', '', '']]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('keys records by trimmed header and fills missing fields', () => {
+    expect(parseCsv('stop_id, stop_name ,location_type\n303244, CHURCH AV\n')).toEqual([
+      { stop_id: '303244', stop_name: 'CHURCH AV', location_type: '' },
+    ]);
+  });
+
+  it('returns no records for empty input', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('CsvRowStream', () => {
+  const text = '\uFEFFid,name\r\n1,"say ""hi"""\r\n\r\n2,"two\nlines"\r\n3,three';
+
+  it('parses text split at every position like the whole text', () => {
+    for (let split = 0; split <= text.length; split++) {
+      const rows: string[][] = [];
+      const stream = new CsvRowStream(row => rows.push(row));
+      stream.push(text.slice(0, split));
+      stream.push(text.slice(split));
+      stream.end();
+
+      expect(rows).toEqual(parseCsvRows(text));
+    }
+  });
+
+  it('parses text pushed one character at a time', () => {
+    const rows: string[][] = [];
+    const stream = new CsvRowStream(row => rows.push(row));
+    for (const char of text) stream.push(char);
+    stream.end();
+
+    expect(rows).toEqual([['id', 'name'], ['1', 'say "hi"'], ['2', 'two\nlines'], ['3', 'three']]);
+  });
+});
+
+describe('csvRecordStream', () => {
+  it('passes records keyed by the header row', () => {
+    const records: Record<string, string>[] = [];
+    const stream = csvRecordStream(record => records.push(record));
+    stream.push('stop_id, stop_name\n3032');
+    stream.push('44, CHURCH AV\n303245,LINDEN');
+    stream.end();
+
+    expect(records).toEqual([
+      { stop_id: '303244', stop_name: 'CHURCH AV' },
+      { stop_id: '303245', stop_name: 'LINDEN' },
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Minimal RFC 4180 CSV parsing for GTFS files: quoted fields (with embedded
+ * commas, quotes and newlines), CRLF line endings and a UTF-8 byte order mark.
+ */
+
+/**
+ * Incremental CSV parser for text that arrives in chunks, e.g. a large file
+ * as it's inflated. push() each chunk and end() after the last; complete rows
+ * are passed to onRow as soon as they're read. Chunks may split a row,
+ * field, escaped quote or CRLF anywhere.
+ */
+export class CsvRowStream {
+  private row: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  // A quote inside a quoted field: the end of the field, or half of ""
+  private quotePending = false;
+  // After a \r, a \n is part of the same line ending
+  private crPending = false;
+  private started = false;
+
+  constructor(private readonly onRow: (fields: string[]) => void) {}
+
+  push(text: string): void {
+    let i = 0;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) i = 1;
+    }
+
+    for (; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.crPending) {
+        this.crPending = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+      } else if (this.inQuotes) {
+        if (char === '"') {
+          this.quotePending = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inQuotes = true;
+      } else if (char === ',') {
+        this.row.push(this.field);
+        this.field = '';
+      } else if (char === '\n' || char === '\r') {
+        this.crPending = char === '\r';
+        this.endRow();
+      } else {
+        this.field += char;
+      }
+    }
+  }
+
+  end(): void {
+    if (this.field !== '' || this.row.length > 0) this.endRow();
+  }
+
+  private endRow(): void {
+    this.row.push(this.field);
+    const row = this.row;
+    this.row = [];
+    this.field = '';
+
+    // Blank lines parse as a single empty field
+    if (row.length > 1 || row[0] !== '') this.onRow(row);
+  }
+}
+
+/**
+ * Parse CSV text into rows of raw fields.
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  const stream = new CsvRowStream(row => rows.push(row));
+  stream.push(text);
+  stream.end();
+  return rows;
+}
+
+function toRecord(columns: string[], fields: string[]): Record<string, string> {
+  const record: Record<string, string> = {};
+  columns.forEach((name, index) => {
+    record[name] = fields[index]?.trim() ?? '';
+  });
+  return record;
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by (trimmed) column name.
+ * Missing trailing fields read as empty strings.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim());
+  return rows.map(fields => toRecord(columns, fields));
+}
+
+/**
+ * A CsvRowStream that reads the header row and then passes each row to
+ * onRecord as a record, as parseCsv would return it.
+ */
+export function csvRecordStream(onRecord: (record: Record<string, string>) => void): CsvRowStream {
+  let columns: string[] | null = null;
+  return new CsvRowStream(fields => {
+    if (columns) {
+      onRecord(toRecord(columns, fields));
+    } else {
+      columns = fields.map(name => name.trim());
+    }
+  });
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { CutoffRules } from '@/types';
+import {
+  DEFAULT_CUTOFF_RULES, getCutoffStatus, parseCutoffRules, parseCutoffRulesJson, serializeCutoffRules,
+} from '@/lib/cutoffRules';
+
+// Local times; 2025-10-17 is a Friday and 2025-10-18 a Saturday
+const friday = (time: string) => new Date(`2025-10-17T${time}:00`);
+const saturday = (time: string) => new Date(`2025-10-18T${time}:00`);
+
+const rules: CutoffRules = {
+  dayCutoffs: [{ days: [0, 6], time: '10:30' }],
+  warningMinutes: 10,
+  earliest: '07:30',
+};
+
+describe('getCutoffStatus', () => {
+  it('keeps the 20-minute warning by default', () => {
+    expect(['07:39', '07:40', '08:00', '08:01'].map(time => getCutoffStatus(friday(time), '08:00', DEFAULT_CUTOFF_RULES)))
+      .toEqual(['normal', 'warning', 'warning', 'late']);
+  });
+
+  it('uses the warning margin and marks arrivals before the earliest useful time', () => {
+    expect(['07:29', '07:30', '07:49', '07:50'].map(time => getCutoffStatus(friday(time), '08:00', rules)))
+      .toEqual(['early', 'normal', 'normal', 'warning']);
+  });
+
+  it('uses the cutoff for the arrival day', () => {
+    expect(getCutoffStatus(saturday('09:00'), '08:00', rules)).toBe('normal');
+    expect(getCutoffStatus(saturday('10:31'), '08:00', rules)).toBe('late');
+    expect(getCutoffStatus(friday('09:00'), '08:00', rules)).toBe('late');
+  });
+
+  it('ignores an earliest time that is not before the cutoff', () => {
+    expect(getCutoffStatus(friday('07:00'), '08:00', { ...rules, earliest: '09:00' })).toBe('normal');
+  });
+});
+
+describe('cutoff rule serialization', () => {
+  it('round-trips rules and leaves defaults out', () => {
+    expect(parseCutoffRules(serializeCutoffRules(rules))).toEqual(rules);
+    expect(serializeCutoffRules(DEFAULT_CUTOFF_RULES)).toBeUndefined();
+  });
+
+  it('drops malformed parts and days claimed by an earlier rule', () => {
+    expect(parseCutoffRules({
+      d: [[[6, 0], '10:30'], [[0, 5, 9], '09:00'], [[1], '25:00'], 'junk'],
+      w: 'soon',
+      e: 'early',
+    })).toEqual({
+      dayCutoffs: [{ days: [0, 6], time: '10:30' }, { days: [5], time: '09:00' }],
+      warningMinutes: 20,
+      earliest: '',
+    });
+  });
+
+  it('falls back to the defaults for unreadable JSON', () => {
+    expect(parseCutoffRulesJson('{nope')).toBe(DEFAULT_CUTOFF_RULES);
+    expect(parseCutoffRulesJson(null)).toBe(DEFAULT_CUTOFF_RULES);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Arrive-by checks: which buses get the rider there late, cutting it close,
+ * or too early to be useful. A commute can move its cutoff on some days of
+ * the week and tune the warning margin and the early bound.
+ */
+
+import { BusStatus, CutoffRules } from '@/types';
+import { parseTimeOfDay } from '@/lib/commuteSchedule';
+
+export const DEFAULT_CUTOFF_RULES: CutoffRules = {
+  dayCutoffs: [],
+  warningMinutes: 20,
+  earliest: '',
+};
+
+export const CUTOFF_RULES_URL_PARAM = 'rules';
+export const CUTOFF_RULES_STORAGE_KEY = 'cutoffRules';
+
+const MAX_WARNING_MINUTES = 120;
+const MAX_DAY_CUTOFFS = 7;
+
+/** The cutoff in effect on a day of the week (0 = Sunday) */
+export function cutoffForDay(cutoffTime: string, rules: CutoffRules, day: number): string {
+  return rules.dayCutoffs.find(rule => rule.days.includes(day))?.time ?? cutoffTime;
+}
+
+function atTimeOfDay(date: Date, minutes: number): Date {
+  const result = new Date(date);
+  result.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return result;
+}
+
+/**
+ * Score an arrival against the cutoff for its own day. Malformed times
+ * disable the check rather than flagging every bus.
+ */
+export function getCutoffStatus(arrival: Date, cutoffTime: string, rules: CutoffRules): BusStatus {
+  const cutoffMinutes = parseTimeOfDay(cutoffForDay(cutoffTime, rules, arrival.getDay()));
+  if (cutoffMinutes === null) return 'normal';
+
+  const cutoff = atTimeOfDay(arrival, cutoffMinutes);
+  if (arrival > cutoff) return 'late';
+  if (arrival >= new Date(cutoff.getTime() - rules.warningMinutes * 60000)) return 'warning';
+
+  const earliestMinutes = rules.earliest ? parseTimeOfDay(rules.earliest) : null;
+  if (earliestMinutes !== null && earliestMinutes < cutoffMinutes && arrival < atTimeOfDay(arrival, earliestMinutes)) {
+    return 'early';
+  }
+  return 'normal';
+}
+
+export function isDefaultCutoffRules(rules: CutoffRules): boolean {
+  return rules.dayCutoffs.length === 0 &&
+    rules.warningMinutes === DEFAULT_CUTOFF_RULES.warningMinutes &&
+    !rules.earliest;
+}
+
+// Compact shape used in URLs and storage, like saved commutes
+export interface SerializedCutoffRules {
+  d?: Array<[number[], string]>;
+  w?: number;
+  e?: string;
+}
+
+/** Compact form, or undefined when the rules are the defaults */
+export function serializeCutoffRules(rules: CutoffRules): SerializedCutoffRules | undefined {
+  if (isDefaultCutoffRules(rules)) return undefined;
+  return {
+    d: rules.dayCutoffs.length > 0 ? rules.dayCutoffs.map(rule => [rule.days, rule.time]) : undefined,
+    w: rules.warningMinutes !== DEFAULT_CUTOFF_RULES.warningMinutes ? rules.warningMinutes : undefined,
+    e: rules.earliest || undefined,
+  };
+}
+
+/**
+ * Parse the compact form. Unusable parts fall back to their defaults, and a
+ * day claimed by an earlier rule is dropped from later ones.
+ */
+export function parseCutoffRules(raw: unknown): CutoffRules {
+  if (!raw || typeof raw !== 'object') return DEFAULT_CUTOFF_RULES;
+  const entry = raw as Partial<SerializedCutoffRules>;
+
+  const claimed = new Set<number>();
+  const dayCutoffs = (Array.isArray(entry.d) ? entry.d : []).slice(0, MAX_DAY_CUTOFFS).flatMap(rule => {
+    if (!Array.isArray(rule) || !Array.isArray(rule[0])) return [];
+    const [days, time] = rule;
+    if (typeof time !== 'string' || parseTimeOfDay(time) === null) return [];
+    const unclaimed = [...new Set(days.filter(day => Number.isInteger(day) && day >= 0 && day <= 6 && !claimed.has(day)))]
+      .sort((a, b) => a - b);
+    unclaimed.forEach(day => claimed.add(day));
+    return unclaimed.length > 0 ? [{ days: unclaimed, time }] : [];
+  });
+
+  const warning = Number(entry.w);
+  return {
+    dayCutoffs,
+    warningMinutes: entry.w !== undefined && Number.isFinite(warning)
+      ? Math.min(MAX_WARNING_MINUTES, Math.max(0, Math.round(warning)))
+      : DEFAULT_CUTOFF_RULES.warningMinutes,
+    earliest: typeof entry.e === 'string' && parseTimeOfDay(entry.e) !== null ? entry.e : '',
+  };
+}
+
+/** Parse rules stored or shared as JSON, e.g. the `rules` URL parameter */
+export function parseCutoffRulesJson(raw: string | null): CutoffRules {
+  if (!raw) return DEFAULT_CUTOFF_RULES;
+  try {
+    return parseCutoffRules(JSON.parse(raw));
+  } catch {
+    return DEFAULT_CUTOFF_RULES;
+  }
+}
@@ -36,3 +36,16 @@ export function calculateDistance(
  * Used when finding corresponding stops in opposite directions
  */
 export const SAME_LOCATION_THRESHOLD = 0.1;
+
+/**
+ * Convert a bearing measured counter-clockwise from east (the convention used
+ * by MTA SIRI and OneBusAway's `orientation`) to a compass heading, clockwise
+ * from north, which is what map rendering expects.
+ * @returns Whole degrees in [0, 360), or null when the input isn't a number
+ */
+export function headingFromEastBearing(bearing: unknown): number | null {
+  if (bearing === undefined || bearing === null || bearing === '') return null;
+  const value = Number(bearing);
+  if (!Number.isFinite(value)) return null;
+  return Math.round(((90 - value) % 360 + 360) % 360);
+}
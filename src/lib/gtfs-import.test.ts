@@ -0,0 +1,117 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import { importGtfs, parseGtfsTime, parseGtfsZip } from '@/lib/gtfs-import';
+import { strToU8, zipSync } from 'fflate';
+import { GTFS_FILES, buildGtfsZip } from '@/test/gtfsFeed';
+import { TransitProviderError } from '@/types';
+
+describe('parseGtfsTime', () => {
+  it('parses times past midnight', () => {
+    expect(parseGtfsTime('08:03:00')).toBe(8 * 3600 + 180);
+    expect(parseGtfsTime(' 25:10:30 ')).toBe(25 * 3600 + 630);
+  });
+
+  it('rejects malformed times', () => {
+    expect(parseGtfsTime('')).toBeNull();
+    expect(parseGtfsTime('8:3')).toBeNull();
+  });
+});
+
+describe('parseGtfsZip', () => {
+  it('reads stops, routes, trips, services and shapes with agency-prefixed IDs', () => {
+    const dataset = parseGtfsZip(buildGtfsZip(), 'test.zip', { stopAgencyId: 'MTA' });
+
+    expect(dataset.timeZone).toBe('America/New_York');
+    expect(dataset.stops.map(stop => stop.id)).toEqual(['MTA_303244', 'MTA_303245', 'MTA_303246', 'MTA_303247']);
+    expect(dataset.stops[3].name).toBe('NOSTRAND AV/EMPIRE BLVD');
+    expect(dataset.routes[0]).toEqual({
+      id: 'MTA NYCT_B44',
+      agencyId: 'MTA NYCT',
+      shortName: 'B44',
+      longName: 'Sheepshead Bay - Williamsburg',
+      description: 'via Nostrand Av, New York Av',
+    });
+    expect(dataset.services).toEqual([{
+      id: 'WKD',
+      days: [1, 2, 3, 4, 5],
+      startDate: '20250101',
+      endDate: '20251231',
+      added: [],
+      removed: ['20251013'],
+    }]);
+    expect(dataset.shapes.NORTH[0]).toEqual([40.6506, -73.9496]);
+  });
+
+  it('orders stop times by sequence and fills untimed stops', () => {
+    const { trips } = parseGtfsZip(buildGtfsZip(), 'test.zip', { stopAgencyId: 'MTA' });
+    const n1 = trips.find(trip => trip.id === 'MTA NYCT_N1')!;
+    const n2 = trips.find(trip => trip.id === 'MTA NYCT_N2')!;
+
+    expect(n1.routeId).toBe('MTA NYCT_B44');
+    expect(n1.stopTimes[2]).toEqual(['MTA_303246', 8 * 3600 + 180, 8 * 3600 + 180]);
+    expect(n2.stopTimes.map(([stopId]) => stopId)).toEqual(['MTA_303244', 'MTA_303245', 'MTA_303246', 'MTA_303247']);
+  });
+
+  it('finds files nested in a folder and defaults stop prefixes to the agency', () => {
+    const dataset = parseGtfsZip(buildGtfsZip({}, 'feed/'), 'test.zip');
+
+    expect(dataset.stops[0].id).toBe('MTA NYCT_303244');
+  });
+
+  it('reads stop times zipped before their trips', () => {
+    const { 'stop_times.txt': stopTimes, ...rest } = GTFS_FILES;
+    const reordered = zipSync(Object.fromEntries(
+      Object.entries({ 'stop_times.txt': stopTimes, ...rest }).map(([name, text]) => [name, strToU8(text)])
+    ));
+
+    expect(parseGtfsZip(reordered, 'test.zip').trips).toEqual(parseGtfsZip(buildGtfsZip(), 'test.zip').trips);
+  });
+
+  it('throws when required files are missing', () => {
+    expect(() => parseGtfsZip(buildGtfsZip({ 'stop_times.txt': null }), 'test.zip'))
+      .toThrow(TransitProviderError);
+    expect(() => parseGtfsZip(buildGtfsZip({ 'calendar.txt': null, 'calendar_dates.txt': null }), 'test.zip'))
+      .toThrow(/calendar/);
+  });
+});
+
+describe('importGtfs', () => {
+  it('reads a local zip', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gtfs-'));
+    const file = path.join(dir, 'gtfs.zip');
+    fs.writeFileSync(file, buildGtfsZip());
+
+    try {
+      const dataset = await importGtfs(file, { stopAgencyId: 'MTA' });
+      expect(dataset.source).toBe(file);
+      expect(dataset.routes).toHaveLength(2);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('parses a download that arrives in small chunks', async () => {
+    const zip = buildGtfsZip();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let offset = 0; offset < zip.length; offset += 97) controller.enqueue(zip.slice(offset, offset + 97));
+        controller.close();
+      },
+    });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body)));
+
+    const dataset = await importGtfs('https://gtfs.example/feed.zip', { stopAgencyId: 'MTA' });
+
+    expect(dataset.source).toBe('https://gtfs.example/feed.zip');
+    expect(dataset.trips).toEqual(parseGtfsZip(zip, 'test.zip', { stopAgencyId: 'MTA' }).trips);
+    expect(dataset.trips.length).toBeGreaterThan(0);
+  });
+
+  it('throws a TransitProviderError when a download fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })));
+
+    await expect(importGtfs('https://gtfs.example/feed.zip')).rejects.toMatchObject({ status: 404 });
+  });
+});
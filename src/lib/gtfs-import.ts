@@ -0,0 +1,323 @@
+/**
+ * Static GTFS import: reads a GTFS zip (stops, routes, trips, stop_times,
+ * calendar, calendar_dates, shapes) into a compact dataset that can be saved
+ * to a GtfsStore and queried through GtfsIndex.
+ */
+
+import { createReadStream } from 'node:fs';
+import { DecodeUTF8, Unzip, UnzipFile, UnzipInflate } from 'fflate';
+import { CsvRowStream, csvRecordStream } from '@/lib/csv';
+import { PolylinePoint, simplifyPolyline } from '@/lib/polyline';
+import { SHAPE_TOLERANCE_METERS } from '@/lib/stop-processing';
+import { TransitProviderError } from '@/types';
+
+export interface GtfsStop {
+  id: string;
+  code: string;
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+export interface GtfsRoute {
+  id: string;
+  agencyId: string;
+  shortName: string;
+  longName: string;
+  description: string;
+}
+
+/** [stopId, arrival, departure], times in seconds after the service day starts */
+export type GtfsStopTime = [stopId: string, arrival: number, departure: number];
+
+export interface GtfsTrip {
+  id: string;
+  routeId: string;
+  serviceId: string;
+  headsign: string;
+  directionId: string;
+  shapeId: string;
+  /** Ordered by stop_sequence */
+  stopTimes: GtfsStopTime[];
+}
+
+export interface GtfsService {
+  id: string;
+  /** Weekdays the service runs, 0 = Sunday */
+  days: number[];
+  /** YYYYMMDD, inclusive */
+  startDate: string;
+  endDate: string;
+  /** YYYYMMDD dates from calendar_dates.txt */
+  added: string[];
+  removed: string[];
+}
+
+export interface GtfsDataset {
+  /** ISO time of the import */
+  importedAt: string;
+  /** Where the zip was read from */
+  source: string;
+  /** agency_timezone of the feed; stop times are local to it */
+  timeZone: string;
+  stops: GtfsStop[];
+  routes: GtfsRoute[];
+  trips: GtfsTrip[];
+  services: GtfsService[];
+  /** Simplified shapes by shape ID */
+  shapes: Record<string, PolylinePoint[]>;
+}
+
+export interface GtfsImportOptions {
+  /**
+   * Agency ID prefixed to stop IDs, OneBusAway style (e.g. "MTA" gives
+   * "MTA_303244"). Defaults to the feed's first agency. Route and trip IDs
+   * are prefixed with their own agency.
+   */
+  stopAgencyId?: string;
+}
+
+const REQUIRED_FILES = ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt'];
+const WEEKDAY_COLUMNS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Parse a GTFS time ("25:10:00" is allowed, meaning 1:10 the next morning).
+ */
+export function parseGtfsTime(time: string): number | null {
+  const match = /^(\d+):(\d{2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+interface PendingStopTime {
+  sequence: number;
+  /** Stop ID as in the feed; prefixed once the agency is known */
+  stopTime: GtfsStopTime;
+}
+
+/**
+ * Reads a GTFS zip as its bytes arrive. stop_times.txt, usually most of a
+ * feed, is parsed row by row into compact stop times while it inflates; the
+ * other tables are small enough to collect as records.
+ */
+class GtfsZipReader {
+  private readonly unzip: Unzip;
+  private readonly tables: Record<string, Record<string, string>[]> = {};
+  private hasStopTimes = false;
+  /** By the feed's trip_id, in file order */
+  private readonly stopTimes = new Map<string, PendingStopTime[]>();
+
+  constructor() {
+    this.unzip = new Unzip(file => this.readFile(file));
+    this.unzip.register(UnzipInflate);
+  }
+
+  push(chunk: Uint8Array, final = false): void {
+    this.unzip.push(chunk, final);
+  }
+
+  private readFile(file: UnzipFile): void {
+    // Some feeds nest their files in a folder; match on the base name
+    const name = file.name.split('/').pop()!;
+    if (!file.name.endsWith('.txt')) return;
+
+    let csv: CsvRowStream;
+    if (name === 'stop_times.txt') {
+      this.hasStopTimes = true;
+      csv = csvRecordStream(row => this.addStopTime(row));
+    } else {
+      const rows: Record<string, string>[] = [];
+      this.tables[name] = rows;
+      csv = csvRecordStream(row => rows.push(row));
+    }
+
+    const text = new DecodeUTF8((chunk, final) => {
+      csv.push(chunk);
+      if (final) csv.end();
+    });
+    file.ondata = (error, data, final) => {
+      if (error) throw error;
+      text.push(data, final);
+    };
+    file.start();
+  }
+
+  private addStopTime(row: Record<string, string>): void {
+    const arrival = parseGtfsTime(row.arrival_time) ?? parseGtfsTime(row.departure_time) ?? -1;
+    const departure = parseGtfsTime(row.departure_time) ?? arrival;
+    let stopTimes = this.stopTimes.get(row.trip_id);
+    if (!stopTimes) {
+      stopTimes = [];
+      this.stopTimes.set(row.trip_id, stopTimes);
+    }
+    stopTimes.push({ sequence: Number(row.stop_sequence), stopTime: [row.stop_id, arrival, departure] });
+  }
+
+  /**
+   * Build the dataset once the whole zip has been pushed.
+   * Throws a TransitProviderError when a required file is missing.
+   */
+  finish(source: string, options: GtfsImportOptions): GtfsDataset {
+    const tables = this.tables;
+
+    const missing = REQUIRED_FILES.filter(name => (name === 'stop_times.txt' ? !this.hasStopTimes : !tables[name]));
+    if (missing.length > 0) {
+      throw new TransitProviderError(`GTFS feed is missing ${missing.join(', ')}`, 422);
+    }
+    if (!tables['calendar.txt'] && !tables['calendar_dates.txt']) {
+      throw new TransitProviderError('GTFS feed is missing calendar.txt and calendar_dates.txt', 422);
+    }
+
+    const agencies = tables['agency.txt'] ?? [];
+    const defaultAgencyId = agencies[0]?.agency_id || '1';
+    const stopAgencyId = options.stopAgencyId || defaultAgencyId;
+    const timeZone = agencies[0]?.agency_timezone || 'UTC';
+
+    // Stop times share one ID string per stop rather than one per row
+    const stopIds = new Map<string, string>();
+    const stopId = (id: string) => {
+      let prefixed = stopIds.get(id);
+      if (prefixed === undefined) {
+        prefixed = `${stopAgencyId}_${id}`;
+        stopIds.set(id, prefixed);
+      }
+      return prefixed;
+    };
+    const routeAgency = new Map<string, string>();
+
+    const stops: GtfsStop[] = tables['stops.txt']
+      // Stations and entrances aren't boardable
+      .filter(row => !row.location_type || row.location_type === '0')
+      .map(row => ({
+        id: stopId(row.stop_id),
+        code: row.stop_code || row.stop_id,
+        name: row.stop_name || 'Unknown Stop',
+        lat: Number(row.stop_lat) || 0,
+        lon: Number(row.stop_lon) || 0,
+      }));
+
+    const routes: GtfsRoute[] = tables['routes.txt'].map(row => {
+      const agencyId = row.agency_id || defaultAgencyId;
+      routeAgency.set(row.route_id, agencyId);
+      return {
+        id: `${agencyId}_${row.route_id}`,
+        agencyId,
+        shortName: row.route_short_name || '',
+        longName: row.route_long_name || '',
+        description: row.route_desc || '',
+      };
+    });
+
+    const trips = new Map<string, GtfsTrip>();
+    for (const row of tables['trips.txt']) {
+      const agencyId = routeAgency.get(row.route_id) ?? defaultAgencyId;
+      trips.set(row.trip_id, {
+        id: `${agencyId}_${row.trip_id}`,
+        routeId: `${agencyId}_${row.route_id}`,
+        serviceId: row.service_id,
+        headsign: row.trip_headsign || '',
+        directionId: row.direction_id || '0',
+        shapeId: row.shape_id || '',
+        stopTimes: [],
+      });
+    }
+
+    for (const [tripId, trip] of trips) {
+      const stopTimes = this.stopTimes.get(tripId);
+      if (!stopTimes) continue;
+      this.stopTimes.delete(tripId);
+
+      stopTimes.sort((a, b) => a.sequence - b.sequence);
+      // Untimed stops between timepoints take the previous stop's departure
+      let last = -1;
+      for (const { stopTime } of stopTimes) {
+        stopTime[0] = stopId(stopTime[0]);
+        if (stopTime[1] < 0) stopTime[1] = stopTime[2] = last;
+        last = stopTime[2];
+      }
+      trip.stopTimes = stopTimes.map(({ stopTime }) => stopTime).filter(stopTime => stopTime[1] >= 0);
+    }
+    // Whatever is left belongs to trips missing from trips.txt
+    this.stopTimes.clear();
+
+    const services = new Map<string, GtfsService>();
+    const service = (id: string) => {
+      if (!services.has(id)) {
+        services.set(id, { id, days: [], startDate: '', endDate: '', added: [], removed: [] });
+      }
+      return services.get(id)!;
+    };
+    for (const row of tables['calendar.txt'] ?? []) {
+      Object.assign(service(row.service_id), {
+        days: WEEKDAY_COLUMNS.flatMap((column, day) => (row[column] === '1' ? [day] : [])),
+        startDate: row.start_date,
+        endDate: row.end_date,
+      });
+    }
+    for (const row of tables['calendar_dates.txt'] ?? []) {
+      const entry = service(row.service_id);
+      if (row.exception_type === '1') entry.added.push(row.date);
+      if (row.exception_type === '2') entry.removed.push(row.date);
+    }
+
+    const shapePoints = new Map<string, Array<{ sequence: number; point: PolylinePoint }>>();
+    for (const row of tables['shapes.txt'] ?? []) {
+      const points = shapePoints.get(row.shape_id) ?? [];
+      points.push({
+        sequence: Number(row.shape_pt_sequence),
+        point: [Number(row.shape_pt_lat), Number(row.shape_pt_lon)],
+      });
+      shapePoints.set(row.shape_id, points);
+    }
+    const shapes: Record<string, PolylinePoint[]> = {};
+    for (const [id, points] of shapePoints) {
+      const ordered = points.sort((a, b) => a.sequence - b.sequence).map(({ point }) => point);
+      shapes[id] = simplifyPolyline(ordered, SHAPE_TOLERANCE_METERS);
+    }
+
+    return {
+      importedAt: new Date().toISOString(),
+      source,
+      timeZone,
+      stops,
+      routes,
+      trips: Array.from(trips.values()).filter(trip => trip.stopTimes.length >= 2),
+      services: Array.from(services.values()),
+      shapes,
+    };
+  }
+}
+
+/**
+ * Build a dataset from the bytes of a GTFS zip.
+ * Throws a TransitProviderError when a required file is missing.
+ */
+export function parseGtfsZip(zip: Uint8Array, source: string, options: GtfsImportOptions = {}): GtfsDataset {
+  const reader = new GtfsZipReader();
+  reader.push(zip, true);
+  return reader.finish(source, options);
+}
+
+/**
+ * Download (http/https) or read (local path) a GTFS zip and parse it as it
+ * streams in, so neither the zip nor its largest table is held whole.
+ */
+export async function importGtfs(source: string, options: GtfsImportOptions = {}): Promise<GtfsDataset> {
+  const reader = new GtfsZipReader();
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source, { cache: "no-store" });
+    if (!response.ok) {
+      throw new TransitProviderError(`GTFS download failed: ${response.status}`, response.status);
+    }
+    const body = response.body?.getReader();
+    while (body) {
+      const { done, value } = await body.read();
+      if (done) break;
+      reader.push(value);
+    }
+  } else {
+    for await (const chunk of createReadStream(source)) reader.push(chunk);
+  }
+  reader.push(new Uint8Array(0), true);
+  return reader.finish(source, options);
+}
@@ -0,0 +1,244 @@
+/**
+ * Lookups over an imported static GTFS dataset: lines, stops, directions and
+ * scheduled trips. Built once per dataset and kept in memory.
+ */
+
+import { BusStop, Direction, RouteShape } from '@/types';
+import { calculateDistance } from '@/lib/geo';
+import { getWallClockTime } from '@/lib/commuteSchedule';
+import { polylineLength } from '@/lib/polyline';
+import { GtfsDataset, GtfsRoute, GtfsService, GtfsStop, GtfsTrip } from '@/lib/gtfs-import';
+import type { LineStops } from '@/lib/transit-provider';
+
+export interface ScheduledTrip {
+  tripId: string;
+  routeId: string;
+  headsign: string;
+  directionId: string;
+  /** Scheduled departure from the origin */
+  originDeparture: Date;
+  /** Scheduled arrival at the destination, or null when the trip doesn't reach it after the origin */
+  destinationArrival: Date | null;
+}
+
+/**
+ * A service date (YYYYMMDD) as seen in `timeZone` at `date`.
+ */
+export function serviceDateOf(date: Date, timeZone: string): string {
+  const wall = getWallClockTime(date, timeZone);
+  return `${wall.getFullYear()}${String(wall.getMonth() + 1).padStart(2, '0')}${String(wall.getDate()).padStart(2, '0')}`;
+}
+
+function shiftServiceDate(serviceDate: string, days: number): string {
+  const date = new Date(Date.UTC(
+    Number(serviceDate.slice(0, 4)), Number(serviceDate.slice(4, 6)) - 1, Number(serviceDate.slice(6, 8)) + days
+  ));
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * The instant GTFS stop times count from on a service date: noon minus 12
+ * hours in the feed's time zone, which is midnight except on DST changes.
+ */
+export function serviceDayStart(serviceDate: string, timeZone: string): number {
+  const noonUtc = Date.UTC(
+    Number(serviceDate.slice(0, 4)), Number(serviceDate.slice(4, 6)) - 1, Number(serviceDate.slice(6, 8)), 12
+  );
+  const wall = getWallClockTime(new Date(noonUtc), timeZone);
+  const offset = Date.UTC(
+    wall.getFullYear(), wall.getMonth(), wall.getDate(), wall.getHours(), wall.getMinutes(), wall.getSeconds()
+  ) - noonUtc;
+  return noonUtc - offset - 12 * 3600 * 1000;
+}
+
+function isServiceActive(service: GtfsService | undefined, serviceDate: string): boolean {
+  if (!service) return false;
+  if (service.removed.includes(serviceDate)) return false;
+  if (service.added.includes(serviceDate)) return true;
+  if (!service.startDate || serviceDate < service.startDate || serviceDate > service.endDate) return false;
+
+  const weekday = new Date(Date.UTC(
+    Number(serviceDate.slice(0, 4)), Number(serviceDate.slice(4, 6)) - 1, Number(serviceDate.slice(6, 8))
+  )).getUTCDay();
+  return service.days.includes(weekday);
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  let best = '';
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export class GtfsIndex {
+  readonly timeZone: string;
+  readonly routes: GtfsRoute[];
+  private routesById = new Map<string, GtfsRoute>();
+  private stopsById = new Map<string, GtfsStop>();
+  private tripsByRoute = new Map<string, GtfsTrip[]>();
+  private routeIdsByStop = new Map<string, Set<string>>();
+  private servicesById = new Map<string, GtfsService>();
+
+  constructor(readonly dataset: GtfsDataset) {
+    this.timeZone = dataset.timeZone;
+    this.routes = dataset.routes;
+
+    for (const route of dataset.routes) this.routesById.set(route.id, route);
+    for (const stop of dataset.stops) this.stopsById.set(stop.id, stop);
+    for (const service of dataset.services) this.servicesById.set(service.id, service);
+
+    for (const trip of dataset.trips) {
+      const trips = this.tripsByRoute.get(trip.routeId) ?? [];
+      trips.push(trip);
+      this.tripsByRoute.set(trip.routeId, trips);
+
+      for (const [stopId] of trip.stopTimes) {
+        const routeIds = this.routeIdsByStop.get(stopId) ?? new Set<string>();
+        routeIds.add(trip.routeId);
+        this.routeIdsByStop.set(stopId, routeIds);
+      }
+    }
+  }
+
+  getRoute(routeId: string): GtfsRoute | null {
+    return this.routesById.get(routeId) ?? null;
+  }
+
+  getStop(stopId: string): GtfsStop | null {
+    return this.stopsById.get(stopId) ?? null;
+  }
+
+  /** Headsign most trips on a route show in one direction */
+  directionName(routeId: string, directionId: string): string {
+    const trips = (this.tripsByRoute.get(routeId) ?? []).filter(trip => trip.directionId === directionId);
+    return mostCommon(trips.map(trip => trip.headsign).filter(Boolean)) ||
+      this.routesById.get(routeId)?.longName ||
+      `Direction ${directionId}`;
+  }
+
+  /**
+   * Directions and stops for a route. Each direction lists the stops of its
+   * most frequent stop pattern, so short turns and rare branches don't hide
+   * the main line.
+   */
+  lineStops(routeId: string, options: { includeShapes?: boolean } = {}): LineStops | null {
+    const route = this.routesById.get(routeId);
+    const trips = this.tripsByRoute.get(routeId);
+    if (!route || !trips) return null;
+
+    const directionIds = Array.from(new Set(trips.map(trip => trip.directionId))).sort();
+    const directions: Direction[] = [];
+    const stops: BusStop[] = [];
+    const shapes: RouteShape[] = [];
+    let sequence = 1;
+
+    for (const directionId of directionIds) {
+      const directionTrips = trips.filter(trip => trip.directionId === directionId);
+      const name = this.directionName(routeId, directionId);
+      directions.push({ id: directionId, name });
+
+      const patterns = new Map<string, { trip: GtfsTrip; count: number }>();
+      for (const trip of directionTrips) {
+        const key = trip.stopTimes.map(([stopId]) => stopId).join('|');
+        const pattern = patterns.get(key);
+        if (pattern) pattern.count++;
+        else patterns.set(key, { trip, count: 1 });
+      }
+      const main = Array.from(patterns.values()).sort((a, b) =>
+        b.count - a.count || b.trip.stopTimes.length - a.trip.stopTimes.length
+      )[0].trip;
+
+      for (const [stopId] of main.stopTimes) {
+        const stop = this.stopsById.get(stopId);
+        if (!stop) continue;
+        stops.push({
+          id: stop.id,
+          code: stop.code,
+          name: stop.name,
+          direction: name,
+          sequence: sequence++,
+          lat: stop.lat,
+          lon: stop.lon,
+        });
+      }
+
+      if (options.includeShapes) {
+        const shapeIds = Array.from(new Set(directionTrips.map(trip => trip.shapeId).filter(Boolean)));
+        const paths = shapeIds
+          .map(id => this.dataset.shapes[id])
+          .filter(path => path && path.length >= 2);
+        if (paths.length > 0) {
+          shapes.push({
+            directionId,
+            directionName: name,
+            paths,
+            lengthMiles: Math.max(...paths.map(polylineLength)),
+          });
+        }
+      }
+    }
+
+    return {
+      directions,
+      stops,
+      ...(options.includeShapes && { shapes }),
+    };
+  }
+
+  /** Routes with at least one trip serving the stop */
+  routesForStop(stopId: string): GtfsRoute[] {
+    return Array.from(this.routeIdsByStop.get(stopId) ?? [])
+      .flatMap(routeId => this.routesById.get(routeId) ?? []);
+  }
+
+  /** Stops within `radiusMiles`, with their distance in miles */
+  stopsNear(lat: number, lon: number, radiusMiles: number): Array<{ stop: GtfsStop; distance: number }> {
+    return this.dataset.stops
+      .map(stop => ({ stop, distance: calculateDistance(lat, lon, stop.lat, stop.lon) }))
+      .filter(({ distance }) => distance <= radiusMiles);
+  }
+
+  /**
+   * Trips on a route leaving the origin between `from` and `to`, soonest
+   * first. Checks yesterday's service too, for trips running past midnight.
+   */
+  scheduledTrips(routeId: string, originId: string, destinationId: string, from: Date, to: Date): ScheduledTrip[] {
+    const trips = this.tripsByRoute.get(routeId) ?? [];
+    const today = serviceDateOf(from, this.timeZone);
+    const results: ScheduledTrip[] = [];
+
+    for (const serviceDate of [shiftServiceDate(today, -1), today, shiftServiceDate(today, 1)]) {
+      const dayStart = serviceDayStart(serviceDate, this.timeZone);
+
+      for (const trip of trips) {
+        if (!isServiceActive(this.servicesById.get(trip.serviceId), serviceDate)) continue;
+
+        const originIndex = trip.stopTimes.findIndex(([stopId]) => stopId === originId);
+        if (originIndex < 0) continue;
+
+        const departure = dayStart + trip.stopTimes[originIndex][2] * 1000;
+        if (departure < from.getTime() || departure > to.getTime()) continue;
+
+        const destination = trip.stopTimes.slice(originIndex + 1).find(([stopId]) => stopId === destinationId);
+
+        results.push({
+          tripId: trip.id,
+          routeId: trip.routeId,
+          headsign: trip.headsign,
+          directionId: trip.directionId,
+          originDeparture: new Date(departure),
+          destinationArrival: destination ? new Date(dayStart + destination[1] * 1000) : null,
+        });
+      }
+    }
+
+    return results.sort((a, b) => a.originDeparture.getTime() - b.originDeparture.getTime());
+  }
+}
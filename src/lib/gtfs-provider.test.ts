@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GtfsStaticProvider } from '@/lib/gtfs-provider';
+import { GtfsIndex, serviceDayStart } from '@/lib/gtfs-index';
+import { parseGtfsZip } from '@/lib/gtfs-import';
+import { MemoryGtfsStore, getGtfsIndex, reimportGtfs, setGtfsStore } from '@/lib/gtfs-store';
+import { TransitProvider, getTransitProvider, setTransitProvider } from '@/lib/transit-provider';
+import { buildGtfsZip } from '@/test/gtfsFeed';
+
+const dataset = parseGtfsZip(buildGtfsZip(), 'test.zip', { stopAgencyId: 'MTA' });
+
+const base: TransitProvider = {
+  id: 'base',
+  searchLines: vi.fn(async () => []),
+  getLine: vi.fn(async () => null),
+  getStopsForLine: vi.fn(async () => null),
+  getStop: vi.fn(async () => null),
+  getNearby: vi.fn(async () => []),
+  getArrivals: vi.fn(async () => []),
+};
+
+describe('GtfsIndex', () => {
+  const index = new GtfsIndex(dataset);
+
+  it('lists each direction with its most frequent stop pattern', () => {
+    const line = index.lineStops('MTA NYCT_B44', { includeShapes: true })!;
+
+    expect(line.directions).toEqual([
+      { id: '0', name: 'WILLIAMSBURG BRIDGE PLAZA' },
+      { id: '1', name: 'SHEEPSHEAD BAY' },
+    ]);
+    expect(line.stops.filter(stop => stop.direction === 'WILLIAMSBURG BRIDGE PLAZA').map(stop => stop.id))
+      .toEqual(['MTA_303244', 'MTA_303245', 'MTA_303246', 'MTA_303247']);
+    expect(line.stops.map(stop => stop.sequence)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(line.shapes?.map(shape => shape.directionId)).toEqual(['0', '1']);
+    expect(line.shapes?.[0].lengthMiles).toBeGreaterThan(0.8);
+  });
+
+  it('returns null for unknown routes', () => {
+    expect(index.lineStops('MTA NYCT_B99')).toBeNull();
+  });
+
+  it('finds scheduled trips between two stops', () => {
+    // Friday, 07:50 in New York
+    const from = new Date('2025-10-17T11:50:00Z');
+    const trips = index.scheduledTrips('MTA NYCT_B44', 'MTA_303244', 'MTA_303247', from, new Date(from.getTime() + 3600000));
+
+    expect(trips.map(trip => [trip.tripId, trip.originDeparture.toISOString(), trip.destinationArrival?.toISOString() ?? null]))
+      .toEqual([
+        ['MTA NYCT_N1', '2025-10-17T12:00:00.000Z', '2025-10-17T12:08:00.000Z'],
+        ['MTA NYCT_N2', '2025-10-17T12:15:00.000Z', '2025-10-17T12:23:00.000Z'],
+        ['MTA NYCT_N3', '2025-10-17T12:20:00.000Z', null],
+      ]);
+  });
+
+  it('includes trips after midnight from the previous service day', () => {
+    // Saturday, midnight in New York; Friday's late trip is still running
+    const from = new Date('2025-10-18T04:00:00Z');
+    const trips = index.scheduledTrips('MTA NYCT_B44', 'MTA_303244', 'MTA_303247', from, new Date(from.getTime() + 3600000));
+
+    expect(trips.map(trip => [trip.tripId, trip.originDeparture.toISOString()]))
+      .toEqual([['MTA NYCT_LATE', '2025-10-18T04:30:00.000Z']]);
+  });
+
+  it('skips service removed by calendar_dates', () => {
+    // Monday 2025-10-13, 07:50 in New York
+    const from = new Date('2025-10-13T11:50:00Z');
+
+    expect(index.scheduledTrips('MTA NYCT_B44', 'MTA_303244', 'MTA_303247', from, new Date(from.getTime() + 3600000)))
+      .toEqual([]);
+  });
+
+  it('starts service days at noon minus 12 hours across DST changes', () => {
+    expect(new Date(serviceDayStart('20251017', 'America/New_York')).toISOString()).toBe('2025-10-17T04:00:00.000Z');
+    expect(new Date(serviceDayStart('20251102', 'America/New_York')).toISOString()).toBe('2025-11-02T05:00:00.000Z');
+  });
+});
+
+describe('GtfsStaticProvider', () => {
+  beforeEach(async () => {
+    const store = new MemoryGtfsStore();
+    await store.save(dataset);
+    setGtfsStore(store);
+  });
+
+  afterEach(() => {
+    setGtfsStore(null);
+    setTransitProvider(null);
+  });
+
+  it('answers lines and stops from the imported feed', async () => {
+    const provider = new GtfsStaticProvider(base);
+
+    expect((await provider.searchLines('rogers')).map(line => line.id)).toEqual(['MTA NYCT_B49']);
+    expect((await provider.getLine('MTA NYCT_B44'))?.longName).toBe('Sheepshead Bay - Williamsburg');
+    expect(await provider.getLine('MTA NYCT_B99')).toBeNull();
+
+    const stop = await provider.getStop('MTA_303244');
+    expect(stop?.name).toBe('NOSTRAND AV/CHURCH AV');
+    expect((stop?.routes as { id: string }[]).map(route => route.id)).toEqual(['MTA NYCT_B44', 'MTA NYCT_B49']);
+    expect(base.searchLines).not.toHaveBeenCalled();
+  });
+
+  it('lists nearby lines by their closest stop', async () => {
+    const provider = new GtfsStaticProvider(base);
+
+    const nearby = await provider.getNearby(40.6557, -73.9500, { radiusMeters: 1000 });
+
+    expect(nearby.map(line => [line.id, line.closestStop.name])).toEqual([
+      ['MTA NYCT_B44', 'NOSTRAND AV/LINDEN BLVD'],
+      ['MTA NYCT_B49', 'NOSTRAND AV/LINDEN BLVD'],
+    ]);
+    expect(nearby[0].distance).toBe(0);
+  });
+
+  it('leaves arrivals to the base provider', async () => {
+    const provider = new GtfsStaticProvider(base);
+
+    await provider.getArrivals('MTA NYCT_B44', 'MTA_303244', 'MTA_303247');
+
+    expect(base.getArrivals).toHaveBeenCalledWith('MTA NYCT_B44', 'MTA_303244', 'MTA_303247');
+    expect(await new GtfsStaticProvider(null).getArrivals('MTA NYCT_B44', 'MTA_303244', 'MTA_303247')).toEqual([]);
+  });
+
+  it('lists scheduled departures that reach the destination', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // Friday, 07:50 in New York
+    vi.setSystemTime(new Date('2025-10-17T11:50:00Z'));
+    const provider = new GtfsStaticProvider(base);
+
+    const buses = await provider.getScheduledArrivals('MTA NYCT_B44', 'MTA_303244', 'MTA_303247');
+    vi.useRealTimers();
+
+    expect(buses).toEqual([
+      expect.objectContaining({
+        vehicleRef: 'MTA NYCT_N1',
+        originArrival: '2025-10-17T12:00:00.000Z',
+        destinationArrival: '2025-10-17T12:08:00.000Z',
+        destination: 'WILLIAMSBURG BRIDGE PLAZA',
+        isEstimated: false,
+        isScheduled: true,
+      }),
+      // The N3 short turn ends before the destination
+      expect.objectContaining({ vehicleRef: 'MTA NYCT_N2', isScheduled: true }),
+    ]);
+  });
+
+  it('delegates to the base provider until a feed is imported', async () => {
+    setGtfsStore(new MemoryGtfsStore());
+    vi.stubEnv('GTFS_STATIC_URL', '');
+    const provider = new GtfsStaticProvider(base);
+
+    await provider.getStop('MTA_303244');
+
+    expect(base.getStop).toHaveBeenCalledWith('MTA_303244');
+  });
+
+  it('imports the feed on first use and on re-import', async () => {
+    const store = new MemoryGtfsStore();
+    setGtfsStore(store);
+    vi.stubEnv('GTFS_STATIC_URL', 'https://gtfs.example/feed.zip');
+    vi.stubEnv('GTFS_STOP_AGENCY_ID', 'MTA');
+    const fetchMock = vi.fn(async () => new Response(buildGtfsZip()));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect((await getGtfsIndex())?.getStop('MTA_303244')).not.toBeNull();
+    expect(await store.load()).not.toBeNull();
+    await getGtfsIndex();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await reimportGtfs();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('is selected by TRANSIT_PROVIDER=gtfs or wraps the base provider', () => {
+    vi.stubEnv('TRANSIT_PROVIDER', 'gtfs');
+    expect(getTransitProvider()?.id).toBe('gtfs');
+
+    vi.stubEnv('TRANSIT_PROVIDER', 'mta');
+    vi.stubEnv('MTA_API_KEY', 'key');
+    vi.stubEnv('GTFS_STATIC_URL', 'https://gtfs.example/feed.zip');
+    expect(getTransitProvider()?.id).toBe('mta+gtfs');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * TransitProvider answering lines, stops and nearby searches from an imported
+ * static GTFS feed (see gtfs-store). Real-time arrivals come from the wrapped
+ * provider; without one, TRANSIT_PROVIDER=gtfs serves static data only. The
+ * timetable also backs getScheduledArrivals for when no buses are live.
+ */
+
+import { BusLine, BusResponse, NearbyBusLine, ServiceAlert, StopInfo } from '@/types';
+import { getArrivalsBatch, lineMatchesQuery, type ArrivalsQuery, type LineStops, type TransitProvider } from '@/lib/transit-provider';
+import { GtfsRoute } from '@/lib/gtfs-import';
+import { ScheduledTrip } from '@/lib/gtfs-index';
+import { getGtfsIndex } from '@/lib/gtfs-store';
+
+const METERS_PER_MILE = 1609.344;
+
+/** How far ahead to look for scheduled departures; long enough to span an overnight gap */
+const SCHEDULE_LOOKAHEAD_MS = 6 * 60 * 60 * 1000;
+const MAX_SCHEDULED_ARRIVALS = 5;
+
+function toScheduledResponse(trip: ScheduledTrip): BusResponse {
+  const departure = trip.originDeparture.toISOString();
+  return {
+    vehicleRef: trip.tripId,
+    originArrival: departure,
+    aimedArrival: departure,
+    originStopsAway: 0,
+    destinationArrival: trip.destinationArrival?.toISOString() ?? null,
+    proximity: 'Scheduled',
+    destination: trip.headsign || 'Unknown',
+    isEstimated: false,
+    isScheduled: true,
+    vehicleLocation: null,
+    bearing: null,
+  };
+}
+
+function toBusLine(route: GtfsRoute): BusLine {
+  return {
+    id: route.id,
+    shortName: route.shortName,
+    longName: route.longName,
+    description: route.description,
+    agencyId: route.agencyId,
+  };
+}
+
+export class GtfsStaticProvider implements TransitProvider {
+  readonly id: string;
+
+  /**
+   * @param base Provider for real-time arrivals, also used for everything
+   *   else while no GTFS data has been imported
+   */
+  constructor(private base: TransitProvider | null) {
+    this.id = base ? `${base.id}+gtfs` : 'gtfs';
+  }
+
+  async searchLines(query: string): Promise<BusLine[]> {
+    const index = await getGtfsIndex();
+    if (!index) return this.base?.searchLines(query) ?? [];
+
+    return index.routes
+      .map(toBusLine)
+      .filter(line => lineMatchesQuery(line, query))
+      .sort((a, b) => a.shortName.localeCompare(b.shortName));
+  }
+
+  async getLine(lineId: string): Promise<BusLine | null> {
+    const index = await getGtfsIndex();
+    if (!index) return this.base?.getLine(lineId) ?? null;
+
+    const route = index.getRoute(lineId);
+    return route ? toBusLine(route) : null;
+  }
+
+  async getStopsForLine(lineId: string, options: { includeShapes?: boolean } = {}): Promise<LineStops | null> {
+    const index = await getGtfsIndex();
+    if (!index) return this.base?.getStopsForLine(lineId, options) ?? null;
+
+    return index.lineStops(lineId, options);
+  }
+
+  async getStop(stopId: string): Promise<StopInfo | null> {
+    const index = await getGtfsIndex();
+    if (!index) return this.base?.getStop(stopId) ?? null;
+
+    const stop = index.getStop(stopId);
+    if (!stop) return null;
+    return {
+      ...stop,
+      direction: '',
+      routes: index.routesForStop(stopId).map(toBusLine),
+    };
+  }
+
+  async getNearby(
+    lat: number,
+    lon: number,
+    options: { radiusMeters?: number; limit?: number } = {}
+  ): Promise<NearbyBusLine[]> {
+    const index = await getGtfsIndex();
+    if (!index) return this.base?.getNearby(lat, lon, options) ?? [];
+
+    const { radiusMeters = 500, limit = 5 } = options;
+    const nearby = new Map<string, NearbyBusLine>();
+    for (const { stop, distance } of index.stopsNear(lat, lon, radiusMeters / METERS_PER_MILE)) {
+      for (const route of index.routesForStop(stop.id)) {
+        const current = nearby.get(route.id);
+        if (current && current.distance <= distance) continue;
+        nearby.set(route.id, {
+          ...toBusLine(route),
+          distance,
+          closestStop: { name: stop.name, distance },
+        });
+      }
+    }
+
+    return Array.from(nearby.values())
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit);
+  }
+
+  async getArrivals(busLine: string, originId: string, destinationId: string): Promise<BusResponse[]> {
+    return this.base?.getArrivals(busLine, originId, destinationId) ?? [];
+  }
+
+  async getArrivalsBatch(queries: ArrivalsQuery[]): Promise<PromiseSettledResult<BusResponse[]>[]> {
+    if (this.base) return getArrivalsBatch(this.base, queries);
+    return queries.map(() => ({ status: 'fulfilled', value: [] }));
+  }
+
+  async getScheduledArrivals(busLine: string, originId: string, destinationId: string): Promise<BusResponse[]> {
+    const index = await getGtfsIndex();
+    if (!index) return this.base?.getScheduledArrivals?.(busLine, originId, destinationId) ?? [];
+
+    const now = new Date();
+    return index
+      .scheduledTrips(busLine, originId, destinationId, now, new Date(now.getTime() + SCHEDULE_LOOKAHEAD_MS))
+      // Short turns and the opposite direction don't get the rider there
+      .filter(trip => trip.destinationArrival !== null)
+      .slice(0, MAX_SCHEDULED_ARRIVALS)
+      .map(toScheduledResponse);
+  }
+
+  async getAlerts(busLine: string, stopIds: string[]): Promise<ServiceAlert[]> {
+    return this.base?.getAlerts?.(busLine, stopIds) ?? [];
+  }
+}
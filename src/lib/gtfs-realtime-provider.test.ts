@@ -0,0 +1,107 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GtfsRealtimeProvider, loadFeed } from '@/lib/gtfs-realtime-provider';
+import { TransitProvider, getTransitProvider, setTransitProvider } from '@/lib/transit-provider';
+import { TransitProviderError } from '@/types';
+
+const FIXTURES = path.join(__dirname, '../test/fixtures/gtfs-rt');
+const TRIP_UPDATES = path.join(FIXTURES, 'trip-updates.pb');
+const VEHICLE_POSITIONS = path.join(FIXTURES, 'vehicle-positions.pb');
+
+const base: TransitProvider = {
+  id: 'base',
+  searchLines: vi.fn(async () => []),
+  getLine: vi.fn(async () => null),
+  getStopsForLine: vi.fn(async () => null),
+  getStop: vi.fn(async (stopId: string) => ({ id: stopId, name: 'NOSTRAND AV/CHURCH AV', lat: 0, lon: 0, direction: 'N' })),
+  getNearby: vi.fn(async () => []),
+  getArrivals: vi.fn(async () => []),
+};
+
+describe('GtfsRealtimeProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-10-18T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setTransitProvider(null);
+  });
+
+  it('reads arrivals from local feed files', async () => {
+    const provider = new GtfsRealtimeProvider(
+      { tripUpdatesUrl: TRIP_UPDATES, vehiclePositionsUrl: pathToFileURL(VEHICLE_POSITIONS).href },
+      base
+    );
+
+    const buses = await provider.getArrivals('MTA NYCT_B44', 'MTA_303244', 'MTA_303247');
+
+    expect(buses.map(bus => [bus.vehicleRef, bus.originStopsAway])).toEqual([
+      ['MTA NYCT_7521', 1],
+      ['MTA NYCT_7488', 3],
+      ['MTA NYCT_6210', 3],
+    ]);
+    expect(buses[0].vehicleLocation).not.toBeNull();
+    expect(base.getArrivals).not.toHaveBeenCalled();
+  });
+
+  it('keeps arrivals when vehicle positions fail', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = new GtfsRealtimeProvider(
+      { tripUpdatesUrl: TRIP_UPDATES, vehiclePositionsUrl: path.join(FIXTURES, 'missing.pb') },
+      base
+    );
+
+    const buses = await provider.getArrivals('MTA NYCT_B44', 'MTA_303244', 'MTA_303247');
+
+    expect(buses.length).toBeGreaterThan(0);
+    expect(buses.every(bus => bus.vehicleLocation === null)).toBe(true);
+  });
+
+  it('reads alerts from an alerts feed and leaves arrivals to the base provider', async () => {
+    const provider = new GtfsRealtimeProvider({ alertsUrl: path.join(FIXTURES, 'alerts.pb') }, base);
+
+    const alerts = await provider.getAlerts('MTA NYCT_B44', ['MTA_303244']);
+    await provider.getArrivals('MTA NYCT_B44', 'MTA_303244', 'MTA_303247');
+
+    expect(alerts.map(alert => alert.id)).toContain('closure-303244');
+    expect(base.getArrivals).toHaveBeenCalledWith('MTA NYCT_B44', 'MTA_303244', 'MTA_303247');
+  });
+
+  it('delegates lines and stops to the base provider', async () => {
+    const provider = new GtfsRealtimeProvider({ tripUpdatesUrl: TRIP_UPDATES }, base);
+
+    expect(provider.id).toBe('base+gtfs-rt');
+    expect((await provider.getStop('MTA_303244'))?.name).toBe('NOSTRAND AV/CHURCH AV');
+    expect(base.getStop).toHaveBeenCalledWith('MTA_303244');
+  });
+
+  it('fetches remote feeds with the configured headers', async () => {
+    const fetchMock = vi.fn(async () => new Response(fs.readFileSync(TRIP_UPDATES)));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const feed = await loadFeed('https://gtfsrt.example/trip-updates', { 'x-api-key': 'secret' });
+
+    expect(feed.entity).toHaveLength(7);
+    expect(fetchMock).toHaveBeenCalledWith('https://gtfsrt.example/trip-updates', expect.objectContaining({
+      headers: expect.objectContaining({ 'x-api-key': 'secret' }),
+    }));
+  });
+
+  it('throws a TransitProviderError when a remote feed fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+
+    await expect(loadFeed('https://gtfsrt.example/trip-updates')).rejects.toBeInstanceOf(TransitProviderError);
+  });
+
+  it('wraps the configured provider when a TripUpdates feed is set', () => {
+    vi.stubEnv('TRANSIT_PROVIDER', 'mta');
+    vi.stubEnv('MTA_API_KEY', 'key');
+    vi.stubEnv('GTFS_RT_TRIP_UPDATES_URL', TRIP_UPDATES);
+
+    expect(getTransitProvider()?.id).toBe('mta+gtfs-rt');
+  });
+});
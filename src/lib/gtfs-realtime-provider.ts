@@ -0,0 +1,122 @@
+/**
+ * TransitProvider that reads arrivals and service alerts from GTFS-Realtime
+ * protobuf feeds. GTFS-RT has no lines or stops of its own, so everything
+ * else (and whichever of the two feeds isn't configured) is delegated to a
+ * base provider covering the same agency.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { BusLine, BusResponse, NearbyBusLine, ServiceAlert, StopInfo, TransitProviderError } from '@/types';
+import { getArrivalsBatch, type ArrivalsQuery, type LineStops, type TransitProvider } from '@/lib/transit-provider';
+import { FeedMessage, decodeFeed, parseGtfsRealtime, parseGtfsRealtimeAlerts } from '@/lib/gtfs-realtime';
+
+export interface GtfsRealtimeConfig {
+  /** TripUpdates feed: an http(s) URL, or a local file path for fixtures */
+  tripUpdatesUrl?: string;
+  /** Optional VehiclePositions feed, used for stops away and bus locations */
+  vehiclePositionsUrl?: string;
+  /** Optional Alerts feed */
+  alertsUrl?: string;
+  /** Extra request headers, typically an API key */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Load and decode one feed. Anything that isn't an http(s) URL is read from
+ * disk, which lets tests and local development use recorded .pb files.
+ */
+export async function loadFeed(source: string, headers: Record<string, string> = {}): Promise<FeedMessage> {
+  if (!/^https?:\/\//i.test(source)) {
+    const filePath = source.startsWith('file:') ? fileURLToPath(source) : source;
+    return decodeFeed(await readFile(filePath));
+  }
+
+  const response = await fetch(source, {
+    headers: { ...headers, Accept: 'application/x-protobuf' },
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new TransitProviderError(`GTFS-RT feed request failed: ${response.status}`, response.status);
+  }
+  return decodeFeed(new Uint8Array(await response.arrayBuffer()));
+}
+
+export class GtfsRealtimeProvider implements TransitProvider {
+  readonly id: string;
+
+  constructor(
+    private config: GtfsRealtimeConfig,
+    private base: TransitProvider
+  ) {
+    this.id = `${base.id}+gtfs-rt`;
+  }
+
+  searchLines(query: string): Promise<BusLine[]> {
+    return this.base.searchLines(query);
+  }
+
+  getLine(lineId: string): Promise<BusLine | null> {
+    return this.base.getLine(lineId);
+  }
+
+  getStopsForLine(lineId: string, options?: { includeShapes?: boolean }): Promise<LineStops | null> {
+    return this.base.getStopsForLine(lineId, options);
+  }
+
+  getStop(stopId: string): Promise<StopInfo | null> {
+    return this.base.getStop(stopId);
+  }
+
+  getNearby(lat: number, lon: number, options?: { radiusMeters?: number; limit?: number }): Promise<NearbyBusLine[]> {
+    return this.base.getNearby(lat, lon, options);
+  }
+
+  async getArrivals(busLine: string, originId: string, destinationId: string): Promise<BusResponse[]> {
+    if (!this.config.tripUpdatesUrl) return this.base.getArrivals(busLine, originId, destinationId);
+
+    const [tripUpdates, vehiclePositions] = await this.loadArrivalFeeds(this.config.tripUpdatesUrl);
+    return parseGtfsRealtime(tripUpdates, vehiclePositions, busLine, originId, destinationId);
+  }
+
+  /** The feeds cover every stop, so a batch loads them once */
+  async getArrivalsBatch(queries: ArrivalsQuery[]): Promise<PromiseSettledResult<BusResponse[]>[]> {
+    if (!this.config.tripUpdatesUrl) return getArrivalsBatch(this.base, queries);
+
+    try {
+      const [tripUpdates, vehiclePositions] = await this.loadArrivalFeeds(this.config.tripUpdatesUrl);
+      return queries.map(({ busLine, originId, destinationId }) => ({
+        status: 'fulfilled',
+        value: parseGtfsRealtime(tripUpdates, vehiclePositions, busLine, originId, destinationId),
+      }));
+    } catch (reason) {
+      return queries.map(() => ({ status: 'rejected', reason }));
+    }
+  }
+
+  private loadArrivalFeeds(tripUpdatesUrl: string): Promise<[FeedMessage, FeedMessage | null]> {
+    const { vehiclePositionsUrl, headers } = this.config;
+
+    // Positions only refine stops away and add locations; arrivals work without them
+    return Promise.all([
+      loadFeed(tripUpdatesUrl, headers),
+      vehiclePositionsUrl
+        ? loadFeed(vehiclePositionsUrl, headers).catch(error => {
+          console.warn('Failed to load GTFS-RT vehicle positions:', error);
+          return null;
+        })
+        : Promise.resolve(null),
+    ]);
+  }
+
+  async getScheduledArrivals(busLine: string, originId: string, destinationId: string): Promise<BusResponse[]> {
+    return this.base.getScheduledArrivals?.(busLine, originId, destinationId) ?? [];
+  }
+
+  async getAlerts(busLine: string, stopIds: string[]): Promise<ServiceAlert[]> {
+    const { alertsUrl, headers } = this.config;
+    if (!alertsUrl) return this.base.getAlerts?.(busLine, stopIds) ?? [];
+
+    return parseGtfsRealtimeAlerts(await loadFeed(alertsUrl, headers));
+  }
+}
@@ -0,0 +1,136 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { FeedMessage, decodeFeed, parseGtfsRealtime, parseGtfsRealtimeAlerts } from '@/lib/gtfs-realtime';
+
+const FIXTURES = path.join(__dirname, '../test/fixtures/gtfs-rt');
+const NOW = new Date('2025-10-18T12:00:00Z');
+const LINE = 'MTA NYCT_B44';
+
+const fixture = (name: string) => decodeFeed(fs.readFileSync(path.join(FIXTURES, name)));
+const tripUpdates = fixture('trip-updates.pb');
+const vehiclePositions = fixture('vehicle-positions.pb');
+
+describe('parseGtfsRealtime', () => {
+  it('maps trip updates at the origin to bus responses', () => {
+    const buses = parseGtfsRealtime(tripUpdates, vehiclePositions, LINE, 'MTA_303244', 'MTA_303247', NOW);
+
+    expect(buses[0]).toEqual({
+      vehicleRef: 'MTA NYCT_7521',
+      originArrival: '2025-10-18T12:03:00.000Z',
+      // One minute late
+      aimedArrival: '2025-10-18T12:02:00.000Z',
+      originStopsAway: 1,
+      destinationArrival: '2025-10-18T12:09:00.000Z',
+      proximity: '1 stop away',
+      destination: 'Unknown',
+      isEstimated: false,
+      vehicleLocation: { lat: expect.closeTo(40.6301, 4), lon: expect.closeTo(-73.9473, 4) },
+      bearing: 4,
+      occupancy: { level: 'high', passengerCount: null, passengerCapacity: null },
+    });
+  });
+
+  it('skips passed, skipped-stop, canceled and other-line trips', () => {
+    const buses = parseGtfsRealtime(tripUpdates, vehiclePositions, LINE, 'MTA_303244', 'MTA_303247', NOW);
+
+    expect(buses.map(bus => [bus.vehicleRef, bus.originStopsAway, bus.originArrival])).toEqual([
+      ['MTA NYCT_7521', 1, '2025-10-18T12:03:00.000Z'],
+      ['MTA NYCT_7488', 3, '2025-10-18T12:08:00.000Z'],
+      ['MTA NYCT_6210', 3, '2025-10-18T12:10:00.000Z'],
+    ]);
+  });
+
+  it('counts stops away from the vehicle position, or the next predicted stop without one', () => {
+    const withoutPositions = parseGtfsRealtime(tripUpdates, null, LINE, 'MTA_303244', 'MTA_303247', NOW);
+
+    // Without positions, 7521's first update (Flatbush Av) is still ahead of it
+    expect(withoutPositions.map(bus => bus.originStopsAway)).toEqual([1, 3, 3]);
+    expect(withoutPositions.every(bus => bus.vehicleLocation === null && bus.bearing === null)).toBe(true);
+  });
+
+  it('normalizes compass bearings', () => {
+    const buses = parseGtfsRealtime(tripUpdates, vehiclePositions, LINE, 'MTA_303244', 'MTA_303247', NOW);
+
+    expect(buses[1].bearing).toBe(359);
+  });
+
+  it('reads occupancy from vehicle positions, preferring the load percentage', () => {
+    const buses = parseGtfsRealtime(tripUpdates, vehiclePositions, LINE, 'MTA_303244', 'MTA_303247', NOW);
+
+    expect(buses.map(bus => bus.occupancy?.level ?? null)).toEqual(['high', 'low', null]);
+  });
+
+  it('matches raw GTFS IDs with or without agency prefixes', () => {
+    const prefixed = parseGtfsRealtime(tripUpdates, vehiclePositions, LINE, 'MTA_303244', 'MTA_303247', NOW);
+    const bare = parseGtfsRealtime(tripUpdates, vehiclePositions, 'B44', '303244', '303247', NOW);
+
+    expect(bare).toEqual(prefixed);
+  });
+
+  it('estimates from the last predicted stop when the destination is not on the trip', () => {
+    const buses = parseGtfsRealtime(tripUpdates, vehiclePositions, LINE, 'MTA_303244', 'MTA_999999', NOW);
+
+    expect(buses[0].destinationArrival).toBe('2025-10-18T12:15:00.000Z');
+    expect(buses[0].isEstimated).toBe(true);
+  });
+
+  it('identifies stops by position when updates lack stop sequences', () => {
+    const feed: FeedMessage = {
+      header: { gtfsRealtimeVersion: '2.0' },
+      entity: [{
+        id: 'trip',
+        tripUpdate: {
+          trip: { tripId: 'trip', routeId: 'B44' },
+          stopTimeUpdate: [
+            { stopId: '303242', arrival: { time: NOW.getTime() / 1000 + 60 } },
+            { stopId: '303243', arrival: { time: NOW.getTime() / 1000 + 180 } },
+            { stopId: '303244', departure: { time: NOW.getTime() / 1000 + 300 } },
+          ],
+        },
+      }],
+    };
+
+    const [bus] = parseGtfsRealtime(feed, null, LINE, 'MTA_303244', 'MTA_303247', NOW);
+
+    expect(bus.originStopsAway).toBe(2);
+    expect(bus.originArrival).toBe('2025-10-18T12:05:00.000Z');
+    expect(bus.vehicleRef).toBe('trip');
+    expect(bus.aimedArrival).toBeNull();
+    expect(bus.destinationArrival).toBeNull();
+  });
+
+  it('counts stops by position in feeds without stop sequences', () => {
+    const unsequenced = fixture('trip-updates-unsequenced.pb');
+    const withoutPositions = parseGtfsRealtime(unsequenced, null, LINE, 'MTA_303244', 'MTA_303247', NOW);
+    const withPositions = parseGtfsRealtime(
+      unsequenced, fixture('vehicle-positions-unsequenced.pb'), LINE, 'MTA_303244', 'MTA_303247', NOW
+    );
+
+    expect(withoutPositions.map(bus => bus.originStopsAway)).toEqual([2, 3]);
+    expect(withPositions.map(bus => bus.originStopsAway)).toEqual([2, 3]);
+  });
+
+  it('rejects malformed protobuf', () => {
+    expect(() => decodeFeed(new Uint8Array([0x0a, 0xff, 0xff]))).toThrow();
+  });
+});
+
+describe('parseGtfsRealtimeAlerts', () => {
+  it('reads English text, severity, periods and informed entities', () => {
+    const alerts = parseGtfsRealtimeAlerts(fixture('alerts.pb'));
+
+    expect(alerts.map(alert => [alert.id, alert.severity, alert.routeIds, alert.stopIds])).toEqual([
+      ['detour-b44', 'warning', ['B44'], []],
+      ['closure-303244', 'severe', ['B44'], ['303244']],
+      ['ended-b44', 'info', ['B44'], []],
+      ['delays-b49', 'warning', ['B49'], []],
+    ]);
+    expect(alerts[1]).toMatchObject({
+      summary: 'Stop closed at Nostrand Av/Church Av',
+      description: 'Board at Nostrand Av/Snyder Av.',
+      activePeriods: [{ start: '2025-10-18T11:00:00.000Z', end: '2025-10-18T14:00:00.000Z' }],
+    });
+    expect(alerts[0].activePeriods).toEqual([{ start: '2025-10-17T12:00:00.000Z', end: null }]);
+  });
+});
@@ -0,0 +1,264 @@
+// GTFS-Realtime decoding and parsing of TripUpdates/VehiclePositions feeds
+
+import GtfsRealtimeBindings from 'gtfs-realtime-bindings';
+import { AlertSeverity, BusResponse, CrowdingLevel, Occupancy, ServiceAlert } from '@/types';
+import { proximityText, stopIdsMatch } from '@/lib/siri-parser';
+import { crowdingFromLoad } from '@/lib/crowding';
+
+const { transit_realtime } = GtfsRealtimeBindings;
+
+export type FeedMessage = GtfsRealtimeBindings.transit_realtime.IFeedMessage;
+type TripUpdate = GtfsRealtimeBindings.transit_realtime.ITripUpdate;
+type StopTimeUpdate = GtfsRealtimeBindings.transit_realtime.TripUpdate.IStopTimeUpdate;
+type VehiclePosition = GtfsRealtimeBindings.transit_realtime.IVehiclePosition;
+type TranslatedString = GtfsRealtimeBindings.transit_realtime.ITranslatedString;
+
+/** int64 fields decode to Long objects when the `long` package is present */
+type Int64 = number | { toNumber(): number } | null | undefined;
+
+const { SKIPPED, NO_DATA } = transit_realtime.TripUpdate.StopTimeUpdate.ScheduleRelationship;
+const { CANCELED } = transit_realtime.TripDescriptor.ScheduleRelationship;
+const { INFO, SEVERE } = transit_realtime.Alert.SeverityLevel;
+const { OccupancyStatus } = transit_realtime.VehiclePosition;
+
+const OCCUPANCY_LEVELS: Partial<Record<number, CrowdingLevel>> = {
+  [OccupancyStatus.EMPTY]: 'low',
+  [OccupancyStatus.MANY_SEATS_AVAILABLE]: 'low',
+  [OccupancyStatus.FEW_SEATS_AVAILABLE]: 'medium',
+  [OccupancyStatus.STANDING_ROOM_ONLY]: 'high',
+  [OccupancyStatus.CRUSHED_STANDING_ROOM_ONLY]: 'high',
+  [OccupancyStatus.FULL]: 'full',
+  [OccupancyStatus.NOT_ACCEPTING_PASSENGERS]: 'full',
+};
+
+/**
+ * Decode a protobuf-encoded FeedMessage. Throws on malformed input.
+ */
+export function decodeFeed(data: Uint8Array): FeedMessage {
+  return transit_realtime.FeedMessage.decode(data);
+}
+
+// --- Parsing helpers ---
+
+function toEpochMs(value: Int64): number | null {
+  if (value === null || value === undefined) return null;
+  const seconds = typeof value === 'number' ? value : value.toNumber();
+  return seconds > 0 ? seconds * 1000 : null;
+}
+
+/** Predicted arrival at a stop, falling back to departure (first stops often only have one) */
+function predictedTime(update: StopTimeUpdate): number | null {
+  return toEpochMs(update.arrival?.time) ?? toEpochMs(update.departure?.time);
+}
+
+/** Scheduled time, derived from the prediction and its delay when both are given */
+function scheduledTime(update: StopTimeUpdate): number | null {
+  const event = update.arrival?.time ? update.arrival : update.departure;
+  const time = toEpochMs(event?.time);
+  if (time === null || event?.delay === null || event?.delay === undefined) return null;
+  return time - event.delay * 1000;
+}
+
+function hasPrediction(update: StopTimeUpdate): boolean {
+  return update.scheduleRelationship !== SKIPPED &&
+    update.scheduleRelationship !== NO_DATA &&
+    predictedTime(update) !== null;
+}
+
+/**
+ * Whether a decoded message field was actually sent. Unset scalars read as
+ * 0 from the prototype, so a typeof check can't tell.
+ */
+function hasField<T extends object>(message: T, field: keyof T): boolean {
+  return Object.prototype.hasOwnProperty.call(message, field);
+}
+
+/**
+ * Feeds identify stops in a trip by stop_sequence, by position in the
+ * update list, or both. Use sequences when every update has one, since
+ * updates for passed or unchanged stops may be left out.
+ */
+function stopPositions(updates: StopTimeUpdate[]): number[] {
+  return updates.every(update => hasField(update, 'stopSequence'))
+    ? updates.map(update => update.stopSequence as number)
+    : updates.map((_, index) => index);
+}
+
+/**
+ * Where the vehicle is along the trip: its reported current stop when there
+ * is a VehiclePosition, otherwise the first stop it hasn't reached yet.
+ */
+function currentPosition(
+  updates: StopTimeUpdate[],
+  positions: number[],
+  vehicle: VehiclePosition | undefined,
+  nowMs: number
+): number {
+  if (vehicle) {
+    if (hasField(vehicle, 'currentStopSequence') && updates.every(u => hasField(u, 'stopSequence'))) {
+      return vehicle.currentStopSequence as number;
+    }
+    const index = vehicle.stopId ? updates.findIndex(u => u.stopId && stopIdsMatch(u.stopId, vehicle.stopId!)) : -1;
+    if (index >= 0) return positions[index];
+  }
+
+  const next = updates.findIndex(update => (predictedTime(update) ?? 0) >= nowMs);
+  return positions[next >= 0 ? next : updates.length - 1];
+}
+
+/**
+ * Crowding from occupancy_percentage, or else occupancy_status. Decoded
+ * messages report unset fields as 0 (EMPTY), so only fields the feed
+ * actually sent count.
+ */
+function vehicleOccupancy(vehicle: VehiclePosition | undefined): Occupancy | null {
+  if (!vehicle) return null;
+  const sent = (field: keyof VehiclePosition) => hasField(vehicle, field);
+
+  const level = sent('occupancyPercentage')
+    ? crowdingFromLoad(vehicle.occupancyPercentage ?? NaN, 100)
+    : sent('occupancyStatus') ? OCCUPANCY_LEVELS[vehicle.occupancyStatus ?? -1] ?? null : null;
+  return level ? { level, passengerCount: null, passengerCapacity: null } : null;
+}
+
+function normalizeBearing(bearing: number | null | undefined): number | null {
+  if (bearing === null || bearing === undefined || !Number.isFinite(bearing)) return null;
+  return Math.round(((bearing % 360) + 360) % 360);
+}
+
+function parseTripUpdate(
+  entityId: string,
+  tripUpdate: TripUpdate,
+  vehicle: VehiclePosition | undefined,
+  originId: string,
+  destinationId: string,
+  nowMs: number
+): BusResponse | null {
+  const updates = tripUpdate.stopTimeUpdate ?? [];
+  if (updates.length === 0) return null;
+
+  const positions = stopPositions(updates);
+  const originIndex = updates.findIndex(update => update.stopId && stopIdsMatch(update.stopId, originId));
+  if (originIndex < 0 || !hasPrediction(updates[originIndex])) return null;
+
+  const stopsAway = positions[originIndex] - currentPosition(updates, positions, vehicle, nowMs);
+  // The bus has already left the origin
+  if (stopsAway < 0) return null;
+
+  const originTime = predictedTime(updates[originIndex])!;
+  const aimedTime = scheduledTime(updates[originIndex]);
+
+  // Destination arrival from a later update, or the trip's last predicted stop as an estimate
+  const onward = updates.slice(originIndex + 1).filter(hasPrediction);
+  const destination = onward.find(update => update.stopId && stopIdsMatch(update.stopId, destinationId));
+  const lastTime = onward.length > 0 ? predictedTime(onward[onward.length - 1]) : null;
+  const destinationTime = destination
+    ? predictedTime(destination)
+    : lastTime !== null && lastTime > originTime ? lastTime : null;
+
+  const position = vehicle?.position;
+
+  return {
+    vehicleRef: tripUpdate.vehicle?.id || vehicle?.vehicle?.id || tripUpdate.trip.tripId || entityId,
+    originArrival: new Date(originTime).toISOString(),
+    aimedArrival: aimedTime !== null ? new Date(aimedTime).toISOString() : null,
+    originStopsAway: stopsAway,
+    destinationArrival: destinationTime !== null ? new Date(destinationTime).toISOString() : null,
+    proximity: proximityText(stopsAway),
+    // GTFS-RT carries no headsign; providers with static data can fill it in
+    destination: "Unknown",
+    isEstimated: destinationTime !== null && !destination,
+    vehicleLocation: position ? { lat: position.latitude, lon: position.longitude } : null,
+    bearing: normalizeBearing(position?.bearing),
+    occupancy: vehicleOccupancy(vehicle),
+  };
+}
+
+// --- Main entry point ---
+
+/**
+ * Turn GTFS-RT TripUpdates (and optionally VehiclePositions) into the same
+ * BusResponse list parseSiriResponse produces for one origin and line.
+ * Route and stop IDs match with or without an agency prefix, so raw GTFS IDs
+ * work against the app's OneBusAway-style IDs.
+ */
+export function parseGtfsRealtime(
+  tripUpdates: FeedMessage,
+  vehiclePositions: FeedMessage | null,
+  busLine: string,
+  originId: string,
+  destinationId: string,
+  now: Date = new Date()
+): BusResponse[] {
+  const vehiclesByTrip = new Map<string, VehiclePosition>();
+  const vehiclesById = new Map<string, VehiclePosition>();
+  for (const entity of vehiclePositions?.entity ?? []) {
+    const vehicle = entity.vehicle;
+    if (!vehicle) continue;
+    if (vehicle.trip?.tripId) vehiclesByTrip.set(vehicle.trip.tripId, vehicle);
+    if (vehicle.vehicle?.id) vehiclesById.set(vehicle.vehicle.id, vehicle);
+  }
+
+  const buses: BusResponse[] = [];
+  for (const entity of tripUpdates.entity ?? []) {
+    const tripUpdate = entity.tripUpdate;
+    const trip = tripUpdate?.trip;
+    if (!tripUpdate || !trip?.routeId || !stopIdsMatch(trip.routeId, busLine)) continue;
+    if (trip.scheduleRelationship === CANCELED) continue;
+
+    const vehicle = (trip.tripId && vehiclesByTrip.get(trip.tripId)) ||
+      (tripUpdate.vehicle?.id ? vehiclesById.get(tripUpdate.vehicle.id) : undefined);
+
+    const bus = parseTripUpdate(entity.id, tripUpdate, vehicle, originId, destinationId, now.getTime());
+    if (bus) buses.push(bus);
+  }
+
+  return buses.sort((a, b) => Date.parse(a.originArrival!) - Date.parse(b.originArrival!));
+}
+
+// --- Alerts ---
+
+/** English text, or the untagged/first translation when there's none */
+function translatedText(text: TranslatedString | null | undefined): string {
+  const translations = text?.translation ?? [];
+  const chosen = translations.find(t => t.language?.toLowerCase().startsWith('en')) ??
+    translations.find(t => !t.language) ??
+    translations[0];
+  return chosen?.text?.trim() ?? '';
+}
+
+function alertSeverity(level: number | null | undefined): AlertSeverity {
+  if (level === SEVERE) return 'severe';
+  if (level === INFO) return 'info';
+  return 'warning';
+}
+
+/**
+ * Extract service alerts from a GTFS-RT Alerts feed. Route and stop IDs are
+ * the feed's raw IDs; match them with stopIdsMatch.
+ */
+export function parseGtfsRealtimeAlerts(feed: FeedMessage): ServiceAlert[] {
+  return (feed.entity ?? []).flatMap(entity => {
+    const alert = entity.alert;
+    if (!alert) return [];
+
+    const informed = alert.informedEntity ?? [];
+    const toIso = (value: Int64) => {
+      const ms = toEpochMs(value);
+      return ms === null ? null : new Date(ms).toISOString();
+    };
+
+    return [{
+      id: entity.id,
+      summary: translatedText(alert.headerText),
+      description: translatedText(alert.descriptionText),
+      severity: alertSeverity(alert.severityLevel),
+      activePeriods: (alert.activePeriod ?? []).map(period => ({
+        start: toIso(period.start),
+        end: toIso(period.end),
+      })),
+      routeIds: Array.from(new Set(informed.flatMap(selector => selector.routeId || selector.trip?.routeId || []))),
+      stopIds: Array.from(new Set(informed.flatMap(selector => selector.stopId || []))),
+    }];
+  });
+}
@@ -0,0 +1,57 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileGtfsStore } from '@/lib/gtfs-store';
+import { parseGtfsZip } from '@/lib/gtfs-import';
+import { buildGtfsZip } from '@/test/gtfsFeed';
+
+describe('FileGtfsStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gtfs-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves one file per table and loads the same dataset back', async () => {
+    const dataset = parseGtfsZip(buildGtfsZip(), 'test.zip', { stopAgencyId: 'MTA' });
+    const store = new FileGtfsStore(path.join(dir, 'gtfs'));
+
+    await store.save(dataset);
+
+    expect(fs.readdirSync(path.join(dir, 'gtfs')).sort()).toEqual([
+      'meta.json', 'routes.json', 'services.json', 'shapes.json', 'stops.json', 'trips.ndjson',
+    ]);
+    expect(fs.readFileSync(path.join(dir, 'gtfs', 'trips.ndjson'), 'utf8').trim().split('\n'))
+      .toHaveLength(dataset.trips.length);
+    expect(await store.load()).toEqual(dataset);
+  });
+
+  it('replaces a previous save without leaving temporary directories', async () => {
+    const store = new FileGtfsStore(path.join(dir, 'gtfs'));
+    const first = parseGtfsZip(buildGtfsZip(), 'first.zip');
+    const second = parseGtfsZip(buildGtfsZip(), 'second.zip', { stopAgencyId: 'MTA' });
+
+    await store.save(first);
+    await store.save(second);
+
+    expect((await store.load())?.source).toBe('second.zip');
+    expect(fs.readdirSync(dir)).toEqual(['gtfs']);
+  });
+
+  it('loads nothing when no dataset is stored', async () => {
+    expect(await new FileGtfsStore(path.join(dir, 'missing')).load()).toBeNull();
+  });
+
+  it('logs and loads nothing when a file is in the way', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    fs.writeFileSync(path.join(dir, 'gtfs'), '{"trips":[]}');
+
+    expect(await new FileGtfsStore(path.join(dir, 'gtfs')).load()).toBeNull();
+    expect(consoleError).toHaveBeenCalledWith(`Failed to read GTFS data at ${path.join(dir, 'gtfs')}:`, expect.anything());
+  });
+});
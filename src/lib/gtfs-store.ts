@@ -0,0 +1,184 @@
+/**
+ * Storage for the imported static GTFS dataset. Like the push store, the
+ * backend is pluggable; a directory of JSON files is used by default. The
+ * dataset is imported from GTFS_STATIC_URL the first time it's needed and
+ * re-imported on demand through /api/gtfs/import.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline';
+import { GtfsDataset, GtfsImportOptions, GtfsTrip, importGtfs } from '@/lib/gtfs-import';
+import { GtfsIndex } from '@/lib/gtfs-index';
+
+export interface GtfsStore {
+  load(): Promise<GtfsDataset | null>;
+  save(dataset: GtfsDataset): Promise<void>;
+}
+
+export interface GtfsStaticConfig extends GtfsImportOptions {
+  /** URL or local path of the GTFS zip */
+  source: string;
+}
+
+/**
+ * In-memory store for local testing (`GTFS_STORE=memory`). The dataset is re-imported on restart.
+ */
+export class MemoryGtfsStore implements GtfsStore {
+  private dataset: GtfsDataset | null = null;
+
+  async load(): Promise<GtfsDataset | null> {
+    return this.dataset;
+  }
+
+  async save(dataset: GtfsDataset): Promise<void> {
+    this.dataset = dataset;
+  }
+}
+
+// Tables small enough to write as one JSON document each
+const JSON_TABLES = ['meta', 'stops', 'routes', 'services', 'shapes'] as const;
+const TRIPS_FILE = 'trips.ndjson';
+const TRIPS_PER_WRITE = 1000;
+
+/**
+ * Directory store with one file per table, so no single string ever holds
+ * the whole feed: JSON for the small tables, and newline-delimited JSON for
+ * trips (one trip and its stop times per line). A save writes a fresh
+ * directory and swaps it in.
+ */
+export class FileGtfsStore implements GtfsStore {
+  constructor(private readonly dirPath: string) {}
+
+  async load(): Promise<GtfsDataset | null> {
+    try {
+      const [meta, stops, routes, services, shapes] = await Promise.all(JSON_TABLES.map(async table => (
+        JSON.parse(await fs.readFile(path.join(this.dirPath, `${table}.json`), 'utf8'))
+      )));
+      if (!meta || !Array.isArray(stops) || !Array.isArray(routes) || !Array.isArray(services)) return null;
+
+      const trips: GtfsTrip[] = [];
+      const lines = createInterface({ input: createReadStream(path.join(this.dirPath, TRIPS_FILE)), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (line) trips.push(JSON.parse(line));
+      }
+
+      return { ...meta, stops, routes, services, shapes, trips };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read GTFS data at ${this.dirPath}:`, error);
+      }
+      return null;
+    }
+  }
+
+  async save(dataset: GtfsDataset): Promise<void> {
+    const { stops, routes, services, shapes, trips, ...meta } = dataset;
+    const tables: Record<(typeof JSON_TABLES)[number], unknown> = { meta, stops, routes, services, shapes };
+    const tmpPath = `${this.dirPath}.${process.pid}.tmp`;
+    const oldPath = `${this.dirPath}.${process.pid}.old`;
+
+    await fs.rm(tmpPath, { recursive: true, force: true });
+    await fs.mkdir(tmpPath, { recursive: true });
+    await Promise.all(JSON_TABLES.map(table => (
+      fs.writeFile(path.join(tmpPath, `${table}.json`), JSON.stringify(tables[table]), 'utf8')
+    )));
+
+    const file = await fs.open(path.join(tmpPath, TRIPS_FILE), 'w');
+    try {
+      for (let start = 0; start < trips.length; start += TRIPS_PER_WRITE) {
+        const lines = trips.slice(start, start + TRIPS_PER_WRITE).map(trip => `${JSON.stringify(trip)}\n`);
+        await file.write(lines.join(''));
+      }
+    } finally {
+      await file.close();
+    }
+
+    // A directory can't be renamed over a non-empty one, so move the old one aside first
+    await fs.rename(this.dirPath, oldPath).catch(error => {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    });
+    await fs.rename(tmpPath, this.dirPath);
+    await fs.rm(oldPath, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Read static GTFS settings, or null when GTFS_STATIC_URL is unset.
+ */
+export function getGtfsStaticConfig(env: Record<string, string | undefined> = process.env): GtfsStaticConfig | null {
+  if (!env.GTFS_STATIC_URL) return null;
+  return {
+    source: env.GTFS_STATIC_URL,
+    stopAgencyId: env.GTFS_STOP_AGENCY_ID || undefined,
+  };
+}
+
+let gtfsStore: GtfsStore | null = null;
+let indexPromise: Promise<GtfsIndex | null> | null = null;
+
+/**
+ * Get the configured GTFS store. `GTFS_STORE=memory` selects the in-memory
+ * store; otherwise a directory at `GTFS_DATA_PATH` (default `.data/gtfs`).
+ */
+export function getGtfsStore(): GtfsStore {
+  if (gtfsStore) return gtfsStore;
+
+  if (process.env.GTFS_STORE === 'memory') {
+    gtfsStore = new MemoryGtfsStore();
+  } else {
+    const dirPath = process.env.GTFS_DATA_PATH || path.join(process.cwd(), '.data', 'gtfs');
+    gtfsStore = new FileGtfsStore(dirPath);
+  }
+  return gtfsStore;
+}
+
+/**
+ * Replace the GTFS store. Pass null to go back to the one from the environment.
+ */
+export function setGtfsStore(store: GtfsStore | null): void {
+  gtfsStore = store;
+  indexPromise = null;
+}
+
+async function importAndSave(config: GtfsStaticConfig): Promise<GtfsIndex> {
+  const dataset = await importGtfs(config.source, config);
+  await getGtfsStore().save(dataset);
+  return new GtfsIndex(dataset);
+}
+
+/**
+ * Import the feed at GTFS_STATIC_URL and save it, replacing the stored dataset.
+ */
+export async function reimportGtfs(config = getGtfsStaticConfig()): Promise<GtfsIndex> {
+  if (!config) {
+    throw new Error('GTFS_STATIC_URL is not set');
+  }
+  const index = await importAndSave(config);
+  indexPromise = Promise.resolve(index);
+  return index;
+}
+
+async function loadIndex(): Promise<GtfsIndex | null> {
+  const stored = await getGtfsStore().load();
+  if (stored) return new GtfsIndex(stored);
+
+  const config = getGtfsStaticConfig();
+  return config ? importAndSave(config) : null;
+}
+
+/**
+ * The stored dataset's index, importing the feed first if nothing is stored.
+ * Resolves to null when there's no data and no feed to import; a failed
+ * import is logged and retried on the next call.
+ */
+export function getGtfsIndex(): Promise<GtfsIndex | null> {
+  if (!indexPromise) {
+    indexPromise = loadIndex().catch(error => {
+      console.error('Failed to load static GTFS data:', error);
+      indexPromise = null;
+      return null;
+    });
+  }
+  return indexPromise;
+}
@@ -0,0 +1,114 @@
+/**
+ * "Time to leave" alert rules and persistence.
+ * Alerts fire when a bus will reach the origin within the rider's lead time
+ * plus the walk to that stop.
+ */
+
+import { BusArrival } from '@/types';
+import safeLocalStorage from '@/lib/safeLocalStorage';
+
+export const LEAVE_ALERTS_STORAGE_KEY = 'leaveAlerts';
+
+/** How long a vehicle stays in the dedup list after alerting */
+const NOTIFIED_TTL_MS = 60 * 60 * 1000;
+
+export interface LeaveAlertSettings {
+  enabled: boolean;
+  /** Minutes of warning wanted before having to leave */
+  leadMinutes: number;
+  /** Walking time to each origin stop, keyed by stop ID */
+  walkMinutes: Record<string, number>;
+  /** Epoch ms until which alerts are muted */
+  snoozedUntil: number | null;
+  /** Server push watch for when the app is closed, if registered */
+  pushWatchId: string | null;
+}
+
+export const DEFAULT_LEAVE_ALERT_SETTINGS: LeaveAlertSettings = {
+  enabled: false,
+  leadMinutes: 5,
+  walkMinutes: {},
+  snoozedUntil: null,
+  pushWatchId: null,
+};
+
+function clampMinutes(value: unknown, max: number): number | null {
+  const num = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(num)) return null;
+  return Math.min(max, Math.max(0, Math.round(num)));
+}
+
+export function loadLeaveAlertSettings(): LeaveAlertSettings {
+  const raw = safeLocalStorage.getItem(LEAVE_ALERTS_STORAGE_KEY);
+  if (!raw) return DEFAULT_LEAVE_ALERT_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(raw);
+    const walkMinutes: Record<string, number> = {};
+    if (parsed.walkMinutes && typeof parsed.walkMinutes === 'object') {
+      for (const [stopId, minutes] of Object.entries(parsed.walkMinutes)) {
+        const clamped = clampMinutes(minutes, 60);
+        if (clamped !== null) walkMinutes[stopId] = clamped;
+      }
+    }
+
+    return {
+      enabled: parsed.enabled === true,
+      leadMinutes: clampMinutes(parsed.leadMinutes, 60) ?? DEFAULT_LEAVE_ALERT_SETTINGS.leadMinutes,
+      walkMinutes,
+      snoozedUntil: typeof parsed.snoozedUntil === 'number' && parsed.snoozedUntil > Date.now()
+        ? parsed.snoozedUntil
+        : null,
+      pushWatchId: typeof parsed.pushWatchId === 'string' ? parsed.pushWatchId : null,
+    };
+  } catch {
+    return DEFAULT_LEAVE_ALERT_SETTINGS;
+  }
+}
+
+export function storeLeaveAlertSettings(settings: LeaveAlertSettings): void {
+  safeLocalStorage.setItem(LEAVE_ALERTS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function isSnoozed(settings: LeaveAlertSettings, now: number): boolean {
+  return settings.snoozedUntil !== null && now < settings.snoozedUntil;
+}
+
+/**
+ * Return the arrivals that should alert now. A bus qualifies when the rider
+ * must leave within `leadMinutes` to catch it (arrival minus walk time), and
+ * it hasn't alerted before. Buses the rider can no longer reach are skipped,
+ * as are scheduled departures with no live bus behind them.
+ * Expired entries are pruned from `notified` as a side effect.
+ */
+export function findArrivalsToAlert(
+  arrivals: BusArrival[],
+  settings: LeaveAlertSettings,
+  originId: string,
+  notified: Map<string, number>,
+  now: number
+): BusArrival[] {
+  for (const [vehicleId, notifiedAt] of notified) {
+    if (now - notifiedAt > NOTIFIED_TTL_MS) notified.delete(vehicleId);
+  }
+
+  if (!settings.enabled || isSnoozed(settings, now)) return [];
+
+  const walkMs = (settings.walkMinutes[originId] ?? 0) * 60000;
+  const leadMs = settings.leadMinutes * 60000;
+
+  return arrivals.filter(bus => {
+    if (bus.isScheduled || notified.has(bus.vehicleId)) return false;
+    const leaveAt = bus.originArrival.getTime() - walkMs;
+    const msUntilLeave = leaveAt - now;
+    return msUntilLeave >= 0 && msUntilLeave <= leadMs;
+  });
+}
+
+/**
+ * Compute when the rider has to leave for a given bus.
+ */
+export function getLeaveTime(bus: BusArrival, settings: LeaveAlertSettings, originId: string): Date {
+  const walkMinutes = settings.walkMinutes[originId] ?? 0;
+  return new Date(bus.originArrival.getTime() - walkMinutes * 60000);
+}
@@ -0,0 +1,50 @@
+/**
+ * Fit geographic points into an SVG viewport.
+ * Uses an equirectangular projection scaled by cos(latitude), which is
+ * accurate enough at the scale of a single bus route.
+ */
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+export type Projection = (point: LatLon) => [number, number];
+
+/**
+ * Build a projection that fits every point into a `width` x `height`
+ * viewport, keeping `padding` units clear on each side and preserving
+ * the aspect ratio of the area.
+ */
+export function createProjection(
+  points: LatLon[],
+  width: number,
+  height: number,
+  padding: number
+): Projection {
+  if (points.length === 0) {
+    return () => [width / 2, height / 2];
+  }
+
+  let minLat = Infinity, maxLat = -Infinity, minLon = Infinity, maxLon = -Infinity;
+  for (const { lat, lon } of points) {
+    minLat = Math.min(minLat, lat);
+    maxLat = Math.max(maxLat, lat);
+    minLon = Math.min(minLon, lon);
+    maxLon = Math.max(maxLon, lon);
+  }
+
+  const lonScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const spanX = Math.max((maxLon - minLon) * lonScale, 1e-6);
+  const spanY = Math.max(maxLat - minLat, 1e-6);
+  const scale = Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY);
+
+  // Center the route in whichever dimension has room to spare
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+
+  return ({ lat, lon }) => [
+    offsetX + (lon - minLon) * lonScale * scale,
+    offsetY + (maxLat - lat) * scale,
+  ];
+}
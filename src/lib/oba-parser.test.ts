@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { ObaArrivalAndDeparture, ObaTripDetails, parseObaArrivals, parseObaSituations } from '@/lib/oba-parser';
+
+const LINE = '1_100479';
+const SERVICE_DATE = Date.parse('2025-10-18T07:00:00Z');
+const at = (iso: string) => Date.parse(iso);
+
+function arrival(overrides: Partial<ObaArrivalAndDeparture> = {}): ObaArrivalAndDeparture {
+  return {
+    routeId: LINE,
+    tripId: '1_trip-a',
+    serviceDate: SERVICE_DATE,
+    stopId: '1_200',
+    vehicleId: '1_7001',
+    tripHeadsign: 'Downtown Seattle',
+    predicted: true,
+    predictedArrivalTime: at('2025-10-18T15:05:00Z'),
+    scheduledArrivalTime: at('2025-10-18T15:03:00Z'),
+    numberOfStopsAway: 2,
+    tripStatus: {
+      position: { lat: 47.61, lon: -122.33 },
+      orientation: 90,
+      scheduleDeviation: 120,
+    },
+    ...overrides,
+  };
+}
+
+// Scheduled at 08:00, 08:03 and 08:10 Pacific (15:00, 15:03, 15:10 UTC)
+const details: ObaTripDetails = {
+  tripId: '1_trip-a',
+  serviceDate: SERVICE_DATE,
+  schedule: {
+    stopTimes: [
+      { stopId: '1_100', arrivalTime: 8 * 3600 },
+      { stopId: '1_200', arrivalTime: 8 * 3600 + 180 },
+      { stopId: '1_300', arrivalTime: 8 * 3600 + 600 },
+    ],
+  },
+  status: { scheduleDeviation: 120 },
+};
+
+describe('parseObaArrivals', () => {
+  it('maps a predicted arrival to a bus response', () => {
+    const buses = parseObaArrivals([arrival()], new Map([['1_trip-a', details]]), LINE, '1_300');
+
+    expect(buses).toEqual([{
+      vehicleRef: '1_7001',
+      originArrival: '2025-10-18T15:05:00.000Z',
+      aimedArrival: '2025-10-18T15:03:00.000Z',
+      originStopsAway: 2,
+      // Scheduled 15:10 plus the two-minute deviation
+      destinationArrival: '2025-10-18T15:12:00.000Z',
+      proximity: '2 stops away',
+      destination: 'Downtown Seattle',
+      isEstimated: false,
+      vehicleLocation: { lat: 47.61, lon: -122.33 },
+      bearing: 0,
+    }]);
+  });
+
+  it('keeps only predicted arrivals on the line that have not passed the stop', () => {
+    const buses = parseObaArrivals([
+      arrival({ vehicleId: 'other line', routeId: '1_999' }),
+      arrival({ vehicleId: 'scheduled only', predicted: false, predictedArrivalTime: 0 }),
+      arrival({ vehicleId: 'departed', numberOfStopsAway: -1 }),
+      arrival({ vehicleId: 'later', predictedArrivalTime: at('2025-10-18T15:20:00Z') }),
+      arrival({ vehicleId: 'keep' }),
+    ], new Map(), LINE, '1_300');
+
+    expect(buses.map(bus => bus.vehicleRef)).toEqual(['keep', 'later']);
+  });
+
+  it('falls back to the trip ID without a vehicle', () => {
+    const buses = parseObaArrivals([arrival({ vehicleId: '', tripStatus: null })], new Map(), LINE, '1_300');
+
+    expect(buses[0].vehicleRef).toBe('1_trip-a');
+    expect(buses[0].vehicleLocation).toBeNull();
+    expect(buses[0].bearing).toBeNull();
+  });
+
+  it('matches the destination without its agency prefix', () => {
+    const buses = parseObaArrivals([arrival()], new Map([['1_trip-a', details]]), LINE, '300');
+
+    expect(buses[0].destinationArrival).toBe('2025-10-18T15:12:00.000Z');
+  });
+
+  it('estimates from the last stop when the destination is not on the trip', () => {
+    const buses = parseObaArrivals([arrival()], new Map([['1_trip-a', details]]), LINE, '1_999');
+
+    expect(buses[0].destinationArrival).toBe('2025-10-18T15:12:00.000Z');
+    expect(buses[0].isEstimated).toBe(true);
+  });
+
+  it('ignores a destination the bus passed before the origin', () => {
+    const buses = parseObaArrivals([arrival()], new Map([['1_trip-a', details]]), LINE, '1_100');
+
+    expect(buses[0].isEstimated).toBe(true);
+  });
+
+  it('gives no destination arrival without trip details', () => {
+    const buses = parseObaArrivals([arrival()], new Map(), LINE, '1_300');
+
+    expect(buses[0].destinationArrival).toBeNull();
+    expect(buses[0].isEstimated).toBe(false);
+  });
+});
+
+describe('parseObaSituations', () => {
+  it('converts situations with open-ended windows', () => {
+    expect(parseObaSituations([{
+      id: '1_alert_77',
+      summary: { value: 'Route 8 reroute ' },
+      description: { value: 'Buses use Denny Way.' },
+      severity: 'noImpact',
+      activeWindows: [{ from: at('2025-10-18T14:00:00Z'), to: 0 }],
+      allAffects: [{ routeId: LINE }, { routeId: LINE, stopId: '1_578' }, { agencyId: '1' }],
+    }])).toEqual([{
+      id: '1_alert_77',
+      summary: 'Route 8 reroute',
+      description: 'Buses use Denny Way.',
+      severity: 'info',
+      activePeriods: [{ start: '2025-10-18T14:00:00.000Z', end: null }],
+      routeIds: [LINE],
+      stopIds: ['1_578'],
+    }]);
+  });
+});
@@ -0,0 +1,187 @@
+// OneBusAway REST API interfaces and parsing for arrivals-and-departures-for-stop
+
+import { BusResponse, ServiceAlert } from '@/types';
+import { headingFromEastBearing } from '@/lib/geo';
+import { proximityText, severityFromSiri, stopIdsMatch } from '@/lib/siri-parser';
+
+// --- OneBusAway API Response Interfaces ---
+
+export interface ObaTripStatus {
+  activeTripId?: string;
+  vehicleId?: string;
+  position?: { lat: number; lon: number } | null;
+  /** Degrees counter-clockwise from east */
+  orientation?: number;
+  predicted?: boolean;
+  /** Seconds behind schedule (negative when early) */
+  scheduleDeviation?: number;
+  status?: string;
+}
+
+export interface ObaArrivalAndDeparture {
+  routeId: string;
+  tripId: string;
+  /** Midnight of the service day, epoch milliseconds */
+  serviceDate: number;
+  stopId: string;
+  vehicleId?: string;
+  tripHeadsign?: string;
+  predicted?: boolean;
+  /** Epoch milliseconds, 0 when there's no real-time prediction */
+  predictedArrivalTime: number;
+  scheduledArrivalTime: number;
+  numberOfStopsAway?: number;
+  tripStatus?: ObaTripStatus | null;
+}
+
+export interface ObaStopTime {
+  stopId: string;
+  /** Seconds after the service date */
+  arrivalTime: number;
+  departureTime?: number;
+}
+
+export interface ObaTripDetails {
+  tripId: string;
+  serviceDate?: number;
+  schedule?: {
+    stopTimes?: ObaStopTime[];
+  } | null;
+  status?: ObaTripStatus | null;
+}
+
+/** A service alert, listed under references.situations */
+export interface ObaSituation {
+  id: string;
+  summary?: { value?: string };
+  description?: { value?: string };
+  /** SIRI severity vocabulary */
+  severity?: string;
+  /** Epoch ms; 0 or missing means open-ended */
+  activeWindows?: Array<{ from?: number; to?: number }>;
+  allAffects?: Array<{ agencyId?: string; routeId?: string; stopId?: string; tripId?: string }>;
+}
+
+export interface ObaArrivalsResponse {
+  code?: number;
+  text?: string;
+  data?: {
+    entry?: {
+      arrivalsAndDepartures?: ObaArrivalAndDeparture[];
+    };
+    references?: {
+      situations?: ObaSituation[];
+    };
+  };
+}
+
+// --- Parsing helpers ---
+
+function toIso(epochMs: number | undefined): string | null {
+  if (!epochMs || !Number.isFinite(epochMs)) return null;
+  return new Date(epochMs).toISOString();
+}
+
+/**
+ * Whether an arrival carries a real-time prediction for a bus that hasn't
+ * passed the stop yet.
+ */
+export function isPredictedArrival(arrival: ObaArrivalAndDeparture): boolean {
+  return Boolean(arrival.predicted) &&
+    arrival.predictedArrivalTime > 0 &&
+    (arrival.numberOfStopsAway ?? 0) >= 0;
+}
+
+/**
+ * Resolve the predicted arrival at the destination from the trip's schedule,
+ * shifted by the vehicle's current deviation. Falls back to the trip's last
+ * stop (flagged as an estimate) when the destination isn't on this trip.
+ */
+function findDestinationArrival(
+  arrival: ObaArrivalAndDeparture,
+  details: ObaTripDetails | undefined,
+  destinationId: string
+): { arrival: string | null; found: boolean } {
+  const stopTimes = details?.schedule?.stopTimes ?? [];
+  if (stopTimes.length === 0) return { arrival: null, found: false };
+
+  const serviceDate = details?.serviceDate ?? arrival.serviceDate;
+  const deviationSeconds =
+    details?.status?.scheduleDeviation ?? arrival.tripStatus?.scheduleDeviation ?? 0;
+  const predictedAt = (stopTime: ObaStopTime) =>
+    serviceDate + (stopTime.arrivalTime + deviationSeconds) * 1000;
+
+  const originIndex = stopTimes.findIndex(st => stopIdsMatch(st.stopId, arrival.stopId));
+  const onward = stopTimes.slice(originIndex + 1);
+
+  const destination = onward.find(st => stopIdsMatch(st.stopId, destinationId));
+  if (destination) return { arrival: toIso(predictedAt(destination)), found: true };
+
+  const last = onward[onward.length - 1];
+  if (last && predictedAt(last) > arrival.predictedArrivalTime) {
+    return { arrival: toIso(predictedAt(last)), found: false };
+  }
+
+  return { arrival: null, found: false };
+}
+
+// --- Main entry point ---
+
+/**
+ * Convert OneBusAway arrivals at the origin into BusResponse objects.
+ * Keeps only predicted arrivals on `busLine`; `tripDetails` (keyed by trip ID)
+ * supplies the schedule used to resolve destination arrival times.
+ */
+export function parseObaArrivals(
+  arrivals: ObaArrivalAndDeparture[],
+  tripDetails: Map<string, ObaTripDetails>,
+  busLine: string,
+  destinationId: string
+): BusResponse[] {
+  return arrivals
+    .filter(arrival => arrival.routeId === busLine && isPredictedArrival(arrival))
+    .sort((a, b) => a.predictedArrivalTime - b.predictedArrivalTime)
+    .map(arrival => {
+      const status = arrival.tripStatus;
+      const stopsAway = Math.max(0, arrival.numberOfStopsAway ?? 0);
+      const { arrival: destinationArrival, found } =
+        findDestinationArrival(arrival, tripDetails.get(arrival.tripId), destinationId);
+      const position = status?.position;
+
+      return {
+        vehicleRef: arrival.vehicleId || status?.vehicleId || arrival.tripId,
+        originArrival: toIso(arrival.predictedArrivalTime),
+        aimedArrival: toIso(arrival.scheduledArrivalTime),
+        originStopsAway: stopsAway,
+        destinationArrival,
+        proximity: proximityText(stopsAway),
+        destination: arrival.tripHeadsign || "Unknown",
+        isEstimated: destinationArrival !== null && !found,
+        vehicleLocation: position && Number.isFinite(position.lat) && Number.isFinite(position.lon)
+          ? { lat: position.lat, lon: position.lon }
+          : null,
+        bearing: headingFromEastBearing(status?.orientation),
+      };
+    });
+}
+
+/**
+ * Convert OneBusAway situations into service alerts.
+ */
+export function parseObaSituations(situations: ObaSituation[]): ServiceAlert[] {
+  return situations.map(situation => {
+    const affects = situation.allAffects ?? [];
+    return {
+      id: situation.id,
+      summary: situation.summary?.value?.trim() ?? '',
+      description: situation.description?.value?.trim() ?? '',
+      severity: severityFromSiri(situation.severity),
+      activePeriods: (situation.activeWindows ?? []).map(window => ({
+        start: toIso(window.from),
+        end: toIso(window.to),
+      })),
+      routeIds: Array.from(new Set(affects.flatMap(affect => affect.routeId || []))),
+      stopIds: Array.from(new Set(affects.flatMap(affect => affect.stopId || []))),
+    };
+  });
+}
@@ -0,0 +1,245 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OneBusAwayProvider } from '@/lib/onebusaway-provider';
+import { getOneBusAwayConfig, getTransitProvider, setTransitProvider } from '@/lib/transit-provider';
+import { TransitProviderError } from '@/types';
+
+const BASE_URL = 'http://oba.test';
+const SERVICE_DATE = Date.parse('2025-10-18T07:00:00Z');
+
+function provider() {
+  return new OneBusAwayProvider({
+    id: 'test',
+    baseUrl: BASE_URL,
+    apiKey: 'key',
+    agencyIds: ['1', '40'],
+    arrivals: 'oba',
+  });
+}
+
+/** Stub fetch with responses keyed by path; unknown paths get a 404 envelope */
+function stubObaFetch(responses: Record<string, unknown>) {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+    const url = new URL(String(input));
+    const body = responses[url.pathname] ?? { code: 404, text: 'resource not found' };
+    const status = typeof body === 'number' ? body : 200;
+    return new Response(typeof body === 'number' ? '' : JSON.stringify(body), { status });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const routes = (agencyId: string, ...shortNames: string[]) => ({
+  code: 200,
+  data: {
+    list: shortNames.map(shortName => ({
+      id: `${agencyId}_${shortName}`,
+      shortName,
+      longName: '',
+      description: `${shortName} line`,
+      agencyId,
+    })),
+  },
+});
+
+describe('OneBusAwayProvider', () => {
+  afterEach(() => {
+    setTransitProvider(null);
+  });
+
+  it('searches lines across every configured agency', async () => {
+    stubObaFetch({
+      '/api/where/routes-for-agency/1.json': routes('1', '8', '40'),
+      '/api/where/routes-for-agency/40.json': routes('40', '545'),
+    });
+
+    expect((await provider().searchLines('')).map(line => line.id)).toEqual(['1_40', '40_545', '1_8']);
+    expect((await provider().searchLines('545')).map(line => line.id)).toEqual(['40_545']);
+  });
+
+  it('returns null for unknown lines and throws on upstream errors', async () => {
+    stubObaFetch({ '/api/where/route/1_500.json': 500 });
+
+    expect(await provider().getLine('1_404')).toBeNull();
+    await expect(provider().getLine('1_500')).rejects.toBeInstanceOf(TransitProviderError);
+  });
+
+  it('reads nearby lines from a version 2 response', async () => {
+    stubObaFetch({
+      '/api/where/stops-for-location.json': {
+        code: 200,
+        data: {
+          list: [
+            { id: '1_far', name: 'FAR', lat: 47.62, lon: -122.33, routeIds: ['1_8'] },
+            { id: '1_near', name: 'NEAR', lat: 47.6101, lon: -122.33, routeIds: ['1_8', '1_40'] },
+          ],
+          references: { routes: routes('1', '8', '40').data.list },
+        },
+      },
+    });
+
+    const nearby = await provider().getNearby(47.61, -122.33);
+
+    expect(nearby.map(line => [line.id, line.closestStop.name])).toEqual([['1_8', 'NEAR'], ['1_40', 'NEAR']]);
+  });
+
+  it('builds arrivals from arrivals-and-departures and trip details', async () => {
+    const fetchMock = stubObaFetch({
+      '/api/where/arrivals-and-departures-for-stop/1_200.json': {
+        code: 200,
+        data: {
+          entry: {
+            arrivalsAndDepartures: [{
+              routeId: '1_8',
+              tripId: '1_trip-a',
+              serviceDate: SERVICE_DATE,
+              stopId: '1_200',
+              vehicleId: '1_7001',
+              tripHeadsign: 'Capitol Hill',
+              predicted: true,
+              predictedArrivalTime: Date.parse('2025-10-18T15:05:00Z'),
+              scheduledArrivalTime: Date.parse('2025-10-18T15:05:00Z'),
+              numberOfStopsAway: 1,
+            }],
+          },
+        },
+      },
+      '/api/where/trip-details/1_trip-a.json': {
+        code: 200,
+        data: {
+          entry: {
+            tripId: '1_trip-a',
+            serviceDate: SERVICE_DATE,
+            schedule: {
+              stopTimes: [
+                { stopId: '1_200', arrivalTime: 8 * 3600 + 300 },
+                { stopId: '1_300', arrivalTime: 8 * 3600 + 900 },
+              ],
+            },
+            status: { scheduleDeviation: 0 },
+          },
+        },
+      },
+    });
+
+    const buses = await provider().getArrivals('1_8', '1_200', '1_300');
+
+    expect(buses.map(bus => [bus.vehicleRef, bus.originArrival, bus.destinationArrival])).toEqual([
+      ['1_7001', '2025-10-18T15:05:00.000Z', '2025-10-18T15:15:00.000Z'],
+    ]);
+    const tripDetailsUrl = new URL(String(fetchMock.mock.calls[1][0]));
+    expect(tripDetailsUrl.searchParams.get('includeSchedule')).toBe('true');
+    expect(tripDetailsUrl.searchParams.get('serviceDate')).toBe(String(SERVICE_DATE));
+  });
+
+  it('shares arrivals and trip details between batched trips from one origin', async () => {
+    const fetchMock = stubObaFetch({
+      '/api/where/arrivals-and-departures-for-stop/1_200.json': {
+        code: 200,
+        data: {
+          entry: {
+            arrivalsAndDepartures: [{
+              routeId: '1_8',
+              tripId: '1_trip-a',
+              serviceDate: SERVICE_DATE,
+              stopId: '1_200',
+              vehicleId: '1_7001',
+              tripHeadsign: 'Capitol Hill',
+              predicted: true,
+              predictedArrivalTime: Date.parse('2025-10-18T15:05:00Z'),
+              scheduledArrivalTime: Date.parse('2025-10-18T15:05:00Z'),
+              numberOfStopsAway: 1,
+            }],
+          },
+        },
+      },
+      '/api/where/arrivals-and-departures-for-stop/1_500.json': 500,
+      '/api/where/trip-details/1_trip-a.json': {
+        code: 200,
+        data: {
+          entry: {
+            tripId: '1_trip-a',
+            serviceDate: SERVICE_DATE,
+            schedule: {
+              stopTimes: [
+                { stopId: '1_200', arrivalTime: 8 * 3600 + 300 },
+                { stopId: '1_300', arrivalTime: 8 * 3600 + 900 },
+                { stopId: '1_400', arrivalTime: 8 * 3600 + 1500 },
+              ],
+            },
+            status: { scheduleDeviation: 0 },
+          },
+        },
+      },
+    });
+
+    const results = await provider().getArrivalsBatch([
+      { busLine: '1_8', originId: '1_200', destinationId: '1_300' },
+      { busLine: '1_8', originId: '1_500', destinationId: '1_300' },
+      { busLine: '1_8', originId: '1_200', destinationId: '1_400' },
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    const destinationTimes = results.flatMap(result =>
+      result.status === 'fulfilled' ? result.value.map(bus => bus.destinationArrival) : []
+    );
+    expect(destinationTimes).toEqual(['2025-10-18T15:15:00.000Z', '2025-10-18T15:25:00.000Z']);
+    expect(fetchMock.mock.calls.map(([url]) => new URL(String(url)).pathname).sort()).toEqual([
+      '/api/where/arrivals-and-departures-for-stop/1_200.json',
+      '/api/where/arrivals-and-departures-for-stop/1_500.json',
+      '/api/where/trip-details/1_trip-a.json',
+    ]);
+  });
+});
+
+describe('transit provider configuration', () => {
+  afterEach(() => {
+    setTransitProvider(null);
+  });
+
+  it('defaults to the MTA and needs its API key', () => {
+    vi.stubEnv('TRANSIT_PROVIDER', '');
+    vi.stubEnv('MTA_API_KEY', '');
+    expect(getTransitProvider()).toBeNull();
+
+    vi.stubEnv('MTA_API_KEY', 'key');
+    expect(getTransitProvider()?.id).toBe('mta');
+  });
+
+  it('fills OneBusAway settings from a preset', () => {
+    expect(getOneBusAwayConfig({ OBA_PRESET: 'puget-sound', OBA_API_KEY: 'key' })).toEqual({
+      id: 'puget-sound',
+      baseUrl: 'https://api.pugetsound.onebusaway.org',
+      apiKey: 'key',
+      agencyIds: ['1', '40'],
+      arrivals: 'oba',
+      siriOperatorRef: undefined,
+    });
+  });
+
+  it('lets individual variables override the preset', () => {
+    const config = getOneBusAwayConfig({
+      OBA_PRESET: 'san-diego',
+      OBA_API_KEY: 'key',
+      OBA_BASE_URL: 'http://localhost:8080/',
+      OBA_AGENCY_IDS: 'MTS, NCTD',
+      OBA_ARRIVALS: 'siri',
+    });
+
+    expect(config).toMatchObject({ baseUrl: 'http://localhost:8080', agencyIds: ['MTS', 'NCTD'], arrivals: 'siri' });
+  });
+
+  it('needs an API key and a known preset', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(getOneBusAwayConfig({ OBA_PRESET: 'puget-sound' })).toBeNull();
+    expect(getOneBusAwayConfig({ OBA_PRESET: 'atlantis', OBA_API_KEY: 'key' })).toBeNull();
+  });
+
+  it('selects a OneBusAway deployment', () => {
+    vi.stubEnv('TRANSIT_PROVIDER', 'onebusaway');
+    vi.stubEnv('OBA_PRESET', 'san-diego');
+    vi.stubEnv('OBA_API_KEY', 'key');
+
+    expect(getTransitProvider()?.id).toBe('san-diego');
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * TransitProvider backed by a OneBusAway REST API (api/where/*). Used for MTA
+ * Bus Time as well as other OBA deployments such as Puget Sound and San Diego.
+ * Arrivals come either from OBA's arrivals-and-departures-for-stop or, where
+ * the deployment offers it, from SIRI stop-monitoring.
+ */
+
+import { BusLine, BusResponse, NearbyBusLine, ServiceAlert, StopInfo, TransitProviderError } from '@/types';
+import { lineMatchesQuery, type ArrivalsQuery, type LineStops, type TransitProvider } from '@/lib/transit-provider';
+import { calculateDistance } from '@/lib/geo';
+import { getSiriCache } from '@/lib/siri-cache';
+import { SiriResponse, SiriSituationsResponse, parseSiriResponse, parseSiriSituations } from '@/lib/siri-parser';
+import {
+  ObaArrivalAndDeparture,
+  ObaArrivalsResponse,
+  ObaTripDetails,
+  isPredictedArrival,
+  parseObaArrivals,
+  parseObaSituations,
+} from '@/lib/oba-parser';
+import {
+  MTAApiResponse,
+  buildStopsMap,
+  extractRouteShapes,
+  fetchMissingStops,
+  processStopGroupings,
+} from '@/lib/stop-processing';
+
+export interface OneBusAwayConfig {
+  id: string;
+  baseUrl: string;
+  apiKey: string;
+  /** Agencies whose routes are listed by searchLines */
+  agencyIds: string[];
+  /** Where real-time arrivals come from */
+  arrivals: 'oba' | 'siri';
+  /** OperatorRef for SIRI stop-monitoring requests (e.g. "MTA") */
+  siriOperatorRef?: string;
+}
+
+interface ObaEnvelope<T> {
+  code?: number;
+  text?: string;
+  data?: T;
+}
+
+interface ObaRoute {
+  id: string;
+  shortName?: string;
+  longName?: string;
+  description?: string;
+  agencyId?: string;
+  agency?: { id?: string };
+  [key: string]: unknown;
+}
+
+interface ObaStop {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  direction?: string;
+  routeIds?: string[];
+  routes?: ObaRoute[];
+  [key: string]: unknown;
+}
+
+/** Only the first few predicted trips get a trip-details lookup per poll */
+const MAX_TRIP_DETAILS = 8;
+
+// --- In-memory cache for stop info (30-minute TTL) ---
+
+interface CacheEntry {
+  data: StopInfo;
+  expiresAt: number;
+}
+
+const STOP_INFO_TTL_MS = 30 * 60 * 1000; // 30 minutes
+const STOP_INFO_CACHE_MAX = 500;
+
+function toBusLine(route: ObaRoute): BusLine {
+  return {
+    id: route.id,
+    shortName: route.shortName || '',
+    longName: route.longName || '',
+    description: route.description || '',
+    agencyId: route.agencyId || route.agency?.id || '',
+  };
+}
+
+export class OneBusAwayProvider implements TransitProvider {
+  readonly id: string;
+  private stopInfoCache = new Map<string, CacheEntry>();
+
+  constructor(private config: OneBusAwayConfig) {
+    this.id = config.id;
+  }
+
+  private url(path: string, params: Record<string, string | number | boolean> = {}): string {
+    const query = new URLSearchParams({ key: this.config.apiKey });
+    for (const [name, value] of Object.entries(params)) {
+      query.set(name, String(value));
+    }
+    return `${this.config.baseUrl}${path}?${query}`;
+  }
+
+  /**
+   * GET a OneBusAway endpoint. Resolves to null for unknown resources (HTTP
+   * 404 or an in-body 404 code); throws for any other failure.
+   */
+  private async getJson<T extends { code?: number; text?: string }>(
+    path: string,
+    params: Record<string, string | number | boolean> = {}
+  ): Promise<T | null> {
+    const response = await fetch(this.url(path, params), {
+      cache: "no-store",
+      headers: { "Cache-Control": "no-cache" },
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new TransitProviderError(`${this.id} request to ${path} failed: ${response.status}`, response.status);
+    }
+
+    const data = (await response.json()) as T;
+    if (data.code === 404) return null;
+    if (data.code && data.code !== 200) {
+      throw new TransitProviderError(`${this.id} API error for ${path}: ${data.text || 'Unknown error'}`, 502);
+    }
+    return data;
+  }
+
+  async searchLines(query: string): Promise<BusLine[]> {
+    const lists = await Promise.all(
+      this.config.agencyIds.map(agencyId =>
+        this.getJson<ObaEnvelope<{ list?: ObaRoute[] }>>(
+          `/api/where/routes-for-agency/${encodeURIComponent(agencyId)}.json`
+        )
+      )
+    );
+
+    return lists
+      .flatMap(data => data?.data?.list ?? [])
+      .map(toBusLine)
+      .filter(line => lineMatchesQuery(line, query))
+      .sort((a, b) => a.shortName.localeCompare(b.shortName));
+  }
+
+  async getLine(lineId: string): Promise<BusLine | null> {
+    const data = await this.getJson<ObaEnvelope<{ entry?: ObaRoute }>>(
+      `/api/where/route/${encodeURIComponent(lineId)}.json`
+    );
+    const entry = data?.data?.entry;
+    return entry ? toBusLine(entry) : null;
+  }
+
+  async getStopsForLine(lineId: string, options: { includeShapes?: boolean } = {}): Promise<LineStops | null> {
+    const includeShapes = options.includeShapes ?? false;
+    const data = await this.getJson<MTAApiResponse>(
+      `/api/where/stops-for-route/${encodeURIComponent(lineId)}.json`,
+      { includePolylines: includeShapes, includeReferences: true, version: 2 }
+    );
+    if (!data) return null;
+
+    const stopGroupings = data.data?.entry?.stopGroupings;
+    if (!stopGroupings || stopGroupings.length === 0) {
+      throw new TransitProviderError(`${this.id} returned no stopGroupings for ${lineId}`, 502);
+    }
+
+    // Build stops map from references, or fetch individually if missing
+    const stopsMap = buildStopsMap(data);
+    if (Object.keys(stopsMap).length === 0) {
+      console.warn("No stops in references section, fetching individually.");
+      await fetchMissingStops(stopGroupings, this.config, stopsMap);
+    }
+
+    const { directions, stops } = processStopGroupings(stopGroupings, stopsMap);
+    return {
+      directions,
+      stops,
+      ...(includeShapes && { shapes: extractRouteShapes(stopGroupings) }),
+    };
+  }
+
+  /**
+   * Stop details, cached in memory for 30 minutes since stops rarely change.
+   */
+  async getStop(stopId: string): Promise<StopInfo | null> {
+    const cached = this.stopInfoCache.get(stopId);
+    if (cached && Date.now() <= cached.expiresAt) return cached.data;
+    if (cached) this.stopInfoCache.delete(stopId);
+
+    const data = await this.getJson<ObaEnvelope<{ entry?: ObaStop; references?: { routes?: ObaRoute[] } }>>(
+      `/api/where/stop/${encodeURIComponent(stopId)}.json`,
+      { version: 2 }
+    );
+    const entry = data?.data?.entry;
+    if (!entry) return null;
+
+    const routeIds = new Set(entry.routeIds ?? []);
+    const stop: StopInfo = {
+      ...entry,
+      id: entry.id || stopId,
+      name: entry.name || 'Unknown Stop',
+      lat: entry.lat || 0,
+      lon: entry.lon || 0,
+      direction: entry.direction || '',
+      routes: (data.data?.references?.routes ?? []).filter(route => routeIds.has(route.id)),
+    };
+
+    if (this.stopInfoCache.size >= STOP_INFO_CACHE_MAX) {
+      const firstKey = this.stopInfoCache.keys().next().value;
+      if (firstKey) this.stopInfoCache.delete(firstKey);
+    }
+    this.stopInfoCache.set(stopId, { data: stop, expiresAt: Date.now() + STOP_INFO_TTL_MS });
+
+    return stop;
+  }
+
+  async getNearby(
+    lat: number,
+    lon: number,
+    options: { radiusMeters?: number; limit?: number } = {}
+  ): Promise<NearbyBusLine[]> {
+    const { radiusMeters = 500, limit = 5 } = options;
+    const data = await this.getJson<ObaEnvelope<{
+      stops?: ObaStop[];
+      list?: ObaStop[];
+      references?: { routes?: ObaRoute[] };
+    }>>('/api/where/stops-for-location.json', { lat, lon, radius: radiusMeters });
+
+    // Version 1 responses inline each stop's routes; version 2 lists route IDs
+    // with the routes under references
+    const referencedRoutes = new Map((data?.data?.references?.routes ?? []).map(route => [route.id, route]));
+    const stops = data?.data?.stops ?? data?.data?.list ?? [];
+
+    const nearby = new Map<string, NearbyBusLine>();
+    for (const stop of stops) {
+      const distance = calculateDistance(lat, lon, stop.lat, stop.lon);
+      const routes = stop.routes ??
+        (stop.routeIds ?? []).flatMap(id => referencedRoutes.get(id) ?? []);
+
+      for (const route of routes) {
+        const current = nearby.get(route.id);
+        if (current && current.distance <= distance) continue;
+        nearby.set(route.id, {
+          ...(current ?? toBusLine(route)),
+          distance,
+          closestStop: { name: stop.name, distance },
+        });
+      }
+    }
+
+    return Array.from(nearby.values())
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit);
+  }
+
+  async getArrivals(busLine: string, originId: string, destinationId: string): Promise<BusResponse[]> {
+    const [arrivals] = await this.getArrivalsForOrigin(originId, [{ busLine, originId, destinationId }]);
+    return arrivals;
+  }
+
+  /** One stop-monitoring or arrivals-and-departures request per distinct origin */
+  async getArrivalsBatch(queries: ArrivalsQuery[]): Promise<PromiseSettledResult<BusResponse[]>[]> {
+    const byOrigin = new Map<string, number[]>();
+    queries.forEach((query, index) => {
+      byOrigin.set(query.originId, [...(byOrigin.get(query.originId) ?? []), index]);
+    });
+
+    const results: PromiseSettledResult<BusResponse[]>[] = new Array(queries.length);
+    await Promise.all(Array.from(byOrigin, async ([originId, indexes]) => {
+      try {
+        const arrivals = await this.getArrivalsForOrigin(originId, indexes.map(index => queries[index]));
+        indexes.forEach((queryIndex, i) => {
+          results[queryIndex] = { status: 'fulfilled', value: arrivals[i] };
+        });
+      } catch (reason) {
+        indexes.forEach(queryIndex => {
+          results[queryIndex] = { status: 'rejected', reason };
+        });
+      }
+    }));
+    return results;
+  }
+
+  private getArrivalsForOrigin(originId: string, queries: ArrivalsQuery[]): Promise<BusResponse[][]> {
+    return this.config.arrivals === 'siri'
+      ? this.getSiriArrivals(originId, queries)
+      : this.getObaArrivals(originId, queries);
+  }
+
+  /**
+   * SIRI deployments attach situations to vehicle-monitoring for the line;
+   * OBA lists them in each stop's arrivals references.
+   */
+  async getAlerts(busLine: string, stopIds: string[]): Promise<ServiceAlert[]> {
+    if (this.config.arrivals === 'siri') {
+      const data = await this.getJson<SiriSituationsResponse & { code?: number }>('/api/siri/vehicle-monitoring.json', {
+        version: 2,
+        ...(this.config.siriOperatorRef && { OperatorRef: this.config.siriOperatorRef }),
+        LineRef: busLine,
+        VehicleMonitoringDetailLevel: 'minimum',
+      });
+      return data ? parseSiriSituations(data) : [];
+    }
+
+    const responses = await Promise.all(stopIds.map(stopId =>
+      this.getJson<ObaArrivalsResponse>(
+        `/api/where/arrivals-and-departures-for-stop/${encodeURIComponent(stopId)}.json`,
+        { minutesBefore: 0, minutesAfter: 90 }
+      )
+    ));
+    return parseObaSituations(responses.flatMap(data => data?.data?.references?.situations ?? []));
+  }
+
+  private async getSiriArrivals(originId: string, queries: ArrivalsQuery[]): Promise<BusResponse[][]> {
+    // Trips on different lines share the request by leaving out the LineRef
+    const lines = new Set(queries.map(query => query.busLine));
+    const lineRef = lines.size === 1 ? queries[0].busLine : '';
+    const data = await getSiriCache().getOrFetch(
+      `stop-monitoring|${this.config.baseUrl}|${originId}|${lineRef}`,
+      () => this.getJson<SiriResponse & { code?: number }>('/api/siri/stop-monitoring.json', {
+        version: 2,
+        ...(this.config.siriOperatorRef && { OperatorRef: this.config.siriOperatorRef }),
+        MonitoringRef: originId,
+        ...(lineRef && { LineRef: lineRef }),
+        StopMonitoringDetailLevel: 'calls',
+      })
+    );
+    if (!data) {
+      throw new TransitProviderError(`${this.id} has no stop-monitoring for ${originId}`, 404);
+    }
+    return queries.map(({ busLine, destinationId }) => parseSiriResponse(data, busLine, destinationId).buses);
+  }
+
+  private async getObaArrivals(originId: string, queries: ArrivalsQuery[]): Promise<BusResponse[][]> {
+    const data = await this.getJson<ObaArrivalsResponse>(
+      `/api/where/arrivals-and-departures-for-stop/${encodeURIComponent(originId)}.json`,
+      { minutesBefore: 0, minutesAfter: 90 }
+    );
+    const arrivals: ObaArrivalAndDeparture[] = data?.data?.entry?.arrivalsAndDepartures ?? [];
+
+    const predictedByQuery = queries.map(({ busLine }) => arrivals
+      .filter(arrival => arrival.routeId === busLine && isPredictedArrival(arrival))
+      .sort((a, b) => a.predictedArrivalTime - b.predictedArrivalTime)
+      .slice(0, MAX_TRIP_DETAILS));
+    const predicted = Array.from(new Map(
+      predictedByQuery.flat().map(arrival => [arrival.tripId, arrival])
+    ).values());
+
+    // Destination times come from each trip's schedule; a failed lookup only
+    // costs that bus its destination arrival
+    const tripDetails = new Map<string, ObaTripDetails>();
+    await Promise.all(predicted.map(async arrival => {
+      try {
+        const details = await this.getJson<ObaEnvelope<{ entry?: ObaTripDetails }>>(
+          `/api/where/trip-details/${encodeURIComponent(arrival.tripId)}.json`,
+          { serviceDate: arrival.serviceDate, includeSchedule: true, includeStatus: true }
+        );
+        const entry = details?.data?.entry;
+        if (entry) tripDetails.set(arrival.tripId, entry);
+      } catch (error) {
+        console.warn(`Failed to fetch trip details for ${arrival.tripId}:`, error);
+      }
+    }));
+
+    return queries.map(({ busLine, destinationId }, index) =>
+      parseObaArrivals(predictedByQuery[index], tripDetails, busLine, destinationId)
+    );
+  }
+}
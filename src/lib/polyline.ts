@@ -0,0 +1,181 @@
+/**
+ * Encoded polyline utilities for route shapes.
+ * Decoding and simplification run server-side; the distance helpers are
+ * pure and shared with the client for measuring along a drawn route.
+ */
+
+import { calculateDistance } from '@/lib/geo';
+
+/** A [lat, lon] pair */
+export type PolylinePoint = [number, number];
+
+const METERS_PER_DEGREE_LAT = 111320;
+const METERS_PER_MILE = 1609.344;
+
+/**
+ * Decode a Google encoded polyline (precision 5), as used by OneBusAway.
+ * Malformed trailing data is ignored rather than throwing.
+ */
+export function decodePolyline(encoded: string): PolylinePoint[] {
+  const points: PolylinePoint[] = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+
+  const readValue = (): number | null => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) return null;
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    const dLat = readValue();
+    const dLon = readValue();
+    if (dLat === null || dLon === null) break;
+    lat += dLat;
+    lon += dLon;
+    points.push([lat / 1e5, lon / 1e5]);
+  }
+
+  return points;
+}
+
+/**
+ * Project points onto a local plane in meters, centered on the first point.
+ */
+function toMeters(points: PolylinePoint[]): Array<[number, number]> {
+  if (points.length === 0) return [];
+  const [lat0] = points[0];
+  const lonScale = METERS_PER_DEGREE_LAT * Math.cos((lat0 * Math.PI) / 180);
+  return points.map(([lat, lon]) => [lon * lonScale, lat * METERS_PER_DEGREE_LAT]);
+}
+
+function perpendicularDistance(
+  p: [number, number],
+  a: [number, number],
+  b: [number, number]
+): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p[0] - a[0], p[1] - a[1]);
+  const t = Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq));
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+/**
+ * Simplify a polyline with Douglas-Peucker, dropping points that deviate
+ * less than `toleranceMeters` from the simplified line. Endpoints are kept.
+ */
+export function simplifyPolyline(points: PolylinePoint[], toleranceMeters: number): PolylinePoint[] {
+  if (points.length <= 2) return points;
+
+  const projected = toMeters(points);
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to avoid deep recursion on long routes
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let maxIndex = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = perpendicularDistance(projected[i], projected[start], projected[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+    if (maxIndex !== -1 && maxDistance > toleranceMeters) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Total length of a polyline in miles.
+ */
+export function polylineLength(points: PolylinePoint[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += calculateDistance(points[i - 1][0], points[i - 1][1], points[i][0], points[i][1]);
+  }
+  return total;
+}
+
+/**
+ * Locate the point on a polyline nearest to `target`.
+ * @returns Miles from the start of the polyline to that point, and how far
+ * (in miles) the target sits off the line
+ */
+export function locateOnPolyline(
+  points: PolylinePoint[],
+  target: { lat: number; lon: number }
+): { along: number; offset: number } | null {
+  if (points.length < 2) return null;
+
+  const projected = toMeters([[target.lat, target.lon], ...points]);
+  const p = projected[0];
+  let best: { along: number; offset: number } | null = null;
+  let traveled = 0;
+
+  for (let i = 1; i < projected.length - 1; i++) {
+    const a = projected[i];
+    const b = projected[i + 1];
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const segment = Math.hypot(dx, dy);
+    const t = segment === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / (segment * segment)));
+    const offset = Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+
+    if (!best || offset < best.offset) {
+      best = { along: traveled + t * segment, offset };
+    }
+    traveled += segment;
+  }
+
+  return best && {
+    along: best.along / METERS_PER_MILE,
+    offset: best.offset / METERS_PER_MILE,
+  };
+}
+
+/**
+ * Distance in miles travelled along a route from `from` to `to`. When a
+ * direction has several shapes (branches), the one both points sit closest
+ * to is used. Returns null if no shape runs from `from` to `to`.
+ */
+export function distanceAlongRoute(
+  paths: PolylinePoint[][],
+  from: { lat: number; lon: number },
+  to: { lat: number; lon: number }
+): number | null {
+  let best: { distance: number; offset: number } | null = null;
+
+  for (const path of paths) {
+    const start = locateOnPolyline(path, from);
+    const end = locateOnPolyline(path, to);
+    if (!start || !end || end.along < start.along) continue;
+
+    const offset = start.offset + end.offset;
+    if (!best || offset < best.offset) {
+      best = { distance: end.along - start.along, offset };
+    }
+  }
+
+  return best?.distance ?? null;
+}
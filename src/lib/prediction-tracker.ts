@@ -0,0 +1,174 @@
+/**
+ * Live prediction accuracy tracking.
+ * Follows each vehicle across polls of a stop, infers when it actually
+ * arrived (stops-away reaches 0, or it drops out of the feed while due), and
+ * scores every earlier ExpectedArrivalTime against that. Errors are kept per
+ * line, grouped by how far ahead the prediction was made, and used to put a
+ * "±" band on new predictions.
+ *
+ * State is in memory and rebuilds after a restart.
+ */
+
+import { BusResponse, PredictionAccuracy } from '@/types';
+import { LEAD_TIME_BUCKETS, median } from '@/lib/arrival-stats';
+
+/** Polls of the same stop closer together than this add no information */
+const MIN_OBSERVATION_SPACING_MS = 15000;
+
+/** A vanished bus only counts as arrived if it was due within this window */
+const ARRIVAL_WINDOW_MS = 3 * 60000;
+
+/** Polls further apart than this can't pin down when a bus arrived */
+const MAX_POLL_GAP_MS = 5 * 60000;
+
+/** Most recent errors kept per line and lead-time bucket */
+const MAX_SAMPLES_PER_BUCKET = 500;
+
+/** Fewer samples than this and no band is shown */
+const MIN_SAMPLES_FOR_BAND = 10;
+
+interface TrackedVehicle {
+  predictions: Array<{ madeAt: number; expected: number }>;
+  lastExpected: number | null;
+}
+
+interface TrackedStop {
+  polledAt: number;
+  vehicles: Map<string, TrackedVehicle>;
+}
+
+function bucketIndex(leadMinutes: number): number {
+  return LEAD_TIME_BUCKETS.findIndex(([min, max]) => leadMinutes >= min && leadMinutes < max);
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+export class PredictionTracker {
+  private stops = new Map<string, TrackedStop>();
+  /** Signed errors in minutes (actual - predicted), keyed by `${busLine}|${bucket}` */
+  private errors = new Map<string, number[]>();
+
+  /**
+   * Feed one poll of a stop into the tracker.
+   */
+  observe(busLine: string, stopId: string, buses: BusResponse[], now: Date = new Date()): void {
+    const key = `${busLine}|${stopId}`;
+    const nowMs = now.getTime();
+    const stop = this.stops.get(key) ?? { polledAt: 0, vehicles: new Map<string, TrackedVehicle>() };
+
+    if (nowMs - stop.polledAt < MIN_OBSERVATION_SPACING_MS) return;
+
+    const seen = new Set<string>();
+    for (const bus of buses) {
+      if (!bus.originArrival) continue;
+      const expected = new Date(bus.originArrival).getTime();
+      if (isNaN(expected)) continue;
+      seen.add(bus.vehicleRef);
+
+      const vehicle = stop.vehicles.get(bus.vehicleRef) ?? { predictions: [], lastExpected: null };
+      stop.vehicles.set(bus.vehicleRef, vehicle);
+
+      if (bus.originStopsAway === 0 && expected - nowMs <= 60000) {
+        this.resolve(busLine, vehicle, nowMs);
+        stop.vehicles.delete(bus.vehicleRef);
+        continue;
+      }
+
+      vehicle.predictions.push({ madeAt: nowMs, expected });
+      vehicle.lastExpected = expected;
+    }
+
+    // Buses that dropped off since the last poll
+    const gapOk = nowMs - stop.polledAt <= MAX_POLL_GAP_MS;
+    for (const [vehicleRef, vehicle] of stop.vehicles) {
+      if (seen.has(vehicleRef)) continue;
+      if (gapOk && vehicle.lastExpected !== null && vehicle.lastExpected - stop.polledAt <= ARRIVAL_WINDOW_MS) {
+        this.resolve(busLine, vehicle, (stop.polledAt + nowMs) / 2);
+      }
+      stop.vehicles.delete(vehicleRef);
+    }
+
+    stop.polledAt = nowMs;
+    this.stops.set(key, stop);
+
+    for (const [stopKey, tracked] of this.stops) {
+      if (nowMs - tracked.polledAt > MAX_POLL_GAP_MS) this.stops.delete(stopKey);
+    }
+  }
+
+  private resolve(busLine: string, vehicle: TrackedVehicle, actual: number): void {
+    for (const { madeAt, expected } of vehicle.predictions) {
+      const index = bucketIndex((actual - madeAt) / 60000);
+      if (index === -1) continue;
+      const key = `${busLine}|${index}`;
+      const samples = this.errors.get(key) ?? [];
+      samples.push((actual - expected) / 60000);
+      if (samples.length > MAX_SAMPLES_PER_BUCKET) samples.shift();
+      this.errors.set(key, samples);
+    }
+  }
+
+  /**
+   * Typical error, in whole minutes, for a prediction `leadMinutes` ahead on
+   * this line, or null until enough arrivals have been observed.
+   */
+  getUncertainty(busLine: string, leadMinutes: number): number | null {
+    const index = bucketIndex(Math.max(0, leadMinutes));
+    if (index === -1) return null;
+    const samples = this.errors.get(`${busLine}|${index}`) ?? [];
+    if (samples.length < MIN_SAMPLES_FOR_BAND) return null;
+    const p80 = percentile(samples.map(Math.abs), 0.8);
+    return p80 === null ? null : Math.round(p80);
+  }
+
+  getAccuracy(busLine: string): PredictionAccuracy {
+    const byLeadTime = LEAD_TIME_BUCKETS.map(([min, max], index) => {
+      const samples = this.errors.get(`${busLine}|${index}`) ?? [];
+      const absolute = samples.map(Math.abs);
+      const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+      return {
+        leadMinutes: `${min}-${max}`,
+        samples: samples.length,
+        medianAbsErrorMinutes: round(median(absolute)),
+        p80AbsErrorMinutes: round(percentile(absolute, 0.8)),
+        medianBiasMinutes: round(median(samples)),
+      };
+    });
+
+    return {
+      busLine,
+      samples: byLeadTime.reduce((total, bucket) => total + bucket.samples, 0),
+      byLeadTime,
+    };
+  }
+}
+
+let predictionTracker: PredictionTracker | null = null;
+
+export function getPredictionTracker(): PredictionTracker {
+  predictionTracker ??= new PredictionTracker();
+  return predictionTracker;
+}
+
+/**
+ * Record a poll and annotate each bus with its uncertainty band.
+ */
+export function trackPredictions(
+  busLine: string,
+  stopId: string,
+  buses: BusResponse[],
+  now: Date = new Date()
+): BusResponse[] {
+  const tracker = getPredictionTracker();
+  tracker.observe(busLine, stopId, buses, now);
+
+  return buses.map(bus => {
+    if (!bus.originArrival) return bus;
+    const leadMinutes = (new Date(bus.originArrival).getTime() - now.getTime()) / 60000;
+    return { ...bus, uncertaintyMinutes: tracker.getUncertainty(busLine, leadMinutes) };
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Storage for Web Push subscriptions and their watch rules.
+ * The backend is pluggable through the PushStore interface; a JSON file
+ * store is used by default so the watcher works without external services.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PushSubscriptionPayload, PushWatchRule } from '@/types';
+
+export interface PushWatch extends PushWatchRule {
+  id: string;
+  subscription: PushSubscriptionPayload;
+  createdAt: number;
+  /** Vehicles already alerted for this watch, keyed by vehicleRef (epoch ms) */
+  notified: Record<string, number>;
+}
+
+export interface PushStore {
+  list(): Promise<PushWatch[]>;
+  get(id: string): Promise<PushWatch | null>;
+  save(watch: PushWatch): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  /** Remove every watch using a subscription endpoint (e.g. after a 410 Gone) */
+  deleteByEndpoint(endpoint: string): Promise<number>;
+}
+
+/**
+ * In-memory store for local testing (`PUSH_STORE=memory`). Watches are lost on restart.
+ */
+export class MemoryPushStore implements PushStore {
+  private watches = new Map<string, PushWatch>();
+
+  async list(): Promise<PushWatch[]> {
+    return Array.from(this.watches.values());
+  }
+
+  async get(id: string): Promise<PushWatch | null> {
+    return this.watches.get(id) ?? null;
+  }
+
+  async save(watch: PushWatch): Promise<void> {
+    this.watches.set(watch.id, watch);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.watches.delete(id);
+  }
+
+  async deleteByEndpoint(endpoint: string): Promise<number> {
+    let removed = 0;
+    for (const [id, watch] of this.watches) {
+      if (watch.subscription.endpoint === endpoint) {
+        this.watches.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * JSON file store. Writes are serialized within the process and replace the
+ * file atomically, so a crash mid-write never leaves a truncated file.
+ */
+export class FilePushStore implements PushStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async read(): Promise<Record<string, PushWatch>> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read push store at ${this.filePath}:`, error);
+      }
+      return {};
+    }
+  }
+
+  private async write(watches: Record<string, PushWatch>): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(watches, null, 2), 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  private update<T>(fn: (watches: Record<string, PushWatch>) => T): Promise<T> {
+    const next = this.queue.then(async () => {
+      const watches = await this.read();
+      const result = fn(watches);
+      await this.write(watches);
+      return result;
+    });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async list(): Promise<PushWatch[]> {
+    await this.queue;
+    return Object.values(await this.read());
+  }
+
+  async get(id: string): Promise<PushWatch | null> {
+    await this.queue;
+    return (await this.read())[id] ?? null;
+  }
+
+  save(watch: PushWatch): Promise<void> {
+    return this.update(watches => {
+      watches[watch.id] = watch;
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.update(watches => {
+      const existed = id in watches;
+      delete watches[id];
+      return existed;
+    });
+  }
+
+  deleteByEndpoint(endpoint: string): Promise<number> {
+    return this.update(watches => {
+      let removed = 0;
+      for (const [id, watch] of Object.entries(watches)) {
+        if (watch.subscription.endpoint === endpoint) {
+          delete watches[id];
+          removed++;
+        }
+      }
+      return removed;
+    });
+  }
+}
+
+let pushStore: PushStore | null = null;
+
+/**
+ * Get the configured push store. `PUSH_STORE=memory` selects the in-memory
+ * store; otherwise a JSON file at `PUSH_STORE_PATH` (default `.data/push-watches.json`).
+ */
+export function getPushStore(): PushStore {
+  if (pushStore) return pushStore;
+
+  if (process.env.PUSH_STORE === 'memory') {
+    pushStore = new MemoryPushStore();
+  } else {
+    const filePath = process.env.PUSH_STORE_PATH || path.join(process.cwd(), '.data', 'push-watches.json');
+    pushStore = new FilePushStore(filePath);
+  }
+  return pushStore;
+}
+
+/**
+ * Replace the push store, e.g. with a database-backed implementation.
+ */
+export function setPushStore(store: PushStore): void {
+  pushStore = store;
+}
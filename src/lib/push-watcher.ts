@@ -0,0 +1,203 @@
+/**
+ * Server-side watcher that turns stored push watches into Web Push alerts.
+ * Each tick polls the transit provider once per (origin, line) pair, the same
+ * way /api/bus-times does, and pushes to every watch that has a bus coming
+ * within its lead time.
+ */
+
+import webpush from 'web-push';
+import { BusResponse, PushSubscriptionPayload } from '@/types';
+import { getTransitProvider } from '@/lib/transit-provider';
+import { getWallClockTime, isWithinScheduleWindow } from '@/lib/commuteSchedule';
+import { PushStore, PushWatch, getPushStore } from '@/lib/push-store';
+
+/** How long a vehicle stays in a watch's dedup list after alerting */
+const NOTIFIED_TTL_MS = 60 * 60 * 1000;
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  tag: string;
+  url: string;
+}
+
+export interface PushWatcherDeps {
+  store: PushStore;
+  /** Fetch parsed arrivals for one origin/line; destination resolves destinationArrival */
+  fetchArrivals: (originId: string, busLine: string, destinationId: string) => Promise<BusResponse[] | null>;
+  /** Deliver one push. Resolve with the push service's HTTP status code. */
+  sendPush: (subscription: PushSubscriptionPayload, message: PushMessage) => Promise<number>;
+  now: () => Date;
+}
+
+export interface PushWatcherTickResult {
+  checked: number;
+  sent: number;
+  removed: number;
+}
+
+let vapidConfigured = false;
+
+/**
+ * Whether VAPID keys are present. Pushes can't be signed without them.
+ */
+export function isPushConfigured(): boolean {
+  return Boolean(getVapidPublicKey() && process.env.VAPID_PRIVATE_KEY);
+}
+
+export function getVapidPublicKey(): string | undefined {
+  return process.env.VAPID_PUBLIC_KEY || process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+}
+
+async function sendWebPush(subscription: PushSubscriptionPayload, message: PushMessage): Promise<number> {
+  if (!vapidConfigured) {
+    webpush.setVapidDetails(
+      process.env.VAPID_SUBJECT || 'mailto:admin@example.com',
+      getVapidPublicKey()!,
+      process.env.VAPID_PRIVATE_KEY!
+    );
+    vapidConfigured = true;
+  }
+
+  try {
+    const result = await webpush.sendNotification(subscription, JSON.stringify(message), { TTL: 120 });
+    return result.statusCode;
+  } catch (error) {
+    if (error instanceof webpush.WebPushError) {
+      return error.statusCode;
+    }
+    throw error;
+  }
+}
+
+async function fetchProviderArrivals(originId: string, busLine: string, destinationId: string): Promise<BusResponse[] | null> {
+  const provider = getTransitProvider();
+  if (!provider) return null;
+  return provider.getArrivals(busLine, originId, destinationId);
+}
+
+export function getDefaultPushWatcherDeps(): PushWatcherDeps {
+  return {
+    store: getPushStore(),
+    fetchArrivals: fetchProviderArrivals,
+    sendPush: sendWebPush,
+    now: () => new Date(),
+  };
+}
+
+export function isWatchActive(watch: PushWatch, now: Date): boolean {
+  if (!watch.window) return true;
+  return isWithinScheduleWindow(watch.window, getWallClockTime(now, watch.timeZone));
+}
+
+function buildMessage(watch: PushWatch, bus: BusResponse, minutesAway: number): PushMessage {
+  const lineName = watch.busLine.split('_').pop() ?? watch.busLine;
+  return {
+    title: `${lineName} in ${minutesAway} min`,
+    body: `${bus.proximity} · heading to ${bus.destination}`,
+    tag: `leave-${bus.vehicleRef}`,
+    url: `/?busLine=${encodeURIComponent(watch.busLine)}&originId=${encodeURIComponent(watch.originId)}&destinationId=${encodeURIComponent(watch.destinationId)}`,
+  };
+}
+
+/**
+ * Run one watcher pass. Watches outside their active window are skipped,
+ * arrivals are fetched once per origin/line, and subscriptions the push service
+ * reports as gone (404/410) are removed.
+ */
+export async function runPushWatcherTick(
+  deps: PushWatcherDeps = getDefaultPushWatcherDeps()
+): Promise<PushWatcherTickResult> {
+  const now = deps.now();
+  const nowMs = now.getTime();
+  const result: PushWatcherTickResult = { checked: 0, sent: 0, removed: 0 };
+
+  const active = (await deps.store.list()).filter(watch => isWatchActive(watch, now));
+
+  const groups = new Map<string, PushWatch[]>();
+  for (const watch of active) {
+    const key = `${watch.originId}|${watch.busLine}`;
+    groups.set(key, [...(groups.get(key) ?? []), watch]);
+  }
+
+  for (const watches of groups.values()) {
+    const { originId, busLine, destinationId } = watches[0];
+    let buses: BusResponse[] | null;
+    try {
+      buses = await deps.fetchArrivals(originId, busLine, destinationId);
+    } catch (error) {
+      console.error(`Push watcher failed to fetch arrivals for ${originId}:`, error);
+      continue;
+    }
+    if (!buses) continue;
+
+    for (const watch of watches) {
+      result.checked++;
+      let changed = false;
+
+      for (const [vehicleRef, notifiedAt] of Object.entries(watch.notified)) {
+        if (nowMs - notifiedAt > NOTIFIED_TTL_MS) {
+          delete watch.notified[vehicleRef];
+          changed = true;
+        }
+      }
+
+      const due = buses.filter(bus => {
+        if (!bus.originArrival || watch.notified[bus.vehicleRef]) return false;
+        const msAway = new Date(bus.originArrival).getTime() - nowMs;
+        return msAway >= 0 && msAway <= watch.leadMinutes * 60000;
+      });
+
+      let gone = false;
+      for (const bus of due) {
+        const minutesAway = Math.round((new Date(bus.originArrival!).getTime() - nowMs) / 60000);
+        try {
+          const status = await deps.sendPush(watch.subscription, buildMessage(watch, bus, minutesAway));
+          if (status === 404 || status === 410) {
+            gone = true;
+            break;
+          }
+          if (status >= 200 && status < 300) {
+            watch.notified[bus.vehicleRef] = nowMs;
+            changed = true;
+            result.sent++;
+          } else {
+            console.error(`Push service returned ${status} for watch ${watch.id}`);
+          }
+        } catch (error) {
+          console.error(`Failed to send push for watch ${watch.id}:`, error);
+        }
+      }
+
+      if (gone) {
+        result.removed += await deps.store.deleteByEndpoint(watch.subscription.endpoint);
+      } else if (changed) {
+        await deps.store.save(watch);
+      }
+    }
+  }
+
+  return result;
+}
+
+let watcherTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Start ticking in the background. Ticks never overlap; a slow upstream response
+ * simply delays the next one.
+ */
+export function startPushWatcher(intervalMs: number): void {
+  if (watcherTimer) return;
+  let running = false;
+  watcherTimer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runPushWatcherTick();
+    } catch (error) {
+      console.error('Push watcher tick failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
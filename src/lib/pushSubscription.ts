@@ -0,0 +1,74 @@
+/**
+ * Client side of the server push watcher: registers the service worker,
+ * subscribes through the Push API and hands the subscription plus a watch
+ * rule to /api/push/subscriptions.
+ */
+
+import { ApiResponse, PushWatchRule } from '@/types';
+
+export function isPushSupported(): boolean {
+  return typeof window !== 'undefined'
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window;
+}
+
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  const raw = atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+async function fetchPublicKey(): Promise<string> {
+  const response = await fetch('/api/push/subscriptions');
+  const result: ApiResponse<{ publicKey: string }> = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || 'Push notifications are not available');
+  }
+  return result.data.publicKey;
+}
+
+/**
+ * Subscribe this browser and register a watch rule with the server.
+ * @returns The server-side watch ID, used to unsubscribe later
+ */
+export async function subscribeToPush(rule: PushWatchRule): Promise<string> {
+  const registration = await navigator.serviceWorker.register('/sw.js');
+  await navigator.serviceWorker.ready;
+
+  let subscription = await registration.pushManager.getSubscription();
+  if (!subscription) {
+    subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(await fetchPublicKey()),
+    });
+  }
+
+  const response = await fetch('/api/push/subscriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ subscription: subscription.toJSON(), rule }),
+  });
+  const result: ApiResponse<{ id: string }> = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to register push alerts');
+  }
+  return result.data.id;
+}
+
+/**
+ * Remove a watch from the server. The browser subscription is kept, since
+ * other watches may still use it.
+ */
+export async function unsubscribeFromPush(watchId: string): Promise<void> {
+  const response = await fetch(`/api/push/subscriptions?id=${encodeURIComponent(watchId)}`, {
+    method: 'DELETE',
+  });
+  // A 404 means the server already dropped it
+  if (!response.ok && response.status !== 404) {
+    throw new Error('Failed to remove push alerts');
+  }
+}
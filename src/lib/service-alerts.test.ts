@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { describeAlertPeriod, selectAlerts } from '@/lib/service-alerts';
+import { ServiceAlert } from '@/types';
+
+const NOW = new Date('2025-10-18T12:00:00Z');
+
+function alert(id: string, overrides: Partial<ServiceAlert> = {}): ServiceAlert {
+  return {
+    id,
+    summary: id,
+    description: '',
+    severity: 'warning',
+    activePeriods: [],
+    routeIds: [],
+    stopIds: [],
+    ...overrides,
+  };
+}
+
+describe('selectAlerts', () => {
+  it('keeps alerts for the line, its stops or the whole agency', () => {
+    const selected = selectAlerts([
+      alert('line', { routeIds: ['B44'] }),
+      alert('other-line', { routeIds: ['MTA NYCT_B49'] }),
+      alert('stop', { stopIds: ['303247'] }),
+      alert('other-stop', { stopIds: ['MTA_303300'] }),
+      alert('agency'),
+    ], 'MTA NYCT_B44', ['MTA_303244', 'MTA_303247'], NOW);
+
+    expect(selected.map(a => [a.id, a.affectsSelectedStops])).toEqual([
+      ['stop', true],
+      ['line', false],
+      ['agency', false],
+    ]);
+  });
+
+  it('does not match another agency\'s line or stop with the same bare ID', () => {
+    const selected = selectAlerts([
+      alert('other-agency-line', { routeIds: ['40_100'] }),
+      alert('other-agency-stop', { stopIds: ['40_1234'] }),
+      alert('line', { routeIds: ['1_100'] }),
+    ], '1_100', ['1_1234'], NOW);
+
+    expect(selected.map(a => a.id)).toEqual(['line']);
+  });
+
+  it('drops alerts that have ended and duplicates', () => {
+    const selected = selectAlerts([
+      alert('ended', { routeIds: ['B44'], activePeriods: [{ start: null, end: '2025-10-17T00:00:00Z' }] }),
+      alert('upcoming', { routeIds: ['B44'], activePeriods: [{ start: '2025-10-20T00:00:00Z', end: null }] }),
+      alert('upcoming', { routeIds: ['B44'] }),
+    ], 'MTA NYCT_B44', [], NOW);
+
+    expect(selected.map(a => a.id)).toEqual(['upcoming']);
+  });
+
+  it('orders by severity, then start', () => {
+    const selected = selectAlerts([
+      alert('info', { severity: 'info', routeIds: ['B44'] }),
+      alert('later', { routeIds: ['B44'], activePeriods: [{ start: '2025-10-18T11:00:00Z', end: null }] }),
+      alert('earlier', { routeIds: ['B44'], activePeriods: [{ start: '2025-10-18T09:00:00Z', end: null }] }),
+      alert('severe', { severity: 'severe', routeIds: ['B44'] }),
+    ], 'MTA NYCT_B44', [], NOW);
+
+    expect(selected.map(a => a.id)).toEqual(['severe', 'earlier', 'later', 'info']);
+  });
+});
+
+describe('describeAlertPeriod', () => {
+  const describe_ = (activePeriods: ServiceAlert['activePeriods']) =>
+    describeAlertPeriod(alert('a', { activePeriods }), NOW, 'America/New_York');
+
+  it('describes the current or next period', () => {
+    expect(describe_([{ start: '2025-10-14T09:00:00Z', end: '2025-11-21T22:00:00Z' }])).toBe('Until Nov 21, 5:00 PM');
+    expect(describe_([
+      { start: '2025-10-01T09:00:00Z', end: '2025-10-02T09:00:00Z' },
+      { start: '2025-10-20T09:00:00Z', end: '2025-10-20T21:00:00Z' },
+    ])).toBe('From Oct 20, 5:00 AM until Oct 20, 5:00 PM');
+    expect(describe_([{ start: '2025-10-20T09:00:00Z', end: null }])).toBe('From Oct 20, 5:00 AM');
+  });
+
+  it('returns null without bounds', () => {
+    expect(describe_([])).toBeNull();
+    expect(describe_([{ start: '2025-10-14T09:00:00Z', end: null }])).toBeNull();
+  });
+});
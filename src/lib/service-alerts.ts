@@ -0,0 +1,76 @@
+/**
+ * Feed-independent handling of service alerts: picking the ones relevant to
+ * a line and its stops. Each feed's parser produces the ServiceAlerts.
+ */
+
+import { AlertSeverity, ServiceAlert } from '@/types';
+import { stopIdsMatch } from '@/lib/siri-parser';
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { severe: 0, warning: 1, info: 2 };
+
+/** Whether an alert hasn't ended yet (including ones that haven't started) */
+export function isAlertCurrent(alert: ServiceAlert, now: Date): boolean {
+  if (alert.activePeriods.length === 0) return true;
+  return alert.activePeriods.some(period => !period.end || new Date(period.end).getTime() >= now.getTime());
+}
+
+function periodStart(alert: ServiceAlert): number {
+  const starts = alert.activePeriods.map(period => (period.start ? new Date(period.start).getTime() : 0));
+  return starts.length > 0 ? Math.min(...starts) : 0;
+}
+
+/**
+ * Alerts for a line or its stops that haven't ended, with
+ * affectsSelectedStops set. Alerts naming neither lines nor stops apply to
+ * the whole agency and are kept. Stop-specific alerts sort first, then by
+ * severity, then by start.
+ */
+export function selectAlerts(
+  alerts: ServiceAlert[],
+  busLine: string,
+  stopIds: string[],
+  now: Date = new Date()
+): ServiceAlert[] {
+  const seen = new Set<string>();
+  const selected: ServiceAlert[] = [];
+
+  for (const alert of alerts) {
+    if (seen.has(alert.id) || !isAlertCurrent(alert, now)) continue;
+
+    const affectsSelectedStops = alert.stopIds.some(id => stopIds.some(stopId => stopIdsMatch(id, stopId)));
+    const affectsLine = alert.routeIds.some(id => stopIdsMatch(id, busLine));
+    const agencyWide = alert.routeIds.length === 0 && alert.stopIds.length === 0;
+    if (!affectsSelectedStops && !affectsLine && !agencyWide) continue;
+
+    seen.add(alert.id);
+    selected.push({ ...alert, affectsSelectedStops });
+  }
+
+  return selected.sort((a, b) =>
+    Number(b.affectsSelectedStops) - Number(a.affectsSelectedStops) ||
+    SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+    periodStart(a) - periodStart(b)
+  );
+}
+
+/**
+ * Describe when an alert applies, using its current period or else its next
+ * one: "Until Nov 21, 5:00 PM", "From Oct 14, 5:00 AM until Nov 21, 5:00 PM".
+ * Null when it has no bounds.
+ */
+export function describeAlertPeriod(alert: ServiceAlert, now: Date = new Date(), timeZone?: string): string | null {
+  const time = (iso: string) => new Date(iso).toLocaleString('en-US', {
+    month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone,
+  });
+
+  const periods = alert.activePeriods
+    .filter(period => !period.end || new Date(period.end).getTime() >= now.getTime())
+    .sort((a, b) => (a.start ? new Date(a.start).getTime() : 0) - (b.start ? new Date(b.start).getTime() : 0));
+  const period = periods[0];
+  if (!period) return null;
+
+  if (period.start && new Date(period.start).getTime() > now.getTime()) {
+    return period.end ? `From ${time(period.start)} until ${time(period.end)}` : `From ${time(period.start)}`;
+  }
+  return period.end ? `Until ${time(period.end)}` : null;
+}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  MemorySiriCacheStore,
+  RedisCommands,
+  RedisSiriCacheStore,
+  SiriCache,
+  createRedisRestClient,
+} from '@/lib/siri-cache';
+
+/** Map-backed stand-in for a Redis server */
+function redisStandIn() {
+  const data = new Map<string, { value: string; expiresAt: number }>();
+  const client: RedisCommands = {
+    get: vi.fn(async (key: string) => {
+      const entry = data.get(key);
+      return entry && entry.expiresAt >= Date.now() ? entry.value : null;
+    }),
+    set: vi.fn(async (key: string, value: string, _mode: 'PX', ttlMs: number) => {
+      data.set(key, { value, expiresAt: Date.now() + ttlMs });
+      return 'OK';
+    }),
+  };
+  return { data, client };
+}
+
+describe('SiriCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-10-18T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shares one fetch between concurrent requests', async () => {
+    const cache = new SiriCache(new MemorySiriCacheStore(), 10000);
+    let resolve!: (value: { visits: number }) => void;
+    const fetcher = vi.fn(() => new Promise<{ visits: number }>(r => { resolve = r; }));
+
+    const requests = [cache.getOrFetch('MTA_303244|B44', fetcher), cache.getOrFetch('MTA_303244|B44', fetcher)];
+    await vi.waitFor(() => expect(fetcher).toHaveBeenCalled());
+    resolve({ visits: 3 });
+
+    expect(await Promise.all(requests)).toEqual([{ visits: 3 }, { visits: 3 }]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(cache.getStats()).toEqual({ hits: 0, misses: 1, coalesced: 1, hitRate: 0.5 });
+  });
+
+  it('serves from the store until the TTL runs out', async () => {
+    const cache = new SiriCache(new MemorySiriCacheStore(), 10000);
+    let visits = 0;
+    const fetcher = vi.fn(async () => ({ visits: ++visits }));
+
+    expect(await cache.getOrFetch('key', fetcher)).toEqual({ visits: 1 });
+    vi.setSystemTime(Date.now() + 9000);
+    expect(await cache.getOrFetch('key', fetcher)).toEqual({ visits: 1 });
+    vi.setSystemTime(Date.now() + 2000);
+    expect(await cache.getOrFetch('key', fetcher)).toEqual({ visits: 2 });
+
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 2 });
+  });
+
+  it('does not cache failures', async () => {
+    const cache = new SiriCache(new MemorySiriCacheStore(), 10000);
+    const fetcher = vi.fn()
+      .mockRejectedValueOnce(new Error('upstream down'))
+      .mockResolvedValueOnce({ visits: 1 });
+
+    await expect(cache.getOrFetch('key', fetcher)).rejects.toThrow('upstream down');
+    expect(await cache.getOrFetch('key', fetcher)).toEqual({ visits: 1 });
+  });
+
+  it('fetches straight through when the store is down', async () => {
+    const store = {
+      get: vi.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+      set: vi.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+    };
+    const cache = new SiriCache(store, 10000);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await cache.getOrFetch('key', async () => ({ visits: 1 }))).toEqual({ visits: 1 });
+  });
+
+  it('can be turned off with a zero TTL', async () => {
+    const cache = new SiriCache(new MemorySiriCacheStore(), 0);
+    const fetcher = vi.fn(async () => ({ visits: 1 }));
+
+    await cache.getOrFetch('key', fetcher);
+    await cache.getOrFetch('key', fetcher);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps responses in Redis with a millisecond expiry', async () => {
+    const { data, client } = redisStandIn();
+    const cache = new SiriCache(new RedisSiriCacheStore(client), 15000);
+
+    await cache.getOrFetch('MTA_303244|B44', async () => ({ visits: 3 }));
+    // A second instance sharing the server gets a hit
+    const other = new SiriCache(new RedisSiriCacheStore(client), 15000);
+    const fetcher = vi.fn(async () => ({ visits: 4 }));
+
+    expect(await other.getOrFetch('MTA_303244|B44', fetcher)).toEqual({ visits: 3 });
+    expect(fetcher).not.toHaveBeenCalled();
+    expect(client.set).toHaveBeenCalledWith('siri:MTA_303244|B44', '{"visits":3}', 'PX', 15000);
+    expect(data.has('siri:MTA_303244|B44')).toBe(true);
+  });
+});
+
+describe('createRedisRestClient', () => {
+  it('sends commands as JSON arrays with the token', async () => {
+    const fetchMock = vi.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+      const [command] = JSON.parse(String(init?.body));
+      return Response.json({ result: command === 'GET' ? '{"visits":3}' : 'OK' });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const client = createRedisRestClient('http://redis.test', 'secret');
+
+    await client.set('siri:key', '{"visits":3}', 'PX', 10000);
+    expect(await client.get('siri:key')).toBe('{"visits":3}');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://redis.test');
+    expect(JSON.parse(String(init?.body))).toEqual(['SET', 'siri:key', '{"visits":3}', 'PX', 10000]);
+    expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer secret');
+  });
+
+  it('throws on errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: 'WRONGPASS' }, { status: 401 })));
+
+    await expect(createRedisRestClient('http://redis.test', 'bad').get('key')).rejects.toThrow('WRONGPASS');
+  });
+});
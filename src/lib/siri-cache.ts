@@ -0,0 +1,188 @@
+/**
+ * Short-lived shared cache for SIRI stop-monitoring responses.
+ * Buses barely move in a few seconds, so every request for the same
+ * MonitoringRef/LineRef within the TTL shares one upstream response, and
+ * concurrent misses share one in-flight fetch. The backend is pluggable
+ * through the SiriCacheStore interface: memory by default, or a
+ * Redis-compatible server so several instances share it.
+ */
+
+/** Responses are kept for this long unless SIRI_CACHE_TTL_MS says otherwise */
+const DEFAULT_TTL_MS = 10000;
+
+const MEMORY_CACHE_MAX = 500;
+
+export interface SiriCacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+}
+
+export interface SiriCacheStats {
+  /** Served from the store */
+  hits: number;
+  /** Fetched upstream */
+  misses: number;
+  /** Shared a fetch already in flight */
+  coalesced: number;
+}
+
+/**
+ * In-process store; each server instance keeps its own.
+ */
+export class MemorySiriCacheStore implements SiriCacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    if (this.entries.size >= MEMORY_CACHE_MAX) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+}
+
+/**
+ * The Redis commands the Redis store needs, in ioredis's calling style.
+ * Any client with this shape works, including a local stand-in.
+ */
+export interface RedisCommands {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+}
+
+export class RedisSiriCacheStore implements SiriCacheStore {
+  constructor(
+    private readonly client: RedisCommands,
+    private readonly prefix = 'siri:'
+  ) {}
+
+  get(key: string): Promise<string | null> {
+    return this.client.get(this.prefix + key);
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.set(this.prefix + key, value, 'PX', ttlMs);
+  }
+}
+
+/**
+ * RedisCommands over a Redis REST endpoint (the Upstash protocol: a JSON
+ * command array POSTed with a bearer token), which needs no client library.
+ */
+export function createRedisRestClient(url: string, token: string): RedisCommands {
+  const command = async (args: Array<string | number>): Promise<unknown> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+      cache: 'no-store',
+    });
+    const body = (await response.json().catch(() => ({}))) as { result?: unknown; error?: string };
+    if (!response.ok || body.error) {
+      throw new Error(`Redis ${args[0]} failed: ${body.error || response.status}`);
+    }
+    return body.result;
+  };
+
+  return {
+    get: async key => ((await command(['GET', key])) as string | null) ?? null,
+    set: (key, value, mode, ttlMs) => command(['SET', key, value, mode, ttlMs]),
+  };
+}
+
+export class SiriCache {
+  private inFlight = new Map<string, Promise<string>>();
+  private counters: SiriCacheStats = { hits: 0, misses: 0, coalesced: 0 };
+
+  constructor(
+    private readonly store: SiriCacheStore,
+    private readonly ttlMs: number = DEFAULT_TTL_MS
+  ) {}
+
+  /**
+   * The cached value for a key, or the fetcher's result (which is then
+   * cached). Failures aren't cached, and a store outage only costs the cache.
+   */
+  async getOrFetch<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+    if (this.ttlMs <= 0) {
+      this.counters.misses++;
+      return fetcher();
+    }
+
+    let pending = this.inFlight.get(key);
+    if (pending) {
+      this.counters.coalesced++;
+    } else {
+      pending = this.lookup(key, fetcher).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    return JSON.parse(await pending) as T;
+  }
+
+  private async lookup<T>(key: string, fetcher: () => Promise<T>): Promise<string> {
+    const cached = await this.store.get(key).catch(error => {
+      console.warn('SIRI cache read failed:', error);
+      return null;
+    });
+    if (cached !== null) {
+      this.counters.hits++;
+      return cached;
+    }
+
+    this.counters.misses++;
+    const value = JSON.stringify(await fetcher());
+    void this.store.set(key, value, this.ttlMs).catch(error => {
+      console.warn('SIRI cache write failed:', error);
+    });
+    return value;
+  }
+
+  getStats(): SiriCacheStats & { hitRate: number | null } {
+    const { hits, misses, coalesced } = this.counters;
+    const total = hits + misses + coalesced;
+    return {
+      ...this.counters,
+      hitRate: total === 0 ? null : Math.round(((hits + coalesced) / total) * 1000) / 1000,
+    };
+  }
+}
+
+let siriCache: SiriCache | null = null;
+
+/**
+ * Get the shared cache. Set SIRI_CACHE_REDIS_URL and SIRI_CACHE_REDIS_TOKEN
+ * to keep responses in a Redis REST endpoint; otherwise they're kept in
+ * memory. SIRI_CACHE_TTL_MS sets the lifetime (0 turns caching off).
+ */
+export function getSiriCache(): SiriCache {
+  if (siriCache) return siriCache;
+
+  const ttl = Number(process.env.SIRI_CACHE_TTL_MS);
+  const ttlMs = process.env.SIRI_CACHE_TTL_MS && Number.isFinite(ttl) ? ttl : DEFAULT_TTL_MS;
+  const redisUrl = process.env.SIRI_CACHE_REDIS_URL;
+  const store = redisUrl
+    ? new RedisSiriCacheStore(createRedisRestClient(redisUrl, process.env.SIRI_CACHE_REDIS_TOKEN || ''))
+    : new MemorySiriCacheStore();
+
+  siriCache = new SiriCache(store, ttlMs);
+  return siriCache;
+}
+
+/**
+ * Replace the shared cache, e.g. with one backed by another Redis client;
+ * null goes back to the environment's default.
+ */
+export function setSiriCache(cache: SiriCache | null): void {
+  siriCache = cache;
+}
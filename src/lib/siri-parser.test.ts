@@ -0,0 +1,309 @@
+import { describe, expect, it } from 'vitest';
+import { MonitoredVehicleJourney, SiriResponse, parseSiriResponse, parseSiriSituations } from '@/lib/siri-parser';
+
+const LINE = 'MTA NYCT_B44';
+
+function journey(overrides: Partial<MonitoredVehicleJourney> = {}): MonitoredVehicleJourney {
+  return {
+    VehicleRef: 'MTA NYCT_7521',
+    LineRef: LINE,
+    DestinationName: ['WILLIAMSBURG BRIDGE PLAZA'],
+    MonitoredCall: {
+      ExpectedArrivalTime: '2025-10-18T08:05:00-04:00',
+      NumberOfStopsAway: 2,
+    },
+    OnwardCalls: {
+      OnwardCall: [
+        { StopPointRef: 'MTA_303244', ExpectedArrivalTime: '2025-10-18T08:05:00-04:00' },
+        { StopPointRef: 'MTA_303247', ExpectedArrivalTime: '2025-10-18T08:12:00-04:00' },
+        { StopPointRef: 'MTA_303250', ExpectedArrivalTime: '2025-10-18T08:20:00-04:00' },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+function siri(...journeys: MonitoredVehicleJourney[]): SiriResponse {
+  return {
+    Siri: {
+      ServiceDelivery: {
+        StopMonitoringDelivery: [{ MonitoredStopVisit: journeys.map(j => ({ MonitoredVehicleJourney: j })) }],
+      },
+    },
+  };
+}
+
+describe('parseSiriResponse', () => {
+  it('returns no buses for an empty or missing delivery', () => {
+    expect(parseSiriResponse(siri(), LINE, 'MTA_303247')).toEqual({ buses: [], hasError: false });
+    expect(parseSiriResponse({ Siri: { ServiceDelivery: { StopMonitoringDelivery: [] } } }, LINE, 'MTA_303247').buses)
+      .toEqual([]);
+    expect(parseSiriResponse({} as SiriResponse, LINE, 'MTA_303247').buses).toEqual([]);
+  });
+
+  it('maps a visit to a bus response', () => {
+    const { buses } = parseSiriResponse(
+      siri(journey({ VehicleLocation: { Latitude: 40.64, Longitude: -73.95 }, Bearing: 90, ProgressRate: 'normalProgress' })),
+      LINE,
+      'MTA_303247'
+    );
+
+    expect(buses).toEqual([{
+      vehicleRef: 'MTA NYCT_7521',
+      originArrival: '2025-10-18T12:05:00.000Z',
+      aimedArrival: null,
+      originStopsAway: 2,
+      destinationArrival: '2025-10-18T12:12:00.000Z',
+      proximity: '2 stops away',
+      destination: 'WILLIAMSBURG BRIDGE PLAZA',
+      isEstimated: false,
+      vehicleLocation: { lat: 40.64, lon: -73.95 },
+      bearing: 0,
+      occupancy: null,
+      distanceMiles: null,
+      presentableDistance: null,
+      progressRate: 'normal',
+      isLayover: false,
+      layoverDeparture: null,
+    }]);
+  });
+
+  it('drops other lines and out-of-service vehicles', () => {
+    const { buses } = parseSiriResponse(
+      siri(
+        journey({ VehicleRef: 'other line', LineRef: 'MTA NYCT_B49' }),
+        journey({ VehicleRef: 'previous trip', ProgressStatus: ['prevTrip'] }),
+        journey({ VehicleRef: 'layover and previous trip', ProgressStatus: 'layover prevTrip' }),
+        journey({ VehicleRef: 'keep' })
+      ),
+      LINE,
+      'MTA_303247'
+    );
+
+    expect(buses.map(bus => bus.vehicleRef)).toEqual(['keep']);
+  });
+
+  it('keeps buses on layover with their departure from the terminal', () => {
+    const { buses } = parseSiriResponse(siri(journey({
+      ProgressStatus: ['layover'],
+      ProgressRate: 'noProgress',
+      OriginAimedDepartureTime: '2025-10-18T07:58:00-04:00',
+    })), LINE, 'MTA_303247');
+
+    expect(buses[0]).toMatchObject({
+      isLayover: true,
+      layoverDeparture: '2025-10-18T11:58:00.000Z',
+      progressRate: 'none',
+    });
+  });
+
+  it('converts the distance from the origin to miles', () => {
+    const { buses } = parseSiriResponse(siri(journey({
+      MonitoredCall: {
+        ExpectedArrivalTime: '2025-10-18T08:05:00-04:00',
+        Extensions: { Distances: { DistanceFromCall: 1287, PresentableDistance: '0.8 miles away' } },
+      },
+    })), LINE, 'MTA_303247');
+
+    expect(buses[0].distanceMiles).toBe(0.8);
+    expect(buses[0].presentableDistance).toBe('0.8 miles away');
+  });
+
+  describe('stops away', () => {
+    it('prefers NumberOfStopsAway', () => {
+      const { buses } = parseSiriResponse(siri(journey({
+        MonitoredCall: {
+          ExpectedArrivalTime: '2025-10-18T08:05:00-04:00',
+          NumberOfStopsAway: 3,
+          Extensions: { Distances: { StopsFromCall: 5, PresentableDistance: '7 stops away' } },
+        },
+      })), LINE, 'MTA_303247');
+
+      expect(buses[0].originStopsAway).toBe(3);
+    });
+
+    it('falls back to StopsFromCall', () => {
+      const { buses } = parseSiriResponse(siri(journey({
+        MonitoredCall: {
+          ExpectedArrivalTime: '2025-10-18T08:05:00-04:00',
+          Extensions: { Distances: { StopsFromCall: 5, PresentableDistance: '7 stops away' } },
+        },
+      })), LINE, 'MTA_303247');
+
+      expect(buses[0].originStopsAway).toBe(5);
+      expect(buses[0].proximity).toBe('5 stops away');
+    });
+
+    it('falls back to the number in PresentableDistance', () => {
+      const { buses } = parseSiriResponse(siri(journey({
+        MonitoredCall: {
+          ExpectedArrivalTime: '2025-10-18T08:05:00-04:00',
+          Extensions: { Distances: { PresentableDistance: '7 stops away' } },
+        },
+      })), LINE, 'MTA_303247');
+
+      expect(buses[0].originStopsAway).toBe(7);
+    });
+
+    it('treats "at stop" and missing distances as zero', () => {
+      const { buses } = parseSiriResponse(siri(
+        journey({
+          VehicleRef: 'at stop',
+          MonitoredCall: {
+            ExpectedArrivalTime: '2025-10-18T08:05:00-04:00',
+            Extensions: { Distances: { PresentableDistance: 'At Stop' } },
+          },
+        }),
+        journey({
+          VehicleRef: 'unknown',
+          MonitoredCall: { ExpectedArrivalTime: '2025-10-18T08:05:00-04:00' },
+        })
+      ), LINE, 'MTA_303247');
+
+      expect(buses.map(bus => [bus.originStopsAway, bus.proximity])).toEqual([[0, 'at stop'], [0, 'at stop']]);
+    });
+  });
+
+  describe('destination arrival', () => {
+    it.each(['MTA_303247', '303247'])('matches destination ID %s against MTA_-prefixed onward calls', (destinationId) => {
+      const { buses } = parseSiriResponse(siri(journey()), LINE, destinationId);
+
+      expect(buses[0].destinationArrival).toBe('2025-10-18T12:12:00.000Z');
+      expect(buses[0].isEstimated).toBe(false);
+    });
+
+    it('matches an MTA_-prefixed destination against bare onward call IDs', () => {
+      const { buses } = parseSiriResponse(siri(journey({
+        OnwardCalls: {
+          OnwardCall: [{ StopPointRef: '303247', ExpectedArrivalTime: '2025-10-18T08:12:00-04:00' }],
+        },
+      })), LINE, 'MTA_303247');
+
+      expect(buses[0].destinationArrival).toBe('2025-10-18T12:12:00.000Z');
+    });
+
+    it('estimates from the last onward call when the destination is beyond the listed calls', () => {
+      const { buses } = parseSiriResponse(siri(journey()), LINE, 'MTA_999999');
+
+      expect(buses[0].destinationArrival).toBe('2025-10-18T12:20:00.000Z');
+      expect(buses[0].isEstimated).toBe(true);
+    });
+
+    it('gives no estimate when the last onward call is not after the origin arrival', () => {
+      const { buses } = parseSiriResponse(siri(journey({
+        OnwardCalls: {
+          OnwardCall: [{ StopPointRef: 'MTA_303244', ExpectedArrivalTime: '2025-10-18T08:05:00-04:00' }],
+        },
+      })), LINE, 'MTA_999999');
+
+      expect(buses[0].destinationArrival).toBeNull();
+      expect(buses[0].isEstimated).toBe(false);
+    });
+
+    it('gives no arrival without onward calls', () => {
+      const { buses } = parseSiriResponse(siri(journey({ OnwardCalls: undefined })), LINE, 'MTA_303247');
+
+      expect(buses[0].destinationArrival).toBeNull();
+    });
+  });
+
+  it('converts MTA bearings to compass headings', () => {
+    const headings = [0, 90, 180, 270].map(bearing =>
+      parseSiriResponse(siri(journey({ Bearing: bearing })), LINE, 'MTA_303247').buses[0].bearing
+    );
+
+    // East, north, west, south
+    expect(headings).toEqual([90, 0, 270, 180]);
+  });
+
+  it('keeps the aimed arrival when the feed provides one', () => {
+    const { buses } = parseSiriResponse(siri(journey({
+      MonitoredCall: {
+        ExpectedArrivalTime: '2025-10-18T08:05:00-04:00',
+        AimedArrivalTime: '2025-10-18T08:03:00-04:00',
+      },
+    })), LINE, 'MTA_303247');
+
+    expect(buses[0].aimedArrival).toBe('2025-10-18T12:03:00.000Z');
+  });
+
+  it('reads occupancy from passenger counts, then the coarse Occupancy value', () => {
+    const { buses } = parseSiriResponse(siri(
+      journey({
+        VehicleRef: 'counted',
+        Occupancy: 'seatsAvailable',
+        MonitoredCall: {
+          ExpectedArrivalTime: '2025-10-18T08:05:00-04:00',
+          Extensions: { Capacities: { EstimatedPassengerCount: 52, EstimatedPassengerCapacity: 65 } },
+        },
+      }),
+      journey({ VehicleRef: 'coarse', Occupancy: 'standingAvailable' }),
+      journey({ VehicleRef: 'unknown', Occupancy: 'somethingElse' })
+    ), LINE, 'MTA_303247');
+
+    expect(buses.map(bus => bus.occupancy)).toEqual([
+      { level: 'high', passengerCount: 52, passengerCapacity: 65 },
+      { level: 'high', passengerCount: null, passengerCapacity: null },
+      null,
+    ]);
+  });
+});
+
+describe('parseSiriSituations', () => {
+  it('reads summaries, severity, validity and affected lines and stops', () => {
+    const alerts = parseSiriSituations({
+      Siri: {
+        ServiceDelivery: {
+          SituationExchangeDelivery: [{
+            Situations: {
+              PtSituationElement: [
+                {
+                  SituationNumber: 'MTA NYCT_lmm:alert:1',
+                  Summary: 'Stop closed',
+                  Description: ['Board at', 'Snyder Av.'],
+                  Severity: 'severe',
+                  PublicationWindow: { StartTime: '2025-10-01T00:00:00-04:00' },
+                  ValidityPeriod: { StartTime: '2025-10-17T22:40:00-04:00', EndTime: '2025-10-19T05:00:00-04:00' },
+                  Affects: {
+                    VehicleJourneys: { AffectedVehicleJourney: [{ LineRef: LINE }, { LineRef: LINE, DirectionRef: '1' }] },
+                    StopPoints: { AffectedStopPoint: [{ StopPointRef: 'MTA_303244' }] },
+                  },
+                },
+                {
+                  Summary: [{ value: 'Delays' }],
+                  Severity: 'undefined',
+                  PublicationWindow: { StartTime: '2025-10-18T07:05:00-04:00' },
+                },
+              ],
+            },
+          }],
+        },
+      },
+    });
+
+    expect(alerts).toEqual([
+      {
+        id: 'MTA NYCT_lmm:alert:1',
+        summary: 'Stop closed',
+        description: 'Board at Snyder Av.',
+        severity: 'severe',
+        activePeriods: [{ start: '2025-10-18T02:40:00.000Z', end: '2025-10-19T09:00:00.000Z' }],
+        routeIds: [LINE],
+        stopIds: ['MTA_303244'],
+      },
+      {
+        id: 'situation-1',
+        summary: 'Delays',
+        description: '',
+        severity: 'warning',
+        activePeriods: [{ start: '2025-10-18T11:05:00.000Z', end: null }],
+        routeIds: [],
+        stopIds: [],
+      },
+    ]);
+  });
+
+  it('returns nothing without a SituationExchangeDelivery', () => {
+    expect(parseSiriSituations({ Siri: { ServiceDelivery: {} } })).toEqual([]);
+  });
+});
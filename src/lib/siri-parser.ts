@@ -1,14 +1,23 @@
 // SIRI response interfaces and parsing utilities for MTA Bus Time API
 
-import { BusResponse } from '@/types';
+import { AlertSeverity, BusResponse, CrowdingLevel, Occupancy, ProgressRate, ServiceAlert } from '@/types';
+import { headingFromEastBearing } from '@/lib/geo';
+import { crowdingFromLoad } from '@/lib/crowding';
 
 // --- SIRI API Response Interfaces ---
 
+/** Automatic passenger counts, on buses that have them */
+export interface SiriCapacities {
+  EstimatedPassengerCount?: number;
+  EstimatedPassengerCapacity?: number;
+}
+
 export interface MonitoredCall {
   ExpectedArrivalTime: string;
   NumberOfStopsAway?: number;
   ArrivalProximityText?: string;
-  AimedArrivalTime: string;
+  /** Scheduled arrival; MTA omits it on frequency-based routes */
+  AimedArrivalTime?: string;
   Extensions?: {
     Distances?: {
       PresentableDistance?: string;
@@ -16,14 +25,32 @@ export interface MonitoredCall {
       StopsFromCall?: number;
       CallDistanceAlongRoute?: number;
     };
+    /** MTA's name; some producers use CapacityDetails */
+    Capacities?: SiriCapacities;
+    CapacityDetails?: SiriCapacities;
   };
 }
 
+export interface VehicleLocation {
+  Latitude: number;
+  Longitude: number;
+}
+
 export interface MonitoredVehicleJourney {
   VehicleRef: string;
+  VehicleLocation?: VehicleLocation;
+  /** MTA convention: degrees counter-clockwise from east */
+  Bearing?: number;
+  /** SIRI occupancy, e.g. "seatsAvailable", "standingAvailable", "full" */
+  Occupancy?: string;
+  /** e.g. "normalProgress", "noProgress", "unknown" */
+  ProgressRate?: string;
   MonitoredCall: MonitoredCall;
   DestinationName: string[];
-  ProgressStatus?: string[];
+  /** MTA sends "layover", "prevTrip" or "spooking"; absent for buses in service */
+  ProgressStatus?: string[] | string;
+  /** Scheduled departure from the first stop, sent for buses on layover */
+  OriginAimedDepartureTime?: string;
   LineRef?: string;
   PublishedLineName?: string[];
   OnwardCalls?: {
@@ -42,8 +69,35 @@ export interface StopMonitoringDelivery {
   MonitoredStopVisit: MonitoredStopVisit[];
 }
 
+/** SIRI free text; MTA sends plain strings, other producers arrays or { value } */
+type SiriText = string | string[] | { value?: string } | Array<{ value?: string }>;
+
+export interface PtSituationElement {
+  SituationNumber?: string;
+  Summary?: SiriText;
+  Description?: SiriText;
+  Severity?: string;
+  PublicationWindow?: { StartTime?: string; EndTime?: string };
+  ValidityPeriod?: { StartTime?: string; EndTime?: string } | Array<{ StartTime?: string; EndTime?: string }>;
+  Affects?: {
+    VehicleJourneys?: {
+      AffectedVehicleJourney?: Array<{ LineRef?: string; DirectionRef?: string }>;
+    };
+    StopPoints?: {
+      AffectedStopPoint?: Array<{ StopPointRef?: string }>;
+    };
+  };
+}
+
+export interface SituationExchangeDelivery {
+  Situations?: {
+    PtSituationElement?: PtSituationElement[];
+  };
+}
+
 export interface ServiceDelivery {
   StopMonitoringDelivery: StopMonitoringDelivery[];
+  SituationExchangeDelivery?: SituationExchangeDelivery[];
 }
 
 export interface SiriResponse {
@@ -52,8 +106,17 @@ export interface SiriResponse {
   };
 }
 
+/** Any SIRI delivery (stop- or vehicle-monitoring) carrying situations */
+export interface SiriSituationsResponse {
+  Siri?: {
+    ServiceDelivery?: Pick<ServiceDelivery, 'SituationExchangeDelivery'>;
+  };
+}
+
 // --- Parsing helpers ---
 
+const METERS_PER_MILE = 1609.344;
+
 function parseArrivalTime(timeStr: string, label: string): { date: Date; iso: string } | null {
   try {
     const d = new Date(timeStr);
@@ -67,6 +130,26 @@ function parseArrivalTime(timeStr: string, label: string): { date: Date; iso: st
   return null;
 }
 
+function progressStatuses(journey: MonitoredVehicleJourney): string[] {
+  const status = journey.ProgressStatus;
+  if (!status) return [];
+  return (Array.isArray(status) ? status : [status]).flatMap(value => String(value).split(/\s+/)).filter(Boolean);
+}
+
+/** DistanceFromCall is in meters */
+function extractDistanceMiles(journey: MonitoredVehicleJourney): number | null {
+  const meters = Number(journey.MonitoredCall?.Extensions?.Distances?.DistanceFromCall);
+  if (!Number.isFinite(meters) || meters < 0) return null;
+  return Math.round((meters / METERS_PER_MILE) * 100) / 100;
+}
+
+const SIRI_PROGRESS_RATES: Record<string, ProgressRate> = {
+  noprogress: 'none',
+  slowprogress: 'slow',
+  normalprogress: 'normal',
+  fastprogress: 'fast',
+};
+
 function extractStopsAway(journey: MonitoredVehicleJourney): number {
   const mc = journey.MonitoredCall;
 
@@ -109,21 +192,10 @@ function findDestinationArrival(
 
   const onwardCalls = journey.OnwardCalls.OnwardCall;
 
-  // Build ID variations for flexible matching
-  const variations = [
-    destinationId,
-    destinationId.replace("MTA_", ""),
-    `MTA_${destinationId.replace("MTA_", "")}`,
-  ];
-
-  // Exact match first, then try variations
-  let destCall = onwardCalls.find((c) => c.StopPointRef === destinationId);
-  if (!destCall) {
-    for (const variant of variations) {
-      destCall = onwardCalls.find((c) => c.StopPointRef === variant);
-      if (destCall) break;
-    }
-  }
+  // Exact match first, then ignore agency prefixes
+  const destCall =
+    onwardCalls.find((c) => c.StopPointRef === destinationId) ??
+    onwardCalls.find((c) => stopIdsMatch(c.StopPointRef, destinationId));
 
   if (destCall?.ExpectedArrivalTime) {
     const parsed = parseArrivalTime(destCall.ExpectedArrivalTime, "destination arrival");
@@ -144,13 +216,64 @@ function findDestinationArrival(
   return { arrival: null, found: false };
 }
 
-function proximityText(stopsAway: number): string {
+/**
+ * Compare stop IDs ignoring a missing agency prefix, since feeds disagree on
+ * whether to include it ("MTA_303247" vs "303247"). Two prefixed IDs must
+ * match exactly: "1_100" and "40_100" are different agencies' stops.
+ */
+export function stopIdsMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (a.includes("_") === b.includes("_")) return false;
+  const bare = (id: string) => id.slice(id.indexOf("_") + 1);
+  return bare(a) === bare(b);
+}
+
+export function proximityText(stopsAway: number): string {
   if (stopsAway === 0) return "at stop";
   if (stopsAway === 1) return "1 stop away";
   if (stopsAway > 1) return `${stopsAway} stops away`;
   return "en route";
 }
 
+function extractVehicleLocation(journey: MonitoredVehicleJourney): { lat: number; lon: number } | null {
+  const lat = Number(journey.VehicleLocation?.Latitude);
+  const lon = Number(journey.VehicleLocation?.Longitude);
+  if (!journey.VehicleLocation || !Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  return { lat, lon };
+}
+
+const SIRI_OCCUPANCY: Record<string, CrowdingLevel> = {
+  empty: 'low',
+  manyseatsavailable: 'low',
+  seatsavailable: 'low',
+  fewseatsavailable: 'medium',
+  standingavailable: 'high',
+  standingroomonly: 'high',
+  crushedstandingroomonly: 'high',
+  full: 'full',
+  notacceptingpassengers: 'full',
+};
+
+/**
+ * Crowding from passenger counts when the bus reports them, otherwise from
+ * the coarser Occupancy value.
+ */
+function extractOccupancy(journey: MonitoredVehicleJourney): Occupancy | null {
+  const extensions = journey.MonitoredCall?.Extensions;
+  const capacities = extensions?.Capacities ?? extensions?.CapacityDetails;
+  const count = Number(capacities?.EstimatedPassengerCount);
+  const capacity = Number(capacities?.EstimatedPassengerCapacity);
+  const counted = capacities ? crowdingFromLoad(count, capacity) : null;
+
+  const level = counted ?? SIRI_OCCUPANCY[String(journey.Occupancy ?? '').toLowerCase()] ?? null;
+  if (!level) return null;
+  return {
+    level,
+    passengerCount: counted ? count : null,
+    passengerCapacity: counted ? capacity : null,
+  };
+}
+
 // --- Main entry point ---
 
 export interface ParseResult {
@@ -160,7 +283,8 @@ export interface ParseResult {
 
 /**
  * Parse a SIRI StopMonitoring response into a flat list of BusResponse objects.
- * Filters by busLine, excludes out-of-service vehicles, and resolves destination arrival times.
+ * Filters by busLine, excludes out-of-service vehicles (keeping those on layover),
+ * and resolves destination arrival times.
  */
 export function parseSiriResponse(
   data: SiriResponse,
@@ -175,10 +299,12 @@ export function parseSiriResponse(
 
   const visits = deliveries[0].MonitoredStopVisit;
 
+  // Buses on layover at the terminal will be along; other statuses
+  // (finishing a previous trip, no GPS) aren't reliable enough to show
   const filteredVisits = visits.filter((visit) => {
     const correctRoute = visit.MonitoredVehicleJourney.LineRef === busLine;
-    const inService = !visit.MonitoredVehicleJourney.ProgressStatus;
-    return correctRoute && inService;
+    const usable = progressStatuses(visit.MonitoredVehicleJourney).every(status => status === 'layover');
+    return correctRoute && usable;
   });
 
   const buses: BusResponse[] = filteredVisits.map((visit) => {
@@ -190,7 +316,15 @@ export function parseSiriResponse(
       ? parseArrivalTime(journey.MonitoredCall.ExpectedArrivalTime, `origin for bus ${vehicleRef}`)
       : null;
 
+    const aimedParsed = journey.MonitoredCall?.AimedArrivalTime
+      ? parseArrivalTime(journey.MonitoredCall.AimedArrivalTime, `aimed origin for bus ${vehicleRef}`)
+      : null;
+
     const originStopsAway = extractStopsAway(journey);
+    const isLayover = progressStatuses(journey).includes('layover');
+    const layoverParsed = isLayover && journey.OriginAimedDepartureTime
+      ? parseArrivalTime(journey.OriginAimedDepartureTime, `layover departure for bus ${vehicleRef}`)
+      : null;
 
     const destination = Array.isArray(journey.DestinationName)
       ? journey.DestinationName[0] || "Unknown"
@@ -203,13 +337,86 @@ export function parseSiriResponse(
     return {
       vehicleRef,
       originArrival: originParsed?.iso ?? null,
+      aimedArrival: aimedParsed?.iso ?? null,
       originStopsAway,
       destinationArrival,
       proximity: proximityText(originStopsAway),
       destination,
       isEstimated: destinationArrival !== null && !destinationFound,
+      vehicleLocation: extractVehicleLocation(journey),
+      bearing: headingFromEastBearing(journey.Bearing),
+      occupancy: extractOccupancy(journey),
+      distanceMiles: extractDistanceMiles(journey),
+      presentableDistance: journey.MonitoredCall?.Extensions?.Distances?.PresentableDistance ?? null,
+      progressRate: SIRI_PROGRESS_RATES[String(journey.ProgressRate ?? '').toLowerCase()] ?? null,
+      isLayover,
+      layoverDeparture: layoverParsed?.iso ?? null,
     };
   });
 
   return { buses, hasError: false };
 }
+
+// --- Situations (service alerts) ---
+
+function siriText(text: SiriText | undefined): string {
+  if (!text) return '';
+  if (typeof text === 'string') return text.trim();
+  const parts = Array.isArray(text) ? text : [text];
+  return parts
+    .map(part => (typeof part === 'string' ? part : part?.value ?? ''))
+    .join(' ')
+    .trim();
+}
+
+function isoOrNull(time: string | undefined): string | null {
+  if (!time) return null;
+  const date = new Date(time);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Map a SIRI Severity (also used by OneBusAway situations). Unknown and
+ * "undefined", which MTA sends for most alerts, read as warnings.
+ */
+export function severityFromSiri(value: unknown): AlertSeverity {
+  switch (String(value ?? '').toLowerCase()) {
+    case 'severe':
+    case 'verysevere':
+      return 'severe';
+    case 'noimpact':
+    case 'veryslight':
+    case 'slight':
+      return 'info';
+    default:
+      return 'warning';
+  }
+}
+
+/**
+ * Extract service alerts from a SIRI SituationExchangeDelivery. Active
+ * periods come from ValidityPeriod, falling back to the PublicationWindow.
+ */
+export function parseSiriSituations(data: SiriSituationsResponse): ServiceAlert[] {
+  const deliveries = data.Siri?.ServiceDelivery?.SituationExchangeDelivery ?? [];
+
+  return deliveries
+    .flatMap(delivery => delivery.Situations?.PtSituationElement ?? [])
+    .map((situation, index) => {
+      const validity = situation.ValidityPeriod ?? situation.PublicationWindow;
+      const periods = (Array.isArray(validity) ? validity : validity ? [validity] : [])
+        .map(period => ({ start: isoOrNull(period.StartTime), end: isoOrNull(period.EndTime) }));
+      const journeys = situation.Affects?.VehicleJourneys?.AffectedVehicleJourney ?? [];
+      const stops = situation.Affects?.StopPoints?.AffectedStopPoint ?? [];
+
+      return {
+        id: situation.SituationNumber || `situation-${index}`,
+        summary: siriText(situation.Summary),
+        description: siriText(situation.Description),
+        severity: severityFromSiri(situation.Severity),
+        activePeriods: periods,
+        routeIds: Array.from(new Set(journeys.flatMap(journey => journey.LineRef ?? []))),
+        stopIds: Array.from(new Set(stops.flatMap(stop => stop.StopPointRef ?? []))),
+      };
+    });
+}
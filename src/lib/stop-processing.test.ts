@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { MTAApiResponse, StopGroup, buildStopsMap, processStopGroupings } from '@/lib/stop-processing';
+
+const stops = [
+  { id: 'MTA_1', code: '1', name: 'NOSTRAND AV/AV Z', lat: 40.588, lon: -73.943 },
+  { id: 'MTA_2', code: '2', name: 'NOSTRAND AV/KINGS HWY', lat: 40.608, lon: -73.946 },
+  { id: 'MTA_3', name: 'ROGERS AV/CHURCH AV', lat: 40.651, lon: -73.952 },
+];
+
+describe('buildStopsMap', () => {
+  it('reads stops from entry references', () => {
+    const map = buildStopsMap({ data: { entry: { references: { stops } } } });
+
+    expect(Object.keys(map)).toEqual(['MTA_1', 'MTA_2', 'MTA_3']);
+    expect(map.MTA_2.name).toBe('NOSTRAND AV/KINGS HWY');
+  });
+
+  it('falls back to top-level data references', () => {
+    const map = buildStopsMap({ data: { entry: {}, references: { stops } } });
+
+    expect(Object.keys(map)).toHaveLength(3);
+  });
+
+  it('prefers entry references when both are present', () => {
+    const map = buildStopsMap({
+      data: {
+        entry: { references: { stops: [stops[0]] } },
+        references: { stops },
+      },
+    });
+
+    expect(Object.keys(map)).toEqual(['MTA_1']);
+  });
+
+  it('skips stops without IDs and tolerates missing data', () => {
+    const data = { data: { references: { stops: [{ name: 'no id' }, stops[0]] } } } as unknown as MTAApiResponse;
+
+    expect(Object.keys(buildStopsMap(data))).toEqual(['MTA_1']);
+    expect(buildStopsMap({})).toEqual({});
+  });
+});
+
+describe('processStopGroupings', () => {
+  const stopsMap = Object.fromEntries(stops.map(stop => [stop.id, stop]));
+
+  it('builds directions and numbers stops in order across groups', () => {
+    const groups: StopGroup[] = [
+      { id: { id: '0' }, name: { name: 'WILLIAMSBURG' }, stopIds: ['MTA_1', 'MTA_2'] },
+      { id: { id: '1' }, name: { name: 'SHEEPSHEAD BAY' }, stopIds: ['MTA_3'] },
+    ];
+
+    const result = processStopGroupings([{ stopGroups: groups }], stopsMap);
+
+    expect(result.directions).toEqual([
+      { id: '0', name: 'WILLIAMSBURG' },
+      { id: '1', name: 'SHEEPSHEAD BAY' },
+    ]);
+    expect(result.stops).toEqual([
+      { id: 'MTA_1', code: '1', name: 'NOSTRAND AV/AV Z', direction: 'WILLIAMSBURG', sequence: 1, lat: 40.588, lon: -73.943 },
+      { id: 'MTA_2', code: '2', name: 'NOSTRAND AV/KINGS HWY', direction: 'WILLIAMSBURG', sequence: 2, lat: 40.608, lon: -73.946 },
+      { id: 'MTA_3', code: '', name: 'ROGERS AV/CHURCH AV', direction: 'SHEEPSHEAD BAY', sequence: 3, lat: 40.651, lon: -73.952 },
+    ]);
+  });
+
+  it('accepts string IDs and names and falls back to the first alternate name', () => {
+    const groups = [
+      { id: '0', name: 'WILLIAMSBURG', stopIds: ['MTA_1'] },
+      { id: { id: '1' }, name: { name: '', names: ['SHEEPSHEAD BAY'] }, stopIds: ['MTA_3'] },
+    ] as unknown as StopGroup[];
+
+    const result = processStopGroupings([{ stopGroups: groups }], stopsMap);
+
+    expect(result.directions.map(d => d.name)).toEqual(['WILLIAMSBURG', 'SHEEPSHEAD BAY']);
+  });
+
+  it('wraps a single stop ID that is not an array', () => {
+    const groups = [{ id: '0', name: 'WILLIAMSBURG', stopIds: 'MTA_2' }] as unknown as StopGroup[];
+
+    const result = processStopGroupings([{ stopGroups: groups }], stopsMap);
+
+    expect(result.stops.map(s => s.id)).toEqual(['MTA_2']);
+  });
+
+  it('skips groups without an ID or name and stops without details', () => {
+    const groups: StopGroup[] = [
+      { name: { name: 'NO ID' }, stopIds: ['MTA_1'] },
+      { id: { id: '1' }, stopIds: ['MTA_2'] },
+      { id: { id: '2' }, name: { name: 'WILLIAMSBURG' }, stopIds: ['MTA_404', 'MTA_1'] },
+    ];
+
+    const result = processStopGroupings([{ stopGroups: groups }, {}], stopsMap);
+
+    expect(result.directions).toEqual([{ id: '2', name: 'WILLIAMSBURG' }]);
+    expect(result.stops.map(s => [s.id, s.sequence])).toEqual([['MTA_1', 1]]);
+  });
+});
@@ -1,4 +1,5 @@
-import { BusStop, Direction } from '@/types';
+import { BusStop, Direction, RouteShape } from '@/types';
+import { decodePolyline, polylineLength, simplifyPolyline } from '@/lib/polyline';
 
 export interface StopReference {
   id: string;
@@ -9,13 +10,26 @@ export interface StopReference {
   [key: string]: unknown;
 }
 
+export interface EncodedPolyline {
+  points: string;
+  length?: number;
+  levels?: string;
+}
+
 export interface StopGroup {
   id?: { id: string } | string;
   name?: { name: string; names?: string[] };
   stopIds?: string[];
+  polylines?: EncodedPolyline[];
   [key: string]: unknown;
 }
 
+/** Where to reach a OneBusAway API */
+export interface ObaEndpoint {
+  baseUrl: string;
+  apiKey: string;
+}
+
 export interface MTAApiResponse {
   code?: number;
   text?: string;
@@ -85,14 +99,14 @@ function collectStopIds(
  */
 export async function fetchMissingStops(
   stopGroupings: Array<{ stopGroups?: StopGroup[] }>,
-  apiKey: string,
+  { baseUrl, apiKey }: ObaEndpoint,
   stopsMap: Record<string, StopReference>
 ): Promise<void> {
   const allStopIds = collectStopIds(stopGroupings);
 
   const stopPromises = Array.from(allStopIds).map(async (stopId) => {
     try {
-      const stopUrl = `https://bustime.mta.info/api/where/stop/${encodeURIComponent(
+      const stopUrl = `${baseUrl}/api/where/stop/${encodeURIComponent(
         stopId
       )}.json?key=${apiKey}&version=2`;
       const response = await fetch(stopUrl, {
@@ -185,3 +199,41 @@ export function processStopGroupings(
 
   return { directions, stops };
 }
+
+/** Default simplification tolerance for route shapes, in meters */
+export const SHAPE_TOLERANCE_METERS = 8;
+
+/**
+ * Decode and simplify each direction's polylines from stopGroupings.
+ * Requires the stops-for-route request to use includePolylines=true.
+ */
+export function extractRouteShapes(
+  stopGroupings: Array<{ stopGroups?: StopGroup[] }>,
+  toleranceMeters: number = SHAPE_TOLERANCE_METERS
+): RouteShape[] {
+  const shapes: RouteShape[] = [];
+
+  for (const grouping of stopGroupings) {
+    for (const group of grouping.stopGroups ?? []) {
+      const directionId = extractDirectionId(group);
+      const directionName = extractDirectionName(group);
+      if (!directionId || !directionName) continue;
+
+      const paths = (group.polylines ?? [])
+        .filter(polyline => typeof polyline?.points === "string" && polyline.points.length > 0)
+        .map(polyline => simplifyPolyline(decodePolyline(polyline.points), toleranceMeters))
+        .filter(path => path.length >= 2);
+
+      if (paths.length === 0) continue;
+
+      shapes.push({
+        directionId,
+        directionName,
+        paths,
+        lengthMiles: Math.max(...paths.map(polylineLength)),
+      });
+    }
+  }
+
+  return shapes;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { StopServiceMonitor } from '@/lib/stop-service';
+import { BusResponse } from '@/types';
+
+const NOW = new Date('2025-10-18T12:00:00Z').getTime();
+const LINE = 'MTA NYCT_B44';
+
+function bus(vehicleRef: string, minutesAway: number, overrides: Partial<BusResponse> = {}, now = NOW): BusResponse {
+  return {
+    vehicleRef,
+    originArrival: new Date(now + minutesAway * 60000).toISOString(),
+    originStopsAway: Math.max(0, Math.round(minutesAway / 2)),
+    destinationArrival: new Date(now + (minutesAway + 10) * 60000).toISOString(),
+    proximity: '',
+    destination: 'WILLIAMSBURG BRIDGE PLAZA',
+    isEstimated: false,
+    ...overrides,
+  };
+}
+
+function poll(monitor: StopServiceMonitor, minute: number, buses: (now: number) => BusResponse[]) {
+  const now = NOW + minute * 60000;
+  return monitor.observe(LINE, 'MTA_303244', 'MTA_303247', buses(now), new Date(now));
+}
+
+describe('StopServiceMonitor', () => {
+  it('has nothing to report while buses list the destination', () => {
+    const monitor = new StopServiceMonitor();
+
+    for (let minute = 0; minute < 5; minute++) {
+      expect(poll(monitor, minute, now => [bus('A', 8 - minute, {}, now)])).toEqual([]);
+    }
+  });
+
+  it('warns as soon as a destination time is estimated from the last onward call', () => {
+    const monitor = new StopServiceMonitor();
+
+    expect(poll(monitor, 0, now => [bus('A', 5, {}, now), bus('B', 12, { isEstimated: true }, now)])).toEqual([
+      { stopId: 'MTA_303247', role: 'destination', reason: 'estimated' },
+    ]);
+  });
+
+  it('warns once the destination has been missing for several polls', () => {
+    const monitor = new StopServiceMonitor();
+    const unlisted = (now: number) => [bus('A', 8, { destinationArrival: null }, now)];
+
+    expect(poll(monitor, 0, unlisted)).toEqual([]);
+    expect(poll(monitor, 1, unlisted)).toEqual([]);
+    expect(poll(monitor, 2, unlisted)).toEqual([
+      { stopId: 'MTA_303247', role: 'destination', reason: 'missing' },
+    ]);
+
+    // One bus listing it again clears the warning
+    expect(poll(monitor, 3, now => [bus('A', 8, {}, now)])).toEqual([]);
+  });
+
+  it('does not count empty polls as a missing destination', () => {
+    const monitor = new StopServiceMonitor();
+
+    for (let minute = 0; minute < 5; minute++) {
+      expect(poll(monitor, minute, () => [])).toEqual([]);
+    }
+  });
+
+  it('warns when buses drop out of the origin long before they are due', () => {
+    const monitor = new StopServiceMonitor();
+
+    poll(monitor, 0, now => [bus('A', 6, {}, now), bus('B', 14, {}, now)]);
+    expect(poll(monitor, 1, now => [bus('B', 13, {}, now)])).toEqual([]);
+    expect(poll(monitor, 2, () => [])).toEqual([
+      { stopId: 'MTA_303244', role: 'origin', reason: 'vanishing' },
+    ]);
+  });
+
+  it('treats buses that drop out when due as having served the origin', () => {
+    const monitor = new StopServiceMonitor();
+
+    poll(monitor, 0, now => [bus('A', 1, {}, now), bus('B', 9, {}, now), bus('C', 15, {}, now)]);
+    poll(monitor, 1, now => [bus('B', 8, {}, now), bus('C', 14, {}, now)]);
+    poll(monitor, 2, now => [bus('C', 13, {}, now)]);
+
+    expect(poll(monitor, 3, () => [])).toEqual([]);
+  });
+
+  it('ignores scheduled departures', () => {
+    const monitor = new StopServiceMonitor();
+    const scheduled = (now: number) => [bus('N1', 8, { destinationArrival: null, isScheduled: true }, now)];
+
+    for (let minute = 0; minute < 5; minute++) {
+      expect(poll(monitor, minute, scheduled)).toEqual([]);
+    }
+  });
+});
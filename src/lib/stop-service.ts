@@ -0,0 +1,151 @@
+/**
+ * Skipped-stop detection.
+ * Detours rarely come with an alert in time, and a bypassed stop just stops
+ * getting predictions. Follows polls of an origin/destination pair and warns
+ * when buses fall back to their last onward call for the destination, when
+ * no bus has listed the destination for several polls, or when buses keep
+ * dropping out of the origin's predictions well before they were due.
+ *
+ * State is in memory and rebuilds after a restart.
+ */
+
+import { BusResponse, StopServiceWarning } from '@/types';
+
+/** Polls of the same trip closer together than this add no information */
+const MIN_OBSERVATION_SPACING_MS = 15000;
+
+/** Polls further apart than this can't tell a skipped stop from a served one */
+const MAX_POLL_GAP_MS = 5 * 60000;
+
+/** How far back polls and dropped buses are considered */
+const WINDOW_MS = 10 * 60000;
+
+/** Polls with buses needed before a destination counts as consistently missing */
+const MIN_POLLS_FOR_MISSING = 3;
+
+/** A bus dropping out this long before it was due didn't stop at the origin */
+const EARLY_DROP_MS = 3 * 60000;
+
+/** Early drop-outs, with no bus served in between, before the origin gets a warning */
+const MIN_VANISHED_FOR_WARNING = 2;
+
+interface Poll {
+  at: number;
+  buses: number;
+  /** Buses whose onward calls include the destination */
+  destinationListed: number;
+}
+
+interface TrackedTrip {
+  polledAt: number;
+  polls: Poll[];
+  /** Last expected origin arrival of each bus in the previous poll */
+  vehicles: Map<string, number>;
+  vanishedAt: number[];
+  servedAt: number[];
+}
+
+export class StopServiceMonitor {
+  private trips = new Map<string, TrackedTrip>();
+
+  /**
+   * Feed one poll of a trip into the monitor and return the warnings it now
+   * supports. Scheduled (timetable) buses are ignored.
+   */
+  observe(
+    busLine: string,
+    originId: string,
+    destinationId: string,
+    buses: BusResponse[],
+    now: Date = new Date()
+  ): StopServiceWarning[] {
+    const key = `${busLine}|${originId}|${destinationId}`;
+    const nowMs = now.getTime();
+    const live = buses.filter(bus => bus.originArrival && !bus.isScheduled);
+    const trip = this.trips.get(key) ?? {
+      polledAt: 0, polls: [], vehicles: new Map<string, number>(), vanishedAt: [], servedAt: [],
+    };
+
+    if (nowMs - trip.polledAt >= MIN_OBSERVATION_SPACING_MS) {
+      this.record(trip, live, nowMs);
+      this.trips.set(key, trip);
+    }
+
+    for (const [tripKey, tracked] of this.trips) {
+      if (nowMs - tracked.polledAt > WINDOW_MS) this.trips.delete(tripKey);
+    }
+
+    const warnings: StopServiceWarning[] = [];
+
+    const pollsWithBuses = trip.polls.filter(poll => poll.buses > 0);
+    if (live.some(bus => bus.isEstimated)) {
+      warnings.push({ stopId: destinationId, role: 'destination', reason: 'estimated' });
+    } else if (
+      pollsWithBuses.length >= MIN_POLLS_FOR_MISSING &&
+      pollsWithBuses.every(poll => poll.destinationListed === 0)
+    ) {
+      warnings.push({ stopId: destinationId, role: 'destination', reason: 'missing' });
+    }
+
+    if (trip.vanishedAt.length >= MIN_VANISHED_FOR_WARNING && trip.servedAt.length === 0) {
+      warnings.push({ stopId: originId, role: 'origin', reason: 'vanishing' });
+    }
+
+    return warnings;
+  }
+
+  private record(trip: TrackedTrip, live: BusResponse[], nowMs: number): void {
+    const seen = new Map<string, number>();
+    for (const bus of live) {
+      const expected = new Date(bus.originArrival!).getTime();
+      if (isNaN(expected)) continue;
+      if (bus.originStopsAway === 0 && expected - nowMs <= 60000) trip.servedAt.push(nowMs);
+      seen.set(bus.vehicleRef, expected);
+    }
+
+    // Buses that dropped off since the last poll: served if they were due
+    if (nowMs - trip.polledAt <= MAX_POLL_GAP_MS) {
+      for (const [vehicleRef, expected] of trip.vehicles) {
+        if (seen.has(vehicleRef)) continue;
+        if (expected - trip.polledAt > EARLY_DROP_MS) {
+          trip.vanishedAt.push(nowMs);
+        } else {
+          trip.servedAt.push(nowMs);
+        }
+      }
+    }
+
+    trip.polls.push({
+      at: nowMs,
+      buses: live.length,
+      destinationListed: live.filter(bus => bus.destinationArrival && !bus.isEstimated).length,
+    });
+    trip.vehicles = seen;
+    trip.polledAt = nowMs;
+
+    const since = nowMs - WINDOW_MS;
+    trip.polls = trip.polls.filter(poll => poll.at > since);
+    trip.vanishedAt = trip.vanishedAt.filter(at => at > since);
+    trip.servedAt = trip.servedAt.filter(at => at > since);
+  }
+}
+
+let stopServiceMonitor: StopServiceMonitor | null = null;
+
+export function getStopServiceMonitor(): StopServiceMonitor {
+  stopServiceMonitor ??= new StopServiceMonitor();
+  return stopServiceMonitor;
+}
+
+/**
+ * Record a poll and return warnings for stops that may be skipped.
+ */
+export function checkStopService(
+  busLine: string,
+  originId: string,
+  destinationId: string,
+  buses: BusResponse[],
+  now: Date = new Date()
+): StopServiceWarning[] {
+  return getStopServiceMonitor().observe(busLine, originId, destinationId, buses, now);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { BusResponse } from '@/types';
+import { matchTransferConnections } from '@/lib/transfers';
+
+const NOW = new Date('2025-10-18T12:00:00Z').getTime();
+const LINE = 'MTA NYCT_B38';
+const at = (minutes: number) => new Date(NOW + minutes * 60000).toISOString();
+
+function bus(vehicleRef: string, origin: number, destination: number | null, isEstimated = false): BusResponse {
+  return {
+    vehicleRef,
+    originArrival: at(origin),
+    originStopsAway: 3,
+    destinationArrival: destination === null ? null : at(destination),
+    proximity: '3 stops away',
+    destination: 'TEST TERMINAL',
+    isEstimated,
+  };
+}
+
+describe('matchTransferConnections', () => {
+  it('connects each first-leg bus to the earliest catchable second-leg bus', () => {
+    const connections = matchTransferConnections(
+      [bus('first-a', 0, 10), bus('first-b', 5, 20)],
+      [bus('second-a', 11, 30), bus('second-b', 13, 32), bus('second-c', 25, 45)],
+      LINE
+    );
+
+    expect(connections.map(c => [c.vehicleRef, c.transfer?.vehicleRef, c.transfer?.waitMinutes]))
+      .toEqual([['first-a', 'second-b', 3], ['first-b', 'second-c', 5]]);
+    expect(connections[0]).toMatchObject({
+      originArrival: at(0),
+      destinationArrival: at(32),
+      isEstimated: false,
+      transfer: { busLine: LINE, transferArrival: at(10), departure: at(13) },
+    });
+  });
+
+  it('uses the minimum transfer time and the wait limit', () => {
+    const firstLeg = [bus('first', 0, 10)];
+    const secondLeg = [bus('soon', 11, 30), bus('late', 40, 60)];
+
+    expect(matchTransferConnections(firstLeg, secondLeg, LINE, { minTransferMinutes: 1 })[0].transfer?.vehicleRef)
+      .toBe('soon');
+    expect(matchTransferConnections(firstLeg, secondLeg, LINE, { minTransferMinutes: 5 })[0].transfer?.vehicleRef)
+      .toBe('late');
+    expect(matchTransferConnections(firstLeg, secondLeg, LINE, { minTransferMinutes: 5, maxWaitMinutes: 20 }))
+      .toEqual([]);
+  });
+
+  it('skips first-leg buses without a confirmed transfer arrival', () => {
+    const connections = matchTransferConnections(
+      [bus('no-time', 0, null), bus('estimated', 1, 10, true), bus('confirmed', 2, 12)],
+      [bus('second', 20, 40)],
+      LINE
+    );
+
+    expect(connections.map(c => c.vehicleRef)).toEqual(['confirmed']);
+  });
+
+  it('skips second-leg buses that do not confirm reaching the destination', () => {
+    const connections = matchTransferConnections(
+      [bus('first', 0, 10)],
+      [bus('short-turn', 13, null), bus('estimated', 14, 30, true), bus('through', 20, 40)],
+      LINE
+    );
+
+    expect(connections).toHaveLength(1);
+    expect(connections[0].transfer?.vehicleRef).toBe('through');
+    expect(connections[0].destinationArrival).toBe(at(40));
+  });
+
+  it('drops connections when no second-leg bus is left in the window', () => {
+    expect(matchTransferConnections([bus('first', 0, 10)], [bus('gone', 5, 25)], LINE)).toEqual([]);
+    expect(matchTransferConnections([bus('first', 0, 10)], [], LINE)).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Transfer matching for two-leg trips.
+ * Pairs first-leg buses arriving at the transfer stop with second-leg buses
+ * departing from it, producing one combined BusResponse per viable connection.
+ */
+
+import { BusResponse } from '@/types';
+
+export const DEFAULT_MIN_TRANSFER_MINUTES = 2;
+export const MAX_TRANSFER_WAIT_MINUTES = 45;
+
+interface MatchOptions {
+  /** Minimum minutes needed to make the transfer (walking, crossing the street) */
+  minTransferMinutes?: number;
+  /** Connections with a longer wait than this are dropped */
+  maxWaitMinutes?: number;
+}
+
+/**
+ * Match first-leg buses against second-leg departures.
+ * Each first-leg bus connects to the earliest second-leg bus leaving at least
+ * `minTransferMinutes` after it reaches the transfer stop. Only buses with
+ * confirmed (non-estimated) arrivals at the transfer stop and, for the second
+ * leg, at the final destination are used; first-leg buses without a
+ * catchable second-leg bus in the current prediction window are omitted.
+ */
+export function matchTransferConnections(
+  firstLeg: BusResponse[],
+  secondLeg: BusResponse[],
+  secondLegLine: string,
+  options: MatchOptions = {}
+): BusResponse[] {
+  const {
+    minTransferMinutes = DEFAULT_MIN_TRANSFER_MINUTES,
+    maxWaitMinutes = MAX_TRANSFER_WAIT_MINUTES,
+  } = options;
+
+  // A short turn that doesn't reach the destination can't complete the trip
+  const departures = secondLeg
+    .filter(bus => bus.originArrival && bus.destinationArrival && !bus.isEstimated)
+    .map(bus => ({ bus, time: new Date(bus.originArrival as string).getTime() }))
+    .filter(d => !isNaN(d.time))
+    .sort((a, b) => a.time - b.time);
+
+  const connections: BusResponse[] = [];
+
+  for (const bus of firstLeg) {
+    if (!bus.destinationArrival || bus.isEstimated) continue;
+    const transferTime = new Date(bus.destinationArrival).getTime();
+    if (isNaN(transferTime)) continue;
+
+    const earliestDeparture = transferTime + minTransferMinutes * 60000;
+    const next = departures.find(d => d.time >= earliestDeparture);
+    if (!next) continue;
+
+    const waitMinutes = Math.round((next.time - transferTime) / 60000);
+    if (waitMinutes > maxWaitMinutes) continue;
+
+    connections.push({
+      ...bus,
+      destinationArrival: next.bus.destinationArrival,
+      transfer: {
+        busLine: secondLegLine,
+        vehicleRef: next.bus.vehicleRef,
+        transferArrival: bus.destinationArrival,
+        departure: next.bus.originArrival as string,
+        waitMinutes,
+      },
+    });
+  }
+
+  return connections;
+}
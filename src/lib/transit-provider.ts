@@ -0,0 +1,226 @@
+/**
+ * The transit data source behind every API route. The MTA's Bus Time API is
+ * the default; any other OneBusAway deployment can be selected with
+ * TRANSIT_PROVIDER=onebusaway. A static GTFS feed can supply lines and stops
+ * (or, with TRANSIT_PROVIDER=gtfs, everything but real-time arrivals), and
+ * arrivals can come from GTFS-Realtime feeds instead (see README "Transit providers").
+ */
+
+import { NextResponse } from 'next/server';
+import { BusLine, BusResponse, BusStop, Direction, NearbyBusLine, RouteShape, ServiceAlert, StopInfo } from '@/types';
+import { OneBusAwayConfig, OneBusAwayProvider } from '@/lib/onebusaway-provider';
+import { GtfsRealtimeConfig, GtfsRealtimeProvider } from '@/lib/gtfs-realtime-provider';
+import { GtfsStaticProvider } from '@/lib/gtfs-provider';
+import { getGtfsStaticConfig } from '@/lib/gtfs-store';
+import { createMtaProvider } from '@/lib/mta-api';
+
+/** One trip of a getArrivalsBatch call */
+export interface ArrivalsQuery {
+  busLine: string;
+  originId: string;
+  destinationId: string;
+}
+
+export interface LineStops {
+  directions: Direction[];
+  stops: BusStop[];
+  /** Only present when requested with includeShapes */
+  shapes?: RouteShape[];
+}
+
+/**
+ * Methods resolve to null when the requested line or stop doesn't exist,
+ * and throw (typically a TransitProviderError) when the upstream API fails.
+ */
+export interface TransitProvider {
+  readonly id: string;
+  /** Lines matching a lowercase query (all lines when empty), sorted by short name */
+  searchLines(query: string): Promise<BusLine[]>;
+  getLine(lineId: string): Promise<BusLine | null>;
+  getStopsForLine(lineId: string, options?: { includeShapes?: boolean }): Promise<LineStops | null>;
+  getStop(stopId: string): Promise<StopInfo | null>;
+  /** Lines serving stops near a point, closest first */
+  getNearby(lat: number, lon: number, options?: { radiusMeters?: number; limit?: number }): Promise<NearbyBusLine[]>;
+  /** Real-time arrivals at the origin, with arrival times resolved at the destination */
+  getArrivals(busLine: string, originId: string, destinationId: string): Promise<BusResponse[]>;
+  /**
+   * getArrivals for several trips, settled in query order, sharing upstream
+   * requests between trips from the same origin. Optional; call it through
+   * getArrivalsBatch(), which falls back to one getArrivals per trip.
+   */
+  getArrivalsBatch?(queries: ArrivalsQuery[]): Promise<PromiseSettledResult<BusResponse[]>[]>;
+  /**
+   * Next timetabled departures from the origin that reach the destination,
+   * flagged isScheduled. Optional; only providers with schedule data have it.
+   */
+  getScheduledArrivals?(busLine: string, originId: string, destinationId: string): Promise<BusResponse[]>;
+  /**
+   * Service alerts that may concern a line or stops. Providers can return
+   * extra alerts; callers narrow them with selectAlerts. Optional.
+   */
+  getAlerts?(busLine: string, stopIds: string[]): Promise<ServiceAlert[]>;
+}
+
+/** Arrivals for several trips, batched when the provider supports it */
+export function getArrivalsBatch(
+  provider: TransitProvider,
+  queries: ArrivalsQuery[]
+): Promise<PromiseSettledResult<BusResponse[]>[]> {
+  if (provider.getArrivalsBatch) return provider.getArrivalsBatch(queries);
+  return Promise.allSettled(queries.map(({ busLine, originId, destinationId }) =>
+    provider.getArrivals(busLine, originId, destinationId)
+  ));
+}
+
+/** Whether a line's names or description contain a lowercase query (empty matches all) */
+export function lineMatchesQuery(line: BusLine, query: string): boolean {
+  if (!query) return true;
+  return (
+    line.shortName.toLowerCase().includes(query) ||
+    line.longName.toLowerCase().includes(query) ||
+    line.description.toLowerCase().includes(query)
+  );
+}
+
+/** Known OneBusAway deployments, selectable with OBA_PRESET */
+export const OBA_PRESETS: Record<string, Pick<OneBusAwayConfig, 'baseUrl' | 'agencyIds'>> = {
+  'puget-sound': {
+    baseUrl: 'https://api.pugetsound.onebusaway.org',
+    agencyIds: ['1', '40'],
+  },
+  'san-diego': {
+    baseUrl: 'https://realtime.sdmts.com/api',
+    agencyIds: ['MTS'],
+  },
+};
+
+/**
+ * Build a OneBusAway config from OBA_* variables, or null if incomplete.
+ * A preset supplies defaults that the individual variables override.
+ */
+export function getOneBusAwayConfig(env: Record<string, string | undefined> = process.env): OneBusAwayConfig | null {
+  const presetName = env.OBA_PRESET || '';
+  const preset = OBA_PRESETS[presetName];
+  if (presetName && !preset) {
+    console.error(`Unknown OBA_PRESET "${presetName}". Expected one of: ${Object.keys(OBA_PRESETS).join(', ')}`);
+    return null;
+  }
+
+  const baseUrl = (env.OBA_BASE_URL || preset?.baseUrl || '').replace(/\/+$/, '');
+  const apiKey = env.OBA_API_KEY || '';
+  const agencyIds = env.OBA_AGENCY_IDS
+    ? env.OBA_AGENCY_IDS.split(',').map(id => id.trim()).filter(Boolean)
+    : preset?.agencyIds ?? [];
+
+  if (!baseUrl || !apiKey || agencyIds.length === 0) return null;
+
+  return {
+    id: presetName || 'onebusaway',
+    baseUrl,
+    apiKey,
+    agencyIds,
+    arrivals: env.OBA_ARRIVALS === 'siri' ? 'siri' : 'oba',
+    siriOperatorRef: env.OBA_SIRI_OPERATOR_REF || undefined,
+  };
+}
+
+/**
+ * Read GTFS-RT feed settings, or null when neither GTFS_RT_TRIP_UPDATES_URL
+ * nor GTFS_RT_ALERTS_URL is set. GTFS_RT_HEADERS is a JSON object of request
+ * headers, e.g. an API key.
+ */
+export function getGtfsRealtimeConfig(env: Record<string, string | undefined> = process.env): GtfsRealtimeConfig | null {
+  const tripUpdatesUrl = env.GTFS_RT_TRIP_UPDATES_URL || undefined;
+  const alertsUrl = env.GTFS_RT_ALERTS_URL || undefined;
+  if (!tripUpdatesUrl && !alertsUrl) return null;
+
+  let headers: Record<string, string> = {};
+  if (env.GTFS_RT_HEADERS) {
+    try {
+      headers = JSON.parse(env.GTFS_RT_HEADERS);
+    } catch {
+      console.error('GTFS_RT_HEADERS is not valid JSON; sending no extra headers');
+    }
+  }
+
+  return {
+    tripUpdatesUrl,
+    vehiclePositionsUrl: env.GTFS_RT_VEHICLE_POSITIONS_URL || undefined,
+    alertsUrl,
+    headers,
+  };
+}
+
+let overrideProvider: TransitProvider | null = null;
+let cachedProvider: { key: string; provider: TransitProvider | null } | null = null;
+
+function createBaseProvider(kind: string): TransitProvider | null {
+  if (kind === 'mta') return createMtaProvider();
+
+  if (kind === 'onebusaway') {
+    const config = getOneBusAwayConfig();
+    return config ? new OneBusAwayProvider(config) : null;
+  }
+
+  console.error(`Unknown TRANSIT_PROVIDER "${kind}". Expected "mta", "onebusaway" or "gtfs"`);
+  return null;
+}
+
+function createProvider(): TransitProvider | null {
+  const kind = process.env.TRANSIT_PROVIDER || 'mta';
+
+  // TRANSIT_PROVIDER=gtfs serves static data alone; otherwise a static feed
+  // takes over lines and stops from the base provider
+  let provider: TransitProvider | null;
+  if (kind === 'gtfs') {
+    provider = new GtfsStaticProvider(null);
+  } else {
+    provider = createBaseProvider(kind);
+    if (provider && getGtfsStaticConfig()) provider = new GtfsStaticProvider(provider);
+  }
+
+  const gtfsRealtime = getGtfsRealtimeConfig();
+  return provider && gtfsRealtime ? new GtfsRealtimeProvider(gtfsRealtime, provider) : provider;
+}
+
+/**
+ * Get the configured transit provider, or null when its credentials are
+ * missing. Rebuilt whenever the relevant environment changes.
+ */
+export function getTransitProvider(): TransitProvider | null {
+  if (overrideProvider) return overrideProvider;
+
+  const key = JSON.stringify(
+    [
+      'TRANSIT_PROVIDER', 'MTA_API_KEY', 'MTA_API_BASE_URL',
+      'OBA_PRESET', 'OBA_BASE_URL', 'OBA_API_KEY', 'OBA_AGENCY_IDS', 'OBA_ARRIVALS', 'OBA_SIRI_OPERATOR_REF',
+      'GTFS_RT_TRIP_UPDATES_URL', 'GTFS_RT_VEHICLE_POSITIONS_URL', 'GTFS_RT_ALERTS_URL', 'GTFS_RT_HEADERS',
+      'GTFS_STATIC_URL', 'GTFS_STOP_AGENCY_ID',
+    ].map(name => process.env[name] ?? '')
+  );
+  if (cachedProvider?.key !== key) {
+    cachedProvider = { key, provider: createProvider() };
+  }
+  return cachedProvider.provider;
+}
+
+/**
+ * The 503 routes answer with when getTransitProvider() returns null. The
+ * details are logged rather than shown to clients.
+ */
+export function transitProviderUnavailable(): NextResponse {
+  console.error('Transit provider is not configured (check TRANSIT_PROVIDER and its API key)');
+  return NextResponse.json(
+    { success: false, error: 'Service temporarily unavailable' },
+    { status: 503 }
+  );
+}
+
+/**
+ * Replace the transit provider, e.g. with a custom implementation.
+ * Pass null to go back to a freshly built provider from the environment.
+ */
+export function setTransitProvider(provider: TransitProvider | null): void {
+  overrideProvider = provider;
+  cachedProvider = null;
+}
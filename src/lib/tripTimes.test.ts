@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { BusArrival } from '@/types';
+import { NO_WALK, getTripTimes } from '@/lib/tripTimes';
+
+const bus = (destinationArrival: string | null): BusArrival => ({
+  vehicleId: 'MTA NYCT_7521',
+  originArrival: new Date('2025-10-18T12:05:00Z'),
+  stopsAway: 2,
+  destinationArrival: destinationArrival ? new Date(destinationArrival) : null,
+  destination: 'WILLIAMSBURG BRIDGE PLAZA',
+  isEstimated: false,
+});
+
+describe('getTripTimes', () => {
+  it('adds the walks at either end to the ride', () => {
+    const times = getTripTimes(bus('2025-10-18T12:19:30Z'), { toStop: 6, fromStop: 4 });
+
+    expect(times.leaveBy.toISOString()).toBe('2025-10-18T11:59:00.000Z');
+    expect(times.rideMinutes).toBe(15);
+    expect(times.doorArrival?.toISOString()).toBe('2025-10-18T12:23:30.000Z');
+  });
+
+  it('leaves door times at the stops without walks', () => {
+    const times = getTripTimes(bus('2025-10-18T12:19:00Z'), NO_WALK);
+
+    expect(times.leaveBy.toISOString()).toBe('2025-10-18T12:05:00.000Z');
+    expect(times.doorArrival?.toISOString()).toBe('2025-10-18T12:19:00.000Z');
+  });
+
+  it('has no ride or door time without a destination arrival', () => {
+    expect(getTripTimes(bus(null), { toStop: 5, fromStop: 5 })).toMatchObject({
+      rideMinutes: null,
+      doorArrival: null,
+    });
+  });
+});
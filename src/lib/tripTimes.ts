@@ -0,0 +1,37 @@
+/**
+ * Door-to-door times for a bus: when to leave to catch it at the origin,
+ * how long the ride takes and when the rider gets to their door.
+ */
+
+import { BusArrival } from '@/types';
+
+export interface WalkMinutes {
+  /** From the door to the origin stop */
+  toStop: number;
+  /** From the destination stop to the door */
+  fromStop: number;
+}
+
+export const NO_WALK: WalkMinutes = { toStop: 0, fromStop: 0 };
+
+export interface TripTimes {
+  leaveBy: Date;
+  /** Null when the bus has no destination time */
+  rideMinutes: number | null;
+  doorArrival: Date | null;
+}
+
+export function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60000);
+}
+
+export function getTripTimes(bus: BusArrival, walk: WalkMinutes): TripTimes {
+  const destination = bus.destinationArrival;
+  return {
+    leaveBy: addMinutes(bus.originArrival, -walk.toStop),
+    rideMinutes: destination
+      ? Math.max(0, Math.round((destination.getTime() - bus.originArrival.getTime()) / 60000))
+      : null,
+    doorArrival: destination ? addMinutes(destination, walk.fromStop) : null,
+  };
+}
@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ValidationError,
+  getClientId,
+  isRateLimited,
+  sanitizeSearchQuery,
+  validateBusLineId,
+  validateCoordinates,
+  validateNumber,
+  validateSearchQuery,
+  validateStopId,
+  validateString,
+} from '@/lib/validation';
+
+function expectValidationError(fn: () => unknown, message: string, field: string) {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).message).toBe(message);
+    expect((error as ValidationError).field).toBe(field);
+    return;
+  }
+  throw new Error('Expected a ValidationError');
+}
+
+describe('validateString', () => {
+  it('trims and returns the value', () => {
+    expect(validateString('  B44 ', 'line')).toBe('B44');
+  });
+
+  it('returns an empty string for missing optional values', () => {
+    expect(validateString(null, 'line')).toBe('');
+    expect(validateString('   ', 'line')).toBe('');
+  });
+
+  it('enforces required, length and pattern', () => {
+    expectValidationError(() => validateString(undefined, 'line', { required: true }), 'line is required', 'line');
+    expectValidationError(() => validateString('a', 'line', { minLength: 2 }), 'line must be at least 2 characters long', 'line');
+    expectValidationError(() => validateString('abc', 'line', { maxLength: 2 }), 'line must be no more than 2 characters long', 'line');
+    expectValidationError(() => validateString('a!', 'line', { pattern: /^\w+$/ }), 'line has an invalid format', 'line');
+  });
+});
+
+describe('validateNumber', () => {
+  it('parses strings and passes numbers through', () => {
+    expect(validateNumber('40.5', 'lat')).toBe(40.5);
+    expect(validateNumber(7, 'days')).toBe(7);
+  });
+
+  it('returns 0 for missing optional values', () => {
+    expect(validateNumber('', 'days')).toBe(0);
+    expect(validateNumber(null, 'days')).toBe(0);
+  });
+
+  it('enforces required, numeric, integer and range', () => {
+    expectValidationError(() => validateNumber(undefined, 'days', { required: true }), 'days is required', 'days');
+    expectValidationError(() => validateNumber('abc', 'days'), 'days must be a valid number', 'days');
+    expectValidationError(() => validateNumber('1.5', 'days', { integer: true }), 'days must be an integer', 'days');
+    expectValidationError(() => validateNumber('0', 'days', { min: 1 }), 'days must be at least 1', 'days');
+    expectValidationError(() => validateNumber('366', 'days', { max: 365 }), 'days must be no more than 365', 'days');
+  });
+});
+
+describe('validateCoordinates', () => {
+  it('returns both coordinates', () => {
+    expect(validateCoordinates('40.65', '-73.95')).toEqual({ lat: 40.65, lon: -73.95 });
+  });
+
+  it('rejects missing or out-of-range coordinates', () => {
+    expectValidationError(() => validateCoordinates(null, '-73.95'), 'latitude is required', 'latitude');
+    expectValidationError(() => validateCoordinates('91', '-73.95'), 'latitude must be no more than 90', 'latitude');
+    expectValidationError(() => validateCoordinates('40', '-181'), 'longitude must be at least -180', 'longitude');
+  });
+});
+
+describe('ID validators', () => {
+  it('accept MTA line and stop IDs', () => {
+    expect(validateBusLineId('MTA NYCT_B44+')).toBe('MTA NYCT_B44+');
+    expect(validateBusLineId('MTABC_Q10')).toBe('MTABC_Q10');
+    expect(validateStopId('MTA_303244')).toBe('MTA_303244');
+  });
+
+  it('reject missing IDs and unexpected characters', () => {
+    expectValidationError(() => validateBusLineId(''), 'bus line ID is required', 'bus line ID');
+    expectValidationError(() => validateBusLineId('B44/../x'), 'bus line ID has an invalid format', 'bus line ID');
+    expectValidationError(() => validateStopId('MTA_303244;'), 'stop ID has an invalid format', 'stop ID');
+    expectValidationError(() => validateStopId('x'.repeat(101)), 'stop ID must be no more than 100 characters long', 'stop ID');
+  });
+});
+
+describe('search queries', () => {
+  it('validates and sanitizes', () => {
+    expect(validateSearchQuery('b44 sbs')).toBe('b44 sbs');
+    expect(validateSearchQuery(null)).toBe('');
+    expectValidationError(() => validateSearchQuery('b44%'), 'search query has an invalid format', 'search query');
+    expect(sanitizeSearchQuery('  B44-SBS! ')).toBe('b44-sbs');
+  });
+});
+
+describe('getClientId', () => {
+  const request = (headers: Record<string, string>) => ({ headers: new Headers(headers) });
+
+  it('uses the first forwarded address, then the real IP, then the user agent', () => {
+    expect(getClientId(request({ 'x-forwarded-for': '1.2.3.4, 10.0.0.1', 'x-real-ip': '5.6.7.8' }))).toBe('1.2.3.4');
+    expect(getClientId(request({ 'x-real-ip': '5.6.7.8' }))).toBe('5.6.7.8');
+    expect(getClientId(request({ 'user-agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0)' })))
+      .toBe('anonymous-Mozilla/5.0 (iPhone;');
+  });
+});
+
+describe('isRateLimited', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows up to the limit within the window', () => {
+    const requests = new Map<string, number[]>();
+
+    const results = Array.from({ length: 4 }, () => isRateLimited(requests, 'client', 3));
+
+    expect(results).toEqual([false, false, false, true]);
+  });
+
+  it('tracks clients separately', () => {
+    const requests = new Map<string, number[]>();
+    isRateLimited(requests, 'a', 1);
+
+    expect(isRateLimited(requests, 'a', 1)).toBe(true);
+    expect(isRateLimited(requests, 'b', 1)).toBe(false);
+  });
+
+  it('forgets requests once they leave the window', () => {
+    vi.useFakeTimers();
+    const requests = new Map<string, number[]>();
+    isRateLimited(requests, 'client', 1, 1000);
+    expect(isRateLimited(requests, 'client', 1, 1000)).toBe(true);
+
+    vi.advanceTimersByTime(1000);
+
+    expect(isRateLimited(requests, 'client', 1, 1000)).toBe(false);
+  });
+
+  it('periodically sweeps stale clients from the map', () => {
+    vi.useFakeTimers();
+    const requests = new Map<string, number[]>();
+    isRateLimited(requests, 'stale', 10, 1000);
+    vi.advanceTimersByTime(1000);
+
+    // The sweep runs every 100 calls across all maps
+    for (let i = 0; i < 100; i++) isRateLimited(requests, 'active', 1000, 1000);
+
+    expect(requests.has('stale')).toBe(false);
+    expect(requests.has('active')).toBe(true);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Regenerate the GTFS-Realtime fixtures (trip updates, vehicle positions and
+ * alerts, plus a pair of feeds without stop sequences) in this directory:
+ *
+ *   node src/test/fixtures/gtfs-rt/generate.mjs
+ *
+ * The feeds describe B44 buses heading north along Nostrand Av (the same
+ * stops as the mock MTA server) at 2025-10-18T12:00:00Z. IDs are raw GTFS
+ * IDs, without the OneBusAway agency prefixes the app uses.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import GtfsRealtimeBindings from 'gtfs-realtime-bindings';
+
+const { transit_realtime } = GtfsRealtimeBindings;
+const { ScheduleRelationship } = transit_realtime.TripUpdate.StopTimeUpdate;
+const { VehicleStopStatus, OccupancyStatus } = transit_realtime.VehiclePosition;
+const { SeverityLevel, Effect } = transit_realtime.Alert;
+
+const dir = path.dirname(fileURLToPath(import.meta.url));
+const NOW = Date.parse('2025-10-18T12:00:00Z') / 1000;
+
+// Northbound B44: stop sequence 1 is 303240 (Av Z), 11 is 303250 (Lee Av/Taylor St)
+const stopAt = (sequence) => String(303239 + sequence);
+
+/**
+ * Stop time updates for sequences `from`..11, two minutes apart, the first
+ * at `firstMinutes` after NOW.
+ */
+function stopTimeUpdates(from, firstMinutes, { delay = 0, skipped = [] } = {}) {
+  const updates = [];
+  for (let sequence = from; sequence <= 11; sequence++) {
+    const time = NOW + (firstMinutes + (sequence - from) * 2) * 60;
+    updates.push(skipped.includes(sequence)
+      ? { stopSequence: sequence, stopId: stopAt(sequence), scheduleRelationship: ScheduleRelationship.SKIPPED }
+      : { stopSequence: sequence, stopId: stopAt(sequence), arrival: { time, delay }, departure: { time, delay } });
+  }
+  return updates;
+}
+
+function tripUpdate(id, { routeId = 'B44', vehicleId, updates, canceled = false }) {
+  return {
+    id,
+    tripUpdate: {
+      trip: {
+        tripId: id,
+        routeId,
+        directionId: 0,
+        ...(canceled && { scheduleRelationship: transit_realtime.TripDescriptor.ScheduleRelationship.CANCELED }),
+      },
+      ...(vehicleId && { vehicle: { id: vehicleId } }),
+      stopTimeUpdate: updates,
+      timestamp: NOW,
+    },
+  };
+}
+
+function vehiclePosition(tripId, vehicleId, { routeId = 'B44', lat, lon, bearing, sequence, status, occupancy = {} }) {
+  return {
+    id: `vehicle-${vehicleId}`,
+    vehicle: {
+      trip: { tripId, routeId },
+      vehicle: { id: vehicleId },
+      position: { latitude: lat, longitude: lon, bearing },
+      currentStopSequence: sequence,
+      stopId: stopAt(sequence),
+      currentStatus: status,
+      ...occupancy,
+      timestamp: NOW - 20,
+    },
+  };
+}
+
+function feed(entity) {
+  const message = transit_realtime.FeedMessage.fromObject({
+    header: { gtfsRealtimeVersion: '2.0', incrementality: 0, timestamp: NOW },
+    entity,
+  });
+  return transit_realtime.FeedMessage.encode(message).finish();
+}
+
+const tripUpdates = feed([
+  // Heading to Flatbush Av, one stop before Church Av; running a minute late
+  tripUpdate('B44-north-1', { vehicleId: 'MTA NYCT_7521', updates: stopTimeUpdates(4, 1, { delay: 60 }) }),
+  // Heading to Kings Hwy, three stops before Church Av
+  tripUpdate('B44-north-2', { vehicleId: 'MTA NYCT_7488', updates: stopTimeUpdates(2, 2) }),
+  // No vehicle position; the first update still in the future is where it's heading
+  tripUpdate('B44-north-3', {
+    vehicleId: 'MTA NYCT_6210',
+    updates: [{ stopSequence: 1, stopId: stopAt(1), arrival: { time: NOW - 120 } }, ...stopTimeUpdates(2, 4)],
+  }),
+  // Already past Church Av
+  tripUpdate('B44-north-4', { vehicleId: 'MTA NYCT_6001', updates: stopTimeUpdates(7, 1) }),
+  // Skips Church Av
+  tripUpdate('B44-north-5', { vehicleId: 'MTA NYCT_6002', updates: stopTimeUpdates(3, 6, { skipped: [5] }) }),
+  // Canceled
+  tripUpdate('B44-north-6', { vehicleId: 'MTA NYCT_6003', updates: stopTimeUpdates(1, 8), canceled: true }),
+  // Another route through the same stop IDs
+  tripUpdate('B49-north-1', { routeId: 'B49', vehicleId: 'MTA NYCT_8100', updates: stopTimeUpdates(3, 1) }),
+]);
+
+const vehiclePositions = feed([
+  vehiclePosition('B44-north-1', 'MTA NYCT_7521', {
+    lat: 40.6301, lon: -73.9473, bearing: 4, sequence: 4, status: VehicleStopStatus.IN_TRANSIT_TO,
+    occupancy: { occupancyStatus: OccupancyStatus.STANDING_ROOM_ONLY },
+  }),
+  vehiclePosition('B44-north-2', 'MTA NYCT_7488', {
+    lat: 40.6081, lon: -73.9466, bearing: 358.6, sequence: 2, status: VehicleStopStatus.STOPPED_AT,
+    occupancy: { occupancyStatus: OccupancyStatus.MANY_SEATS_AVAILABLE, occupancyPercentage: 20 },
+  }),
+  vehiclePosition('B44-north-4', 'MTA NYCT_6001', {
+    lat: 40.6697, lon: -73.9506, bearing: 1, sequence: 7, status: VehicleStopStatus.IN_TRANSIT_TO,
+  }),
+  vehiclePosition('B49-north-1', 'MTA NYCT_8100', {
+    routeId: 'B49', lat: 40.6247, lon: -73.9477, bearing: 2, sequence: 3, status: VehicleStopStatus.IN_TRANSIT_TO,
+  }),
+]);
+
+// The same kind of trips from a feed that leaves out stop_sequence everywhere
+function without(field) {
+  return (object) => {
+    const copy = { ...object };
+    delete copy[field];
+    return copy;
+  };
+}
+
+const unsequencedTripUpdates = feed([
+  // Heading to the stop two before Church Av
+  tripUpdate('B44-north-1', {
+    vehicleId: 'MTA NYCT_7521',
+    updates: stopTimeUpdates(3, 1).map(without('stopSequence')),
+  }),
+  // Heading to the stop three before Church Av
+  tripUpdate('B44-north-2', {
+    vehicleId: 'MTA NYCT_7488',
+    updates: stopTimeUpdates(2, 2).map(without('stopSequence')),
+  }),
+]);
+
+const unsequencedVehiclePositions = feed([
+  vehiclePosition('B44-north-1', 'MTA NYCT_7521', {
+    lat: 40.6247, lon: -73.9477, bearing: 2, sequence: 3, status: VehicleStopStatus.IN_TRANSIT_TO,
+  }),
+].map(({ id, vehicle }) => ({ id, vehicle: without('currentStopSequence')(vehicle) })));
+
+const text = (value) => ({ translation: [{ text: value, language: 'en' }] });
+
+function alert(id, { informedEntity, header, description, severityLevel, effect, activePeriod = [] }) {
+  return {
+    id,
+    alert: {
+      activePeriod,
+      informedEntity,
+      headerText: text(header),
+      descriptionText: text(description),
+      severityLevel,
+      effect,
+    },
+  };
+}
+
+const alerts = feed([
+  // Whole-line detour, open-ended
+  alert('detour-b44', {
+    informedEntity: [{ agencyId: 'MTA NYCT', routeId: 'B44' }],
+    header: 'B44 buses are detoured between Church Av and Empire Blvd',
+    description: 'Buses run on Rogers Av because of road work on Nostrand Av.',
+    severityLevel: SeverityLevel.WARNING,
+    effect: Effect.DETOUR,
+    activePeriod: [{ start: NOW - 86400 }],
+  }),
+  // Church Av stop closed; Spanish translation listed first
+  {
+    id: 'closure-303244',
+    alert: {
+      activePeriod: [{ start: NOW - 3600, end: NOW + 7200 }],
+      informedEntity: [{ routeId: 'B44', stopId: '303244' }],
+      headerText: {
+        translation: [
+          { text: 'Parada cerrada en Nostrand Av/Church Av', language: 'es' },
+          { text: 'Stop closed at Nostrand Av/Church Av', language: 'en' },
+        ],
+      },
+      descriptionText: text('Board at Nostrand Av/Snyder Av.'),
+      severityLevel: SeverityLevel.SEVERE,
+      effect: Effect.STOP_MOVED,
+    },
+  },
+  // Finished yesterday
+  alert('ended-b44', {
+    informedEntity: [{ trip: { routeId: 'B44' } }],
+    header: 'B44 SBS stops relocated',
+    description: 'This work has been completed.',
+    severityLevel: SeverityLevel.INFO,
+    effect: Effect.OTHER_EFFECT,
+    activePeriod: [{ start: NOW - 3 * 86400, end: NOW - 86400 }],
+  }),
+  // Another route
+  alert('delays-b49', {
+    informedEntity: [{ routeId: 'B49' }],
+    header: 'B49 buses are running with delays',
+    description: 'Allow additional travel time.',
+    severityLevel: SeverityLevel.UNKNOWN_SEVERITY,
+    effect: Effect.SIGNIFICANT_DELAYS,
+  }),
+]);
+
+fs.writeFileSync(path.join(dir, 'trip-updates.pb'), tripUpdates);
+fs.writeFileSync(path.join(dir, 'vehicle-positions.pb'), vehiclePositions);
+fs.writeFileSync(path.join(dir, 'alerts.pb'), alerts);
+fs.writeFileSync(path.join(dir, 'trip-updates-unsequenced.pb'), unsequencedTripUpdates);
+fs.writeFileSync(path.join(dir, 'vehicle-positions-unsequenced.pb'), unsequencedVehiclePositions);
+console.info(`Wrote ${tripUpdates.length}, ${vehiclePositions.length} and ${alerts.length} bytes to ${dir}`);
@@ -0,0 +1,78 @@
+/**
+ * A small static GTFS feed for tests, zipped in memory: B44 along Nostrand
+ * Av (the same stops as the mock MTA server) plus a B49 sharing two stops.
+ */
+
+import { strToU8, zipSync } from 'fflate';
+
+export const GTFS_FILES: Record<string, string> = {
+  'agency.txt': `agency_id,agency_name,agency_url,agency_timezone
+MTA NYCT,MTA New York City Transit,https://new.mta.info,America/New_York
+`,
+  'stops.txt': `stop_id,stop_code,stop_name,stop_lat,stop_lon,location_type
+303244,303244,NOSTRAND AV/CHURCH AV,40.6506,-73.9496,0
+303245,303245,NOSTRAND AV/LINDEN BLVD,40.6557,-73.9500,0
+303246,303246,NOSTRAND AV/RUTLAND RD,40.6601,-73.9505,
+303247,303247,"NOSTRAND AV/EMPIRE BLVD",40.6634,-73.9508,0
+STATION,,Nostrand Av Station,40.6600,-73.9504,1
+`,
+  'routes.txt': `agency_id,route_id,route_short_name,route_long_name,route_desc,route_type
+MTA NYCT,B44,B44,Sheepshead Bay - Williamsburg,"via Nostrand Av, New York Av",3
+MTA NYCT,B49,B49,Bed-Stuy - Manhattan Beach,via Rogers Av,3
+`,
+  'trips.txt': `route_id,service_id,trip_id,trip_headsign,direction_id,shape_id
+B44,WKD,N1,WILLIAMSBURG BRIDGE PLAZA,0,NORTH
+B44,WKD,N2,WILLIAMSBURG BRIDGE PLAZA,0,NORTH
+B44,WKD,N3,FLATBUSH AV,0,NORTH
+B44,WKD,LATE,WILLIAMSBURG BRIDGE PLAZA,0,NORTH
+B44,WKD,S1,SHEEPSHEAD BAY,1,SOUTH
+B49,WKD,B49-1,BED-STUY,0,
+`,
+  'stop_times.txt': `trip_id,arrival_time,departure_time,stop_id,stop_sequence
+N1,08:00:00,08:00:00,303244,1
+N1,08:03:00,08:03:00,303245,2
+N1,,,303246,3
+N1,08:08:00,08:08:00,303247,4
+N2,08:23:00,08:23:00,303247,4
+N2,08:15:00,08:15:00,303244,1
+N2,08:18:00,08:18:00,303245,2
+N2,08:20:00,08:20:00,303246,3
+N3,08:20:00,08:20:00,303244,1
+N3,08:23:00,08:23:00,303245,2
+LATE,24:30:00,24:30:00,303244,1
+LATE,24:33:00,24:33:00,303245,2
+LATE,24:36:00,24:36:00,303246,3
+LATE,24:40:00,24:40:00,303247,4
+S1,09:00:00,09:00:00,303247,1
+S1,09:03:00,09:03:00,303246,2
+S1,09:06:00,09:06:00,303245,3
+S1,09:10:00,09:10:00,303244,4
+B49-1,08:05:00,08:05:00,303244,1
+B49-1,08:09:00,08:09:00,303245,2
+`,
+  'calendar.txt': `service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date
+WKD,1,1,1,1,1,0,0,20250101,20251231
+`,
+  'calendar_dates.txt': `service_id,date,exception_type
+WKD,20251013,2
+`,
+  'shapes.txt': `shape_id,shape_pt_lat,shape_pt_lon,shape_pt_sequence
+NORTH,40.6634,-73.9508,3
+NORTH,40.6506,-73.9496,1
+NORTH,40.6557,-73.9500,2
+SOUTH,40.6634,-73.9508,1
+SOUTH,40.6506,-73.9496,2
+`,
+};
+
+/**
+ * Zip the test feed, with files replaced (or removed, when null) by `overrides`.
+ */
+export function buildGtfsZip(overrides: Record<string, string | null> = {}, folder = ''): Uint8Array<ArrayBuffer> {
+  const files: Record<string, Uint8Array> = {};
+  for (const [name, text] of Object.entries({ ...GTFS_FILES, ...overrides })) {
+    if (text !== null) files[`${folder}${name}`] = strToU8(text);
+  }
+  // Copied so it's typed over a plain ArrayBuffer, as Response bodies require
+  return new Uint8Array(zipSync(files));
+}
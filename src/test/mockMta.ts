@@ -0,0 +1,60 @@
+/**
+ * Shared helpers for route tests: a fetch stub backed by the mock MTA server
+ * in mock-mta/, and NextRequest construction.
+ */
+
+import { vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createMockMta, type MockMtaOptions } from '../../mock-mta/server.mjs';
+import { setTransitProvider } from '@/lib/transit-provider';
+import { setSiriCache } from '@/lib/siri-cache';
+
+export const MOCK_MTA_BASE_URL = 'http://mock-mta.test';
+
+/**
+ * Point the MTA provider at the mock and route global fetch into it.
+ * Requests to any other host fail loudly. The provider and SIRI cache are
+ * rebuilt so no cached stops or arrivals carry over from another test.
+ */
+export function stubMtaFetch(options: MockMtaOptions = {}) {
+  const mock = createMockMta(options);
+
+  vi.stubEnv('MTA_API_KEY', 'test-key');
+  vi.stubEnv('MTA_API_BASE_URL', MOCK_MTA_BASE_URL);
+  setTransitProvider(null);
+  setSiriCache(null);
+
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : String(input);
+    if (!url.startsWith(MOCK_MTA_BASE_URL)) {
+      throw new Error(`Unexpected fetch in test: ${url}`);
+    }
+    const { status, contentType, body } = await mock.handle(init?.method ?? 'GET', url);
+    return new Response(body, { status, headers: { 'Content-Type': contentType } });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+
+  return { mock, fetch: fetchMock };
+}
+
+let clientCounter = 0;
+
+/**
+ * Build a request to an app route. Each call gets its own client address so
+ * per-client rate limits don't leak between tests. A body is sent as JSON,
+ * with POST unless another method is given.
+ */
+export function apiRequest(
+  path: string,
+  init: { clientId?: string; headers?: Record<string, string>; method?: string; body?: unknown } = {}
+) {
+  return new NextRequest(`http://localhost${path}`, {
+    method: init.method ?? (init.body === undefined ? 'GET' : 'POST'),
+    headers: {
+      'x-forwarded-for': init.clientId ?? `10.0.0.${++clientCounter}`,
+      ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+      ...init.headers,
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+}
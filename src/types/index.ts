@@ -23,6 +23,28 @@ export interface Direction {
   name: string;
 }
 
+export interface RouteShape {
+  directionId: string;
+  directionName: string;
+  /** Simplified shapes as [lat, lon] pairs; branching routes have several */
+  paths: [number, number][][];
+  /** Length of the longest path, in miles */
+  lengthMiles: number;
+}
+
+/** How full a bus is: seats free, few seats, standing room only, full */
+export type CrowdingLevel = 'low' | 'medium' | 'high' | 'full';
+
+/** SIRI ProgressRate: how the bus is moving compared with its schedule */
+export type ProgressRate = 'none' | 'slow' | 'normal' | 'fast';
+
+export interface Occupancy {
+  level: CrowdingLevel;
+  /** Estimated riders on board, when the feed counts them */
+  passengerCount: number | null;
+  passengerCapacity: number | null;
+}
+
 export interface BusArrival {
   vehicleId: string;
   originArrival: Date;
@@ -30,24 +52,209 @@ export interface BusArrival {
   destinationArrival: Date | null;
   destination: string;
   isEstimated: boolean;
+  /** Timetabled departure shown while no real-time buses are reported */
+  isScheduled?: boolean;
+  uncertaintyMinutes?: number | null;
+  location?: { lat: number; lon: number } | null;
+  bearing?: number | null;
+  occupancy?: Occupancy | null;
+  distanceMiles?: number | null;
+  presentableDistance?: string | null;
+  progressRate?: ProgressRate | null;
+  isLayover?: boolean;
+  layoverDeparture?: Date | null;
+  transfer?: {
+    busLine: string;
+    vehicleId: string;
+    departure: Date;
+    waitMinutes: number;
+  };
+}
+
+export interface TransferConnection {
+  busLine: string;
+  vehicleRef: string;
+  /** When the first-leg bus reaches the transfer stop */
+  transferArrival: string;
+  /** When the second-leg bus leaves the transfer stop */
+  departure: string;
+  waitMinutes: number;
 }
 
 export interface BusResponse {
   vehicleRef: string;
   originArrival: string | null;
+  /** Scheduled origin arrival, when the feed provides one */
+  aimedArrival?: string | null;
+  /** Typical prediction error (minutes) at this lead time, once enough history exists */
+  uncertaintyMinutes?: number | null;
   originStopsAway: number;
   destinationArrival: string | null;
   proximity: string;
   destination: string;
   isEstimated: boolean;
+  /**
+   * From the timetable rather than a live vehicle: times are scheduled and
+   * originStopsAway is 0. Only returned when no real-time buses are reported.
+   */
+  isScheduled?: boolean;
+  transfer?: TransferConnection;
+  /** Last reported vehicle position */
+  vehicleLocation?: { lat: number; lon: number } | null;
+  /** Compass heading in degrees (0 = north, clockwise) */
+  bearing?: number | null;
+  /** How crowded the bus is, when the feed reports it */
+  occupancy?: Occupancy | null;
+  /** Distance along the route to the origin stop, in miles */
+  distanceMiles?: number | null;
+  /** The feed's own wording of that distance, e.g. "2 stops away" */
+  presentableDistance?: string | null;
+  progressRate?: ProgressRate | null;
+  /** Waiting at the first stop of its route before starting this trip */
+  isLayover?: boolean;
+  /** When a layover bus is due to leave the terminal */
+  layoverDeparture?: string | null;
+}
+
+/** A selected stop that recent deliveries suggest buses aren't serving (e.g. a detour) */
+export interface StopServiceWarning {
+  stopId: string;
+  role: 'origin' | 'destination';
+  /**
+   * estimated: buses don't list the destination, so its time is taken from
+   *   their last listed stop
+   * missing: no bus has listed the destination for several polls
+   * vanishing: buses keep dropping out of the origin's predictions before they're due
+   */
+  reason: 'estimated' | 'missing' | 'vanishing';
 }
 
 export interface BusData {
   originName: string;
   destinationName: string;
+  transferName?: string;
   buses: BusResponse[];
+  /** Set when the origin or destination may be skipped */
+  stopWarnings?: StopServiceWarning[];
   hasError?: boolean;
   errorMessage?: string;
+  /** Set by the service worker when serving the last payload while offline */
+  stale?: boolean;
+  /** ISO time the stale payload was originally fetched */
+  fetchedAt?: string | null;
+}
+
+/** What changed since the last arrivals sent on /api/bus-times/stream */
+export interface ArrivalsDiff {
+  added: BusResponse[];
+  updated: BusResponse[];
+  /** vehicleRefs no longer listed */
+  departed: string[];
+  /** Replaces the previous warnings; omitted when unchanged */
+  stopWarnings?: StopServiceWarning[];
+}
+
+export type AlertSeverity = 'info' | 'warning' | 'severe';
+
+export interface ServiceAlert {
+  id: string;
+  summary: string;
+  description: string;
+  severity: AlertSeverity;
+  /** ISO times; a null start or end is open-ended. Empty means always active */
+  activePeriods: Array<{ start: string | null; end: string | null }>;
+  /** Lines the alert names, as the feed reports them */
+  routeIds: string[];
+  /** Stops the alert names, as the feed reports them */
+  stopIds: string[];
+  /** Set by /api/alerts when the alert names the requested origin or destination */
+  affectsSelectedStops?: boolean;
+}
+
+export interface AlertsData {
+  alerts: ServiceAlert[];
+}
+
+export interface CommuteSchedule {
+  /** Days of week the schedule applies to (0 = Sunday) */
+  days: number[];
+  /** Window start as "HH:MM" */
+  start: string;
+  /** Window end as "HH:MM"; earlier than start wraps past midnight */
+  end: string;
+  location?: {
+    lat: number;
+    lon: number;
+    radiusMiles: number;
+  };
+}
+
+export interface TripLeg {
+  busLineId: string;
+  lineName: string;
+  originId: string;
+  destinationId: string;
+}
+
+/** How an arrival compares with the arrive-by cutoff */
+export type BusStatus = 'early' | 'normal' | 'warning' | 'late';
+
+/** A cutoff that replaces the usual one on some days of the week */
+export interface DayCutoff {
+  /** 0 (Sunday) to 6 */
+  days: number[];
+  /** "HH:MM" */
+  time: string;
+}
+
+export interface CutoffRules {
+  /** Checked in order; a day uses the first rule listing it */
+  dayCutoffs: DayCutoff[];
+  /** Minutes before the cutoff that count as cutting it close */
+  warningMinutes: number;
+  /** "HH:MM" before which arriving is too early to be useful; '' for none */
+  earliest: string;
+}
+
+export interface SavedCommute {
+  id: string;
+  name: string;
+  busLineId: string;
+  lineName: string;
+  originId: string;
+  destinationId: string;
+  enableCutoff: boolean;
+  cutoffTime: string;
+  /** Per-day cutoffs, warning margin and early bound; defaults when absent */
+  cutoffRules?: CutoffRules;
+  schedule?: CommuteSchedule;
+  /** Optional second leg boarded after getting off at destinationId */
+  transfer?: TripLeg;
+  /** Minutes from the door to the origin stop */
+  walkToStopMinutes?: number;
+  /** Minutes from the last stop to the door; the cutoff applies to door arrival */
+  walkFromStopMinutes?: number;
+}
+
+export interface PushSubscriptionPayload {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface PushWatchRule {
+  busLine: string;
+  originId: string;
+  destinationId: string;
+  /** Alert when a bus is this many minutes from the origin */
+  leadMinutes: number;
+  /** Optional active window; the watch is idle outside it */
+  window?: Pick<CommuteSchedule, 'days' | 'start' | 'end'>;
+  /** IANA time zone the window is expressed in */
+  timeZone: string;
 }
 
 export interface NearbyBusLine extends BusLine {
@@ -83,6 +290,62 @@ export class ValidationError extends Error {
   }
 }
 
+/** An upstream transit API answered with an error */
+export class TransitProviderError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'TransitProviderError';
+  }
+}
+
+export interface PredictionErrorBucket {
+  /** Lead-time range the predictions were made at, e.g. "5-10" (minutes) */
+  leadMinutes: string;
+  samples: number;
+  medianAbsErrorMinutes: number | null;
+}
+
+export interface PredictionAccuracy {
+  busLine: string;
+  /** Predictions resolved against an observed arrival */
+  samples: number;
+  byLeadTime: Array<PredictionErrorBucket & {
+    /** 80th percentile of absolute error, used for the "±" band */
+    p80AbsErrorMinutes: number | null;
+    /** Positive when buses tend to arrive later than predicted */
+    medianBiasMinutes: number | null;
+  }>;
+}
+
+export interface ArrivalStats {
+  busLine: string;
+  originId: string;
+  destinationId: string;
+  /** Start of the period the stats cover (ISO) */
+  since: string;
+  /** Observed departures from the origin */
+  trips: number;
+  medianHeadwayMinutes: number | null;
+  predictionError: {
+    samples: number;
+    medianAbsErrorMinutes: number | null;
+    /** Positive when buses tend to arrive later than predicted */
+    medianBiasMinutes: number | null;
+    byLeadTime: PredictionErrorBucket[];
+  };
+  rideDurationByHour: Array<{ hour: number; trips: number; medianMinutes: number }>;
+  cutoff?: {
+    time: string;
+    /** Trips leaving within this many minutes before the cutoff are counted */
+    windowMinutes: number;
+    trips: number;
+    onTimeShare: number | null;
+  };
+}
+
 // API Request/Response types
 export interface ApiSuccessResponse<T> {
   success: true;